@@ -14,6 +14,9 @@ import RegisterPage from "./pages/auth/register";
 import ForgotPasswordPage from "./pages/auth/forgot-password";
 import ResetPasswordPage from "./pages/auth/reset-password";
 import RolesPage from "./pages/roles";
+import ProfilePage from "./pages/profile";
+import CheckInPage from "./pages/events/check-in";
+import CertificateTemplatesPage from "./pages/certificates/templates";
 import { useAuth } from "./hooks/useAuth";
 
 // Temporary placeholders for pages that don't exist yet
@@ -28,7 +31,6 @@ const MediaPage = () => <div>Media Page</div>;
 const ReportsPage = () => <div>Reports Page</div>;
 const LogsPage = () => <div>Logs Page</div>;
 const SettingsPage = () => <div>Settings Page</div>;
-const ProfilePage = () => <div>Profile Page</div>;
 
 // ProtectedRoute component to handle authentication
 function ProtectedRoute({ component: Component, ...rest }: { component: React.ComponentType<any>, [key: string]: any }) {
@@ -60,8 +62,10 @@ function AppRoutes() {
       <Route path="/dashboard" component={() => <ProtectedRoute component={Dashboard} />} />
       <Route path="/events" component={() => <ProtectedRoute component={EventsPage} />} />
       <Route path="/events/create" component={() => <ProtectedRoute component={CreateEventPage} />} />
+      <Route path="/events/:id/check-in" component={(params: any) => <ProtectedRoute component={CheckInPage} id={params.params.id} />} />
       <Route path="/events/:id" component={(params: any) => <ProtectedRoute component={EventDetailsPage} id={params.params.id} />} />
       <Route path="/certificates" component={() => <ProtectedRoute component={CertificatesPage} />} />
+      <Route path="/certificates/templates" component={() => <ProtectedRoute component={CertificateTemplatesPage} />} />
       <Route path="/certificates/:id" component={(params: any) => <ProtectedRoute component={CertificateDetailsPage} id={params.params.id} />} />
       <Route path="/users" component={() => <ProtectedRoute component={UsersPage} />} />
       <Route path="/roles" component={() => <ProtectedRoute component={RolesPage} />} />
@@ -0,0 +1,113 @@
+import React, { useState } from "react";
+import { useTranslation } from "react-i18next";
+import { useMutation } from "@tanstack/react-query";
+import { Loader2, PenLine } from "lucide-react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, getApiErrorBody, queryClient } from "@/lib/queryClient";
+
+interface AmendCertificateDialogProps {
+  certificateId: number;
+  holderName: string;
+}
+
+/**
+ * Corrects the name printed on a certificate. The certificate keeps its
+ * number and is signed again; the previous version stays in its history.
+ */
+const AmendCertificateDialog: React.FC<AmendCertificateDialogProps> = ({ certificateId, holderName }) => {
+  const { t } = useTranslation();
+  const { toast } = useToast();
+  const [open, setOpen] = useState(false);
+  const [name, setName] = useState(holderName);
+  const [reason, setReason] = useState("");
+
+  const { mutate: amendCertificate, isPending } = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", `/api/certificates/${certificateId}/amend`, {
+        holderName: name,
+        reason,
+      });
+      return response.json();
+    },
+    onSuccess: () => {
+      toast({ title: t("certificates.amendment.success") });
+      setOpen(false);
+      setReason("");
+      queryClient.invalidateQueries({ queryKey: [`/api/certificates/${certificateId}`] });
+      queryClient.invalidateQueries({ queryKey: [`/api/certificates/${certificateId}/versions`] });
+      queryClient.invalidateQueries({ queryKey: ["/api/certificates"] });
+    },
+    onError: (error) => {
+      console.error("Error amending certificate:", error);
+      toast({
+        title: t("common.error"),
+        description: getApiErrorBody(error)?.message ?? t("certificates.amendment.error"),
+        variant: "destructive",
+      });
+    },
+  });
+
+  const canSubmit = name.trim().length >= 2 && name.trim() !== holderName && reason.trim().length >= 3;
+
+  return (
+    <Dialog
+      open={open}
+      onOpenChange={(value) => {
+        setOpen(value);
+        if (value) setName(holderName);
+      }}
+    >
+      <DialogTrigger asChild>
+        <Button variant="outline" className="ml-3">
+          <PenLine className="h-4 w-4 mr-2" />
+          {t("certificates.amendment.correctName")}
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-[425px]">
+        <DialogHeader>
+          <DialogTitle>{t("certificates.amendment.title")}</DialogTitle>
+          <DialogDescription>{t("certificates.amendment.description")}</DialogDescription>
+        </DialogHeader>
+        <div className="grid gap-4 py-4">
+          <div className="grid gap-2">
+            <Label htmlFor="holderName">{t("certificates.amendment.holderName")}</Label>
+            <Input id="holderName" value={name} onChange={(e) => setName(e.target.value)} />
+          </div>
+          <div className="grid gap-2">
+            <Label htmlFor="amendReason">{t("certificates.amendment.reason")}</Label>
+            <Textarea
+              id="amendReason"
+              value={reason}
+              onChange={(e) => setReason(e.target.value)}
+              placeholder={t("certificates.amendment.reasonPlaceholder")}
+            />
+          </div>
+        </div>
+        <DialogFooter>
+          <Button variant="outline" onClick={() => setOpen(false)} disabled={isPending}>
+            {t("common.cancel")}
+          </Button>
+          <Button onClick={() => amendCertificate()} disabled={isPending || !canSubmit}>
+            {isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            {t("certificates.amendment.submit")}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default AmendCertificateDialog;
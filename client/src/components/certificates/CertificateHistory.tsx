@@ -0,0 +1,71 @@
+import React from "react";
+import { useTranslation } from "react-i18next";
+import { useQuery } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Skeleton } from "@/components/ui/skeleton";
+import type { CertificateVersion } from "@shared/schema";
+
+interface CertificateHistoryProps {
+  certificateId: number;
+}
+
+const CHANGE_VARIANTS: Record<CertificateVersion["change"], "default" | "secondary" | "outline" | "destructive"> = {
+  issued: "default",
+  reissued: "secondary",
+  amended: "outline",
+  revoked: "destructive",
+};
+
+/**
+ * Every issue, reissue, correction and revocation of a certificate, newest first
+ */
+const CertificateHistory: React.FC<CertificateHistoryProps> = ({ certificateId }) => {
+  const { t } = useTranslation();
+
+  const { data: versions, isLoading } = useQuery<(CertificateVersion & { changedBy: { id: number; fullName: string } | null })[]>({
+    queryKey: [`/api/certificates/${certificateId}/versions`],
+  });
+
+  return (
+    <Card className="mt-6">
+      <CardHeader>
+        <CardTitle>{t("certificates.history.title")}</CardTitle>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <Skeleton className="h-24 w-full" />
+        ) : !versions || versions.length === 0 ? (
+          <p className="text-sm text-gray-500 dark:text-gray-400">{t("certificates.history.empty")}</p>
+        ) : (
+          <ol className="space-y-4">
+            {versions.map(version => (
+              <li key={version.id} className="border-l-2 border-gray-200 dark:border-gray-700 pl-4">
+                <div className="flex flex-wrap items-center gap-2">
+                  <Badge variant={CHANGE_VARIANTS[version.change]}>{t(`certificates.history.changes.${version.change}`)}</Badge>
+                  <span className="text-sm text-gray-500 dark:text-gray-400">
+                    {t("certificates.history.version", { version: version.version })}
+                  </span>
+                  <span className="text-sm text-gray-500 dark:text-gray-400">
+                    {format(new Date(version.createdAt), "PPp")}
+                    {version.changedBy && ` · ${version.changedBy.fullName}`}
+                  </span>
+                </div>
+                <div className="mt-1 text-sm text-gray-900 dark:text-white">
+                  {version.certificateNumber}
+                  {version.holderName && ` · ${version.holderName}`}
+                </div>
+                {version.reason && (
+                  <div className="mt-1 text-sm text-gray-500 dark:text-gray-400">{t("certificates.reason")}: {version.reason}</div>
+                )}
+              </li>
+            ))}
+          </ol>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default CertificateHistory;
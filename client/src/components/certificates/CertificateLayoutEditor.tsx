@@ -0,0 +1,205 @@
+import React from "react";
+import { useTranslation } from "react-i18next";
+import { ArrowDown, ArrowUp, Image, Plus, QrCode, Trash2 } from "lucide-react";
+import {
+  CERTIFICATE_PLACEHOLDERS,
+  type CertificateElement,
+  type CertificateLayout,
+} from "@shared/certificateTemplate";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Textarea } from "@/components/ui/textarea";
+
+interface CertificateLayoutEditorProps {
+  value: CertificateLayout;
+  onChange: (layout: CertificateLayout) => void;
+  // Uploads a logo or signature and resolves to its URL, or null when the upload failed
+  onUploadImage: (file: File) => Promise<string | null>;
+}
+
+const NumberInput: React.FC<{
+  label: string;
+  value: number;
+  onChange: (value: number) => void;
+}> = ({ label, value, onChange }) => (
+  <div className="space-y-2">
+    <Label>{label}</Label>
+    <Input type="number" step="0.5" value={value} onChange={(e) => onChange(Number(e.target.value))} />
+  </div>
+);
+
+/**
+ * Lets admins place text, images and the QR code on one language's layout.
+ * Positions and widths are in percent of the page.
+ */
+const CertificateLayoutEditor: React.FC<CertificateLayoutEditorProps> = ({ value, onChange, onUploadImage }) => {
+  const { t } = useTranslation();
+  const elements = value.elements;
+
+  const setElements = (next: CertificateElement[]) => onChange({ ...value, elements: next });
+
+  const updateElement = (index: number, changes: Partial<CertificateElement>) => {
+    setElements(elements.map((element, i) => (i === index ? { ...element, ...changes } as CertificateElement : element)));
+  };
+
+  const moveElement = (index: number, offset: number) => {
+    const next = [...elements];
+    const [element] = next.splice(index, 1);
+    next.splice(index + offset, 0, element);
+    setElements(next);
+  };
+
+  const addImage = async (file: File | undefined) => {
+    if (!file) return;
+    const src = await onUploadImage(file);
+    if (!src) return;
+    setElements([...elements, { type: "image", x: 40, y: 5, width: 20, src }]);
+  };
+
+  return (
+    <div className="space-y-4">
+      <p className="text-xs text-gray-500 dark:text-gray-400">
+        {t("certificates.templates.placeholders")}{" "}
+        {CERTIFICATE_PLACEHOLDERS.map(placeholder => `{{${placeholder}}}`).join(", ")}
+      </p>
+
+      {elements.length === 0 && (
+        <p className="text-sm text-gray-500 dark:text-gray-400">{t("certificates.templates.noElements")}</p>
+      )}
+
+      {elements.map((element, index) => (
+        <div key={index} className="space-y-4 rounded-md border p-4">
+          <div className="flex items-center justify-between">
+            <Badge variant="secondary">{t(`certificates.templates.elementTypes.${element.type}`)}</Badge>
+            <div className="flex space-x-1">
+              <Button
+                type="button"
+                variant="ghost"
+                size="icon"
+                aria-label={t("registrations.moveUp")}
+                disabled={index === 0}
+                onClick={() => moveElement(index, -1)}
+              >
+                <ArrowUp className="h-4 w-4" />
+              </Button>
+              <Button
+                type="button"
+                variant="ghost"
+                size="icon"
+                aria-label={t("registrations.moveDown")}
+                disabled={index === elements.length - 1}
+                onClick={() => moveElement(index, 1)}
+              >
+                <ArrowDown className="h-4 w-4" />
+              </Button>
+              <Button
+                type="button"
+                variant="ghost"
+                size="icon"
+                aria-label={t("common.delete")}
+                className="text-red-600 dark:text-red-400"
+                onClick={() => setElements(elements.filter((_, i) => i !== index))}
+              >
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            </div>
+          </div>
+
+          {element.type === "text" && (
+            <div className="space-y-2">
+              <Label>{t("certificates.templates.text")}</Label>
+              <Textarea rows={2} value={element.text} onChange={(e) => updateElement(index, { text: e.target.value })} />
+            </div>
+          )}
+
+          {element.type === "image" && (
+            <img src={element.src} alt="" className="h-16 rounded border object-contain" />
+          )}
+
+          <div className="grid grid-cols-3 gap-4">
+            <NumberInput label={t("certificates.templates.x")} value={element.x} onChange={(x) => updateElement(index, { x })} />
+            <NumberInput label={t("certificates.templates.y")} value={element.y} onChange={(y) => updateElement(index, { y })} />
+            <NumberInput label={t("certificates.templates.width")} value={element.width} onChange={(width) => updateElement(index, { width })} />
+          </div>
+
+          {element.type === "text" && (
+            <div className="grid grid-cols-2 gap-4 sm:grid-cols-4">
+              <NumberInput
+                label={t("certificates.templates.fontSize")}
+                value={element.fontSize}
+                onChange={(fontSize) => updateElement(index, { fontSize })}
+              />
+              <div className="space-y-2">
+                <Label>{t("certificates.templates.color")}</Label>
+                <Input type="color" value={element.color} onChange={(e) => updateElement(index, { color: e.target.value })} />
+              </div>
+              <div className="space-y-2">
+                <Label>{t("certificates.templates.align")}</Label>
+                <Select value={element.align} onValueChange={(align) => updateElement(index, { align: align as "left" | "center" | "right" })}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {(["left", "center", "right"] as const).map(align => (
+                      <SelectItem key={align} value={align}>{t(`certificates.templates.alignments.${align}`)}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="flex items-end space-x-2 pb-2">
+                <Switch checked={element.bold} onCheckedChange={(bold) => updateElement(index, { bold })} />
+                <Label>{t("certificates.templates.bold")}</Label>
+              </div>
+            </div>
+          )}
+        </div>
+      ))}
+
+      <div className="flex flex-wrap gap-2">
+        <Button
+          type="button"
+          variant="outline"
+          onClick={() => setElements([
+            ...elements,
+            { type: "text", x: 10, y: 50, width: 80, text: "", fontSize: 14, bold: false, color: "#1f2937", align: "center" },
+          ])}
+        >
+          <Plus className="mr-2 h-4 w-4" /> {t("certificates.templates.addText")}
+        </Button>
+        <Button type="button" variant="outline" asChild>
+          <label className="cursor-pointer">
+            <Image className="mr-2 h-4 w-4" /> {t("certificates.templates.addImage")}
+            <input
+              type="file"
+              accept="image/png,image/jpeg"
+              className="hidden"
+              onChange={(e) => {
+                addImage(e.target.files?.[0]);
+                e.target.value = "";
+              }}
+            />
+          </label>
+        </Button>
+        <Button
+          type="button"
+          variant="outline"
+          onClick={() => setElements([...elements, { type: "qrCode", x: 8, y: 76, width: 12 }])}
+        >
+          <QrCode className="mr-2 h-4 w-4" /> {t("certificates.templates.addQrCode")}
+        </Button>
+      </div>
+    </div>
+  );
+};
+
+export default CertificateLayoutEditor;
@@ -13,10 +13,11 @@ interface CertificatePreviewProps {
     certificateNumber: string;
     qrCode: string;
     issuedDate: string;
+    cmeCredits?: number;
     event: {
       title: string;
-      startDate: string;
-      endDate: string;
+      startDate: Date | string;
+      endDate: Date | string;
     };
     user: {
       fullName: string;
@@ -141,6 +142,11 @@ const CertificatePreview = forwardRef<HTMLDivElement, CertificatePreviewProps>(
                   <p className="text-xs text-gray-500">
                     {t("certificates.issueDate")}: {format(new Date(certificate.issuedDate), "MMMM d, yyyy")}
                   </p>
+                  {!!certificate.cmeCredits && (
+                    <p className="text-xs text-gray-500">
+                      {t("certificates.cmeCredits", { count: certificate.cmeCredits })}
+                    </p>
+                  )}
                 </div>
                 <div className="text-center">
                   <div className="mb-2 border-b-2 border-gray-400 w-40"></div>
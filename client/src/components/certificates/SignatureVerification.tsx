@@ -0,0 +1,88 @@
+import React from "react";
+import { useTranslation } from "react-i18next";
+import { AlertTriangle, ShieldAlert, ShieldCheck } from "lucide-react";
+import type { TokenVerification } from "@/lib/certificateVerification";
+
+interface SignatureVerificationProps {
+  result: TokenVerification;
+  certificateNumber: string;
+  // Signature of the current issue of the certificate, when the server could be reached
+  currentSignature?: string | null;
+  token: string;
+}
+
+/**
+ * Result of checking the signed code from a certificate's QR code. The check
+ * runs in the browser, so it also works without a connection.
+ */
+const SignatureVerification: React.FC<SignatureVerificationProps> = ({ result, certificateNumber, currentSignature, token }) => {
+  const { t } = useTranslation();
+
+  // A valid signature for another certificate does not vouch for this one
+  const status = result.status === "valid" && result.payload.num !== certificateNumber ? "invalid" : result.status;
+
+  if (status === "valid" && result.status === "valid") {
+    const { payload } = result;
+    const superseded = currentSignature !== undefined && currentSignature !== token;
+
+    return (
+      <div className="p-4 mb-6 border rounded-lg border-green-200 bg-green-50 dark:bg-green-950 dark:border-green-800">
+        <div className="flex items-center">
+          <ShieldCheck className="h-6 w-6 mr-2 text-green-500" />
+          <h3 className="text-md font-medium text-green-800 dark:text-green-200">{t("certificates.signature.valid")}</h3>
+        </div>
+        <p className="mt-1 text-sm text-green-600 dark:text-green-300">{t("certificates.signature.validDescription")}</p>
+        <dl className="mt-3 grid grid-cols-1 gap-1 text-sm sm:grid-cols-2">
+          <div>
+            <dt className="text-gray-500 dark:text-gray-400">{t("certificates.signature.holder")}</dt>
+            <dd className="font-medium text-gray-900 dark:text-white">{payload.name}</dd>
+          </div>
+          <div>
+            <dt className="text-gray-500 dark:text-gray-400">{t("certificates.signature.event")}</dt>
+            <dd className="font-medium text-gray-900 dark:text-white">{payload.event}</dd>
+          </div>
+          <div>
+            <dt className="text-gray-500 dark:text-gray-400">{t("certificates.signature.eventDates")}</dt>
+            <dd className="text-gray-900 dark:text-white">
+              {payload.start === payload.end ? payload.start : `${payload.start} – ${payload.end}`}
+            </dd>
+          </div>
+          <div>
+            <dt className="text-gray-500 dark:text-gray-400">{t("certificates.signature.issued")}</dt>
+            <dd className="text-gray-900 dark:text-white">{new Date(payload.issued).toLocaleDateString()}</dd>
+          </div>
+        </dl>
+        {superseded && (
+          <p className="mt-3 flex items-center text-sm text-amber-700 dark:text-amber-300">
+            <AlertTriangle className="h-4 w-4 mr-1" />
+            {t("certificates.signature.superseded")}
+          </p>
+        )}
+      </div>
+    );
+  }
+
+  const warning = status === "unknownKey" || status === "unsupported";
+
+  return (
+    <div
+      className={`p-4 mb-6 border rounded-lg ${warning
+        ? "border-amber-200 bg-amber-50 dark:bg-amber-950 dark:border-amber-800"
+        : "border-red-200 bg-red-50 dark:bg-red-950 dark:border-red-800"}`}
+    >
+      <div className="flex items-center">
+        {warning
+          ? <AlertTriangle className="h-6 w-6 mr-2 text-amber-500" />
+          : <ShieldAlert className="h-6 w-6 mr-2 text-red-500" />}
+        <h3 className={`text-md font-medium ${warning ? "text-amber-800 dark:text-amber-200" : "text-red-800 dark:text-red-200"}`}>
+          {t(`certificates.signature.${status === "malformed" ? "invalid" : status}`)}
+        </h3>
+      </div>
+      <p className={`mt-1 text-sm ${warning ? "text-amber-700 dark:text-amber-300" : "text-red-600 dark:text-red-300"}`}>
+        {t(`certificates.signature.${status === "malformed" ? "invalid" : status}Description`)}
+      </p>
+    </div>
+  );
+};
+
+export default SignatureVerification;
@@ -0,0 +1,267 @@
+import React from "react";
+import { useTranslation } from "react-i18next";
+import { ArrowDown, ArrowUp, Plus, Trash2, X } from "lucide-react";
+import {
+  ASSESSMENT_QUESTION_TYPES,
+  CHOICE_QUESTION_TYPES,
+  assessmentQuestionSchema,
+  type AssessmentQuestion,
+  type AssessmentQuestionType,
+} from "@shared/assessments";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+
+interface AssessmentBuilderProps {
+  value: AssessmentQuestion[];
+  onChange: (questions: AssessmentQuestion[]) => void;
+  // Quizzes mark correct answers and award points; surveys may rate the speaker
+  isQuiz: boolean;
+  // Show what is wrong with each question, once the form has been submitted
+  showErrors?: boolean;
+}
+
+// A key that is not used by any of the existing questions
+function nextQuestionId(questions: AssessmentQuestion[]) {
+  let index = questions.length + 1;
+  while (questions.some(question => question.id === `q${index}`)) index++;
+  return `q${index}`;
+}
+
+/**
+ * Lets organizers write the questions of a quiz or survey
+ */
+const AssessmentBuilder: React.FC<AssessmentBuilderProps> = ({ value, onChange, isQuiz, showErrors }) => {
+  const { t } = useTranslation();
+
+  const updateQuestion = (index: number, changes: Partial<AssessmentQuestion>) => {
+    onChange(value.map((question, i) => (i === index ? { ...question, ...changes } : question)));
+  };
+
+  const changeType = (index: number, type: AssessmentQuestionType) => {
+    const question = value[index];
+    const isChoice = CHOICE_QUESTION_TYPES.includes(type);
+    updateQuestion(index, {
+      type,
+      options: isChoice ? question.options ?? ["", ""] : undefined,
+      correctOptions: isChoice ? question.correctOptions?.slice(0, type === "single_choice" ? 1 : undefined) : undefined,
+      ratesSpeaker: type === "rating" ? question.ratesSpeaker : undefined,
+    });
+  };
+
+  const renameOption = (index: number, optionIndex: number, option: string) => {
+    const question = value[index];
+    const previous = question.options?.[optionIndex];
+    updateQuestion(index, {
+      options: question.options?.map((o, i) => (i === optionIndex ? option : o)),
+      correctOptions: question.correctOptions?.map(correct => (correct === previous ? option : correct)),
+    });
+  };
+
+  const removeOption = (index: number, optionIndex: number) => {
+    const question = value[index];
+    const removed = question.options?.[optionIndex];
+    updateQuestion(index, {
+      options: question.options?.filter((_, i) => i !== optionIndex),
+      correctOptions: question.correctOptions?.filter(correct => correct !== removed),
+    });
+  };
+
+  const toggleCorrect = (index: number, option: string, correct: boolean) => {
+    const question = value[index];
+    const current = question.correctOptions ?? [];
+    updateQuestion(index, {
+      correctOptions: question.type === "single_choice"
+        ? (correct ? [option] : [])
+        : correct ? [...current, option] : current.filter(o => o !== option),
+    });
+  };
+
+  const moveQuestion = (index: number, offset: number) => {
+    const questions = [...value];
+    const [question] = questions.splice(index, 1);
+    questions.splice(index + offset, 0, question);
+    onChange(questions);
+  };
+
+  const addQuestion = () => {
+    onChange([
+      ...value,
+      isQuiz
+        ? { id: nextQuestionId(value), text: "", type: "single_choice", required: true, points: 1, options: ["", ""], correctOptions: [] }
+        : { id: nextQuestionId(value), text: "", type: "rating", required: true, points: 1 },
+    ]);
+  };
+
+  return (
+    <div className="space-y-4">
+      {value.length === 0 && (
+        <p className="text-sm text-gray-500 dark:text-gray-400">{t("assessments.builder.empty")}</p>
+      )}
+
+      {value.map((question, index) => {
+        const result = showErrors ? assessmentQuestionSchema.safeParse(question) : null;
+        const error = result && !result.success ? result.error.issues[0] : null;
+        const isDuplicate = value.some((other, i) => i !== index && other.id === question.id);
+        const missingCorrect = showErrors && isQuiz && CHOICE_QUESTION_TYPES.includes(question.type) && !question.correctOptions?.length;
+
+        return (
+          <div key={index} className="space-y-4 rounded-md border p-4">
+            <div className="grid grid-cols-6 gap-4">
+              <div className="col-span-6 sm:col-span-3 space-y-2">
+                <Label>{t("assessments.builder.question")}</Label>
+                <Input value={question.text} onChange={(e) => updateQuestion(index, { text: e.target.value })} />
+              </div>
+              <div className="col-span-3 sm:col-span-2 space-y-2">
+                <Label>{t("assessments.builder.type")}</Label>
+                <Select value={question.type} onValueChange={(type) => changeType(index, type as AssessmentQuestionType)}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {ASSESSMENT_QUESTION_TYPES.map(type => (
+                      <SelectItem key={type} value={type}>{t(`assessments.builder.types.${type}`)}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="col-span-3 sm:col-span-1 flex items-end justify-end space-x-1">
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="icon"
+                  aria-label={t("registrations.moveUp")}
+                  disabled={index === 0}
+                  onClick={() => moveQuestion(index, -1)}
+                >
+                  <ArrowUp className="h-4 w-4" />
+                </Button>
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="icon"
+                  aria-label={t("registrations.moveDown")}
+                  disabled={index === value.length - 1}
+                  onClick={() => moveQuestion(index, 1)}
+                >
+                  <ArrowDown className="h-4 w-4" />
+                </Button>
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="icon"
+                  aria-label={t("common.delete")}
+                  className="text-red-600 dark:text-red-400"
+                  onClick={() => onChange(value.filter((_, i) => i !== index))}
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+
+              <div className="col-span-3 sm:col-span-2 space-y-2">
+                <Label>{t("assessments.builder.key")}</Label>
+                <Input
+                  value={question.id}
+                  onChange={(e) => updateQuestion(index, { id: e.target.value.toLowerCase().replace(/[^a-z0-9_]/g, "_") })}
+                />
+              </div>
+              {isQuiz && CHOICE_QUESTION_TYPES.includes(question.type) && (
+                <div className="col-span-3 sm:col-span-1 space-y-2">
+                  <Label>{t("assessments.builder.points")}</Label>
+                  <Input
+                    type="number"
+                    min={1}
+                    value={question.points}
+                    onChange={(e) => updateQuestion(index, { points: Number(e.target.value) || 1 })}
+                  />
+                </div>
+              )}
+
+              {CHOICE_QUESTION_TYPES.includes(question.type) && (
+                <div className="col-span-6 space-y-2">
+                  <Label>{isQuiz ? t("assessments.builder.optionsWithAnswers") : t("assessments.builder.options")}</Label>
+                  {(question.options ?? []).map((option, optionIndex) => (
+                    <div key={optionIndex} className="flex items-center space-x-2">
+                      {isQuiz && (
+                        <Checkbox
+                          aria-label={t("assessments.builder.correct")}
+                          checked={!!option && (question.correctOptions ?? []).includes(option)}
+                          disabled={!option}
+                          onCheckedChange={(checked) => toggleCorrect(index, option, checked === true)}
+                        />
+                      )}
+                      <Input value={option} onChange={(e) => renameOption(index, optionIndex, e.target.value)} />
+                      <Button
+                        type="button"
+                        variant="ghost"
+                        size="icon"
+                        aria-label={t("common.delete")}
+                        onClick={() => removeOption(index, optionIndex)}
+                      >
+                        <X className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  ))}
+                  <Button
+                    type="button"
+                    variant="outline"
+                    size="sm"
+                    onClick={() => updateQuestion(index, { options: [...(question.options ?? []), ""] })}
+                  >
+                    <Plus className="mr-2 h-4 w-4" />
+                    {t("assessments.builder.addOption")}
+                  </Button>
+                </div>
+              )}
+            </div>
+
+            <div className="flex flex-wrap items-center gap-6">
+              <div className="flex items-center space-x-2">
+                <Switch
+                  id={`question-required-${index}`}
+                  checked={question.required}
+                  onCheckedChange={(required) => updateQuestion(index, { required })}
+                />
+                <Label htmlFor={`question-required-${index}`}>{t("assessments.builder.required")}</Label>
+              </div>
+              {!isQuiz && question.type === "rating" && (
+                <div className="flex items-center space-x-2">
+                  <Switch
+                    id={`question-speaker-${index}`}
+                    checked={!!question.ratesSpeaker}
+                    onCheckedChange={(ratesSpeaker) => updateQuestion(index, { ratesSpeaker: ratesSpeaker || undefined })}
+                  />
+                  <Label htmlFor={`question-speaker-${index}`}>{t("assessments.builder.ratesSpeaker")}</Label>
+                </div>
+              )}
+            </div>
+
+            {(error || isDuplicate || missingCorrect) && (
+              <p className="text-sm font-medium text-destructive">
+                {error
+                  ? error.message
+                  : isDuplicate ? t("assessments.builder.duplicateKey") : t("assessments.builder.missingCorrect")}
+              </p>
+            )}
+          </div>
+        );
+      })}
+
+      <Button type="button" variant="outline" onClick={addQuestion}>
+        <Plus className="mr-2 h-4 w-4" />
+        {t("assessments.builder.addQuestion")}
+      </Button>
+    </div>
+  );
+};
+
+export default AssessmentBuilder;
@@ -0,0 +1,261 @@
+import React, { useEffect, useState } from "react";
+import { useTranslation } from "react-i18next";
+import { useMutation } from "@tanstack/react-query";
+import { Loader2 } from "lucide-react";
+import { insertAssessmentSchema, type Assessment, type EventSchedule, type NewAssessment } from "@shared/schema";
+import { ASSESSMENT_KINDS, QUIZ_KINDS, type AssessmentKind } from "@shared/assessments";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Textarea } from "@/components/ui/textarea";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, getApiErrorBody } from "@/lib/queryClient";
+import AssessmentBuilder from "@/components/events/AssessmentBuilder";
+
+type EditableAssessment = Pick<
+  Assessment,
+  "kind" | "title" | "description" | "scheduleId" | "questions" | "passingScore" | "requiredForCertificate" | "maxAttempts" | "isPublished"
+>;
+
+interface AssessmentDialogProps {
+  eventId: number;
+  sessions: EventSchedule[];
+  // The assessment to edit; a new one is created without it
+  assessment?: EditableAssessment & { id: number };
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onSaved: () => void;
+}
+
+const EMPTY_ASSESSMENT: EditableAssessment = {
+  kind: "post_test",
+  title: "",
+  description: null,
+  scheduleId: null,
+  questions: [],
+  passingScore: 70,
+  requiredForCertificate: false,
+  maxAttempts: 1,
+  isPublished: false,
+};
+
+/**
+ * Creates or edits a pre-test, post-test or survey of an event
+ */
+const AssessmentDialog: React.FC<AssessmentDialogProps> = ({
+  eventId,
+  sessions,
+  assessment,
+  open,
+  onOpenChange,
+  onSaved,
+}) => {
+  const { t } = useTranslation();
+  const { toast } = useToast();
+  const [draft, setDraft] = useState<EditableAssessment>(EMPTY_ASSESSMENT);
+  const [showErrors, setShowErrors] = useState(false);
+
+  useEffect(() => {
+    if (open) {
+      setDraft(assessment ?? EMPTY_ASSESSMENT);
+      setShowErrors(false);
+    }
+  }, [open, assessment]);
+
+  const isQuiz = QUIZ_KINDS.includes(draft.kind);
+  const update = (changes: Partial<EditableAssessment>) => setDraft(current => ({ ...current, ...changes }));
+
+  const changeKind = (kind: AssessmentKind) => {
+    const quiz = QUIZ_KINDS.includes(kind);
+    update({
+      kind,
+      // Surveys are answered once and not scored
+      passingScore: quiz ? draft.passingScore ?? 70 : null,
+      maxAttempts: quiz ? draft.maxAttempts : 1,
+      questions: draft.questions.map(question => ({
+        ...question,
+        correctOptions: quiz ? question.correctOptions : undefined,
+        ratesSpeaker: quiz ? undefined : question.ratesSpeaker,
+      })),
+    });
+  };
+
+  const { mutate: saveAssessment, isPending } = useMutation({
+    mutationFn: async (data: NewAssessment) => {
+      const response = assessment
+        ? await apiRequest("PUT", `/api/assessments/${assessment.id}`, data)
+        : await apiRequest("POST", `/api/events/${eventId}/assessments`, data);
+      return response.json();
+    },
+    onSuccess: () => {
+      onOpenChange(false);
+      onSaved();
+      toast({
+        title: t("assessments.saveSuccess"),
+      });
+    },
+    onError: (error) => {
+      console.error("Error saving assessment:", error);
+      toast({
+        title: t("common.error"),
+        description: getApiErrorBody(error)?.message ?? t("assessments.saveError"),
+        variant: "destructive",
+      });
+    },
+  });
+
+  const result = insertAssessmentSchema.safeParse(draft);
+  const firstIssue = !result.success ? result.error.issues[0] : null;
+
+  const handleSave = () => {
+    setShowErrors(true);
+    if (result.success) saveAssessment(result.data);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-3xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{assessment ? t("assessments.edit") : t("assessments.create")}</DialogTitle>
+          <DialogDescription>{t("assessments.dialogDescription")}</DialogDescription>
+        </DialogHeader>
+
+        <div className="grid grid-cols-6 gap-4 py-2">
+          <div className="col-span-6 sm:col-span-4 space-y-2">
+            <Label htmlFor="assessment-title">{t("assessments.title")}</Label>
+            <Input id="assessment-title" value={draft.title} onChange={(e) => update({ title: e.target.value })} />
+          </div>
+          <div className="col-span-6 sm:col-span-2 space-y-2">
+            <Label>{t("assessments.kind")}</Label>
+            <Select value={draft.kind} onValueChange={(kind) => changeKind(kind as AssessmentKind)}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {ASSESSMENT_KINDS.map(kind => (
+                  <SelectItem key={kind} value={kind}>{t(`assessments.kinds.${kind}`)}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="col-span-6 space-y-2">
+            <Label htmlFor="assessment-description">{t("assessments.description")}</Label>
+            <Textarea
+              id="assessment-description"
+              value={draft.description ?? ""}
+              onChange={(e) => update({ description: e.target.value || null })}
+            />
+          </div>
+
+          <div className="col-span-6 sm:col-span-2 space-y-2">
+            <Label>{t("assessments.session")}</Label>
+            <Select
+              value={draft.scheduleId ? String(draft.scheduleId) : "event"}
+              onValueChange={(value) => update({ scheduleId: value === "event" ? null : Number(value) })}
+            >
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="event">{t("assessments.wholeEvent")}</SelectItem>
+                {sessions.map(session => (
+                  <SelectItem key={session.id} value={String(session.id)}>{session.title}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          {isQuiz && (
+            <>
+              <div className="col-span-3 sm:col-span-2 space-y-2">
+                <Label htmlFor="assessment-passing-score">{t("assessments.passingScore")}</Label>
+                <Input
+                  id="assessment-passing-score"
+                  type="number"
+                  min={0}
+                  max={100}
+                  value={draft.passingScore ?? ""}
+                  placeholder={t("assessments.notScored")}
+                  onChange={(e) => update({ passingScore: e.target.value === "" ? null : Number(e.target.value) })}
+                />
+              </div>
+              <div className="col-span-3 sm:col-span-2 space-y-2">
+                <Label htmlFor="assessment-max-attempts">{t("assessments.maxAttempts")}</Label>
+                <Input
+                  id="assessment-max-attempts"
+                  type="number"
+                  min={1}
+                  value={draft.maxAttempts ?? ""}
+                  placeholder={t("assessments.unlimited")}
+                  onChange={(e) => update({ maxAttempts: e.target.value === "" ? null : Number(e.target.value) })}
+                />
+              </div>
+            </>
+          )}
+
+          <div className="col-span-6 flex flex-wrap items-center gap-6">
+            <div className="flex items-center space-x-2">
+              <Switch
+                id="assessment-required"
+                checked={draft.requiredForCertificate}
+                onCheckedChange={(requiredForCertificate) => update({ requiredForCertificate })}
+              />
+              <Label htmlFor="assessment-required">{t("assessments.requiredForCertificate")}</Label>
+            </div>
+            <div className="flex items-center space-x-2">
+              <Switch
+                id="assessment-published"
+                checked={draft.isPublished}
+                onCheckedChange={(isPublished) => update({ isPublished })}
+              />
+              <Label htmlFor="assessment-published">{t("assessments.published")}</Label>
+            </div>
+          </div>
+
+          <div className="col-span-6 space-y-2">
+            <Label>{t("assessments.questions")}</Label>
+            <AssessmentBuilder
+              value={draft.questions}
+              onChange={(questions) => update({ questions })}
+              isQuiz={isQuiz}
+              showErrors={showErrors}
+            />
+          </div>
+        </div>
+
+        {showErrors && firstIssue && (
+          <p className="text-sm font-medium text-destructive">{firstIssue.message}</p>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={isPending}>
+            {t("common.cancel")}
+          </Button>
+          <Button onClick={handleSave} disabled={isPending}>
+            {isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            {t("common.save")}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default AssessmentDialog;
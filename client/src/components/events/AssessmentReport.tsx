@@ -0,0 +1,167 @@
+import React from "react";
+import { useTranslation } from "react-i18next";
+import { useQuery } from "@tanstack/react-query";
+import type { EventSchedule } from "@shared/schema";
+import { RATING_SCALE, type AssessmentReport as Report } from "@shared/assessments";
+import { Badge } from "@/components/ui/badge";
+import { Progress } from "@/components/ui/progress";
+import { Skeleton } from "@/components/ui/skeleton";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow
+} from "@/components/ui/table";
+
+interface AssessmentReportProps {
+  eventId: number;
+  sessions: EventSchedule[];
+}
+
+/**
+ * Aggregated results of an event's assessments: scores and answers per
+ * question, learning gains from pre-test to post-test and speaker ratings
+ */
+const AssessmentReport: React.FC<AssessmentReportProps> = ({ eventId, sessions }) => {
+  const { t } = useTranslation();
+
+  const { data: report, isLoading } = useQuery<Report>({
+    queryKey: [`/api/events/${eventId}/assessments/report`],
+  });
+
+  const scopeName = (scheduleId: number | null) =>
+    sessions.find(session => session.id === scheduleId)?.title ?? t("assessments.wholeEvent");
+
+  if (isLoading || !report) {
+    return <Skeleton className="h-32 w-full" />;
+  }
+
+  if (report.assessments.length === 0) {
+    return (
+      <div className="text-center py-10 text-gray-500 dark:text-gray-400">
+        {t("assessments.noAssessments")}
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-8">
+      {report.learningGains.length > 0 && (
+        <div className="space-y-2">
+          <h4 className="text-md font-medium text-gray-900 dark:text-white">{t("assessments.report.learningGains")}</h4>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>{t("assessments.session")}</TableHead>
+                <TableHead className="text-right">{t("assessments.report.participants")}</TableHead>
+                <TableHead className="text-right">{t("assessments.kinds.pre_test")}</TableHead>
+                <TableHead className="text-right">{t("assessments.kinds.post_test")}</TableHead>
+                <TableHead className="text-right">{t("assessments.report.gain")}</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {report.learningGains.map(gain => (
+                <TableRow key={gain.scheduleId ?? "event"}>
+                  <TableCell>{scopeName(gain.scheduleId)}</TableCell>
+                  <TableCell className="text-right">{gain.participants}</TableCell>
+                  <TableCell className="text-right">{gain.preAverage}%</TableCell>
+                  <TableCell className="text-right">{gain.postAverage}%</TableCell>
+                  <TableCell className="text-right font-medium">
+                    {gain.postAverage >= gain.preAverage ? "+" : ""}
+                    {Math.round((gain.postAverage - gain.preAverage) * 10) / 10}
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </div>
+      )}
+
+      {report.speakerRatings.length > 0 && (
+        <div className="space-y-2">
+          <h4 className="text-md font-medium text-gray-900 dark:text-white">{t("assessments.report.speakerRatings")}</h4>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>{t("assessments.report.speaker")}</TableHead>
+                <TableHead className="text-right">{t("assessments.report.ratings")}</TableHead>
+                <TableHead className="text-right">{t("assessments.report.averageRating")}</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {report.speakerRatings.map(rating => (
+                <TableRow key={rating.speakerId}>
+                  <TableCell>{rating.name}</TableCell>
+                  <TableCell className="text-right">{rating.ratings}</TableCell>
+                  <TableCell className="text-right font-medium">{rating.averageRating} / {RATING_SCALE}</TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </div>
+      )}
+
+      {report.assessments.map(summary => (
+        <div key={summary.assessmentId} className="border border-gray-200 dark:border-gray-700 rounded-lg p-4 space-y-4">
+          <div className="flex flex-wrap items-center justify-between gap-2">
+            <div className="flex flex-wrap items-center gap-2">
+              <h4 className="text-md font-medium text-gray-900 dark:text-white">{summary.title}</h4>
+              <Badge variant="secondary">{t(`assessments.kinds.${summary.kind}`)}</Badge>
+              <span className="text-sm text-gray-500 dark:text-gray-400">{scopeName(summary.scheduleId)}</span>
+            </div>
+            <div className="flex flex-wrap gap-2">
+              <Badge variant="outline">
+                {t("assessments.report.participantsCount", { count: summary.participants, responses: summary.responses })}
+              </Badge>
+              {summary.averagePercent !== null && (
+                <Badge variant="outline">{t("assessments.report.averageScore", { percent: summary.averagePercent })}</Badge>
+              )}
+              {summary.passRate !== null && (
+                <Badge variant="outline">{t("assessments.report.passRate", { percent: summary.passRate })}</Badge>
+              )}
+            </div>
+          </div>
+
+          {summary.participants === 0 ? (
+            <p className="text-sm text-gray-500 dark:text-gray-400">{t("assessments.report.noResponses")}</p>
+          ) : (
+            <div className="space-y-4">
+              {summary.questions.map((question, index) => (
+                <div key={question.id} className="space-y-2">
+                  <div className="flex flex-wrap items-baseline justify-between gap-2">
+                    <p className="text-sm font-medium text-gray-900 dark:text-white">{index + 1}. {question.text}</p>
+                    <span className="text-xs text-gray-500 dark:text-gray-400">
+                      {t("assessments.report.answered", { count: question.answered })}
+                      {question.correctPercent !== null && <> · {t("assessments.report.correct", { percent: question.correctPercent })}</>}
+                      {question.averageRating !== null && <> · {t("assessments.report.rating", { rating: question.averageRating, scale: RATING_SCALE })}</>}
+                    </span>
+                  </div>
+
+                  {question.optionCounts.map(({ option, count }) => (
+                    <div key={option} className="grid grid-cols-3 items-center gap-2 text-sm">
+                      <span className="truncate text-gray-700 dark:text-gray-300">{option}</span>
+                      <Progress value={question.answered > 0 ? (count / question.answered) * 100 : 0} className="h-2" />
+                      <span className="text-right text-gray-500 dark:text-gray-400">{count}</span>
+                    </div>
+                  ))}
+
+                  {question.comments.length > 0 && (
+                    <ul className="max-h-40 overflow-y-auto space-y-1 text-sm text-gray-700 dark:text-gray-300">
+                      {question.comments.map((comment, commentIndex) => (
+                        <li key={commentIndex} className="rounded bg-gray-50 dark:bg-gray-900 px-3 py-2">{comment}</li>
+                      ))}
+                    </ul>
+                  )}
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default AssessmentReport;
@@ -0,0 +1,145 @@
+import React, { useState } from "react";
+import { useTranslation } from "react-i18next";
+import { useMutation } from "@tanstack/react-query";
+import { Loader2 } from "lucide-react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, getApiErrorBody } from "@/lib/queryClient";
+
+interface BatchStatusDialogProps {
+  eventId: number;
+  status: "approved" | "rejected";
+  registrations: {
+    id: number;
+    user: {
+      fullName: string;
+    };
+  }[];
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onUpdated: () => void;
+}
+
+/**
+ * Approves or rejects the selected registrations, with a shared reason or
+ * one per participant
+ */
+const BatchStatusDialog: React.FC<BatchStatusDialogProps> = ({
+  eventId,
+  status,
+  registrations,
+  open,
+  onOpenChange,
+  onUpdated,
+}) => {
+  const { t } = useTranslation();
+  const { toast } = useToast();
+  const [notes, setNotes] = useState("");
+  const [perParticipant, setPerParticipant] = useState(false);
+  const [rowNotes, setRowNotes] = useState<Record<number, string>>({});
+
+  const { mutate: updateStatuses, isPending } = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", `/api/events/${eventId}/registrations/status`, {
+        status,
+        notes: notes.trim() || undefined,
+        registrations: registrations.map(registration => ({
+          id: registration.id,
+          notes: perParticipant ? rowNotes[registration.id]?.trim() || undefined : undefined,
+        })),
+      });
+      return response.json() as Promise<{ updated: unknown[]; skipped: unknown[] }>;
+    },
+    onSuccess: ({ updated, skipped }) => {
+      setNotes("");
+      setRowNotes({});
+      onOpenChange(false);
+      onUpdated();
+      toast({
+        title: t(status === "approved" ? "registrations.batchApproved" : "registrations.batchRejected", { count: updated.length }),
+        description: skipped.length > 0 ? t("registrations.batchSkipped", { count: skipped.length }) : undefined,
+      });
+    },
+    onError: (error) => {
+      console.error("Error updating registrations:", error);
+      toast({
+        title: t("common.error"),
+        description: getApiErrorBody(error)?.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[525px] max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>
+            {t(status === "approved" ? "registrations.approveSelected" : "registrations.rejectSelected", { count: registrations.length })}
+          </DialogTitle>
+          <DialogDescription>{t("registrations.batchDescription", { count: registrations.length })}</DialogDescription>
+        </DialogHeader>
+        <div className="grid gap-4 py-4">
+          <div className="grid gap-2">
+            <Label htmlFor="batch-notes">{t("registrations.reason")}</Label>
+            <Textarea
+              id="batch-notes"
+              value={notes}
+              maxLength={1000}
+              onChange={(e) => setNotes(e.target.value)}
+            />
+          </div>
+          <label className="flex items-center space-x-2 text-sm">
+            <Checkbox checked={perParticipant} onCheckedChange={(checked) => setPerParticipant(checked === true)} />
+            <span>{t("registrations.reasonPerParticipant")}</span>
+          </label>
+          {perParticipant && (
+            <div className="grid gap-3">
+              {registrations.map(registration => (
+                <div key={registration.id} className="grid gap-1">
+                  <Label htmlFor={`batch-notes-${registration.id}`} className="text-xs">
+                    {registration.user.fullName}
+                  </Label>
+                  <Input
+                    id={`batch-notes-${registration.id}`}
+                    value={rowNotes[registration.id] ?? ""}
+                    maxLength={1000}
+                    placeholder={notes.trim() || undefined}
+                    onChange={(e) => setRowNotes({ ...rowNotes, [registration.id]: e.target.value })}
+                  />
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={isPending}>
+            {t("common.cancel")}
+          </Button>
+          <Button
+            variant={status === "rejected" ? "destructive" : "default"}
+            onClick={() => updateStatuses()}
+            disabled={isPending}
+          >
+            {isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            {t(status === "approved" ? "registrations.approve" : "registrations.reject")}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default BatchStatusDialog;
@@ -0,0 +1,91 @@
+import React, { useState } from "react";
+import { useTranslation } from "react-i18next";
+import { useMutation } from "@tanstack/react-query";
+import { Loader2 } from "lucide-react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, getApiErrorBody } from "@/lib/queryClient";
+
+interface CancelRegistrationDialogProps {
+  registrationId: number;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onCancelled: () => void;
+}
+
+const CancelRegistrationDialog: React.FC<CancelRegistrationDialogProps> = ({
+  registrationId,
+  open,
+  onOpenChange,
+  onCancelled,
+}) => {
+  const { t } = useTranslation();
+  const { toast } = useToast();
+  const [reason, setReason] = useState("");
+
+  const { mutate: cancelRegistration, isPending } = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", `/api/registrations/${registrationId}/cancel`, {
+        reason: reason.trim() || undefined,
+      });
+      return response.json();
+    },
+    onSuccess: () => {
+      setReason("");
+      onOpenChange(false);
+      onCancelled();
+      toast({
+        title: t("events.success.cancelled"),
+      });
+    },
+    onError: (error) => {
+      console.error("Error cancelling registration:", error);
+      toast({
+        title: t("common.error"),
+        description: getApiErrorBody(error)?.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[425px]">
+        <DialogHeader>
+          <DialogTitle>{t("registrations.cancelRegistration")}</DialogTitle>
+          <DialogDescription>{t("registrations.cancelWarning")}</DialogDescription>
+        </DialogHeader>
+        <div className="grid gap-2 py-4">
+          <Label htmlFor="cancellation-reason">{t("registrations.cancellationReason")}</Label>
+          <Textarea
+            id="cancellation-reason"
+            value={reason}
+            maxLength={500}
+            onChange={(e) => setReason(e.target.value)}
+          />
+        </div>
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={isPending}>
+            {t("registrations.keepRegistration")}
+          </Button>
+          <Button variant="destructive" onClick={() => cancelRegistration()} disabled={isPending}>
+            {isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            {t("registrations.cancelRegistration")}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default CancelRegistrationDialog;
@@ -0,0 +1,148 @@
+import React from "react";
+import { useTranslation } from "react-i18next";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { Award, Loader2 } from "lucide-react";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow
+} from "@/components/ui/table";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Skeleton } from "@/components/ui/skeleton";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, getApiErrorBody, queryClient } from "@/lib/queryClient";
+import type { CertificateIssuanceOutcome } from "@shared/certificateRules";
+import type { CertificateIssuanceReport as IssuanceReport } from "@shared/schema";
+
+interface CertificateIssuanceReportProps {
+  eventId: number;
+}
+
+const OUTCOME_VARIANTS: Record<CertificateIssuanceOutcome, "default" | "secondary" | "outline" | "destructive"> = {
+  issued: "default",
+  already_issued: "secondary",
+  skipped: "outline",
+  failed: "destructive",
+};
+
+/**
+ * Issues certificates in bulk and shows the latest issuance report, with the
+ * reasons each skipped participant did not qualify
+ */
+const CertificateIssuanceReport: React.FC<CertificateIssuanceReportProps> = ({ eventId }) => {
+  const { t } = useTranslation();
+  const { toast } = useToast();
+  const queryKey = [`/api/events/${eventId}/certificates/reports`];
+
+  const { data: reports, isLoading } = useQuery<(IssuanceReport & { triggeredBy: { id: number; fullName: string } | null })[]>({
+    queryKey,
+  });
+
+  const { mutate: issueCertificates, isPending } = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", `/api/events/${eventId}/certificates/issue`);
+      return response.json() as Promise<IssuanceReport>;
+    },
+    onSuccess: (report) => {
+      queryClient.invalidateQueries({ queryKey });
+      toast({
+        title: t("certificates.issuance.success"),
+        description: t("certificates.issuance.successDescription", report.summary),
+      });
+    },
+    onError: (error) => {
+      console.error("Error issuing certificates:", error);
+      toast({
+        title: t("common.error"),
+        description: getApiErrorBody(error)?.message ?? t("certificates.issuance.error"),
+        variant: "destructive",
+      });
+    },
+  });
+
+  const latest = reports?.[0];
+  // Issued and already issued rows are listed for completeness, after the ones needing attention
+  const rows = latest
+    ? [...latest.results].sort((a, b) =>
+        Number(a.outcome === "issued" || a.outcome === "already_issued") -
+        Number(b.outcome === "issued" || b.outcome === "already_issued"))
+    : [];
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <div>
+          <h4 className="text-md font-medium text-gray-900 dark:text-white">{t("certificates.issuance.title")}</h4>
+          <p className="text-sm text-gray-500 dark:text-gray-400">{t("certificates.issuance.description")}</p>
+        </div>
+        <Button onClick={() => issueCertificates()} disabled={isPending}>
+          {isPending ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Award className="mr-2 h-4 w-4" />}
+          {t("certificates.issuance.issueNow")}
+        </Button>
+      </div>
+
+      {isLoading ? (
+        <Skeleton className="h-32 w-full" />
+      ) : !latest ? (
+        <p className="text-center py-6 text-sm text-gray-500 dark:text-gray-400">{t("certificates.issuance.noReports")}</p>
+      ) : (
+        <>
+          <div className="text-sm text-gray-500 dark:text-gray-400">
+            {t(`certificates.issuance.trigger.${latest.trigger}`, {
+              date: format(new Date(latest.createdAt), "PPp"),
+              name: latest.triggeredBy?.fullName ?? "—",
+            })}
+          </div>
+          <div className="flex flex-wrap gap-2">
+            {(["issued", "already_issued", "skipped", "failed"] as const).map(outcome => (
+              <Badge key={outcome} variant={OUTCOME_VARIANTS[outcome]}>
+                {t(`certificates.issuance.outcome.${outcome}`)}: {latest.summary[outcome]}
+              </Badge>
+            ))}
+          </div>
+          {rows.length > 0 && (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>{t("users.fullName")}</TableHead>
+                  <TableHead>{t("certificates.issuance.result")}</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {rows.map(result => (
+                  <TableRow key={result.registrationId}>
+                    <TableCell>
+                      <div className="text-sm font-medium text-gray-900 dark:text-white">{result.fullName}</div>
+                      <div className="text-xs text-gray-500 dark:text-gray-400">{result.email}</div>
+                    </TableCell>
+                    <TableCell>
+                      <Badge variant={OUTCOME_VARIANTS[result.outcome]}>
+                        {t(`certificates.issuance.outcome.${result.outcome}`)}
+                      </Badge>
+                      {result.certificateNumber && (
+                        <span className="ml-2 text-xs text-gray-500 dark:text-gray-400">{result.certificateNumber}</span>
+                      )}
+                      {result.issues?.map(issue => (
+                        <div key={issue.rule} className="mt-1 text-xs text-gray-500 dark:text-gray-400">{issue.message}</div>
+                      ))}
+                      {result.message && (
+                        <div className="mt-1 text-xs text-gray-500 dark:text-gray-400">{result.message}</div>
+                      )}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </>
+      )}
+    </div>
+  );
+};
+
+export default CertificateIssuanceReport;
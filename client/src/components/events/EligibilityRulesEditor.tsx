@@ -0,0 +1,133 @@
+import React, { useState } from "react";
+import { useTranslation } from "react-i18next";
+import { useQuery } from "@tanstack/react-query";
+import { X } from "lucide-react";
+import { Organization } from "@shared/schema";
+import type { EligibilityRules } from "@shared/eligibility";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import OrganizationSelect from "@/components/organizations/OrganizationSelect";
+
+interface EligibilityRulesEditorProps {
+  value: EligibilityRules;
+  onChange: (rules: EligibilityRules) => void;
+}
+
+const REGISTRANT_ROLES = [
+  "participant_doctor",
+  "lecturer_doctor",
+  "hospital_manager",
+  "province_manager",
+  "ministry_manager",
+  "guest",
+];
+
+// Drops empty rules so an unrestricted event stores no rules at all
+const compact = (rules: EligibilityRules): EligibilityRules => ({
+  ...(rules.roles?.length ? { roles: rules.roles } : {}),
+  ...(rules.organizationIds?.length ? { organizationIds: rules.organizationIds } : {}),
+  ...(rules.positions?.length ? { positions: rules.positions } : {}),
+  ...(rules.maxPerHospital ? { maxPerHospital: rules.maxPerHospital } : {}),
+});
+
+/**
+ * Edits who may register for an event
+ */
+const EligibilityRulesEditor: React.FC<EligibilityRulesEditorProps> = ({ value, onChange }) => {
+  const { t } = useTranslation();
+  const [positionsText, setPositionsText] = useState((value.positions ?? []).join(", "));
+
+  const { data: organizations = [] } = useQuery<Organization[]>({
+    queryKey: ["/api/organizations"],
+  });
+
+  const update = (changes: Partial<EligibilityRules>) => onChange(compact({ ...value, ...changes }));
+
+  const toggleRole = (role: string, checked: boolean) => {
+    const roles = value.roles ?? [];
+    update({ roles: checked ? [...roles, role] : roles.filter(r => r !== role) });
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="space-y-2">
+        <Label>{t("events.eligibility.roles")}</Label>
+        <p className="text-sm text-gray-500 dark:text-gray-400">{t("events.eligibility.rolesDescription")}</p>
+        <div className="grid grid-cols-1 gap-2 sm:grid-cols-2">
+          {REGISTRANT_ROLES.map(role => (
+            <label key={role} className="flex items-center space-x-2 text-sm">
+              <Checkbox
+                checked={value.roles?.includes(role) ?? false}
+                onCheckedChange={(checked) => toggleRole(role, checked === true)}
+              />
+              <span>{t(`users.roles.${role}`)}</span>
+            </label>
+          ))}
+        </div>
+      </div>
+
+      <div className="space-y-2">
+        <Label>{t("events.eligibility.organizations")}</Label>
+        <p className="text-sm text-gray-500 dark:text-gray-400">{t("events.eligibility.organizationsDescription")}</p>
+        <div className="flex flex-wrap gap-2">
+          {(value.organizationIds ?? []).map(id => (
+            <Badge key={id} variant="secondary" className="flex items-center">
+              {organizations.find(organization => organization.id === id)?.name ?? `#${id}`}
+              <Button
+                type="button"
+                variant="ghost"
+                size="icon"
+                className="ml-1 h-4 w-4"
+                aria-label={t("common.delete")}
+                onClick={() => update({ organizationIds: value.organizationIds?.filter(o => o !== id) })}
+              >
+                <X className="h-3 w-3" />
+              </Button>
+            </Badge>
+          ))}
+        </div>
+        <OrganizationSelect
+          value={null}
+          placeholder={t("events.eligibility.addOrganization")}
+          onChange={(id) => {
+            if (id && !value.organizationIds?.includes(id)) {
+              update({ organizationIds: [...(value.organizationIds ?? []), id] });
+            }
+          }}
+        />
+      </div>
+
+      <div className="space-y-2">
+        <Label htmlFor="eligibility-positions">{t("events.eligibility.positions")}</Label>
+        <Input
+          id="eligibility-positions"
+          value={positionsText}
+          placeholder={t("events.eligibility.positionsPlaceholder")}
+          onChange={(e) => setPositionsText(e.target.value)}
+          onBlur={() => update({
+            positions: positionsText.split(",").map(position => position.trim()).filter(Boolean),
+          })}
+        />
+        <p className="text-sm text-gray-500 dark:text-gray-400">{t("events.eligibility.positionsDescription")}</p>
+      </div>
+
+      <div className="space-y-2">
+        <Label htmlFor="eligibility-quota">{t("events.eligibility.maxPerHospital")}</Label>
+        <Input
+          id="eligibility-quota"
+          type="number"
+          min={1}
+          className="sm:w-40"
+          value={value.maxPerHospital ?? ""}
+          onChange={(e) => update({ maxPerHospital: e.target.value ? parseInt(e.target.value) : undefined })}
+        />
+        <p className="text-sm text-gray-500 dark:text-gray-400">{t("events.eligibility.maxPerHospitalDescription")}</p>
+      </div>
+    </div>
+  );
+};
+
+export default EligibilityRulesEditor;
@@ -0,0 +1,191 @@
+import React, { useState } from "react";
+import { useTranslation } from "react-i18next";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { ClipboardCheck, Pencil, Plus, Trash2 } from "lucide-react";
+import type { Assessment, EventSchedule } from "@shared/schema";
+import { QUIZ_KINDS } from "@shared/assessments";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Skeleton } from "@/components/ui/skeleton";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, getApiErrorBody, queryClient } from "@/lib/queryClient";
+import AssessmentDialog from "@/components/events/AssessmentDialog";
+import TakeAssessmentDialog, { type AssessmentAttempt } from "@/components/events/TakeAssessmentDialog";
+
+type EventAssessment = Omit<Assessment, "createdAt" | "updatedAt"> & {
+  schedule: { id: number; title: string; date: string } | null;
+  // Whether it can be taken now
+  isOpen: boolean;
+  // The current user's own attempts
+  attempts: AssessmentAttempt[];
+};
+
+interface EventAssessmentsProps {
+  eventId: number;
+  sessions: EventSchedule[];
+  // Organizers create and edit assessments and see the unpublished ones
+  canManage: boolean;
+}
+
+/**
+ * The pre-tests, post-tests and surveys of an event, with the participant's
+ * own attempts
+ */
+const EventAssessments: React.FC<EventAssessmentsProps> = ({ eventId, sessions, canManage }) => {
+  const { t } = useTranslation();
+  const { toast } = useToast();
+  const queryKey = [`/api/events/${eventId}/assessments`];
+  const [editing, setEditing] = useState<EventAssessment | null>(null);
+  const [isEditorOpen, setIsEditorOpen] = useState(false);
+  const [taking, setTaking] = useState<EventAssessment | null>(null);
+
+  const { data: assessments, isLoading } = useQuery<EventAssessment[]>({
+    queryKey,
+  });
+
+  const refresh = () => queryClient.invalidateQueries({ queryKey });
+
+  const { mutate: deleteAssessment } = useMutation({
+    mutationFn: async (id: number) => {
+      const response = await apiRequest("DELETE", `/api/assessments/${id}`);
+      return response.json();
+    },
+    onSuccess: () => {
+      refresh();
+      toast({ title: t("assessments.deleted") });
+    },
+    onError: (error) => {
+      console.error("Error deleting assessment:", error);
+      toast({
+        title: t("common.error"),
+        description: getApiErrorBody(error)?.message ?? t("assessments.deleteError"),
+        variant: "destructive",
+      });
+    },
+  });
+
+  const openEditor = (assessment: EventAssessment | null) => {
+    setEditing(assessment);
+    setIsEditorOpen(true);
+  };
+
+  return (
+    <div>
+      <div className="flex justify-between items-center mb-6">
+        <h3 className="text-lg font-medium text-gray-900 dark:text-white">{t("assessments.heading")}</h3>
+        {canManage && (
+          <Button onClick={() => openEditor(null)}>
+            <Plus className="mr-2 h-4 w-4" /> {t("assessments.create")}
+          </Button>
+        )}
+      </div>
+
+      {isLoading ? (
+        <Skeleton className="h-32 w-full" />
+      ) : !assessments?.length ? (
+        <div className="text-center py-10 text-gray-500 dark:text-gray-400">
+          {t("assessments.noAssessments")}
+        </div>
+      ) : (
+        <div className="space-y-4">
+          {assessments.map(assessment => {
+            const isQuiz = QUIZ_KINDS.includes(assessment.kind);
+            const best = assessment.attempts.reduce<number | null>(
+              (max, attempt) => attempt.percent !== null && (max === null || attempt.percent > max) ? attempt.percent : max,
+              null
+            );
+            const hasPassed = assessment.attempts.some(attempt => attempt.passed);
+            const attemptsLeft = assessment.maxAttempts === null || assessment.attempts.length < assessment.maxAttempts;
+
+            return (
+              <div key={assessment.id} className="border border-gray-200 dark:border-gray-700 rounded-lg p-4">
+                <div className="flex flex-wrap items-start justify-between gap-4">
+                  <div className="space-y-1">
+                    <div className="flex flex-wrap items-center gap-2">
+                      <h4 className="text-md font-medium text-gray-900 dark:text-white">{assessment.title}</h4>
+                      <Badge variant="secondary">{t(`assessments.kinds.${assessment.kind}`)}</Badge>
+                      {assessment.requiredForCertificate && (
+                        <Badge variant="outline">{t("assessments.requiredBadge")}</Badge>
+                      )}
+                      {!assessment.isPublished && <Badge variant="outline">{t("assessments.draft")}</Badge>}
+                    </div>
+                    <p className="text-sm text-gray-500 dark:text-gray-400">
+                      {assessment.schedule?.title ?? t("assessments.wholeEvent")}
+                      {" · "}
+                      {t("assessments.questionCount", { count: assessment.questions.length })}
+                      {isQuiz && assessment.passingScore !== null && (
+                        <> · {t("assessments.passingScoreValue", { score: assessment.passingScore })}</>
+                      )}
+                    </p>
+                    {assessment.description && (
+                      <p className="text-sm text-gray-700 dark:text-gray-300">{assessment.description}</p>
+                    )}
+                    {assessment.attempts.length > 0 && (
+                      <p className="text-sm text-gray-700 dark:text-gray-300">
+                        {best !== null
+                          ? t("assessments.yourBest", { percent: best, count: assessment.attempts.length })
+                          : t("assessments.answered")}
+                        {hasPassed && <> · {t("assessments.take.passed")}</>}
+                      </p>
+                    )}
+                  </div>
+
+                  <div className="flex items-center space-x-2">
+                    {assessment.isPublished && attemptsLeft && (
+                      <Button
+                        size="sm"
+                        disabled={!assessment.isOpen}
+                        title={assessment.isOpen ? undefined : t("assessments.closed")}
+                        onClick={() => setTaking(assessment)}
+                      >
+                        <ClipboardCheck className="mr-2 h-4 w-4" />
+                        {assessment.attempts.length > 0 ? t("assessments.retake") : t("assessments.take.start")}
+                      </Button>
+                    )}
+                    {canManage && (
+                      <>
+                        <Button variant="ghost" size="sm" onClick={() => openEditor(assessment)}>
+                          <Pencil className="h-4 w-4 mr-1" /> {t("common.edit")}
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          className="text-red-600 dark:text-red-400"
+                          onClick={() => deleteAssessment(assessment.id)}
+                        >
+                          <Trash2 className="h-4 w-4 mr-1" /> {t("common.delete")}
+                        </Button>
+                      </>
+                    )}
+                  </div>
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      )}
+
+      {canManage && (
+        <AssessmentDialog
+          eventId={eventId}
+          sessions={sessions}
+          assessment={editing ?? undefined}
+          open={isEditorOpen}
+          onOpenChange={setIsEditorOpen}
+          onSaved={refresh}
+        />
+      )}
+
+      {taking && (
+        <TakeAssessmentDialog
+          assessment={taking}
+          open={!!taking}
+          onOpenChange={(open) => !open && setTaking(null)}
+          onSubmitted={refresh}
+        />
+      )}
+    </div>
+  );
+};
+
+export default EventAssessments;
@@ -6,6 +6,7 @@ import { Event, EventSpeaker, EventSchedule } from "@shared/schema";
 import { 
   Award, 
   CalendarDays, 
+  CalendarPlus, 
   Clock, 
   Edit, 
   FileText, 
@@ -14,7 +15,9 @@ import {
   Building,
   Pencil,
   Trash2,
-  Plus
+  Plus,
+  Repeat,
+  ScanLine
 } from "lucide-react";
 import { cn } from "@/lib/utils";
 import { 
@@ -29,6 +32,15 @@ import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
 import { Progress } from "@/components/ui/progress";
 import { usePermissions } from "@/hooks/usePermissions";
 import { Badge } from "@/components/ui/badge";
+import EventRegistration from "@/components/events/EventRegistration";
+import WaitlistQueue from "@/components/events/WaitlistQueue";
+import ParticipantList from "@/components/events/ParticipantList";
+import CertificateIssuanceReport from "@/components/events/CertificateIssuanceReport";
+import EventAssessments from "@/components/events/EventAssessments";
+import AssessmentReport from "@/components/events/AssessmentReport";
+import EventSeriesDialog from "@/components/events/EventSeriesDialog";
+import EventSeriesPanel, { type EventSeriesSummary } from "@/components/events/EventSeriesPanel";
+import type { EligibilityIssue } from "@shared/eligibility";
 
 // Helper to get status badge color
 const getStatusColor = (status: string) => {
@@ -54,7 +66,9 @@ interface EventDetailsProps {
     eventSpeakers?: EventSpeaker[];
     participantsCount?: number;
     registrationsCount?: number;
+    eligibilityIssues?: EligibilityIssue[];
     certificatesCount?: number;
+    series?: EventSeriesSummary | null;
     createdBy?: {
       id: number;
       fullName: string;
@@ -73,6 +87,7 @@ const EventDetails: React.FC<EventDetailsProps> = ({
   const { t } = useTranslation();
   const { can } = usePermissions();
   const [activeTab, setActiveTab] = useState("overview");
+  const [isSeriesDialogOpen, setIsSeriesDialogOpen] = useState(false);
   
   // Calculate capacity percentage
   const capacityPercentage = event.capacity 
@@ -91,6 +106,12 @@ const EventDetails: React.FC<EventDetailsProps> = ({
   
   const scheduleDates = Object.keys(schedulesByDate).sort();
   
+  // Most CME credits a participant can earn: the event's plus those of every session
+  const maxCmeCredits = (event.eventSchedules || []).reduce(
+    (total, schedule) => total + (schedule.cmeCredits || 0),
+    event.cmeCredits || 0
+  );
+  
   return (
     <div>
       {/* Event Header with Cover Image */}
@@ -159,6 +180,20 @@ const EventDetails: React.FC<EventDetailsProps> = ({
               >
                 {t("events.tabs.certificates")}
               </TabsTrigger>
+              <TabsTrigger 
+                value="assessments"
+                className="py-4 px-1 border-b-2 border-transparent data-[state=active]:border-primary-500"
+              >
+                {t("events.tabs.assessments")}
+              </TabsTrigger>
+              {can("event:update", event) && (
+                <TabsTrigger 
+                  value="reports"
+                  className="py-4 px-1 border-b-2 border-transparent data-[state=active]:border-primary-500"
+                >
+                  {t("events.tabs.reports")}
+                </TabsTrigger>
+              )}
             </TabsList>
           </div>
           
@@ -242,8 +277,19 @@ const EventDetails: React.FC<EventDetailsProps> = ({
                     </div>
                   )}
                   
+                  {maxCmeCredits > 0 && (
+                    <div>
+                      <h4 className="text-sm font-medium text-gray-500 dark:text-gray-400">{t("events.cmeCredits")}</h4>
+                      <p className="mt-1 text-gray-900 dark:text-white">
+                        {t("events.cmeCreditsAvailable", { count: maxCmeCredits })}
+                      </p>
+                    </div>
+                  )}
+                  
+                  <EventSeriesPanel event={event} canIssueCertificates={can("certificate:issue", event)} />
+                  
                   <div className="pt-4 flex flex-col space-y-3">
-                    {can("event:update") && (
+                    {can("event:update", event) && (
                       <Button 
                         variant="secondary" 
                         className="w-full justify-center"
@@ -253,24 +299,49 @@ const EventDetails: React.FC<EventDetailsProps> = ({
                       </Button>
                     )}
                     
-                    {can("event:approve") && (
+                    {can("event:update", event) && !event.seriesId && (
                       <Button 
-                        variant="default" 
+                        variant="outline" 
                         className="w-full justify-center"
-                        onClick={onManageRegistrations}
+                        onClick={() => setIsSeriesDialogOpen(true)}
                       >
-                        <Users className="mr-2 h-4 w-4" /> {t("events.manageRegistrations")}
+                        <Repeat className="mr-2 h-4 w-4" /> {t("series.create")}
                       </Button>
                     )}
                     
-                    {can("event:register") && event.status !== "completed" && event.status !== "cancelled" && (
+                    {can("registration:read", event) && (
                       <Button 
-                        variant="outline" 
+                        variant="default" 
                         className="w-full justify-center"
+                        onClick={onManageRegistrations}
                       >
-                        <CalendarDays className="mr-2 h-4 w-4" /> {t("events.registerForEvent")}
+                        <Users className="mr-2 h-4 w-4" /> {t("events.manageRegistrations")}
                       </Button>
                     )}
+                    
+                    {can("event:check_in", event) && (
+                      <Button variant="outline" className="w-full justify-center" asChild>
+                        <Link href={`/events/${event.id}/check-in`}>
+                          <ScanLine className="mr-2 h-4 w-4" /> {t("checkIn.title")}
+                        </Link>
+                      </Button>
+                    )}
+                    
+                    <Button variant="outline" className="w-full justify-center" asChild>
+                      <a href={`/api/events/${event.id}/calendar.ics`} download>
+                        <CalendarPlus className="mr-2 h-4 w-4" /> {t("events.addToCalendar")}
+                      </a>
+                    </Button>
+                    
+                    {can("event:register") && event.status !== "completed" && event.status !== "cancelled" && (
+                      <EventRegistration
+                        eventId={event.id}
+                        startDate={event.startDate}
+                        cancellationCutoffHours={event.cancellationCutoffHours}
+                        registrationForm={event.registrationForm}
+                        eligibilityIssues={event.eligibilityIssues}
+                      />
+                    )}
                   </div>
                 </div>
               </div>
@@ -281,7 +352,7 @@ const EventDetails: React.FC<EventDetailsProps> = ({
           <TabsContent value="schedule" className="p-6">
             <div className="flex justify-between items-center mb-6">
               <h3 className="text-lg font-medium text-gray-900 dark:text-white">{t("events.eventSchedule")}</h3>
-              {can("event:update") && (
+              {can("event:update", event) && (
                 <Button>
                   <Plus className="mr-2 h-4 w-4" /> {t("events.addSession")}
                 </Button>
@@ -336,8 +407,14 @@ const EventDetails: React.FC<EventDetailsProps> = ({
                                         <p>{schedule.location}</p>
                                       </div>
                                     )}
+                                    {schedule.cmeCredits > 0 && (
+                                      <div className="mt-2 flex items-center text-sm text-gray-500 dark:text-gray-400 sm:mt-0 sm:ml-6">
+                                        <Award className="flex-shrink-0 mr-1.5 h-4 w-4 text-gray-400 dark:text-gray-500" />
+                                        <p>{t("events.sessionCmeCredits", { count: schedule.cmeCredits })}</p>
+                                      </div>
+                                    )}
                                   </div>
-                                  {can("event:update") && (
+                                  {can("event:update", event) && (
                                     <div className="mt-2 flex items-center text-sm sm:mt-0">
                                       <Button variant="ghost" size="sm" className="text-primary-600 dark:text-primary-400 hover:text-primary-800 dark:hover:text-primary-300">
                                         <Pencil className="h-4 w-4 mr-1" /> {t("common.edit")}
@@ -363,7 +440,7 @@ const EventDetails: React.FC<EventDetailsProps> = ({
           <TabsContent value="speakers" className="p-6">
             <div className="flex justify-between items-center mb-6">
               <h3 className="text-lg font-medium text-gray-900 dark:text-white">{t("events.eventSpeakers")}</h3>
-              {can("event:update") && (
+              {can("event:update", event) && (
                 <Button>
                   <Plus className="mr-2 h-4 w-4" /> {t("events.addSpeaker")}
                 </Button>
@@ -399,7 +476,7 @@ const EventDetails: React.FC<EventDetailsProps> = ({
                         </div>
                       )}
                       
-                      {can("event:update") && (
+                      {can("event:update", event) && (
                         <div className="mt-4 flex items-center justify-end space-x-2">
                           <Button variant="ghost" size="sm" className="text-primary-600 dark:text-primary-400">
                             <Pencil className="h-4 w-4 mr-1" /> {t("common.edit")}
@@ -429,13 +506,32 @@ const EventDetails: React.FC<EventDetailsProps> = ({
                 </Link>
               </Button>
             </div>
+            
+            {can("registration:read", event) && (
+              <div className="mt-6">
+                <ParticipantList
+                  eventId={event.id}
+                  registrationForm={event.registrationForm}
+                  canCancel={can("registration:update", event) || can("registration:transfer")}
+                  canTransfer={can("registration:transfer")}
+                  canApprove={can("event:approve", event)}
+                />
+              </div>
+            )}
+            
+            {can("registration:read", event) && (
+              <div className="mt-6">
+                <h4 className="text-md font-medium text-gray-900 dark:text-white mb-4">{t("registrations.waitlist")}</h4>
+                <WaitlistQueue eventId={event.id} canManage={can("registration:update", event)} />
+              </div>
+            )}
           </TabsContent>
           
           {/* Materials Tab */}
           <TabsContent value="materials" className="p-6">
             <div className="flex justify-between items-center mb-6">
               <h3 className="text-lg font-medium text-gray-900 dark:text-white">{t("events.materials")}</h3>
-              {can("media:upload") && (
+              {can("media:upload", event) && (
                 <Button>
                   <Plus className="mr-2 h-4 w-4" /> {t("events.uploadMaterial")}
                 </Button>
@@ -465,9 +561,36 @@ const EventDetails: React.FC<EventDetailsProps> = ({
                 </Link>
               </Button>
             </div>
+            
+            {can("certificate:issue", event) && (
+              <div className="mt-6">
+                <CertificateIssuanceReport eventId={event.id} />
+              </div>
+            )}
+          </TabsContent>
+          
+          {/* Assessments Tab */}
+          <TabsContent value="assessments" className="p-6">
+            <EventAssessments
+              eventId={event.id}
+              sessions={event.eventSchedules || []}
+              canManage={can("event:update", event)}
+            />
           </TabsContent>
+          
+          {/* Reports Tab */}
+          {can("event:update", event) && (
+            <TabsContent value="reports" className="p-6">
+              <h3 className="text-lg font-medium text-gray-900 dark:text-white mb-6">{t("assessments.report.heading")}</h3>
+              <AssessmentReport eventId={event.id} sessions={event.eventSchedules || []} />
+            </TabsContent>
+          )}
         </Tabs>
       </div>
+      
+      {can("event:update", event) && !event.seriesId && (
+        <EventSeriesDialog event={event} open={isSeriesDialogOpen} onOpenChange={setIsSeriesDialogOpen} />
+      )}
     </div>
   );
 };
@@ -3,7 +3,10 @@ import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { z } from "zod";
 import { useTranslation } from "react-i18next";
-import { Event } from "@shared/schema";
+import { useQuery } from "@tanstack/react-query";
+import { Event, CertificateTemplate } from "@shared/schema";
+import { registrationFormSchema } from "@shared/registrationForm";
+import { eligibilityRulesSchema } from "@shared/eligibility";
 
 import {
   Form,
@@ -28,6 +31,9 @@ import { Switch } from "@/components/ui/switch";
 import { Card, CardContent } from "@/components/ui/card";
 import { Checkbox } from "@/components/ui/checkbox";
 import { useAuth } from "@/hooks/useAuth";
+import OrganizationSelect from "@/components/organizations/OrganizationSelect";
+import RegistrationFormBuilder from "@/components/events/RegistrationFormBuilder";
+import EligibilityRulesEditor from "@/components/events/EligibilityRulesEditor";
 
 // Event form schema
 const eventSchema = z.object({
@@ -46,6 +52,15 @@ const eventSchema = z.object({
   status: z.enum(["draft", "upcoming", "active", "completed", "cancelled"]),
   coverImage: z.string().optional(),
   autoApproveRegistrations: z.boolean().default(false),
+  waitlistOfferHours: z.coerce.number().int().min(1).default(48),
+  cancellationCutoffHours: z.coerce.number().int().min(0).default(24),
+  minAttendancePercent: z.coerce.number().int().min(0).max(100).default(80),
+  cmeCredits: z.coerce.number().min(0).max(500).multipleOf(0.25).default(0),
+  autoIssueCertificates: z.boolean().default(true),
+  certificateTemplateId: z.number().nullable().optional(),
+  registrationForm: registrationFormSchema.default([]),
+  eligibilityRules: eligibilityRulesSchema.default({}),
+  organizationId: z.number().nullable().optional(),
 });
 
 type EventFormData = z.infer<typeof eventSchema>;
@@ -65,6 +80,10 @@ const EventForm: React.FC<EventFormProps> = ({
 }) => {
   const { t } = useTranslation();
   const { user } = useAuth();
+
+  const { data: certificateTemplates } = useQuery<CertificateTemplate[]>({
+    queryKey: ["/api/certificate-templates"],
+  });
   
   // Default values for the form
   const defaultValues: Partial<EventFormData> = {
@@ -83,6 +102,15 @@ const EventForm: React.FC<EventFormProps> = ({
     status: "draft",
     coverImage: "",
     autoApproveRegistrations: false,
+    waitlistOfferHours: 48,
+    cancellationCutoffHours: 24,
+    minAttendancePercent: 80,
+    cmeCredits: 0,
+    autoIssueCertificates: true,
+    certificateTemplateId: null,
+    registrationForm: [],
+    eligibilityRules: {},
+    organizationId: null,
     ...initialData,
   };
   
@@ -264,6 +292,24 @@ const EventForm: React.FC<EventFormProps> = ({
                     />
                   </div>
                   
+                  <div className="col-span-6">
+                    <FormField
+                      control={form.control}
+                      name="organizationId"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>{t("events.organizingUnit")}</FormLabel>
+                          <OrganizationSelect
+                            value={field.value}
+                            onChange={field.onChange}
+                          />
+                          <FormDescription>{t("events.organizingUnitDescription")}</FormDescription>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                  </div>
+                  
                   <div className="col-span-6">
                     <FormField
                       control={form.control}
@@ -441,6 +487,92 @@ const EventForm: React.FC<EventFormProps> = ({
                     />
                   </div>
                   
+                  <div className="col-span-6 sm:col-span-3">
+                    <FormField
+                      control={form.control}
+                      name="waitlistOfferHours"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>{t("events.waitlistOfferHours")}</FormLabel>
+                          <FormControl>
+                            <Input 
+                              type="number"
+                              min={1}
+                              {...field} 
+                            />
+                          </FormControl>
+                          <FormDescription>{t("events.waitlistOfferHoursDescription")}</FormDescription>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                  </div>
+                  
+                  <div className="col-span-6 sm:col-span-3">
+                    <FormField
+                      control={form.control}
+                      name="cancellationCutoffHours"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>{t("events.cancellationCutoffHours")}</FormLabel>
+                          <FormControl>
+                            <Input 
+                              type="number"
+                              min={0}
+                              {...field} 
+                            />
+                          </FormControl>
+                          <FormDescription>{t("events.cancellationCutoffHoursDescription")}</FormDescription>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                  </div>
+                  
+                  <div className="col-span-6 sm:col-span-3">
+                    <FormField
+                      control={form.control}
+                      name="minAttendancePercent"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>{t("events.minAttendancePercent")}</FormLabel>
+                          <FormControl>
+                            <Input 
+                              type="number"
+                              min={0}
+                              max={100}
+                              {...field} 
+                            />
+                          </FormControl>
+                          <FormDescription>{t("events.minAttendancePercentDescription")}</FormDescription>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                  </div>
+                  
+                  <div className="col-span-6 sm:col-span-3">
+                    <FormField
+                      control={form.control}
+                      name="cmeCredits"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>{t("events.cmeCredits")}</FormLabel>
+                          <FormControl>
+                            <Input 
+                              type="number"
+                              min={0}
+                              step={0.25}
+                              {...field} 
+                            />
+                          </FormControl>
+                          <FormDescription>{t("events.cmeCreditsDescription")}</FormDescription>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                  </div>
+                  
                   <div className="col-span-6">
                     <FormField
                       control={form.control}
@@ -483,7 +615,118 @@ const EventForm: React.FC<EventFormProps> = ({
                       )}
                     />
                   </div>
+                  
+                  <div className="col-span-6">
+                    <FormField
+                      control={form.control}
+                      name="autoIssueCertificates"
+                      render={({ field }) => (
+                        <FormItem className="flex flex-row items-start space-x-3 space-y-0 rounded-md border p-4">
+                          <FormControl>
+                            <Checkbox
+                              checked={field.value}
+                              onCheckedChange={field.onChange}
+                            />
+                          </FormControl>
+                          <div className="space-y-1 leading-none">
+                            <FormLabel>{t("events.autoIssueCertificates")}</FormLabel>
+                            <FormDescription>
+                              {t("events.autoIssueCertificatesDescription")}
+                            </FormDescription>
+                          </div>
+                        </FormItem>
+                      )}
+                    />
+                  </div>
+
+                  <div className="col-span-6 sm:col-span-3">
+                    <FormField
+                      control={form.control}
+                      name="certificateTemplateId"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>{t("events.certificateTemplate")}</FormLabel>
+                          <Select
+                            onValueChange={(value) => field.onChange(value === "auto" ? null : Number(value))}
+                            value={field.value ? String(field.value) : "auto"}
+                          >
+                            <FormControl>
+                              <SelectTrigger>
+                                <SelectValue />
+                              </SelectTrigger>
+                            </FormControl>
+                            <SelectContent>
+                              <SelectItem value="auto">{t("events.certificateTemplateAuto")}</SelectItem>
+                              {certificateTemplates?.map(template => (
+                                <SelectItem key={template.id} value={String(template.id)}>{template.name}</SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
+                          <FormDescription>{t("events.certificateTemplateDescription")}</FormDescription>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                  </div>
+                </div>
+              </CardContent>
+            </Card>
+            
+            {/* Eligibility */}
+            <Card className="overflow-hidden shadow">
+              <CardContent className="px-4 py-5 sm:p-6 space-y-6">
+                <div>
+                  <h4 className="text-md font-medium text-gray-900 dark:text-white">
+                    {t("events.eligibility.title")}
+                  </h4>
+                  <p className="mt-1 text-sm text-gray-600 dark:text-gray-400">
+                    {t("events.eligibility.description")}
+                  </p>
                 </div>
+                
+                <FormField
+                  control={form.control}
+                  name="eligibilityRules"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormControl>
+                        <EligibilityRulesEditor value={field.value} onChange={field.onChange} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              </CardContent>
+            </Card>
+            
+            {/* Registration Form */}
+            <Card className="overflow-hidden shadow">
+              <CardContent className="px-4 py-5 sm:p-6 space-y-6">
+                <div>
+                  <h4 className="text-md font-medium text-gray-900 dark:text-white">
+                    {t("events.registrationForm.title")}
+                  </h4>
+                  <p className="mt-1 text-sm text-gray-600 dark:text-gray-400">
+                    {t("events.registrationForm.description")}
+                  </p>
+                </div>
+                
+                <FormField
+                  control={form.control}
+                  name="registrationForm"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormControl>
+                        <RegistrationFormBuilder
+                          value={field.value}
+                          onChange={field.onChange}
+                          showErrors={form.formState.isSubmitted}
+                        />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
               </CardContent>
             </Card>
             
@@ -0,0 +1,231 @@
+import React, { useState } from "react";
+import { useTranslation } from "react-i18next";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { Ban, CalendarDays, Clock, Loader2, QrCode, XCircle } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, getApiErrorBody, queryClient } from "@/lib/queryClient";
+import CancelRegistrationDialog from "@/components/events/CancelRegistrationDialog";
+import RegistrationFormDialog from "@/components/events/RegistrationFormDialog";
+import TicketDialog from "@/components/events/TicketDialog";
+import type { RegistrationAnswers, RegistrationField } from "@shared/registrationForm";
+import type { EligibilityIssue } from "@shared/eligibility";
+
+interface MyRegistration {
+  id: number;
+  status: "pending" | "approved" | "rejected" | "waitlisted" | "cancelled";
+  waitlistPosition: number | null;
+  offerExpiresAt: string | null;
+  attendanceConfirmed: boolean | null;
+}
+
+interface EventRegistrationProps {
+  eventId: number;
+  startDate: string | Date;
+  cancellationCutoffHours: number;
+  registrationForm: RegistrationField[];
+  // Rules of the event the user does not meet
+  eligibilityIssues?: EligibilityIssue[];
+}
+
+/**
+ * The signed-in user's registration for an event: registering, their place in
+ * the waitlist, confirming a seat offered from it and cancelling
+ */
+const EventRegistration: React.FC<EventRegistrationProps> = ({
+  eventId,
+  startDate,
+  cancellationCutoffHours,
+  registrationForm,
+  eligibilityIssues = [],
+}) => {
+  const { t } = useTranslation();
+  const { toast } = useToast();
+  const [cancelDialogOpen, setCancelDialogOpen] = useState(false);
+  const [formDialogOpen, setFormDialogOpen] = useState(false);
+  const [ticketDialogOpen, setTicketDialogOpen] = useState(false);
+  const [answerErrors, setAnswerErrors] = useState<Record<string, string>>();
+  const queryKey = [`/api/events/${eventId}/my-registration`];
+  
+  const cancellationCutoff = new Date(startDate);
+  cancellationCutoff.setHours(cancellationCutoff.getHours() - cancellationCutoffHours);
+
+  const { data: registration, isLoading } = useQuery<MyRegistration | null>({
+    queryKey,
+  });
+
+  const onError = (error: Error) => {
+    console.error("Error saving registration:", error);
+    const body = getApiErrorBody(error);
+    toast({
+      title: t("common.error"),
+      description: [body?.message, ...(body?.reasons ?? []).map((reason: EligibilityIssue) => reason.message)]
+        .filter(Boolean)
+        .join(". "),
+      variant: "destructive",
+    });
+  };
+
+  const { mutate: register, isPending: isRegistering } = useMutation({
+    mutationFn: async (answers?: RegistrationAnswers) => {
+      const response = await apiRequest("POST", `/api/events/${eventId}/register`, answers ? { answers } : undefined);
+      return response.json();
+    },
+    onSuccess: (data: MyRegistration) => {
+      setFormDialogOpen(false);
+      queryClient.invalidateQueries({ queryKey });
+      toast({
+        title: data.status === "waitlisted" ? t("registrations.waitlistJoined") : t("registrations.registerSuccess"),
+        description: data.status === "waitlisted"
+          ? t("registrations.waitlistPosition", { position: data.waitlistPosition })
+          : undefined,
+      });
+    },
+    onError: (error) => {
+      // Point answers the server rejected at their question
+      const issues: { path: (string | number)[]; message: string }[] = getApiErrorBody(error)?.errors ?? [];
+      setAnswerErrors(Object.fromEntries(issues.map(issue => [String(issue.path[0]), issue.message])));
+      onError(error);
+    },
+  });
+
+  const { mutate: confirmOffer, isPending: isConfirming } = useMutation({
+    mutationFn: async (registrationId: number) => {
+      const response = await apiRequest("POST", `/api/registrations/${registrationId}/waitlist/confirm`);
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey });
+      toast({
+        title: t("registrations.offerConfirmed"),
+      });
+    },
+    onError: (error) => {
+      queryClient.invalidateQueries({ queryKey });
+      onError(error);
+    },
+  });
+
+  if (isLoading) return null;
+
+  // A cancelled registration does not stop the user from registering again
+  if ((!registration || registration.status === "cancelled") && eligibilityIssues.length > 0) {
+    return (
+      <div className="space-y-2 rounded-md border border-orange-200 p-3 dark:border-orange-800">
+        <p className="flex items-center text-sm font-medium text-gray-900 dark:text-white">
+          <Ban className="mr-2 h-4 w-4 text-orange-600" />
+          {t("events.eligibility.notEligible")}
+        </p>
+        <ul className="list-disc space-y-1 pl-5 text-xs text-gray-600 dark:text-gray-400">
+          {eligibilityIssues.map(issue => (
+            <li key={issue.rule}>{issue.message}</li>
+          ))}
+        </ul>
+      </div>
+    );
+  }
+
+  if (!registration || registration.status === "cancelled") {
+    return (
+      <>
+        <Button
+          variant="outline"
+          className="w-full justify-center"
+          onClick={() => registrationForm.length > 0 ? setFormDialogOpen(true) : register(undefined)}
+          disabled={isRegistering}
+        >
+          {isRegistering
+            ? <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+            : <CalendarDays className="mr-2 h-4 w-4" />}
+          {t("events.registerForEvent")}
+        </Button>
+        {registrationForm.length > 0 && (
+          <RegistrationFormDialog
+            fields={registrationForm}
+            open={formDialogOpen}
+            onOpenChange={setFormDialogOpen}
+            onSubmit={(answers) => register(answers)}
+            isSubmitting={isRegistering}
+            serverErrors={answerErrors}
+          />
+        )}
+      </>
+    );
+  }
+
+  const canCancel = registration.status !== "rejected" && !registration.attendanceConfirmed && new Date() < cancellationCutoff;
+  
+  const cancelSection = canCancel && (
+    <>
+      <Button
+        variant="ghost"
+        className="w-full justify-center text-red-600 dark:text-red-400"
+        onClick={() => setCancelDialogOpen(true)}
+      >
+        <XCircle className="mr-2 h-4 w-4" />
+        {t("registrations.cancelRegistration")}
+      </Button>
+      <p className="text-center text-xs text-gray-500 dark:text-gray-400">
+        {t("registrations.cancelBefore", { date: format(cancellationCutoff, "PPp") })}
+      </p>
+      <CancelRegistrationDialog
+        registrationId={registration.id}
+        open={cancelDialogOpen}
+        onOpenChange={setCancelDialogOpen}
+        onCancelled={() => queryClient.invalidateQueries({ queryKey })}
+      />
+    </>
+  );
+  
+  if (registration.status === "waitlisted" && registration.offerExpiresAt) {
+    return (
+      <div className="space-y-2 rounded-md border border-primary-200 p-3">
+        <p className="text-sm font-medium text-gray-900 dark:text-white">{t("registrations.offerAvailable")}</p>
+        <p className="flex items-center text-xs text-gray-500 dark:text-gray-400">
+          <Clock className="mr-1 h-3 w-3" />
+          {t("registrations.offerExpires", { date: format(new Date(registration.offerExpiresAt), "PPp") })}
+        </p>
+        <Button
+          className="w-full justify-center"
+          onClick={() => confirmOffer(registration.id)}
+          disabled={isConfirming}
+        >
+          {isConfirming && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+          {t("registrations.confirmSeat")}
+        </Button>
+        {cancelSection}
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between rounded-md border p-3">
+        <span className="text-sm text-gray-700 dark:text-gray-300">{t("registrations.yourRegistration")}</span>
+        <Badge variant={registration.status === "rejected" ? "destructive" : "secondary"}>
+          {registration.status === "waitlisted"
+            ? t("registrations.waitlistPosition", { position: registration.waitlistPosition })
+            : t(`events.registrationStatus.${registration.status}`)}
+        </Badge>
+      </div>
+      {registration.status === "approved" && (
+        <>
+          <Button variant="outline" className="w-full justify-center" onClick={() => setTicketDialogOpen(true)}>
+            <QrCode className="mr-2 h-4 w-4" />
+            {t("checkIn.showTicket")}
+          </Button>
+          <TicketDialog
+            registrationId={registration.id}
+            open={ticketDialogOpen}
+            onOpenChange={setTicketDialogOpen}
+          />
+        </>
+      )}
+      {cancelSection}
+    </div>
+  );
+};
+
+export default EventRegistration;
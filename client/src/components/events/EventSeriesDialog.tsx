@@ -0,0 +1,297 @@
+import React, { useEffect, useMemo, useState } from "react";
+import { useTranslation } from "react-i18next";
+import { useMutation } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { Loader2 } from "lucide-react";
+import { insertEventSeriesSchema } from "@shared/schema";
+import {
+  MAX_SERIES_OCCURRENCES,
+  RECURRENCE_FREQUENCIES,
+  WEEKDAYS,
+  expandRecurrence,
+  formatRecurrenceRule,
+  type RecurrenceFrequency,
+  type RecurrenceRule,
+  type Weekday,
+} from "@shared/eventSeries";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, getApiErrorBody, queryClient } from "@/lib/queryClient";
+
+interface EventSeriesDialogProps {
+  event: {
+    id: number;
+    title: string;
+    startDate: Date | string;
+  };
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+// Occurrences listed in the preview before the rest are counted
+const PREVIEW_LIMIT = 8;
+
+/**
+ * Turns an event into the first occurrence of a recurring series, with a
+ * preview of the dates the rule produces
+ */
+const EventSeriesDialog: React.FC<EventSeriesDialogProps> = ({ event, open, onOpenChange }) => {
+  const { t } = useTranslation();
+  const { toast } = useToast();
+  const start = useMemo(() => new Date(event.startDate), [event.startDate]);
+  const startWeekday = WEEKDAYS[start.getDay()];
+
+  const [title, setTitle] = useState(event.title);
+  const [frequency, setFrequency] = useState<RecurrenceFrequency>("WEEKLY");
+  const [repeatEvery, setRepeatEvery] = useState(1);
+  const [weekdays, setWeekdays] = useState<Weekday[]>([startWeekday]);
+  // Monthly series fall on the same day of the month, or on the same weekday, e.g. the 2nd Tuesday
+  const [monthlyBy, setMonthlyBy] = useState<"day" | "weekday">("day");
+  const [ends, setEnds] = useState<"count" | "until">("count");
+  const [count, setCount] = useState(10);
+  const [until, setUntil] = useState("");
+  const [requiredOccurrences, setRequiredOccurrences] = useState<number | null>(null);
+  const [showErrors, setShowErrors] = useState(false);
+
+  useEffect(() => {
+    if (open) {
+      setTitle(event.title);
+      setWeekdays([startWeekday]);
+      setShowErrors(false);
+    }
+  }, [open, event.title, startWeekday]);
+
+  // The nth weekday of the start's month, or the last one when it is the 5th
+  const startOrdinal = Math.ceil(start.getDate() / 7) === 5 ? -1 : Math.ceil(start.getDate() / 7);
+
+  const rule: RecurrenceRule = {
+    frequency,
+    interval: repeatEvery,
+    ...(frequency === "WEEKLY" && { byDay: weekdays.map(weekday => ({ weekday })) }),
+    ...(frequency === "MONTHLY" && monthlyBy === "weekday" && { byDay: [{ weekday: startWeekday, ordinal: startOrdinal }] }),
+    ...(ends === "count" ? { count } : { until }),
+  };
+  const recurrenceRule = formatRecurrenceRule(rule);
+
+  const result = insertEventSeriesSchema.safeParse({ title, recurrenceRule, requiredOccurrences });
+  const occurrences = result.success ? expandRecurrence(rule, start) : [];
+  const firstIssue = !result.success
+    ? result.error.issues[0]
+    : occurrences.length < 2
+      ? { message: t("series.noFurtherOccurrences") }
+      : requiredOccurrences && requiredOccurrences > occurrences.length
+        ? { message: t("series.tooManyRequired", { count: occurrences.length }) }
+        : null;
+
+  const { mutate: createSeries, isPending } = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", `/api/events/${event.id}/series`, {
+        title,
+        recurrenceRule,
+        requiredOccurrences,
+      });
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [`/api/events/${event.id}`] });
+      queryClient.invalidateQueries({ queryKey: ["/api/events"] });
+      onOpenChange(false);
+      toast({
+        title: t("series.createSuccess"),
+        description: t("series.createSuccessDescription", { count: occurrences.length }),
+      });
+    },
+    onError: (error) => {
+      console.error("Error creating event series:", error);
+      toast({
+        title: t("common.error"),
+        description: getApiErrorBody(error)?.message ?? t("series.createError"),
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleCreate = () => {
+    setShowErrors(true);
+    if (!firstIssue) createSeries();
+  };
+
+  const toggleWeekday = (weekday: Weekday, checked: boolean) => {
+    setWeekdays(current => checked ? [...current, weekday] : current.filter(day => day !== weekday));
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[600px] max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{t("series.create")}</DialogTitle>
+          <DialogDescription>{t("series.dialogDescription")}</DialogDescription>
+        </DialogHeader>
+
+        <div className="grid grid-cols-6 gap-4 py-2">
+          <div className="col-span-6 space-y-2">
+            <Label htmlFor="series-title">{t("series.title")}</Label>
+            <Input id="series-title" value={title} onChange={(e) => setTitle(e.target.value)} />
+          </div>
+
+          <div className="col-span-3 space-y-2">
+            <Label>{t("series.frequency")}</Label>
+            <Select value={frequency} onValueChange={(value) => setFrequency(value as RecurrenceFrequency)}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {RECURRENCE_FREQUENCIES.map(option => (
+                  <SelectItem key={option} value={option}>{t(`series.frequencies.${option}`)}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="col-span-3 space-y-2">
+            <Label htmlFor="series-interval">{t("series.interval")}</Label>
+            <Input
+              id="series-interval"
+              type="number"
+              min={1}
+              max={12}
+              value={repeatEvery}
+              onChange={(e) => setRepeatEvery(Number(e.target.value))}
+            />
+          </div>
+
+          {frequency === "WEEKLY" && (
+            <div className="col-span-6 space-y-2">
+              <Label>{t("series.weekdaysLabel")}</Label>
+              <div className="flex flex-wrap gap-4">
+                {WEEKDAYS.map(weekday => (
+                  <label key={weekday} className="flex items-center space-x-2 text-sm">
+                    <Checkbox
+                      checked={weekdays.includes(weekday)}
+                      onCheckedChange={(checked) => toggleWeekday(weekday, checked === true)}
+                    />
+                    <span>{t(`series.weekdays.${weekday}`)}</span>
+                  </label>
+                ))}
+              </div>
+            </div>
+          )}
+
+          {frequency === "MONTHLY" && (
+            <div className="col-span-6 space-y-2">
+              <Label>{t("series.monthlyBy")}</Label>
+              <RadioGroup value={monthlyBy} onValueChange={(value) => setMonthlyBy(value as "day" | "weekday")}>
+                <div className="flex items-center space-x-2">
+                  <RadioGroupItem id="series-monthly-day" value="day" />
+                  <Label htmlFor="series-monthly-day" className="font-normal">
+                    {t("series.monthlyByDay", { day: start.getDate() })}
+                  </Label>
+                </div>
+                <div className="flex items-center space-x-2">
+                  <RadioGroupItem id="series-monthly-weekday" value="weekday" />
+                  <Label htmlFor="series-monthly-weekday" className="font-normal">
+                    {t(`series.ordinals.${startOrdinal}`, { weekday: t(`series.weekdays.${startWeekday}`) })}
+                  </Label>
+                </div>
+              </RadioGroup>
+            </div>
+          )}
+
+          <div className="col-span-6 space-y-2">
+            <Label>{t("series.ends")}</Label>
+            <RadioGroup value={ends} onValueChange={(value) => setEnds(value as "count" | "until")}>
+              <div className="flex items-center space-x-2">
+                <RadioGroupItem id="series-ends-count" value="count" />
+                <Label htmlFor="series-ends-count" className="font-normal">{t("series.endsAfter")}</Label>
+                <Input
+                  type="number"
+                  min={2}
+                  max={MAX_SERIES_OCCURRENCES}
+                  className="w-24"
+                  value={count}
+                  disabled={ends !== "count"}
+                  onChange={(e) => setCount(Number(e.target.value))}
+                />
+                <span className="text-sm">{t("series.occurrencesUnit")}</span>
+              </div>
+              <div className="flex items-center space-x-2">
+                <RadioGroupItem id="series-ends-until" value="until" />
+                <Label htmlFor="series-ends-until" className="font-normal">{t("series.endsOn")}</Label>
+                <Input
+                  type="date"
+                  className="w-44"
+                  value={until}
+                  disabled={ends !== "until"}
+                  onChange={(e) => setUntil(e.target.value)}
+                />
+              </div>
+            </RadioGroup>
+          </div>
+
+          <div className="col-span-6 sm:col-span-3 space-y-2">
+            <Label htmlFor="series-required">{t("series.requiredOccurrences")}</Label>
+            <Input
+              id="series-required"
+              type="number"
+              min={1}
+              value={requiredOccurrences ?? ""}
+              placeholder={t("series.noSeriesCertificate")}
+              onChange={(e) => setRequiredOccurrences(e.target.value === "" ? null : Number(e.target.value))}
+            />
+            <p className="text-xs text-gray-500 dark:text-gray-400">{t("series.requiredOccurrencesDescription")}</p>
+          </div>
+
+          {occurrences.length > 0 && (
+            <div className="col-span-6 space-y-2">
+              <Label>{t("series.preview", { count: occurrences.length })}</Label>
+              <ul className="text-sm text-gray-700 dark:text-gray-300 space-y-1">
+                {occurrences.slice(0, PREVIEW_LIMIT).map(date => (
+                  <li key={date.getTime()}>{format(date, "EEEE, MMMM d, yyyy")}</li>
+                ))}
+                {occurrences.length > PREVIEW_LIMIT && (
+                  <li className="text-gray-500 dark:text-gray-400">
+                    {t("series.moreOccurrences", { count: occurrences.length - PREVIEW_LIMIT })}
+                  </li>
+                )}
+              </ul>
+            </div>
+          )}
+        </div>
+
+        {showErrors && firstIssue && (
+          <p className="text-sm font-medium text-destructive">{firstIssue.message}</p>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={isPending}>
+            {t("common.cancel")}
+          </Button>
+          <Button onClick={handleCreate} disabled={isPending}>
+            {isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            {t("series.createSubmit")}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default EventSeriesDialog;
@@ -0,0 +1,120 @@
+import React from "react";
+import { useTranslation } from "react-i18next";
+import { useMutation } from "@tanstack/react-query";
+import { Link } from "wouter";
+import { format } from "date-fns";
+import { Award, Loader2 } from "lucide-react";
+import type { CertificateIssuanceSummary } from "@shared/certificateRules";
+import { cn } from "@/lib/utils";
+import { Button } from "@/components/ui/button";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, getApiErrorBody } from "@/lib/queryClient";
+
+export interface EventSeriesSummary {
+  id: number;
+  title: string;
+  recurrenceRule: string;
+  requiredOccurrences: number | null;
+  events: {
+    id: number;
+    title: string;
+    startDate: string;
+    endDate: string;
+    status: string;
+  }[];
+}
+
+interface EventSeriesPanelProps {
+  event: {
+    id: number;
+    series?: EventSeriesSummary | null;
+  };
+  canIssueCertificates: boolean;
+}
+
+/**
+ * The series an event recurs in, with links to the other occurrences and,
+ * for organizers, issuing the series certificates
+ */
+const EventSeriesPanel: React.FC<EventSeriesPanelProps> = ({ event, canIssueCertificates }) => {
+  const { t } = useTranslation();
+  const { toast } = useToast();
+  const { series } = event;
+
+  const { mutate: issueCertificates, isPending } = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", `/api/event-series/${series!.id}/certificates/issue`);
+      return response.json() as Promise<{ summary: CertificateIssuanceSummary }>;
+    },
+    onSuccess: (report) => {
+      toast({
+        title: t("certificates.issuance.success"),
+        description: t("certificates.issuance.successDescription", report.summary),
+      });
+    },
+    onError: (error) => {
+      console.error("Error issuing series certificates:", error);
+      toast({
+        title: t("common.error"),
+        description: getApiErrorBody(error)?.message ?? t("certificates.issuance.error"),
+        variant: "destructive",
+      });
+    },
+  });
+
+  if (!series) {
+    return null;
+  }
+
+  const position = series.events.findIndex(occurrence => occurrence.id === event.id) + 1;
+  const activeOccurrences = series.events.filter(occurrence => occurrence.status !== "cancelled").length;
+
+  return (
+    <div>
+      <h4 className="text-sm font-medium text-gray-500 dark:text-gray-400">{t("series.heading")}</h4>
+      <p className="mt-1 text-gray-900 dark:text-white">{series.title}</p>
+      <p className="text-sm text-gray-700 dark:text-gray-300">
+        {t("series.position", { position, count: series.events.length })}
+      </p>
+      {series.requiredOccurrences && (
+        <p className="text-sm text-gray-700 dark:text-gray-300">
+          {t("series.certificateRule", { required: series.requiredOccurrences, count: activeOccurrences })}
+        </p>
+      )}
+
+      <ul className="mt-2 max-h-48 overflow-y-auto space-y-1 text-sm">
+        {series.events.map(occurrence => (
+          <li key={occurrence.id}>
+            <Link
+              href={`/events/${occurrence.id}`}
+              className={cn(
+                "hover:underline",
+                occurrence.id === event.id
+                  ? "font-medium text-gray-900 dark:text-white"
+                  : "text-primary-600 dark:text-primary-400",
+                occurrence.status === "cancelled" && "line-through"
+              )}
+            >
+              {format(new Date(occurrence.startDate), "MMMM d, yyyy")}
+            </Link>
+          </li>
+        ))}
+      </ul>
+
+      {canIssueCertificates && series.requiredOccurrences && (
+        <Button
+          variant="outline"
+          size="sm"
+          className="mt-3 w-full justify-center"
+          onClick={() => issueCertificates()}
+          disabled={isPending}
+        >
+          {isPending ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Award className="mr-2 h-4 w-4" />}
+          {t("series.issueCertificates")}
+        </Button>
+      )}
+    </div>
+  );
+};
+
+export default EventSeriesPanel;
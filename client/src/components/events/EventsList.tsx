@@ -12,15 +12,16 @@ import {
   SelectTrigger,
   SelectValue,
 } from "@/components/ui/select";
-import { Calendar, Eye, Edit, Award, CalendarDays, Users, MapPin } from "lucide-react";
+import { Calendar, Eye, Edit, Award, CalendarDays, Users, MapPin, Ban } from "lucide-react";
 import { useTranslation } from "react-i18next";
 import { Event } from "@shared/schema";
+import type { EligibilityIssue } from "@shared/eligibility";
 import { usePermissions } from "@/hooks/usePermissions";
 import { cn } from "@/lib/utils";
 import { format } from "date-fns";
 
 interface EventsListProps {
-  events: (Event & { participantsCount?: number })[];
+  events: (Event & { participantsCount?: number; eligibilityIssues?: EligibilityIssue[] })[];
   isLoading: boolean;
   onFilter: (filters: any) => void;
   pagination: {
@@ -252,7 +253,16 @@ const EventsList: React.FC<EventsListProps> = ({
                         <p className="text-sm text-gray-500 dark:text-gray-400">{event.location}</p>
                       </div>
                     </div>
-                    <div className="ml-2 flex-shrink-0 flex">
+                    <div className="ml-2 flex-shrink-0 flex items-center space-x-2">
+                      {!!event.eligibilityIssues?.length && (
+                        <span
+                          className="px-2 inline-flex items-center text-xs leading-5 font-semibold rounded-full bg-orange-100 text-orange-800 dark:bg-orange-900 dark:text-orange-200"
+                          title={event.eligibilityIssues.map(issue => issue.message).join("\n")}
+                        >
+                          <Ban className="mr-1 h-3 w-3" />
+                          {t("events.eligibility.notEligible")}
+                        </span>
+                      )}
                       <span className={cn(
                         "px-2 inline-flex text-xs leading-5 font-semibold rounded-full",
                         getStatusColor(event.status)
@@ -291,7 +301,7 @@ const EventsList: React.FC<EventsListProps> = ({
                         </Link>
                       </Button>
                       
-                      {can("event:update") && (
+                      {can("event:update", event) && (
                         <Button
                           asChild
                           variant="outline"
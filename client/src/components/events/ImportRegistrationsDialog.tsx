@@ -0,0 +1,188 @@
+import React, { useState } from "react";
+import { useTranslation } from "react-i18next";
+import { useMutation } from "@tanstack/react-query";
+import { Loader2 } from "lucide-react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow
+} from "@/components/ui/table";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, getApiErrorBody } from "@/lib/queryClient";
+
+type ImportOutcome = "registered" | "invited" | "skipped" | "failed";
+
+interface ImportReport {
+  summary: Record<"total" | ImportOutcome, number>;
+  results: {
+    row: number;
+    email: string;
+    outcome: ImportOutcome;
+    registrationStatus?: string;
+    message?: string;
+  }[];
+}
+
+interface ImportRegistrationsDialogProps {
+  eventId: number;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onImported: () => void;
+}
+
+const OUTCOME_VARIANTS: Record<ImportOutcome, "default" | "secondary" | "outline" | "destructive"> = {
+  registered: "default",
+  invited: "secondary",
+  skipped: "outline",
+  failed: "destructive",
+};
+
+/**
+ * Uploads a CSV list of participants and shows what happened to each row
+ */
+const ImportRegistrationsDialog: React.FC<ImportRegistrationsDialogProps> = ({
+  eventId,
+  open,
+  onOpenChange,
+  onImported,
+}) => {
+  const { t } = useTranslation();
+  const { toast } = useToast();
+  const [file, setFile] = useState<File | null>(null);
+  const [approve, setApprove] = useState(false);
+  const [report, setReport] = useState<ImportReport | null>(null);
+
+  const { mutate: importRegistrations, isPending } = useMutation({
+    mutationFn: async () => {
+      const formData = new FormData();
+      formData.append("file", file!);
+      formData.append("approve", String(approve));
+      const response = await apiRequest("POST", `/api/events/${eventId}/registrations/import`, formData);
+      return response.json() as Promise<ImportReport>;
+    },
+    onSuccess: (data) => {
+      setReport(data);
+      onImported();
+    },
+    onError: (error) => {
+      console.error("Error importing registrations:", error);
+      toast({
+        title: t("common.error"),
+        description: getApiErrorBody(error)?.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleOpenChange = (open: boolean) => {
+    if (!open) {
+      setFile(null);
+      setReport(null);
+    }
+    onOpenChange(open);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent className="sm:max-w-[640px] max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{t("registrations.import")}</DialogTitle>
+          <DialogDescription>{t("registrations.importDescription")}</DialogDescription>
+        </DialogHeader>
+
+        {report ? (
+          <div className="space-y-4 py-2">
+            <div className="flex flex-wrap gap-2">
+              {(["registered", "invited", "skipped", "failed"] as const).map(outcome => (
+                <Badge key={outcome} variant={OUTCOME_VARIANTS[outcome]}>
+                  {t(`registrations.importOutcome.${outcome}`)}: {report.summary[outcome]}
+                </Badge>
+              ))}
+            </div>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead className="w-16">{t("registrations.importRow")}</TableHead>
+                  <TableHead>{t("users.email")}</TableHead>
+                  <TableHead>{t("registrations.importResult")}</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {report.results.map(result => (
+                  <TableRow key={result.row}>
+                    <TableCell className="text-sm">{result.row}</TableCell>
+                    <TableCell className="text-sm break-all">{result.email || "—"}</TableCell>
+                    <TableCell>
+                      <Badge variant={OUTCOME_VARIANTS[result.outcome]}>
+                        {t(`registrations.importOutcome.${result.outcome}`)}
+                      </Badge>
+                      {result.registrationStatus && (
+                        <span className="ml-2 text-xs text-gray-500 dark:text-gray-400">
+                          {t(`events.registrationStatus.${result.registrationStatus}`)}
+                        </span>
+                      )}
+                      {result.message && (
+                        <div className="mt-1 text-xs text-gray-500 dark:text-gray-400">{result.message}</div>
+                      )}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        ) : (
+          <div className="grid gap-4 py-4">
+            <div className="grid gap-2">
+              <Label htmlFor="import-file">{t("registrations.importFile")}</Label>
+              <Input
+                id="import-file"
+                type="file"
+                accept=".csv,text/csv"
+                onChange={(e) => setFile(e.target.files?.[0] ?? null)}
+              />
+              <p className="text-xs text-gray-500 dark:text-gray-400">{t("registrations.importColumns")}</p>
+            </div>
+            <label className="flex items-center space-x-2 text-sm">
+              <Checkbox checked={approve} onCheckedChange={(checked) => setApprove(checked === true)} />
+              <span>{t("registrations.importApprove")}</span>
+            </label>
+          </div>
+        )}
+
+        <DialogFooter>
+          {report ? (
+            <Button onClick={() => handleOpenChange(false)}>{t("registrations.close")}</Button>
+          ) : (
+            <>
+              <Button variant="outline" onClick={() => handleOpenChange(false)} disabled={isPending}>
+                {t("common.cancel")}
+              </Button>
+              <Button onClick={() => importRegistrations()} disabled={isPending || !file}>
+                {isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                {t("registrations.importSubmit")}
+              </Button>
+            </>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default ImportRegistrationsDialog;
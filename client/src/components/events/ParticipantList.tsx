@@ -0,0 +1,309 @@
+import React, { useState } from "react";
+import { useTranslation } from "react-i18next";
+import { useQuery } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { ArrowRightLeft, Check, ChevronDown, ChevronRight, Download, Upload, X, XCircle } from "lucide-react";
+import {
+  formatRegistrationAnswer,
+  type RegistrationAnswers,
+  type RegistrationField,
+} from "@shared/registrationForm";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow
+} from "@/components/ui/table";
+import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Skeleton } from "@/components/ui/skeleton";
+import { useToast } from "@/hooks/use-toast";
+import { downloadFile, queryClient } from "@/lib/queryClient";
+import CancelRegistrationDialog from "@/components/events/CancelRegistrationDialog";
+import TransferRegistrationDialog from "@/components/events/TransferRegistrationDialog";
+import BatchStatusDialog from "@/components/events/BatchStatusDialog";
+import ImportRegistrationsDialog from "@/components/events/ImportRegistrationsDialog";
+
+interface Participant {
+  id: number;
+  status: "pending" | "approved" | "rejected" | "waitlisted" | "cancelled";
+  registrationDate: string;
+  attendanceConfirmed: boolean | null;
+  hasCertificate: boolean;
+  answers: RegistrationAnswers | null;
+  user: {
+    id: number;
+    fullName: string;
+    email: string;
+    organization: string | null;
+    organizationId: number | null;
+    profileImage: string | null;
+  };
+}
+
+interface ParticipantListProps {
+  eventId: number;
+  registrationForm: RegistrationField[];
+  canCancel: boolean;
+  canTransfer: boolean;
+  // Approve, reject and import registrations
+  canApprove: boolean;
+}
+
+const ACTIVE_STATUSES = ["pending", "approved", "waitlisted"];
+
+const ParticipantList: React.FC<ParticipantListProps> = ({
+  eventId,
+  registrationForm,
+  canCancel,
+  canTransfer,
+  canApprove,
+}) => {
+  const { t } = useTranslation();
+  const { toast } = useToast();
+  const [expandedId, setExpandedId] = useState<number | null>(null);
+  const [cancelling, setCancelling] = useState<Participant | null>(null);
+  const [transferring, setTransferring] = useState<Participant | null>(null);
+  const [selectedIds, setSelectedIds] = useState<number[]>([]);
+  const [batchStatus, setBatchStatus] = useState<"approved" | "rejected" | null>(null);
+  const [isImporting, setIsImporting] = useState(false);
+  const queryKey = [`/api/events/${eventId}/registrations?limit=100`];
+
+  const { data, isLoading } = useQuery<{ registrations: Participant[] }>({
+    queryKey,
+  });
+
+  const refresh = () => {
+    setSelectedIds([]);
+    queryClient.invalidateQueries({ queryKey });
+    queryClient.invalidateQueries({ queryKey: [`/api/events/${eventId}/waitlist`] });
+  };
+
+  const exportRegistrations = async () => {
+    try {
+      await downloadFile(`/api/events/${eventId}/registrations/export`, `event-${eventId}-registrations.csv`);
+    } catch (error) {
+      console.error("Error exporting registrations:", error);
+      toast({
+        title: t("common.error"),
+        description: t("registrations.exportError"),
+        variant: "destructive",
+      });
+    }
+  };
+
+  if (isLoading) {
+    return <Skeleton className="h-32 w-full" />;
+  }
+
+  const registrations = data?.registrations ?? [];
+
+  // Cancelled registrations can no longer be decided on
+  const selectable = registrations.filter(registration => registration.status !== "cancelled");
+  const selected = selectable.filter(registration => selectedIds.includes(registration.id));
+  const allSelected = selectable.length > 0 && selected.length === selectable.length;
+  const columnCount = 3 + (canApprove ? 1 : 0) + (canCancel || canTransfer ? 1 : 0);
+
+  const toggleSelected = (id: number, checked: boolean) => {
+    setSelectedIds(checked ? [...selectedIds, id] : selectedIds.filter(selectedId => selectedId !== id));
+  };
+
+  return (
+    <>
+      <div className="flex flex-wrap items-center justify-end gap-2 mb-2">
+        {canApprove && selected.length > 0 && (
+          <>
+            <span className="mr-auto text-sm text-gray-500 dark:text-gray-400">
+              {t("registrations.selectedCount", { count: selected.length })}
+            </span>
+            <Button size="sm" onClick={() => setBatchStatus("approved")}>
+              <Check className="mr-2 h-4 w-4" />
+              {t("registrations.approve")}
+            </Button>
+            <Button variant="destructive" size="sm" onClick={() => setBatchStatus("rejected")}>
+              <X className="mr-2 h-4 w-4" />
+              {t("registrations.reject")}
+            </Button>
+          </>
+        )}
+        {canApprove && (
+          <Button variant="outline" size="sm" onClick={() => setIsImporting(true)}>
+            <Upload className="mr-2 h-4 w-4" />
+            {t("registrations.import")}
+          </Button>
+        )}
+        {registrations.length > 0 && (
+          <Button variant="outline" size="sm" onClick={exportRegistrations}>
+            <Download className="mr-2 h-4 w-4" />
+            {t("registrations.export")}
+          </Button>
+        )}
+      </div>
+      {registrations.length === 0 ? (
+        <div className="text-center py-6 text-gray-500 dark:text-gray-400">
+          {t("registrations.noRegistrations")}
+        </div>
+      ) : (
+        <Table>
+          <TableHeader>
+            <TableRow>
+              {canApprove && (
+                <TableHead className="w-10">
+                  <Checkbox
+                    checked={allSelected}
+                    aria-label={t("registrations.selectAll")}
+                    onCheckedChange={(checked) => setSelectedIds(checked === true ? selectable.map(registration => registration.id) : [])}
+                  />
+                </TableHead>
+              )}
+              <TableHead>{t("users.fullName")}</TableHead>
+              <TableHead>{t("registrations.registrationDate")}</TableHead>
+              <TableHead>{t("registrations.status")}</TableHead>
+              {(canCancel || canTransfer) && <TableHead className="text-right">{t("common.actions")}</TableHead>}
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {registrations.map((registration) => {
+              const isActive = ACTIVE_STATUSES.includes(registration.status) && !registration.attendanceConfirmed;
+              const isExpanded = expandedId === registration.id;
+
+              return (
+                <React.Fragment key={registration.id}>
+                  <TableRow>
+                    {canApprove && (
+                      <TableCell>
+                        {registration.status !== "cancelled" && (
+                          <Checkbox
+                            checked={selectedIds.includes(registration.id)}
+                            aria-label={registration.user.fullName}
+                            onCheckedChange={(checked) => toggleSelected(registration.id, checked === true)}
+                          />
+                        )}
+                      </TableCell>
+                    )}
+                    <TableCell>
+                      <div className="flex items-center">
+                        {registrationForm.length > 0 && (
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            className="mr-1 h-6 w-6"
+                            aria-label={t("registrations.answers")}
+                            onClick={() => setExpandedId(isExpanded ? null : registration.id)}
+                          >
+                            {isExpanded ? <ChevronDown className="h-4 w-4" /> : <ChevronRight className="h-4 w-4" />}
+                          </Button>
+                        )}
+                        <Avatar className="h-8 w-8">
+                          <AvatarImage src={registration.user.profileImage || undefined} alt={registration.user.fullName} />
+                          <AvatarFallback>{registration.user.fullName.charAt(0)}</AvatarFallback>
+                        </Avatar>
+                        <div className="ml-3">
+                          <div className="text-sm font-medium text-gray-900 dark:text-white">{registration.user.fullName}</div>
+                          <div className="text-xs text-gray-500 dark:text-gray-400">
+                            {registration.user.organization || registration.user.email}
+                          </div>
+                        </div>
+                      </div>
+                    </TableCell>
+                    <TableCell className="text-sm">
+                      {format(new Date(registration.registrationDate), "PP")}
+                    </TableCell>
+                    <TableCell>
+                      <Badge variant={registration.status === "rejected" || registration.status === "cancelled" ? "destructive" : "secondary"}>
+                        {t(`events.registrationStatus.${registration.status}`)}
+                      </Badge>
+                    </TableCell>
+                    {(canCancel || canTransfer) && (
+                      <TableCell className="text-right whitespace-nowrap">
+                        {canTransfer && isActive && !registration.hasCertificate && registration.user.organizationId !== null && (
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            aria-label={t("registrations.transfer")}
+                            onClick={() => setTransferring(registration)}
+                          >
+                            <ArrowRightLeft className="h-4 w-4" />
+                          </Button>
+                        )}
+                        {canCancel && isActive && (
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            aria-label={t("registrations.cancelRegistration")}
+                            className="text-red-600 dark:text-red-400"
+                            onClick={() => setCancelling(registration)}
+                          >
+                            <XCircle className="h-4 w-4" />
+                          </Button>
+                        )}
+                      </TableCell>
+                    )}
+                  </TableRow>
+                  {isExpanded && (
+                    <TableRow>
+                      <TableCell colSpan={columnCount} className="bg-gray-50 dark:bg-gray-800">
+                        <dl className="grid grid-cols-1 gap-2 sm:grid-cols-2">
+                          {registrationForm.map(field => (
+                            <div key={field.id}>
+                              <dt className="text-xs text-gray-500 dark:text-gray-400">{field.label}</dt>
+                              <dd className="text-sm text-gray-900 dark:text-white">
+                                {formatRegistrationAnswer(registration.answers?.[field.id]) || "—"}
+                              </dd>
+                            </div>
+                          ))}
+                        </dl>
+                      </TableCell>
+                    </TableRow>
+                  )}
+                </React.Fragment>
+              );
+            })}
+          </TableBody>
+        </Table>
+      )}
+
+      {batchStatus && (
+        <BatchStatusDialog
+          eventId={eventId}
+          status={batchStatus}
+          registrations={selected}
+          open
+          onOpenChange={(open) => !open && setBatchStatus(null)}
+          onUpdated={refresh}
+        />
+      )}
+
+      <ImportRegistrationsDialog
+        eventId={eventId}
+        open={isImporting}
+        onOpenChange={setIsImporting}
+        onImported={refresh}
+      />
+
+      {cancelling && (
+        <CancelRegistrationDialog
+          registrationId={cancelling.id}
+          open
+          onOpenChange={(open) => !open && setCancelling(null)}
+          onCancelled={refresh}
+        />
+      )}
+
+      {transferring && (
+        <TransferRegistrationDialog
+          registration={transferring}
+          open
+          onOpenChange={(open) => !open && setTransferring(null)}
+          onTransferred={refresh}
+        />
+      )}
+    </>
+  );
+};
+
+export default ParticipantList;
@@ -0,0 +1,119 @@
+import React, { useEffect, useRef, useState } from "react";
+import { useTranslation } from "react-i18next";
+import { CameraOff } from "lucide-react";
+
+// The Barcode Detection API is not in TypeScript's DOM library yet
+interface BarcodeDetectorLike {
+  detect(source: HTMLVideoElement): Promise<{ rawValue: string }[]>;
+}
+
+declare global {
+  interface Window {
+    BarcodeDetector?: new (options: { formats: string[] }) => BarcodeDetectorLike;
+  }
+}
+
+interface QrScannerProps {
+  onScan: (code: string) => void;
+  paused?: boolean;
+}
+
+const SCAN_INTERVAL_MS = 300;
+// A ticket held in front of the camera is only reported once in this window
+const REPEAT_SCAN_MS = 3000;
+
+const isQrScanningSupported = () =>
+  typeof window !== "undefined" && !!window.BarcodeDetector && !!navigator.mediaDevices?.getUserMedia;
+
+/**
+ * Reads QR codes from the device camera, preferring the rear camera
+ */
+const QrScanner: React.FC<QrScannerProps> = ({ onScan, paused = false }) => {
+  const { t } = useTranslation();
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const onScanRef = useRef(onScan);
+  const pausedRef = useRef(paused);
+  const [error, setError] = useState<string | null>(null);
+
+  onScanRef.current = onScan;
+  pausedRef.current = paused;
+
+  useEffect(() => {
+    if (!isQrScanningSupported()) {
+      setError(t("checkIn.cameraUnsupported"));
+      return;
+    }
+
+    let stream: MediaStream | null = null;
+    let timer: number | undefined;
+    let cancelled = false;
+    let lastCode = "";
+    let lastScanAt = 0;
+    const detector = new window.BarcodeDetector!({ formats: ["qr_code"] });
+
+    const scan = async () => {
+      const video = videoRef.current;
+      if (!cancelled && !pausedRef.current && video && video.readyState >= video.HAVE_CURRENT_DATA) {
+        try {
+          const [barcode] = await detector.detect(video);
+          const now = Date.now();
+          if (barcode && (barcode.rawValue !== lastCode || now - lastScanAt > REPEAT_SCAN_MS)) {
+            lastCode = barcode.rawValue;
+            lastScanAt = now;
+            onScanRef.current(barcode.rawValue);
+          }
+        } catch (scanError) {
+          console.error("Error reading QR code:", scanError);
+        }
+      }
+      if (!cancelled) {
+        timer = window.setTimeout(scan, SCAN_INTERVAL_MS);
+      }
+    };
+
+    navigator.mediaDevices
+      .getUserMedia({ video: { facingMode: "environment" } })
+      .then((mediaStream) => {
+        stream = mediaStream;
+        if (cancelled) {
+          mediaStream.getTracks().forEach(track => track.stop());
+          return;
+        }
+        if (videoRef.current) {
+          videoRef.current.srcObject = mediaStream;
+          videoRef.current.play().catch(() => undefined);
+        }
+        scan();
+      })
+      .catch((cameraError) => {
+        console.error("Error opening camera:", cameraError);
+        setError(t("checkIn.cameraUnavailable"));
+      });
+
+    return () => {
+      cancelled = true;
+      window.clearTimeout(timer);
+      stream?.getTracks().forEach(track => track.stop());
+    };
+  }, [t]);
+
+  if (error) {
+    return (
+      <div className="flex aspect-video w-full flex-col items-center justify-center rounded-md border border-dashed text-center text-sm text-gray-500 dark:text-gray-400">
+        <CameraOff className="mb-2 h-6 w-6" />
+        {error}
+      </div>
+    );
+  }
+
+  return (
+    <video
+      ref={videoRef}
+      className="aspect-video w-full rounded-md bg-black object-cover"
+      muted
+      playsInline
+    />
+  );
+};
+
+export default QrScanner;
@@ -0,0 +1,249 @@
+import React from "react";
+import { useTranslation } from "react-i18next";
+import { ArrowDown, ArrowUp, Plus, Trash2, X } from "lucide-react";
+import {
+  CHOICE_FIELD_TYPES,
+  REGISTRATION_FIELD_TYPES,
+  registrationFieldSchema,
+  type RegistrationField,
+  type RegistrationFieldType,
+} from "@shared/registrationForm";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+
+interface RegistrationFormBuilderProps {
+  value: RegistrationField[];
+  onChange: (fields: RegistrationField[]) => void;
+  // Show what is wrong with each field, once the form has been submitted
+  showErrors?: boolean;
+}
+
+const TEXT_FIELD_TYPES: RegistrationFieldType[] = ["text", "textarea", "email"];
+
+// A key that is not used by any of the existing fields
+function nextFieldId(fields: RegistrationField[]) {
+  let index = fields.length + 1;
+  while (fields.some(field => field.id === `field_${index}`)) index++;
+  return `field_${index}`;
+}
+
+const parseBound = (value: string) => (value === "" ? undefined : Number(value));
+
+/**
+ * Lets organizers define the questions participants answer when registering
+ */
+const RegistrationFormBuilder: React.FC<RegistrationFormBuilderProps> = ({ value, onChange, showErrors }) => {
+  const { t } = useTranslation();
+
+  const updateField = (index: number, changes: Partial<RegistrationField>) => {
+    onChange(value.map((field, i) => (i === index ? { ...field, ...changes } : field)));
+  };
+
+  const changeType = (index: number, type: RegistrationFieldType) => {
+    const field = value[index];
+    updateField(index, {
+      type,
+      options: CHOICE_FIELD_TYPES.includes(type) ? field.options ?? [""] : undefined,
+      pattern: TEXT_FIELD_TYPES.includes(type) ? field.pattern : undefined,
+      min: type === "number" || TEXT_FIELD_TYPES.includes(type) ? field.min : undefined,
+      max: type === "number" || TEXT_FIELD_TYPES.includes(type) ? field.max : undefined,
+    });
+  };
+
+  const moveField = (index: number, offset: number) => {
+    const fields = [...value];
+    const [field] = fields.splice(index, 1);
+    fields.splice(index + offset, 0, field);
+    onChange(fields);
+  };
+
+  const addField = () => {
+    onChange([...value, { id: nextFieldId(value), label: "", type: "text", required: false }]);
+  };
+
+  return (
+    <div className="space-y-4">
+      {value.length === 0 && (
+        <p className="text-sm text-gray-500 dark:text-gray-400">{t("events.registrationForm.empty")}</p>
+      )}
+
+      {value.map((field, index) => {
+        const result = showErrors ? registrationFieldSchema.safeParse(field) : null;
+        const error = result && !result.success ? result.error.issues[0] : null;
+        const isDuplicate = value.some((other, i) => i !== index && other.id === field.id);
+
+        return (
+          <div key={index} className="space-y-4 rounded-md border p-4">
+            <div className="grid grid-cols-6 gap-4">
+              <div className="col-span-6 sm:col-span-3 space-y-2">
+                <Label>{t("events.registrationForm.label")}</Label>
+                <Input value={field.label} onChange={(e) => updateField(index, { label: e.target.value })} />
+              </div>
+              <div className="col-span-3 sm:col-span-2 space-y-2">
+                <Label>{t("events.registrationForm.type")}</Label>
+                <Select value={field.type} onValueChange={(type) => changeType(index, type as RegistrationFieldType)}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {REGISTRATION_FIELD_TYPES.map(type => (
+                      <SelectItem key={type} value={type}>{t(`events.registrationForm.types.${type}`)}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="col-span-3 sm:col-span-1 flex items-end justify-end space-x-1">
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="icon"
+                  aria-label={t("registrations.moveUp")}
+                  disabled={index === 0}
+                  onClick={() => moveField(index, -1)}
+                >
+                  <ArrowUp className="h-4 w-4" />
+                </Button>
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="icon"
+                  aria-label={t("registrations.moveDown")}
+                  disabled={index === value.length - 1}
+                  onClick={() => moveField(index, 1)}
+                >
+                  <ArrowDown className="h-4 w-4" />
+                </Button>
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="icon"
+                  aria-label={t("common.delete")}
+                  className="text-red-600 dark:text-red-400"
+                  onClick={() => onChange(value.filter((_, i) => i !== index))}
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+
+              <div className="col-span-6 sm:col-span-2 space-y-2">
+                <Label>{t("events.registrationForm.key")}</Label>
+                <Input
+                  value={field.id}
+                  onChange={(e) => updateField(index, { id: e.target.value.toLowerCase().replace(/[^a-z0-9_]/g, "_") })}
+                />
+              </div>
+              <div className="col-span-6 sm:col-span-4 space-y-2">
+                <Label>{t("events.registrationForm.helpText")}</Label>
+                <Input
+                  value={field.helpText ?? ""}
+                  onChange={(e) => updateField(index, { helpText: e.target.value || undefined })}
+                />
+              </div>
+
+              {(field.type === "number" || TEXT_FIELD_TYPES.includes(field.type)) && (
+                <>
+                  <div className="col-span-3 sm:col-span-1 space-y-2">
+                    <Label>{field.type === "number" ? t("events.registrationForm.min") : t("events.registrationForm.minLength")}</Label>
+                    <Input
+                      type="number"
+                      value={field.min ?? ""}
+                      onChange={(e) => updateField(index, { min: parseBound(e.target.value) })}
+                    />
+                  </div>
+                  <div className="col-span-3 sm:col-span-1 space-y-2">
+                    <Label>{field.type === "number" ? t("events.registrationForm.max") : t("events.registrationForm.maxLength")}</Label>
+                    <Input
+                      type="number"
+                      value={field.max ?? ""}
+                      onChange={(e) => updateField(index, { max: parseBound(e.target.value) })}
+                    />
+                  </div>
+                </>
+              )}
+
+              {TEXT_FIELD_TYPES.includes(field.type) && (
+                <div className="col-span-6 sm:col-span-4 space-y-2">
+                  <Label>{t("events.registrationForm.pattern")}</Label>
+                  <Input
+                    value={field.pattern ?? ""}
+                    placeholder="^[A-Z]{2}[0-9]{6}$"
+                    onChange={(e) => updateField(index, { pattern: e.target.value || undefined })}
+                  />
+                </div>
+              )}
+
+              {CHOICE_FIELD_TYPES.includes(field.type) && (
+                <div className="col-span-6 space-y-2">
+                  <Label>{t("events.registrationForm.options")}</Label>
+                  {(field.options ?? []).map((option, optionIndex) => (
+                    <div key={optionIndex} className="flex items-center space-x-2">
+                      <Input
+                        value={option}
+                        onChange={(e) => updateField(index, {
+                          options: field.options?.map((o, i) => (i === optionIndex ? e.target.value : o)),
+                        })}
+                      />
+                      <Button
+                        type="button"
+                        variant="ghost"
+                        size="icon"
+                        aria-label={t("common.delete")}
+                        onClick={() => updateField(index, {
+                          options: field.options?.filter((_, i) => i !== optionIndex),
+                        })}
+                      >
+                        <X className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  ))}
+                  <Button
+                    type="button"
+                    variant="outline"
+                    size="sm"
+                    onClick={() => updateField(index, { options: [...(field.options ?? []), ""] })}
+                  >
+                    <Plus className="mr-2 h-4 w-4" />
+                    {t("events.registrationForm.addOption")}
+                  </Button>
+                </div>
+              )}
+            </div>
+
+            <div className="flex items-center space-x-2">
+              <Switch
+                id={`field-required-${index}`}
+                checked={field.required}
+                onCheckedChange={(required) => updateField(index, { required })}
+              />
+              <Label htmlFor={`field-required-${index}`}>
+                {field.type === "checkbox" ? t("events.registrationForm.mustBeChecked") : t("events.registrationForm.required")}
+              </Label>
+            </div>
+
+            {(error || isDuplicate) && (
+              <p className="text-sm font-medium text-destructive">
+                {error ? error.message : t("events.registrationForm.duplicateKey")}
+              </p>
+            )}
+          </div>
+        );
+      })}
+
+      <Button type="button" variant="outline" onClick={addField}>
+        <Plus className="mr-2 h-4 w-4" />
+        {t("events.registrationForm.addField")}
+      </Button>
+    </div>
+  );
+};
+
+export default RegistrationFormBuilder;
@@ -0,0 +1,192 @@
+import React, { useEffect, useMemo } from "react";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { useTranslation } from "react-i18next";
+import { Loader2 } from "lucide-react";
+import {
+  buildRegistrationAnswersSchema,
+  type RegistrationAnswers,
+  type RegistrationField,
+} from "@shared/registrationForm";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Form,
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+
+interface RegistrationFormDialogProps {
+  fields: RegistrationField[];
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onSubmit: (answers: RegistrationAnswers) => void;
+  isSubmitting: boolean;
+  // Validation errors returned by the API, keyed by field id
+  serverErrors?: Record<string, string>;
+}
+
+// Empty starting values, so every input is controlled from the first render
+function initialAnswers(fields: RegistrationField[]): Record<string, unknown> {
+  return Object.fromEntries(fields.map(field => [
+    field.id,
+    field.type === "checkbox" ? false : field.type === "multiselect" ? [] : "",
+  ]));
+}
+
+/**
+ * Renders an event's registration questions and collects the answers
+ */
+const RegistrationFormDialog: React.FC<RegistrationFormDialogProps> = ({
+  fields,
+  open,
+  onOpenChange,
+  onSubmit,
+  isSubmitting,
+  serverErrors,
+}) => {
+  const { t } = useTranslation();
+  const schema = useMemo(() => buildRegistrationAnswersSchema(fields), [fields]);
+
+  const form = useForm<Record<string, unknown>>({
+    resolver: zodResolver(schema),
+    defaultValues: initialAnswers(fields),
+  });
+
+  useEffect(() => {
+    Object.entries(serverErrors ?? {}).forEach(([fieldId, message]) => {
+      form.setError(fieldId, { message });
+    });
+  }, [serverErrors, form]);
+
+  const renderInput = (field: RegistrationField, value: unknown, onChange: (value: unknown) => void) => {
+    switch (field.type) {
+      case "textarea":
+        return <Textarea value={value as string} onChange={(e) => onChange(e.target.value)} />;
+      case "select":
+        return (
+          <Select value={value as string} onValueChange={onChange}>
+            <SelectTrigger>
+              <SelectValue placeholder={t("registrations.selectOption")} />
+            </SelectTrigger>
+            <SelectContent>
+              {field.options?.map(option => (
+                <SelectItem key={option} value={option}>{option}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        );
+      case "multiselect": {
+        const selected = value as string[];
+        return (
+          <div className="space-y-2">
+            {field.options?.map(option => (
+              <label key={option} className="flex items-center space-x-2 text-sm">
+                <Checkbox
+                  checked={selected.includes(option)}
+                  onCheckedChange={(checked) => onChange(
+                    checked ? [...selected, option] : selected.filter(o => o !== option)
+                  )}
+                />
+                <span>{option}</span>
+              </label>
+            ))}
+          </div>
+        );
+      }
+      default:
+        return (
+          <Input
+            type={field.type === "email" || field.type === "date" || field.type === "number" ? field.type : "text"}
+            value={value as string}
+            onChange={(e) => onChange(e.target.value)}
+          />
+        );
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[525px] max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{t("events.registerForEvent")}</DialogTitle>
+          <DialogDescription>{t("registrations.answerQuestions")}</DialogDescription>
+        </DialogHeader>
+        <Form {...form}>
+          <form
+            id="registration-form"
+            className="space-y-4 py-2"
+            onSubmit={form.handleSubmit((answers) => onSubmit(answers as RegistrationAnswers))}
+          >
+            {fields.map(registrationField => (
+              <FormField
+                key={registrationField.id}
+                control={form.control}
+                name={registrationField.id}
+                render={({ field }) => registrationField.type === "checkbox" ? (
+                  <FormItem className="flex flex-row items-start space-x-3 space-y-0">
+                    <FormControl>
+                      <Checkbox checked={field.value as boolean} onCheckedChange={field.onChange} />
+                    </FormControl>
+                    <div className="space-y-1 leading-none">
+                      <FormLabel>
+                        {registrationField.label}
+                        {registrationField.required && <span className="text-red-600"> *</span>}
+                      </FormLabel>
+                      {registrationField.helpText && <FormDescription>{registrationField.helpText}</FormDescription>}
+                      <FormMessage />
+                    </div>
+                  </FormItem>
+                ) : (
+                  <FormItem>
+                    <FormLabel>
+                      {registrationField.label}
+                      {registrationField.required && <span className="text-red-600"> *</span>}
+                    </FormLabel>
+                    <FormControl>
+                      {renderInput(registrationField, field.value, field.onChange)}
+                    </FormControl>
+                    {registrationField.helpText && <FormDescription>{registrationField.helpText}</FormDescription>}
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            ))}
+          </form>
+        </Form>
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={isSubmitting}>
+            {t("common.cancel")}
+          </Button>
+          <Button type="submit" form="registration-form" disabled={isSubmitting}>
+            {isSubmitting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            {t("events.registerForEvent")}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default RegistrationFormDialog;
@@ -0,0 +1,52 @@
+import React from "react";
+import { useTranslation } from "react-i18next";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+
+export type SeriesEditScope = "this" | "following";
+
+interface SeriesScopeDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onSelect: (scope: SeriesEditScope) => void;
+}
+
+/**
+ * Asks whether changes to an occurrence of a series apply to it alone or
+ * to it and every later occurrence
+ */
+const SeriesScopeDialog: React.FC<SeriesScopeDialogProps> = ({ open, onOpenChange, onSelect }) => {
+  const { t } = useTranslation();
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[450px]">
+        <DialogHeader>
+          <DialogTitle>{t("series.scope.title")}</DialogTitle>
+          <DialogDescription>{t("series.scope.description")}</DialogDescription>
+        </DialogHeader>
+
+        <DialogFooter className="gap-2">
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            {t("common.cancel")}
+          </Button>
+          <Button variant="secondary" onClick={() => onSelect("this")}>
+            {t("series.scope.this")}
+          </Button>
+          <Button onClick={() => onSelect("following")}>
+            {t("series.scope.following")}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default SeriesScopeDialog;
@@ -0,0 +1,236 @@
+import React, { useEffect, useMemo, useState } from "react";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { useTranslation } from "react-i18next";
+import { useMutation } from "@tanstack/react-query";
+import { CheckCircle2, Loader2, XCircle } from "lucide-react";
+import {
+  RATING_SCALE,
+  buildAssessmentAnswersSchema,
+  type AssessmentQuestion,
+} from "@shared/assessments";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Label } from "@/components/ui/label";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import { Textarea } from "@/components/ui/textarea";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, getApiErrorBody } from "@/lib/queryClient";
+
+// What the API returns for a submitted attempt
+export interface AssessmentAttempt {
+  id: number;
+  attempt: number;
+  score: number | null;
+  maxScore: number | null;
+  percent: number | null;
+  passed: boolean | null;
+  submittedAt: string;
+}
+
+interface TakeAssessmentDialogProps {
+  assessment: {
+    id: number;
+    title: string;
+    description: string | null;
+    // Without the correct answers
+    questions: AssessmentQuestion[];
+  };
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onSubmitted: () => void;
+}
+
+// Empty starting values, so every input is controlled from the first render
+function initialAnswers(questions: AssessmentQuestion[]): Record<string, unknown> {
+  return Object.fromEntries(questions.map(question => [
+    question.id,
+    question.type === "multiple_choice" ? [] : "",
+  ]));
+}
+
+/**
+ * Shows the questions of a quiz or survey to a participant, then the score
+ * of their attempt
+ */
+const TakeAssessmentDialog: React.FC<TakeAssessmentDialogProps> = ({
+  assessment,
+  open,
+  onOpenChange,
+  onSubmitted,
+}) => {
+  const { t } = useTranslation();
+  const { toast } = useToast();
+  const [result, setResult] = useState<AssessmentAttempt | null>(null);
+  const schema = useMemo(() => buildAssessmentAnswersSchema(assessment.questions), [assessment.questions]);
+
+  const form = useForm<Record<string, unknown>>({
+    resolver: zodResolver(schema),
+    defaultValues: initialAnswers(assessment.questions),
+  });
+
+  // Keyed on the id, so refetching the assessment after submitting keeps the result shown
+  useEffect(() => {
+    if (open) {
+      form.reset(initialAnswers(assessment.questions));
+      setResult(null);
+    }
+  }, [open, assessment.id]);
+
+  const { mutate: submitAnswers, isPending } = useMutation({
+    mutationFn: async (answers: Record<string, unknown>) => {
+      const response = await apiRequest("POST", `/api/assessments/${assessment.id}/responses`, { answers });
+      return response.json() as Promise<AssessmentAttempt>;
+    },
+    onSuccess: (attempt) => {
+      setResult(attempt);
+      onSubmitted();
+    },
+    onError: (error) => {
+      console.error("Error submitting assessment:", error);
+      toast({
+        title: t("common.error"),
+        description: getApiErrorBody(error)?.message ?? t("assessments.take.error"),
+        variant: "destructive",
+      });
+    },
+  });
+
+  const renderInput = (question: AssessmentQuestion, value: unknown, onChange: (value: unknown) => void) => {
+    switch (question.type) {
+      case "single_choice":
+        return (
+          <RadioGroup value={value as string} onValueChange={onChange}>
+            {question.options?.map((option, index) => (
+              <div key={option} className="flex items-center space-x-2">
+                <RadioGroupItem id={`${question.id}-${index}`} value={option} />
+                <Label htmlFor={`${question.id}-${index}`} className="font-normal">{option}</Label>
+              </div>
+            ))}
+          </RadioGroup>
+        );
+      case "multiple_choice": {
+        const selected = value as string[];
+        return (
+          <div className="space-y-2">
+            {question.options?.map(option => (
+              <label key={option} className="flex items-center space-x-2 text-sm">
+                <Checkbox
+                  checked={selected.includes(option)}
+                  onCheckedChange={(checked) => onChange(
+                    checked ? [...selected, option] : selected.filter(o => o !== option)
+                  )}
+                />
+                <span>{option}</span>
+              </label>
+            ))}
+          </div>
+        );
+      }
+      case "rating":
+        return (
+          <RadioGroup value={String(value)} onValueChange={onChange} className="flex space-x-4">
+            {Array.from({ length: RATING_SCALE }, (_, index) => String(index + 1)).map(rating => (
+              <div key={rating} className="flex flex-col items-center space-y-1">
+                <RadioGroupItem id={`${question.id}-${rating}`} value={rating} />
+                <Label htmlFor={`${question.id}-${rating}`} className="font-normal">{rating}</Label>
+              </div>
+            ))}
+          </RadioGroup>
+        );
+      default:
+        return <Textarea value={value as string} onChange={(e) => onChange(e.target.value)} />;
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[600px] max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{assessment.title}</DialogTitle>
+          <DialogDescription>{assessment.description || t("assessments.take.description")}</DialogDescription>
+        </DialogHeader>
+
+        {result ? (
+          <div className="flex flex-col items-center space-y-3 py-6 text-center">
+            {result.passed === false
+              ? <XCircle className="h-12 w-12 text-red-500" />
+              : <CheckCircle2 className="h-12 w-12 text-green-500" />}
+            <p className="text-lg font-medium text-gray-900 dark:text-white">
+              {result.percent === null
+                ? t("assessments.take.thanks")
+                : t("assessments.take.score", { score: result.score, maxScore: result.maxScore, percent: result.percent })}
+            </p>
+            {result.passed !== null && (
+              <p className="text-sm text-gray-500 dark:text-gray-400">
+                {result.passed ? t("assessments.take.passed") : t("assessments.take.failed")}
+              </p>
+            )}
+          </div>
+        ) : (
+          <Form {...form}>
+            <form
+              id="assessment-form"
+              className="space-y-6 py-2"
+              onSubmit={form.handleSubmit((answers) => submitAnswers(answers))}
+            >
+              {assessment.questions.map((question, index) => (
+                <FormField
+                  key={question.id}
+                  control={form.control}
+                  name={question.id}
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>
+                        {index + 1}. {question.text}
+                        {question.required && <span className="text-red-600"> *</span>}
+                      </FormLabel>
+                      <FormControl>
+                        {renderInput(question, field.value, field.onChange)}
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              ))}
+            </form>
+          </Form>
+        )}
+
+        <DialogFooter>
+          {result ? (
+            <Button onClick={() => onOpenChange(false)}>{t("common.close")}</Button>
+          ) : (
+            <>
+              <Button variant="outline" onClick={() => onOpenChange(false)} disabled={isPending}>
+                {t("common.cancel")}
+              </Button>
+              <Button type="submit" form="assessment-form" disabled={isPending}>
+                {isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                {t("assessments.take.submit")}
+              </Button>
+            </>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default TakeAssessmentDialog;
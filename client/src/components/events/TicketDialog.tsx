@@ -0,0 +1,69 @@
+import React from "react";
+import { useTranslation } from "react-i18next";
+import { useQuery } from "@tanstack/react-query";
+import { format } from "date-fns";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Skeleton } from "@/components/ui/skeleton";
+
+interface Ticket {
+  registrationId: number;
+  code: string;
+  qrCode: string;
+  event: {
+    id: number;
+    title: string;
+    startDate: string;
+    location: string;
+  };
+}
+
+interface TicketDialogProps {
+  registrationId: number;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+/**
+ * Shows the signed QR ticket scanned at the check-in desk
+ */
+const TicketDialog: React.FC<TicketDialogProps> = ({ registrationId, open, onOpenChange }) => {
+  const { t } = useTranslation();
+
+  const { data: ticket, isLoading } = useQuery<Ticket>({
+    queryKey: [`/api/registrations/${registrationId}/ticket`],
+    enabled: open,
+  });
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[360px]">
+        <DialogHeader>
+          <DialogTitle>{t("checkIn.ticket")}</DialogTitle>
+          <DialogDescription>{t("checkIn.ticketDescription")}</DialogDescription>
+        </DialogHeader>
+        {isLoading || !ticket ? (
+          <Skeleton className="mx-auto h-60 w-60" />
+        ) : (
+          <div className="flex flex-col items-center space-y-3 py-2">
+            <img src={ticket.qrCode} alt={ticket.code} className="h-60 w-60" />
+            <code className="rounded bg-gray-100 px-2 py-1 text-sm tracking-wider dark:bg-gray-800">{ticket.code}</code>
+            <div className="text-center">
+              <div className="text-sm font-medium text-gray-900 dark:text-white">{ticket.event.title}</div>
+              <div className="text-xs text-gray-500 dark:text-gray-400">
+                {format(new Date(ticket.event.startDate), "PP")} · {ticket.event.location}
+              </div>
+            </div>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default TicketDialog;
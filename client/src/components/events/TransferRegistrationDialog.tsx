@@ -0,0 +1,157 @@
+import React, { useState } from "react";
+import { useTranslation } from "react-i18next";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Loader2 } from "lucide-react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, getApiErrorBody } from "@/lib/queryClient";
+import type { EligibilityIssue } from "@shared/eligibility";
+
+interface TransferCandidate {
+  id: number;
+  fullName: string;
+  email: string;
+  organizationId: number | null;
+  active: boolean;
+}
+
+interface TransferRegistrationDialogProps {
+  registration: {
+    id: number;
+    user: {
+      id: number;
+      fullName: string;
+      organizationId: number | null;
+    };
+  };
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onTransferred: () => void;
+}
+
+/**
+ * Substitutes another member of the registrant's organization for them
+ */
+const TransferRegistrationDialog: React.FC<TransferRegistrationDialogProps> = ({
+  registration,
+  open,
+  onOpenChange,
+  onTransferred,
+}) => {
+  const { t } = useTranslation();
+  const { toast } = useToast();
+  const [userId, setUserId] = useState<string>("");
+  const [reason, setReason] = useState("");
+
+  const { data, isLoading } = useQuery<{ users: TransferCandidate[] }>({
+    queryKey: ["/api/users?limit=100"],
+    enabled: open,
+  });
+
+  const candidates = (data?.users ?? []).filter(user =>
+    user.active &&
+    user.id !== registration.user.id &&
+    user.organizationId !== null &&
+    user.organizationId === registration.user.organizationId
+  );
+
+  const { mutate: transferRegistration, isPending } = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", `/api/registrations/${registration.id}/transfer`, {
+        userId: parseInt(userId),
+        reason: reason.trim() || undefined,
+      });
+      return response.json();
+    },
+    onSuccess: () => {
+      setUserId("");
+      setReason("");
+      onOpenChange(false);
+      onTransferred();
+      toast({
+        title: t("registrations.transferSuccess"),
+      });
+    },
+    onError: (error) => {
+      console.error("Error transferring registration:", error);
+      const body = getApiErrorBody(error);
+      toast({
+        title: t("common.error"),
+        description: [body?.message, ...(body?.reasons ?? []).map((reason: EligibilityIssue) => reason.message)]
+          .filter(Boolean)
+          .join(". "),
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[425px]">
+        <DialogHeader>
+          <DialogTitle>{t("registrations.transferRegistration")}</DialogTitle>
+          <DialogDescription>
+            {t("registrations.transferDescription", { name: registration.user.fullName })}
+          </DialogDescription>
+        </DialogHeader>
+        <div className="grid gap-4 py-4">
+          <div className="grid gap-2">
+            <Label>{t("registrations.transferTo")}</Label>
+            <Select value={userId} onValueChange={setUserId} disabled={isLoading}>
+              <SelectTrigger>
+                <SelectValue placeholder={t("registrations.selectParticipant")} />
+              </SelectTrigger>
+              <SelectContent>
+                {candidates.map(user => (
+                  <SelectItem key={user.id} value={String(user.id)}>
+                    {user.fullName} ({user.email})
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            {!isLoading && candidates.length === 0 && (
+              <p className="text-xs text-gray-500 dark:text-gray-400">{t("registrations.noTransferCandidates")}</p>
+            )}
+          </div>
+          <div className="grid gap-2">
+            <Label htmlFor="transfer-reason">{t("registrations.transferReason")}</Label>
+            <Textarea
+              id="transfer-reason"
+              value={reason}
+              maxLength={500}
+              onChange={(e) => setReason(e.target.value)}
+            />
+          </div>
+        </div>
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={isPending}>
+            {t("common.cancel")}
+          </Button>
+          <Button onClick={() => transferRegistration()} disabled={isPending || !userId}>
+            {isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            {t("registrations.transfer")}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default TransferRegistrationDialog;
@@ -0,0 +1,176 @@
+import React from "react";
+import { useTranslation } from "react-i18next";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { ArrowDown, ArrowUp, Clock, XCircle } from "lucide-react";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow
+} from "@/components/ui/table";
+import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Skeleton } from "@/components/ui/skeleton";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+
+interface WaitlistEntry {
+  id: number;
+  waitlistPosition: number;
+  offerExpiresAt: string | null;
+  registrationDate: string;
+  user: {
+    id: number;
+    fullName: string;
+    email: string;
+    organization: string | null;
+    profileImage: string | null;
+  };
+}
+
+interface WaitlistQueueProps {
+  eventId: number;
+  canManage: boolean;
+}
+
+const WaitlistQueue: React.FC<WaitlistQueueProps> = ({ eventId, canManage }) => {
+  const { t } = useTranslation();
+  const { toast } = useToast();
+  const queryKey = [`/api/events/${eventId}/waitlist`];
+
+  const { data: waitlist, isLoading } = useQuery<WaitlistEntry[]>({
+    queryKey,
+  });
+
+  const onError = (error: Error) => {
+    console.error("Error updating waitlist:", error);
+    toast({
+      title: t("common.error"),
+      description: t("registrations.waitlistUpdateError"),
+      variant: "destructive",
+    });
+  };
+
+  const { mutate: moveEntry, isPending: isMoving } = useMutation({
+    mutationFn: async ({ id, position }: { id: number; position: number }) => {
+      const response = await apiRequest("PUT", `/api/registrations/${id}/waitlist-position`, { position });
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey });
+    },
+    onError,
+  });
+
+  const { mutate: removeEntry, isPending: isRemoving } = useMutation({
+    mutationFn: async (id: number) => {
+      const response = await apiRequest("PUT", `/api/registrations/${id}/status`, { status: "rejected" });
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey });
+      toast({
+        title: t("registrations.rejectSuccess"),
+      });
+    },
+    onError,
+  });
+
+  if (isLoading) {
+    return <Skeleton className="h-32 w-full" />;
+  }
+
+  if (!waitlist || waitlist.length === 0) {
+    return (
+      <div className="text-center py-6 text-gray-500 dark:text-gray-400">
+        {t("registrations.waitlistEmpty")}
+      </div>
+    );
+  }
+
+  return (
+    <Table>
+      <TableHeader>
+        <TableRow>
+          <TableHead className="w-12">#</TableHead>
+          <TableHead>{t("users.fullName")}</TableHead>
+          <TableHead>{t("registrations.registrationDate")}</TableHead>
+          <TableHead>{t("registrations.status")}</TableHead>
+          {canManage && <TableHead className="text-right">{t("common.actions")}</TableHead>}
+        </TableRow>
+      </TableHeader>
+      <TableBody>
+        {waitlist.map((entry, index) => (
+          <TableRow key={entry.id}>
+            <TableCell className="font-medium">{entry.waitlistPosition}</TableCell>
+            <TableCell>
+              <div className="flex items-center">
+                <Avatar className="h-8 w-8">
+                  <AvatarImage src={entry.user.profileImage || undefined} alt={entry.user.fullName} />
+                  <AvatarFallback>{entry.user.fullName.charAt(0)}</AvatarFallback>
+                </Avatar>
+                <div className="ml-3">
+                  <div className="text-sm font-medium text-gray-900 dark:text-white">{entry.user.fullName}</div>
+                  <div className="text-xs text-gray-500 dark:text-gray-400">
+                    {entry.user.organization || entry.user.email}
+                  </div>
+                </div>
+              </div>
+            </TableCell>
+            <TableCell className="text-sm">
+              {format(new Date(entry.registrationDate), "PP")}
+            </TableCell>
+            <TableCell>
+              {entry.offerExpiresAt ? (
+                <Badge variant="outline" className="whitespace-nowrap">
+                  <Clock className="mr-1 h-3 w-3" />
+                  {t("registrations.offerExpires", { date: format(new Date(entry.offerExpiresAt), "PPp") })}
+                </Badge>
+              ) : (
+                <Badge variant="secondary">{t("events.registrationStatus.waitlisted")}</Badge>
+              )}
+            </TableCell>
+            {canManage && (
+              <TableCell className="text-right whitespace-nowrap">
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  aria-label={t("registrations.moveUp")}
+                  disabled={index === 0 || isMoving}
+                  onClick={() => moveEntry({ id: entry.id, position: entry.waitlistPosition - 1 })}
+                >
+                  <ArrowUp className="h-4 w-4" />
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  aria-label={t("registrations.moveDown")}
+                  disabled={index === waitlist.length - 1 || isMoving}
+                  onClick={() => moveEntry({ id: entry.id, position: entry.waitlistPosition + 1 })}
+                >
+                  <ArrowDown className="h-4 w-4" />
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  aria-label={t("registrations.reject")}
+                  className="text-red-600 dark:text-red-400"
+                  disabled={isRemoving}
+                  onClick={() => removeEntry(entry.id)}
+                >
+                  <XCircle className="h-4 w-4" />
+                </Button>
+              </TableCell>
+            )}
+          </TableRow>
+        ))}
+      </TableBody>
+    </Table>
+  );
+};
+
+export default WaitlistQueue;
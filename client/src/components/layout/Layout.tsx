@@ -1,6 +1,7 @@
 import React, { useState } from "react";
 import Header from "./Header";
 import Sidebar from "./Sidebar";
+import VerificationBanner from "./VerificationBanner";
 import { useAuth } from "@/hooks/useAuth";
 import { useLocation } from "wouter";
 
@@ -55,6 +56,7 @@ const Layout: React.FC<LayoutProps> = ({ children }) => {
         
         {/* Main content area */}
         <main className="flex-1 overflow-y-auto focus:outline-none bg-gray-50 dark:bg-gray-900">
+          <VerificationBanner />
           <div className="py-6">
             {children}
           </div>
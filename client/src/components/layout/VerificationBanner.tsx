@@ -0,0 +1,55 @@
+import React from "react";
+import { useTranslation } from "react-i18next";
+import { useMutation } from "@tanstack/react-query";
+import { MailWarning, Loader2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { useAuth } from "@/hooks/useAuth";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+
+// Shown until the signed-in user confirms their email; until then they can only browse published events
+const VerificationBanner: React.FC = () => {
+  const { t } = useTranslation();
+  const { user } = useAuth();
+  const { toast } = useToast();
+
+  const { mutate: resend, isPending } = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", "/api/auth/verify/resend");
+      return response.json();
+    },
+    onSuccess: () => {
+      toast({
+        title: t("auth.verificationEmailSent"),
+        description: t("auth.verificationEmailSentMessage"),
+      });
+    },
+    onError: (error) => {
+      console.error("Error resending verification email:", error);
+      toast({
+        title: t("common.error"),
+        description: t("auth.verificationEmailFailed"),
+        variant: "destructive",
+      });
+    },
+  });
+
+  if (!user || user.verified !== false) return null;
+
+  return (
+    <div className="bg-yellow-50 border-b border-yellow-200 dark:bg-yellow-900/30 dark:border-yellow-800 px-4 py-3 sm:px-6 lg:px-8">
+      <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-2">
+        <div className="flex items-center text-sm text-yellow-800 dark:text-yellow-200">
+          <MailWarning className="h-5 w-5 mr-2 flex-shrink-0" />
+          <span>{t("auth.verifyEmailBanner", { email: user.email })}</span>
+        </div>
+        <Button size="sm" variant="outline" onClick={() => resend()} disabled={isPending}>
+          {isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+          {t("auth.resendVerification")}
+        </Button>
+      </div>
+    </div>
+  );
+};
+
+export default VerificationBanner;
@@ -0,0 +1,81 @@
+import React from "react";
+import { useTranslation } from "react-i18next";
+import { useQuery } from "@tanstack/react-query";
+import { Organization } from "@shared/schema";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+
+interface OrganizationSelectProps {
+  value?: number | null;
+  onChange: (value: number | null) => void;
+  disabled?: boolean;
+  placeholder?: string;
+}
+
+// Flatten the organization tree depth-first so children follow their parent
+const flattenTree = (organizations: Organization[]) => {
+  const byParent = new Map<number | null, Organization[]>();
+  organizations.forEach(org => {
+    const siblings = byParent.get(org.parentId) || [];
+    siblings.push(org);
+    byParent.set(org.parentId, siblings);
+  });
+
+  const result: { organization: Organization; depth: number }[] = [];
+  const visit = (parentId: number | null, depth: number) => {
+    (byParent.get(parentId) || []).forEach(org => {
+      result.push({ organization: org, depth });
+      visit(org.id, depth + 1);
+    });
+  };
+  visit(null, 0);
+
+  return result;
+};
+
+const OrganizationSelect: React.FC<OrganizationSelectProps> = ({
+  value,
+  onChange,
+  disabled,
+  placeholder,
+}) => {
+  const { t } = useTranslation();
+
+  const { data: organizations = [] } = useQuery<Organization[]>({
+    queryKey: ['/api/organizations'],
+  });
+
+  const options = React.useMemo(() => flattenTree(organizations), [organizations]);
+
+  return (
+    <Select
+      value={value ? value.toString() : "none"}
+      onValueChange={(selected) => onChange(selected === "none" ? null : parseInt(selected))}
+      disabled={disabled}
+    >
+      <SelectTrigger>
+        <SelectValue placeholder={placeholder || t("organizations.selectOrganization")} />
+      </SelectTrigger>
+      <SelectContent>
+        <SelectItem value="none">{t("organizations.noOrganization")}</SelectItem>
+        {options.map(({ organization, depth }) => (
+          <SelectItem key={organization.id} value={organization.id.toString()}>
+            <span style={{ paddingInlineStart: `${depth * 12}px` }}>
+              {organization.name}
+            </span>
+            <span className="ml-2 text-xs text-gray-500 dark:text-gray-400">
+              {t(`organizations.types.${organization.type}`)}
+            </span>
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+};
+
+export default OrganizationSelect;
@@ -0,0 +1,162 @@
+import React from "react";
+import { useTranslation } from "react-i18next";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { formatDistanceToNow, format } from "date-fns";
+import { Monitor, LogOut, Loader2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Skeleton } from "@/components/ui/skeleton";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow
+} from "@/components/ui/table";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+
+interface Session {
+  id: number;
+  device: string | null;
+  ipAddress: string | null;
+  userAgent: string | null;
+  createdAt: string;
+  lastUsedAt: string;
+  expiresAt: string;
+  current: boolean;
+}
+
+interface ActiveSessionsProps {
+  // Another user's sessions (admin view); defaults to the current user
+  userId?: number;
+}
+
+const ActiveSessions: React.FC<ActiveSessionsProps> = ({ userId }) => {
+  const { t } = useTranslation();
+  const { toast } = useToast();
+
+  const sessionsUrl = userId ? `/api/auth/sessions?userId=${userId}` : "/api/auth/sessions";
+
+  const { data: sessions, isLoading } = useQuery<Session[]>({
+    queryKey: [sessionsUrl],
+  });
+
+  const onRevoked = () => {
+    toast({
+      title: t("sessions.revokeSuccess"),
+      description: t("sessions.revokeSuccessMessage"),
+    });
+    queryClient.invalidateQueries({ queryKey: [sessionsUrl] });
+  };
+
+  const onRevokeError = (error: unknown) => {
+    console.error("Error revoking session:", error);
+    toast({
+      title: t("common.error"),
+      description: t("sessions.revokeError"),
+      variant: "destructive",
+    });
+  };
+
+  // Revoke a single session
+  const { mutate: revokeSession, isPending: isRevoking } = useMutation({
+    mutationFn: async (sessionId: number) => {
+      const response = await apiRequest("DELETE", `/api/auth/sessions/${sessionId}`);
+      return response.json();
+    },
+    onSuccess: onRevoked,
+    onError: onRevokeError,
+  });
+
+  // Revoke every session except the current one
+  const { mutate: revokeOtherSessions, isPending: isRevokingOthers } = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("DELETE", "/api/auth/sessions");
+      return response.json();
+    },
+    onSuccess: onRevoked,
+    onError: onRevokeError,
+  });
+
+  if (isLoading) {
+    return <Skeleton className="h-32 w-full" />;
+  }
+
+  if (!sessions?.length) {
+    return (
+      <div className="text-center py-6 text-sm text-gray-500 dark:text-gray-400">
+        {t("sessions.noSessions")}
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead>{t("sessions.device")}</TableHead>
+            <TableHead>{t("sessions.ipAddress")}</TableHead>
+            <TableHead>{t("sessions.lastActive")}</TableHead>
+            <TableHead>{t("sessions.signedIn")}</TableHead>
+            <TableHead className="text-right">{t("common.actions")}</TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {sessions.map((session) => (
+            <TableRow key={session.id}>
+              <TableCell>
+                <div className="flex items-center">
+                  <Monitor className="h-4 w-4 mr-2 text-gray-400" />
+                  <span title={session.userAgent || undefined}>
+                    {session.device || t("sessions.unknownDevice")}
+                  </span>
+                  {session.current && (
+                    <Badge variant="secondary" className="ml-2">
+                      {t("sessions.current")}
+                    </Badge>
+                  )}
+                </div>
+              </TableCell>
+              <TableCell className="font-mono text-xs">{session.ipAddress || "-"}</TableCell>
+              <TableCell>
+                {formatDistanceToNow(new Date(session.lastUsedAt), { addSuffix: true })}
+              </TableCell>
+              <TableCell>{format(new Date(session.createdAt), "MMM d, yyyy HH:mm")}</TableCell>
+              <TableCell className="text-right">
+                {!session.current && (
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => revokeSession(session.id)}
+                    disabled={isRevoking}
+                  >
+                    <LogOut className="h-4 w-4 mr-2" />
+                    {t("sessions.revoke")}
+                  </Button>
+                )}
+              </TableCell>
+            </TableRow>
+          ))}
+        </TableBody>
+      </Table>
+
+      {!userId && sessions.length > 1 && (
+        <div className="flex justify-end">
+          <Button
+            variant="destructive"
+            onClick={() => revokeOtherSessions()}
+            disabled={isRevokingOthers}
+          >
+            {isRevokingOthers && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            {t("sessions.revokeOthers")}
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ActiveSessions;
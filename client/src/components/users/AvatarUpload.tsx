@@ -0,0 +1,84 @@
+import React, { useRef } from "react";
+import { useTranslation } from "react-i18next";
+import { useMutation } from "@tanstack/react-query";
+import { Camera, Loader2, Trash2 } from "lucide-react";
+import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
+import { Button } from "@/components/ui/button";
+import { useAuth } from "@/hooks/useAuth";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, getApiErrorBody, queryClient } from "@/lib/queryClient";
+
+const ACCEPTED_TYPES = "image/jpeg,image/png,image/gif,image/webp";
+
+const AvatarUpload: React.FC = () => {
+  const { t } = useTranslation();
+  const { toast } = useToast();
+  const { user, mergeUser } = useAuth();
+  const inputRef = useRef<HTMLInputElement>(null);
+
+  // Uploads a new picture, or removes the current one when no file is given
+  const { mutate: saveAvatar, isPending } = useMutation({
+    mutationFn: async (file: File | null) => {
+      if (!file) {
+        const response = await apiRequest("DELETE", "/api/users/me/avatar");
+        return response.json();
+      }
+
+      const formData = new FormData();
+      formData.append("avatar", file);
+      const response = await apiRequest("POST", "/api/users/me/avatar", formData);
+      return response.json();
+    },
+    onSuccess: (data: { profileImage: string | null }) => {
+      mergeUser({ profileImage: data.profileImage });
+      queryClient.invalidateQueries({ queryKey: ["/api/users/me"] });
+      toast({
+        title: data.profileImage ? t("profile.uploadSuccess") : t("profile.removeSuccess"),
+      });
+    },
+    onError: (error) => {
+      console.error("Error saving avatar:", error);
+      toast({
+        title: t("profile.uploadFailed"),
+        description: getApiErrorBody(error)?.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  if (!user) return null;
+
+  return (
+    <div className="flex items-center space-x-4">
+      <Avatar className="h-16 w-16">
+        <AvatarImage src={user.profileImage || undefined} alt={user.fullName} />
+        <AvatarFallback>{user.fullName.charAt(0)}</AvatarFallback>
+      </Avatar>
+      <div className="flex space-x-2">
+        <input
+          ref={inputRef}
+          type="file"
+          accept={ACCEPTED_TYPES}
+          className="hidden"
+          onChange={(event) => {
+            const file = event.target.files?.[0];
+            if (file) saveAvatar(file);
+            event.target.value = "";
+          }}
+        />
+        <Button variant="outline" size="sm" onClick={() => inputRef.current?.click()} disabled={isPending}>
+          {isPending ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Camera className="mr-2 h-4 w-4" />}
+          {t("profile.uploadImage")}
+        </Button>
+        {user.profileImage && (
+          <Button variant="ghost" size="sm" onClick={() => saveAvatar(null)} disabled={isPending}>
+            <Trash2 className="mr-2 h-4 w-4" />
+            {t("profile.removeImage")}
+          </Button>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default AvatarUpload;
@@ -0,0 +1,119 @@
+import React, { useState } from "react";
+import { useTranslation } from "react-i18next";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Copy, Loader2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Skeleton } from "@/components/ui/skeleton";
+import { apiRequest, getApiErrorBody, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+
+interface CalendarFeedStatus {
+  enabled: boolean;
+}
+
+/**
+ * The personal calendar feed with every event the user is approved for.
+ * Its URL is shown once when created; resetting it stops the old one working.
+ */
+const CalendarFeedSettings: React.FC = () => {
+  const { t } = useTranslation();
+  const { toast } = useToast();
+  const queryKey = ["/api/users/me/calendar-feed"];
+  const [feedUrl, setFeedUrl] = useState<string | null>(null);
+
+  const { data: status, isLoading } = useQuery<CalendarFeedStatus>({
+    queryKey,
+  });
+
+  const onError = (error: Error) => {
+    console.error("Error updating calendar feed:", error);
+    toast({
+      title: t("common.error"),
+      description: getApiErrorBody(error)?.message ?? t("calendarFeed.error"),
+      variant: "destructive",
+    });
+  };
+
+  const { mutate: createFeed, isPending: isCreating } = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", "/api/users/me/calendar-feed");
+      return response.json() as Promise<{ url: string }>;
+    },
+    onSuccess: ({ url }) => {
+      setFeedUrl(url);
+      queryClient.invalidateQueries({ queryKey });
+    },
+    onError,
+  });
+
+  const { mutate: revokeFeed, isPending: isRevoking } = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("DELETE", "/api/users/me/calendar-feed");
+      return response.json();
+    },
+    onSuccess: () => {
+      setFeedUrl(null);
+      queryClient.invalidateQueries({ queryKey });
+      toast({
+        title: t("calendarFeed.revoked"),
+      });
+    },
+    onError,
+  });
+
+  const copyUrl = async () => {
+    await navigator.clipboard.writeText(feedUrl!);
+    toast({
+      title: t("calendarFeed.copied"),
+    });
+  };
+
+  if (isLoading || !status) {
+    return <Skeleton className="h-20 w-full" />;
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between gap-4">
+        <div>
+          <div className="flex items-center space-x-2">
+            <span className="font-medium">{t("calendarFeed.status")}</span>
+            <Badge variant={status.enabled ? "default" : "secondary"}>
+              {status.enabled ? t("calendarFeed.enabled") : t("calendarFeed.notEnabled")}
+            </Badge>
+          </div>
+          <p className="text-sm text-gray-500 dark:text-gray-400 mt-1">{t("calendarFeed.description")}</p>
+        </div>
+        <div className="flex space-x-2">
+          <Button variant={status.enabled ? "outline" : "default"} onClick={() => createFeed()} disabled={isCreating}>
+            {isCreating && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            {status.enabled ? t("calendarFeed.reset") : t("calendarFeed.create")}
+          </Button>
+          {status.enabled && (
+            <Button variant="destructive" onClick={() => revokeFeed()} disabled={isRevoking}>
+              {isRevoking && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              {t("calendarFeed.revoke")}
+            </Button>
+          )}
+        </div>
+      </div>
+
+      {feedUrl && (
+        <div className="space-y-2">
+          <p className="text-sm text-gray-500 dark:text-gray-400">{t("calendarFeed.urlInstructions")}</p>
+          <div className="flex space-x-2">
+            <Input readOnly value={feedUrl} className="font-mono text-sm" onFocus={(e) => e.target.select()} />
+            <Button variant="outline" onClick={copyUrl}>
+              <Copy className="h-4 w-4 mr-2" />
+              {t("calendarFeed.copy")}
+            </Button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default CalendarFeedSettings;
@@ -0,0 +1,163 @@
+import React from "react";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { z } from "zod";
+import { useTranslation } from "react-i18next";
+import { useMutation } from "@tanstack/react-query";
+import { Loader2 } from "lucide-react";
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import { Button } from "@/components/ui/button";
+import PasswordStrength from "@/components/users/PasswordStrength";
+import { usePasswordPolicy } from "@/hooks/usePasswordPolicy";
+import { useAuth } from "@/hooks/useAuth";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, getApiErrorBody } from "@/lib/queryClient";
+
+const passwordSchema = z.object({
+  currentPassword: z.string(),
+  newPassword: z.string().min(1, { message: "Password is required" }),
+  confirmPassword: z.string(),
+}).refine((data) => data.newPassword === data.confirmPassword, {
+  message: "Passwords don't match",
+  path: ["confirmPassword"],
+});
+
+type PasswordFormData = z.infer<typeof passwordSchema>;
+
+interface ChangePasswordFormProps {
+  // Changing an expired password during login, before a session exists
+  challengeToken?: string;
+  onComplete?: (data: any) => void;
+}
+
+const ChangePasswordForm: React.FC<ChangePasswordFormProps> = ({ challengeToken, onComplete }) => {
+  const { t } = useTranslation();
+  const { toast } = useToast();
+  const { user } = useAuth();
+  const { check, describe } = usePasswordPolicy();
+
+  const form = useForm<PasswordFormData>({
+    resolver: zodResolver(passwordSchema),
+    defaultValues: {
+      currentPassword: "",
+      newPassword: "",
+      confirmPassword: "",
+    },
+  });
+
+  const personalInfo = [user?.username, user?.email, user?.fullName];
+  const newPassword = form.watch("newPassword");
+
+  const { mutate: changePassword, isPending } = useMutation({
+    mutationFn: async (data: PasswordFormData) => {
+      const response = challengeToken
+        ? await apiRequest("POST", "/api/auth/password/expired", { challengeToken, newPassword: data.newPassword })
+        : await apiRequest("POST", "/api/auth/change-password", {
+            currentPassword: data.currentPassword,
+            newPassword: data.newPassword,
+          });
+      return response.json();
+    },
+    onSuccess: (data) => {
+      form.reset();
+      toast({
+        title: t("auth.passwordChangeSuccess"),
+      });
+      onComplete?.(data);
+    },
+    onError: (error) => {
+      const body = getApiErrorBody(error);
+
+      if (body?.violations) {
+        form.setError("newPassword", { message: describe(body.violations) });
+      } else if (!challengeToken && body?.message === "Current password is incorrect") {
+        form.setError("currentPassword", { message: t("password.currentIncorrect") });
+      } else {
+        console.error("Error changing password:", error);
+        toast({
+          title: t("auth.passwordChangeFailed"),
+          description: body?.message,
+          variant: "destructive",
+        });
+      }
+    },
+  });
+
+  const handleSubmit = (data: PasswordFormData) => {
+    if (!challengeToken && !data.currentPassword) {
+      form.setError("currentPassword", { message: t("password.currentRequired") });
+      return;
+    }
+
+    const violations = check(data.newPassword, personalInfo);
+    if (violations.length > 0) {
+      form.setError("newPassword", { message: describe(violations) });
+      return;
+    }
+
+    changePassword(data);
+  };
+
+  return (
+    <Form {...form}>
+      <form onSubmit={form.handleSubmit(handleSubmit)} className="space-y-4">
+        {!challengeToken && (
+          <FormField
+            control={form.control}
+            name="currentPassword"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>{t("auth.currentPassword")}</FormLabel>
+                <FormControl>
+                  <Input type="password" autoComplete="current-password" {...field} />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+        )}
+        <FormField
+          control={form.control}
+          name="newPassword"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>{t("auth.newPassword")}</FormLabel>
+              <FormControl>
+                <Input type="password" autoComplete="new-password" {...field} />
+              </FormControl>
+              <PasswordStrength password={newPassword} personalInfo={personalInfo} />
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+        <FormField
+          control={form.control}
+          name="confirmPassword"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>{t("auth.confirmNewPassword")}</FormLabel>
+              <FormControl>
+                <Input type="password" autoComplete="new-password" {...field} />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+        <Button type="submit" className={challengeToken ? "w-full" : undefined} disabled={isPending}>
+          {isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+          {t("auth.changePassword")}
+        </Button>
+      </form>
+    </Form>
+  );
+};
+
+export default ChangePasswordForm;
@@ -0,0 +1,160 @@
+import React, { useState } from "react";
+import { useTranslation } from "react-i18next";
+import { useQuery } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { Download, Loader2 } from "lucide-react";
+import type { CmeYearSummary } from "@shared/cmeCredits";
+import { Button } from "@/components/ui/button";
+import { Progress } from "@/components/ui/progress";
+import { Skeleton } from "@/components/ui/skeleton";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow
+} from "@/components/ui/table";
+import { cn } from "@/lib/utils";
+import { downloadFile } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+
+interface CmeCreditEntry {
+  id: number;
+  credits: number;
+  description: string;
+  earnedOn: string;
+  certificate: { id: number; certificateNumber: string } | null;
+}
+
+interface CmeLedgerResponse {
+  years: CmeYearSummary[];
+  entries: CmeCreditEntry[];
+}
+
+interface CmeLedgerProps {
+  // Another user's ledger (admin view); defaults to the current user
+  userId?: number;
+}
+
+/**
+ * CME credits earned per year against the role requirement, with the ledger
+ * entries of the selected year
+ */
+const CmeLedger: React.FC<CmeLedgerProps> = ({ userId }) => {
+  const { t } = useTranslation();
+  const { toast } = useToast();
+  const [year, setYear] = useState(new Date().getFullYear());
+  const [isDownloading, setIsDownloading] = useState(false);
+
+  const ledgerUrl = `${userId ? `/api/users/${userId}/cme` : "/api/user/cme"}?year=${year}`;
+
+  const { data, isLoading } = useQuery<CmeLedgerResponse>({
+    queryKey: [ledgerUrl],
+  });
+
+  const handleDownloadTranscript = async () => {
+    setIsDownloading(true);
+    try {
+      await downloadFile(`/api/user/cme/transcript.csv?year=${year}`, `cme-transcript-${year}.csv`);
+    } catch (error) {
+      console.error("Error downloading CME transcript:", error);
+      toast({
+        title: t("common.error"),
+        description: t("cme.transcriptError"),
+        variant: "destructive",
+      });
+    } finally {
+      setIsDownloading(false);
+    }
+  };
+
+  if (isLoading || !data) {
+    return <Skeleton className="h-32 w-full" />;
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="grid grid-cols-1 gap-4 sm:grid-cols-3">
+        {data.years.map((summary) => (
+          <button
+            key={summary.year}
+            type="button"
+            onClick={() => setYear(summary.year)}
+            className={cn(
+              "rounded-lg border p-4 text-left",
+              summary.year === year
+                ? "border-primary-500 bg-primary-50 dark:bg-primary-950"
+                : "border-gray-200 dark:border-gray-700"
+            )}
+          >
+            <div className="text-sm text-gray-500 dark:text-gray-400">{summary.year}</div>
+            <div className="mt-1 text-lg font-semibold text-gray-900 dark:text-white">
+              {summary.requirement !== null
+                ? t("cme.creditsOfRequirement", { credits: summary.credits, requirement: summary.requirement })
+                : t("cme.credits", { count: summary.credits })}
+            </div>
+            {summary.requirement !== null && summary.requirement > 0 && (
+              <Progress
+                value={Math.min(100, (summary.credits / summary.requirement) * 100)}
+                className="mt-2 h-2"
+              />
+            )}
+          </button>
+        ))}
+      </div>
+
+      <div className="flex items-center justify-between">
+        <h3 className="text-md font-medium text-gray-900 dark:text-white">
+          {t("cme.ledgerForYear", { year })}
+        </h3>
+        {!userId && (
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={handleDownloadTranscript}
+            disabled={isDownloading}
+          >
+            {isDownloading
+              ? <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+              : <Download className="h-4 w-4 mr-2" />}
+            {t("cme.downloadTranscript")}
+          </Button>
+        )}
+      </div>
+
+      {data.entries.length === 0 ? (
+        <div className="text-center py-6 text-sm text-gray-500 dark:text-gray-400">
+          {t("cme.noEntries")}
+        </div>
+      ) : (
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>{t("cme.date")}</TableHead>
+              <TableHead>{t("cme.activity")}</TableHead>
+              <TableHead>{t("cme.certificate")}</TableHead>
+              <TableHead className="text-right">{t("cme.creditsColumn")}</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {data.entries.map((entry) => (
+              <TableRow key={entry.id}>
+                <TableCell>{format(new Date(entry.earnedOn), "MMM d, yyyy")}</TableCell>
+                <TableCell>
+                  {entry.credits < 0 ? t("cme.reversal", { reason: entry.description }) : entry.description}
+                </TableCell>
+                <TableCell className="font-mono text-xs">{entry.certificate?.certificateNumber ?? "-"}</TableCell>
+                <TableCell className={cn("text-right", entry.credits < 0 && "text-red-600 dark:text-red-400")}>
+                  {entry.credits > 0 ? `+${entry.credits}` : entry.credits}
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      )}
+    </div>
+  );
+};
+
+export default CmeLedger;
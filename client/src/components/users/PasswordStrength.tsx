@@ -0,0 +1,74 @@
+import React from "react";
+import { useTranslation } from "react-i18next";
+import { Check, X } from "lucide-react";
+import { getPasswordStrength, type PasswordViolation } from "@shared/passwordPolicy";
+import { usePasswordPolicy } from "@/hooks/usePasswordPolicy";
+import { cn } from "@/lib/utils";
+
+interface PasswordStrengthProps {
+  password: string;
+  // Username, email and name the password must not contain
+  personalInfo?: (string | null | undefined)[];
+}
+
+const strengthColors = ["bg-red-500", "bg-red-500", "bg-yellow-500", "bg-green-400", "bg-green-600"];
+
+const PasswordStrength: React.FC<PasswordStrengthProps> = ({ password, personalInfo = [] }) => {
+  const { t } = useTranslation();
+  const { policy, check } = usePasswordPolicy();
+
+  if (!policy || !password) return null;
+
+  const strength = getPasswordStrength(password);
+  const violations = check(password, personalInfo);
+
+  // Only the rules this deployment enforces are listed
+  const rules: { violation: PasswordViolation; enabled: boolean }[] = [
+    { violation: "too_short", enabled: true },
+    { violation: "missing_uppercase", enabled: policy.requireUppercase },
+    { violation: "missing_lowercase", enabled: policy.requireLowercase },
+    { violation: "missing_digit", enabled: policy.requireDigit },
+    { violation: "missing_symbol", enabled: policy.requireSymbol },
+    { violation: "contains_personal_info", enabled: true },
+  ];
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center gap-2">
+        <div className="flex flex-1 gap-1">
+          {[1, 2, 3, 4].map((level) => (
+            <div
+              key={level}
+              className={cn(
+                "h-1.5 flex-1 rounded-full",
+                strength >= level ? strengthColors[strength] : "bg-gray-200 dark:bg-gray-700"
+              )}
+            />
+          ))}
+        </div>
+        <span className="text-xs text-gray-500 dark:text-gray-400 w-20 text-right">
+          {t(`password.strength.${strength}`)}
+        </span>
+      </div>
+      <ul className="space-y-1">
+        {rules.filter(rule => rule.enabled).map(({ violation }) => {
+          const met = !violations.includes(violation);
+          return (
+            <li
+              key={violation}
+              className={cn(
+                "flex items-center text-xs",
+                met ? "text-green-600 dark:text-green-400" : "text-gray-500 dark:text-gray-400"
+              )}
+            >
+              {met ? <Check className="h-3 w-3 mr-1" /> : <X className="h-3 w-3 mr-1" />}
+              {t(`password.rules.${violation}`, { count: policy.minLength })}
+            </li>
+          );
+        })}
+      </ul>
+    </div>
+  );
+};
+
+export default PasswordStrength;
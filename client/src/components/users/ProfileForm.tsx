@@ -0,0 +1,178 @@
+import React, { useEffect } from "react";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { z } from "zod";
+import { useTranslation } from "react-i18next";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Loader2 } from "lucide-react";
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import { Button } from "@/components/ui/button";
+import { Skeleton } from "@/components/ui/skeleton";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { useAuth } from "@/hooks/useAuth";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, getApiErrorBody, queryClient } from "@/lib/queryClient";
+
+const profileSchema = z.object({
+  fullName: z.string().min(2, { message: "Full name must be at least 2 characters" }),
+  organization: z.string().optional(),
+  position: z.string().optional(),
+  preferredLanguage: z.enum(["en", "fr", "ar"]),
+});
+
+type ProfileFormData = z.infer<typeof profileSchema>;
+
+interface Profile {
+  fullName: string;
+  organization: string | null;
+  position: string | null;
+  preferredLanguage: "en" | "fr" | "ar" | null;
+}
+
+const ProfileForm: React.FC = () => {
+  const { t } = useTranslation();
+  const { toast } = useToast();
+  const { mergeUser } = useAuth();
+
+  const { data: profile, isLoading } = useQuery<Profile>({
+    queryKey: ["/api/users/me"],
+  });
+
+  const form = useForm<ProfileFormData>({
+    resolver: zodResolver(profileSchema),
+    defaultValues: {
+      fullName: "",
+      organization: "",
+      position: "",
+      preferredLanguage: "en",
+    },
+  });
+
+  useEffect(() => {
+    if (!profile) return;
+
+    form.reset({
+      fullName: profile.fullName,
+      organization: profile.organization || "",
+      position: profile.position || "",
+      preferredLanguage: profile.preferredLanguage || "en",
+    });
+  }, [profile]);
+
+  const { mutate: updateProfile, isPending } = useMutation({
+    mutationFn: async (data: ProfileFormData) => {
+      const response = await apiRequest("PATCH", "/api/users/me", data);
+      return response.json();
+    },
+    onSuccess: (data) => {
+      queryClient.setQueryData(["/api/users/me"], data);
+      // Also switches the interface to the preferred language
+      mergeUser({ fullName: data.fullName, preferredLanguage: data.preferredLanguage });
+      toast({
+        title: t("profile.updateSuccess"),
+      });
+    },
+    onError: (error) => {
+      console.error("Error updating profile:", error);
+      toast({
+        title: t("profile.updateFailed"),
+        description: getApiErrorBody(error)?.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  if (isLoading) {
+    return <Skeleton className="h-64 w-full" />;
+  }
+
+  return (
+    <Form {...form}>
+      <form onSubmit={form.handleSubmit((data) => updateProfile(data))} className="space-y-4">
+        <FormField
+          control={form.control}
+          name="fullName"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>{t("users.fullName")}</FormLabel>
+              <FormControl>
+                <Input {...field} />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <FormField
+            control={form.control}
+            name="organization"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>{t("users.organization")}</FormLabel>
+                <FormControl>
+                  <Input {...field} />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+          <FormField
+            control={form.control}
+            name="position"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>{t("users.position")}</FormLabel>
+                <FormControl>
+                  <Input {...field} />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+        </div>
+        <FormField
+          control={form.control}
+          name="preferredLanguage"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>{t("profile.preferredLanguage")}</FormLabel>
+              <Select onValueChange={field.onChange} value={field.value}>
+                <FormControl>
+                  <SelectTrigger>
+                    <SelectValue placeholder={t("users.selectLanguage")} />
+                  </SelectTrigger>
+                </FormControl>
+                <SelectContent>
+                  <SelectItem value="en">{t("languages.english")}</SelectItem>
+                  <SelectItem value="fr">{t("languages.french")}</SelectItem>
+                  <SelectItem value="ar">{t("languages.arabic")}</SelectItem>
+                </SelectContent>
+              </Select>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+        <Button type="submit" disabled={isPending || !form.formState.isDirty}>
+          {isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+          {t("common.save")}
+        </Button>
+      </form>
+    </Form>
+  );
+};
+
+export default ProfileForm;
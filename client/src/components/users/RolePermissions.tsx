@@ -5,14 +5,19 @@ import { Checkbox } from "@/components/ui/checkbox";
 import { Button } from "@/components/ui/button";
 import { Label } from "@/components/ui/label";
 import { useToast } from "@/hooks/use-toast";
-import { apiRequest } from "@/lib/queryClient";
+import { apiRequest, authFetch } from "@/lib/queryClient";
 import { Separator } from "@/components/ui/separator";
+import { Badge } from "@/components/ui/badge";
 import { Loader2 } from "lucide-react";
 
 interface Permission {
   id: number;
   name: string;
   description: string;
+  // Whether the user's role template includes the permission
+  inRole: boolean;
+  granted: boolean;
+  source: "role" | "override" | null;
 }
 
 interface PermissionGroup {
@@ -30,41 +35,29 @@ const RolePermissions: React.FC<RolePermissionsProps> = ({ userId, userRole }) =
   const { toast } = useToast();
   const [permissions, setPermissions] = useState<Permission[]>([]);
   const [userPermissions, setUserPermissions] = useState<number[]>([]);
+  const [savedPermissions, setSavedPermissions] = useState<number[]>([]);
   const [isLoading, setIsLoading] = useState(true);
   const [isSaving, setIsSaving] = useState(false);
   
-  // Fetch all available permissions and user's permissions
+  const applyPermissions = (details: { permissions: Permission[] }) => {
+    const granted = details.permissions.filter(p => p.granted).map(p => p.id);
+    setPermissions(details.permissions);
+    setUserPermissions(granted);
+    setSavedPermissions(granted);
+  };
+  
+  // Fetch the user's effective permissions, annotated with their source
   useEffect(() => {
     const fetchPermissions = async () => {
       try {
         setIsLoading(true);
-        // Fetch all permissions
-        const allPermissionsRes = await fetch("/api/permissions", {
-          headers: {
-            "Authorization": `Bearer ${localStorage.getItem("authToken")}`
-          }
-        });
-        
-        if (!allPermissionsRes.ok) {
-          throw new Error("Failed to fetch permissions");
-        }
-        
-        const allPermissions = await allPermissionsRes.json();
-        setPermissions(allPermissions);
-        
-        // Fetch user's permissions
-        const userPermissionsRes = await fetch(`/api/users/${userId}/permissions`, {
-          headers: {
-            "Authorization": `Bearer ${localStorage.getItem("authToken")}`
-          }
-        });
+        const userPermissionsRes = await authFetch(`/api/users/${userId}/permissions`);
         
         if (!userPermissionsRes.ok) {
           throw new Error("Failed to fetch user permissions");
         }
         
-        const userPerms = await userPermissionsRes.json();
-        setUserPermissions(userPerms.map((p: Permission) => p.id));
+        applyPermissions(await userPermissionsRes.json());
       } catch (error) {
         console.error("Error fetching permissions:", error);
         toast({
@@ -111,18 +104,28 @@ const RolePermissions: React.FC<RolePermissionsProps> = ({ userId, userRole }) =
     });
   };
   
-  // Handle save permissions
+  // Handle save permissions; only differences from the role template are
+  // stored, as grant or deny overrides
   const handleSavePermissions = async () => {
     try {
       setIsSaving(true);
+      const overrides = permissions
+        .filter(p => userPermissions.includes(p.id) !== p.inRole)
+        .map(p => ({
+          permissionId: p.id,
+          effect: userPermissions.includes(p.id) ? "grant" : "deny",
+        }));
+      
       const response = await apiRequest("PUT", `/api/users/${userId}/permissions`, {
-        permissionIds: userPermissions,
+        overrides,
       });
       
       if (!response.ok) {
         throw new Error("Failed to update permissions");
       }
       
+      applyPermissions(await response.json());
+      
       toast({
         title: t("permissions.updateSuccess"),
         description: t("permissions.updateSuccessMessage"),
@@ -162,6 +165,28 @@ const RolePermissions: React.FC<RolePermissionsProps> = ({ userId, userRole }) =
     );
   };
   
+  // Reset the user to the role template
+  const resetToRoleDefaults = () => {
+    setUserPermissions(permissions.filter(p => p.inRole).map(p => p.id));
+  };
+  
+  // Describe where a permission comes from, reflecting unsaved changes
+  const getSource = (permission: Permission) => {
+    const granted = userPermissions.includes(permission.id);
+    
+    if (granted === permission.inRole) {
+      return granted ? { label: t("permissions.sources.role"), variant: "secondary" as const } : null;
+    }
+    
+    return granted
+      ? { label: t("permissions.sources.granted"), variant: "default" as const }
+      : { label: t("permissions.sources.denied"), variant: "destructive" as const };
+  };
+  
+  const hasChanges =
+    userPermissions.length !== savedPermissions.length ||
+    userPermissions.some(id => !savedPermissions.includes(id));
+  
   // Check if all permissions in a group are selected
   const areAllSelected = (groupName: string) => {
     const groupPermissions = permissions.filter(p => p.name.startsWith(`${groupName}:`));
@@ -193,20 +218,32 @@ const RolePermissions: React.FC<RolePermissionsProps> = ({ userId, userRole }) =
           <p className="text-sm text-gray-500 dark:text-gray-400">
             {t("permissions.roleIs")} {t(`users.roles.${userRole}`)}
           </p>
+          <p className="text-sm text-gray-500 dark:text-gray-400">
+            {t("permissions.overridesDescription")}
+          </p>
+        </div>
+        <div className="flex space-x-2">
+          <Button
+            variant="outline"
+            onClick={resetToRoleDefaults}
+            disabled={isSaving}
+          >
+            {t("permissions.resetToRole")}
+          </Button>
+          <Button
+            onClick={handleSavePermissions}
+            disabled={isSaving || !hasChanges}
+          >
+            {isSaving ? (
+              <>
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                {t("common.saving")}
+              </>
+            ) : (
+              t("permissions.savePermissions")
+            )}
+          </Button>
         </div>
-        <Button
-          onClick={handleSavePermissions}
-          disabled={isSaving}
-        >
-          {isSaving ? (
-            <>
-              <Loader2 className="mr-2 h-4 w-4 animate-spin" />
-              {t("common.saving")}
-            </>
-          ) : (
-            t("permissions.savePermissions")
-          )}
-        </Button>
       </div>
       
       <Card>
@@ -238,29 +275,36 @@ const RolePermissions: React.FC<RolePermissionsProps> = ({ userId, userRole }) =
               </div>
               
               <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
-                {group.permissions.map((permission) => (
-                  <div 
-                    key={permission.id} 
-                    className="flex items-start space-x-2 p-3 rounded-md hover:bg-gray-50 dark:hover:bg-gray-800"
-                  >
-                    <Checkbox
-                      id={`permission-${permission.id}`}
-                      checked={userPermissions.includes(permission.id)}
-                      onCheckedChange={() => handlePermissionToggle(permission.id)}
-                    />
-                    <div className="space-y-1">
-                      <Label 
-                        htmlFor={`permission-${permission.id}`}
-                        className="font-medium"
-                      >
-                        {permission.name}
-                      </Label>
-                      <p className="text-sm text-gray-500 dark:text-gray-400">
-                        {permission.description}
-                      </p>
+                {group.permissions.map((permission) => {
+                  const source = getSource(permission);
+                  
+                  return (
+                    <div 
+                      key={permission.id} 
+                      className="flex items-start space-x-2 p-3 rounded-md hover:bg-gray-50 dark:hover:bg-gray-800"
+                    >
+                      <Checkbox
+                        id={`permission-${permission.id}`}
+                        checked={userPermissions.includes(permission.id)}
+                        onCheckedChange={() => handlePermissionToggle(permission.id)}
+                      />
+                      <div className="space-y-1">
+                        <Label 
+                          htmlFor={`permission-${permission.id}`}
+                          className="font-medium"
+                        >
+                          {permission.name}
+                        </Label>
+                        <p className="text-sm text-gray-500 dark:text-gray-400">
+                          {permission.description}
+                        </p>
+                        {source && (
+                          <Badge variant={source.variant}>{source.label}</Badge>
+                        )}
+                      </div>
                     </div>
-                  </div>
-                ))}
+                  );
+                })}
               </div>
               <Separator className="mt-6" />
             </div>
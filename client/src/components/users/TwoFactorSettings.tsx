@@ -0,0 +1,188 @@
+import React, { useState } from "react";
+import { useTranslation } from "react-i18next";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Loader2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Skeleton } from "@/components/ui/skeleton";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle
+} from "@/components/ui/dialog";
+import { InputOTP, InputOTPGroup, InputOTPSlot } from "@/components/ui/input-otp";
+import TwoFactorSetup, { RecoveryCodes } from "@/components/users/TwoFactorSetup";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+
+interface TwoFactorStatus {
+  enabled: boolean;
+  required: boolean;
+  recoveryCodesRemaining: number;
+}
+
+type CodeAction = "disable" | "regenerate";
+
+const TwoFactorSettings: React.FC = () => {
+  const { t } = useTranslation();
+  const { toast } = useToast();
+  const [isSetupOpen, setIsSetupOpen] = useState(false);
+  const [codeAction, setCodeAction] = useState<CodeAction | null>(null);
+  const [code, setCode] = useState("");
+  const [newRecoveryCodes, setNewRecoveryCodes] = useState<string[] | null>(null);
+
+  const { data: status, isLoading } = useQuery<TwoFactorStatus>({
+    queryKey: ["/api/auth/2fa"],
+  });
+
+  const closeCodeDialog = () => {
+    setCodeAction(null);
+    setCode("");
+  };
+
+  // Disabling and regenerating recovery codes both require a current code
+  const { mutate: confirmCodeAction, isPending } = useMutation({
+    mutationFn: async (action: CodeAction) => {
+      const url = action === "disable" ? "/api/auth/2fa/disable" : "/api/auth/2fa/recovery-codes";
+      const response = await apiRequest("POST", url, { code });
+      return response.json();
+    },
+    onSuccess: (data, action) => {
+      closeCodeDialog();
+      queryClient.invalidateQueries({ queryKey: ["/api/auth/2fa"] });
+
+      if (action === "regenerate") {
+        setNewRecoveryCodes(data.recoveryCodes);
+      } else {
+        toast({
+          title: t("twoFactor.disabled"),
+          description: t("twoFactor.disabledMessage"),
+        });
+      }
+    },
+    onError: (error) => {
+      console.error("Error confirming two-factor code:", error);
+      setCode("");
+      toast({
+        title: t("common.error"),
+        description: t("twoFactor.invalidCode"),
+        variant: "destructive",
+      });
+    },
+  });
+
+  if (isLoading || !status) {
+    return <Skeleton className="h-20 w-full" />;
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <div>
+          <div className="flex items-center space-x-2">
+            <span className="font-medium">{t("twoFactor.status")}</span>
+            <Badge variant={status.enabled ? "default" : "secondary"}>
+              {status.enabled ? t("twoFactor.enabled") : t("twoFactor.notEnabled")}
+            </Badge>
+            {status.required && (
+              <Badge variant="outline">{t("twoFactor.requiredForRole")}</Badge>
+            )}
+          </div>
+          {status.enabled && (
+            <p className="text-sm text-gray-500 dark:text-gray-400 mt-1">
+              {t("twoFactor.recoveryCodesRemaining", { count: status.recoveryCodesRemaining })}
+            </p>
+          )}
+        </div>
+        <div className="flex space-x-2">
+          {status.enabled ? (
+            <>
+              <Button variant="outline" onClick={() => setCodeAction("regenerate")}>
+                {t("twoFactor.regenerateCodes")}
+              </Button>
+              {!status.required && (
+                <Button variant="destructive" onClick={() => setCodeAction("disable")}>
+                  {t("twoFactor.disable")}
+                </Button>
+              )}
+            </>
+          ) : (
+            <Button onClick={() => setIsSetupOpen(true)}>{t("twoFactor.enable")}</Button>
+          )}
+        </div>
+      </div>
+
+      {/* Enrollment */}
+      <Dialog open={isSetupOpen} onOpenChange={setIsSetupOpen}>
+        <DialogContent className="sm:max-w-md">
+          <DialogHeader>
+            <DialogTitle>{t("twoFactor.setupTitle")}</DialogTitle>
+          </DialogHeader>
+          {isSetupOpen && (
+            <TwoFactorSetup
+              onComplete={() => {
+                setIsSetupOpen(false);
+                queryClient.invalidateQueries({ queryKey: ["/api/auth/2fa"] });
+                toast({
+                  title: t("twoFactor.enabledSuccess"),
+                  description: t("twoFactor.enabledSuccessMessage"),
+                });
+              }}
+            />
+          )}
+        </DialogContent>
+      </Dialog>
+
+      {/* Code confirmation for disable / regenerate */}
+      <Dialog open={!!codeAction} onOpenChange={(open) => !open && closeCodeDialog()}>
+        <DialogContent className="sm:max-w-md">
+          <DialogHeader>
+            <DialogTitle>
+              {codeAction === "disable" ? t("twoFactor.disable") : t("twoFactor.regenerateCodes")}
+            </DialogTitle>
+            <DialogDescription>{t("twoFactor.enterCode")}</DialogDescription>
+          </DialogHeader>
+          <div className="flex justify-center">
+            <InputOTP maxLength={6} value={code} onChange={setCode}>
+              <InputOTPGroup>
+                {[0, 1, 2, 3, 4, 5].map((index) => (
+                  <InputOTPSlot key={index} index={index} />
+                ))}
+              </InputOTPGroup>
+            </InputOTP>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={closeCodeDialog}>
+              {t("common.cancel")}
+            </Button>
+            <Button
+              variant={codeAction === "disable" ? "destructive" : "default"}
+              onClick={() => codeAction && confirmCodeAction(codeAction)}
+              disabled={code.length !== 6 || isPending}
+            >
+              {isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              {t("common.confirm")}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {/* Newly generated recovery codes */}
+      <Dialog open={!!newRecoveryCodes} onOpenChange={(open) => !open && setNewRecoveryCodes(null)}>
+        <DialogContent className="sm:max-w-md">
+          <DialogHeader>
+            <DialogTitle>{t("twoFactor.recoveryCodes")}</DialogTitle>
+          </DialogHeader>
+          {newRecoveryCodes && (
+            <RecoveryCodes codes={newRecoveryCodes} onDone={() => setNewRecoveryCodes(null)} />
+          )}
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+};
+
+export default TwoFactorSettings;
@@ -0,0 +1,162 @@
+import React, { useEffect, useState } from "react";
+import { useTranslation } from "react-i18next";
+import { useMutation } from "@tanstack/react-query";
+import { Copy, Loader2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Skeleton } from "@/components/ui/skeleton";
+import { InputOTP, InputOTPGroup, InputOTPSlot } from "@/components/ui/input-otp";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+
+interface SetupData {
+  secret: string;
+  otpauthUrl: string;
+  qrCode: string;
+}
+
+export interface TwoFactorEnableResult {
+  recoveryCodes: string[];
+  // Present when enrolling completed a login
+  token?: string;
+  user?: any;
+  // Present when the login still needs an expired password changed
+  passwordChangeRequired?: boolean;
+  challengeToken?: string;
+}
+
+interface TwoFactorSetupProps {
+  // Enrolling during login, before a session exists
+  challengeToken?: string;
+  onComplete: (result: TwoFactorEnableResult) => void;
+}
+
+const TwoFactorSetup: React.FC<TwoFactorSetupProps> = ({ challengeToken, onComplete }) => {
+  const { t } = useTranslation();
+  const { toast } = useToast();
+  const [code, setCode] = useState("");
+  const [result, setResult] = useState<TwoFactorEnableResult | null>(null);
+
+  // Generate a new secret and QR code
+  const { mutate: setup, data: setupData, isPending: isSettingUp } = useMutation({
+    mutationFn: async (): Promise<SetupData> => {
+      const response = await apiRequest("POST", "/api/auth/2fa/setup", { challengeToken });
+      return response.json();
+    },
+    onError: (error) => {
+      console.error("Error setting up two-factor authentication:", error);
+      toast({
+        title: t("common.error"),
+        description: t("twoFactor.setupError"),
+        variant: "destructive",
+      });
+    },
+  });
+
+  // Confirm the first code from the authenticator app
+  const { mutate: enable, isPending: isEnabling } = useMutation({
+    mutationFn: async (): Promise<TwoFactorEnableResult> => {
+      const response = await apiRequest("POST", "/api/auth/2fa/enable", { code, challengeToken });
+      return response.json();
+    },
+    onSuccess: (data) => {
+      setResult(data);
+    },
+    onError: (error) => {
+      console.error("Error enabling two-factor authentication:", error);
+      setCode("");
+      toast({
+        title: t("common.error"),
+        description: t("twoFactor.invalidCode"),
+        variant: "destructive",
+      });
+    },
+  });
+
+  useEffect(() => {
+    setup();
+  }, []);
+
+  if (result) {
+    return (
+      <RecoveryCodes
+        codes={result.recoveryCodes}
+        onDone={() => onComplete(result)}
+      />
+    );
+  }
+
+  if (isSettingUp || !setupData) {
+    return <Skeleton className="h-64 w-full" />;
+  }
+
+  return (
+    <div className="space-y-4">
+      <p className="text-sm text-gray-500 dark:text-gray-400">{t("twoFactor.scanInstructions")}</p>
+      <div className="flex justify-center">
+        <img src={setupData.qrCode} alt={t("twoFactor.qrCode")} className="h-48 w-48" />
+      </div>
+      <div className="text-center">
+        <p className="text-xs text-gray-500 dark:text-gray-400">{t("twoFactor.manualEntry")}</p>
+        <code className="text-sm font-mono break-all">{setupData.secret}</code>
+      </div>
+      <div className="flex flex-col items-center space-y-2">
+        <p className="text-sm font-medium">{t("twoFactor.enterCode")}</p>
+        <InputOTP maxLength={6} value={code} onChange={setCode}>
+          <InputOTPGroup>
+            {[0, 1, 2, 3, 4, 5].map((index) => (
+              <InputOTPSlot key={index} index={index} />
+            ))}
+          </InputOTPGroup>
+        </InputOTP>
+      </div>
+      <Button
+        className="w-full"
+        onClick={() => enable()}
+        disabled={code.length !== 6 || isEnabling}
+      >
+        {isEnabling && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+        {t("twoFactor.verifyAndEnable")}
+      </Button>
+    </div>
+  );
+};
+
+interface RecoveryCodesProps {
+  codes: string[];
+  onDone: () => void;
+}
+
+/**
+ * Shows freshly generated recovery codes; they cannot be displayed again
+ */
+export const RecoveryCodes: React.FC<RecoveryCodesProps> = ({ codes, onDone }) => {
+  const { t } = useTranslation();
+  const { toast } = useToast();
+
+  const copyCodes = async () => {
+    await navigator.clipboard.writeText(codes.join("\n"));
+    toast({
+      title: t("twoFactor.codesCopied"),
+    });
+  };
+
+  return (
+    <div className="space-y-4">
+      <p className="text-sm text-gray-500 dark:text-gray-400">{t("twoFactor.recoveryCodesInstructions")}</p>
+      <div className="grid grid-cols-2 gap-2 rounded-md border p-4 font-mono text-sm">
+        {codes.map((code) => (
+          <span key={code}>{code}</span>
+        ))}
+      </div>
+      <div className="flex justify-between">
+        <Button variant="outline" onClick={copyCodes}>
+          <Copy className="h-4 w-4 mr-2" />
+          {t("twoFactor.copyCodes")}
+        </Button>
+        <Button onClick={onDone}>{t("twoFactor.savedCodes")}</Button>
+      </div>
+    </div>
+  );
+};
+
+export default TwoFactorSetup;
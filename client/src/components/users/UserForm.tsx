@@ -25,6 +25,7 @@ import {
 } from "@/components/ui/select";
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
 import { usePermissions } from "@/hooks/usePermissions";
+import OrganizationSelect from "@/components/organizations/OrganizationSelect";
 
 // User form schema
 const userSchema = z.object({
@@ -33,6 +34,7 @@ const userSchema = z.object({
   fullName: z.string().min(2, { message: "Full name must be at least 2 characters" }),
   role: z.enum(["super_admin", "ministry_manager", "province_manager", "hospital_manager", "lecturer_doctor", "participant_doctor", "guest"]),
   organization: z.string().optional(),
+  organizationId: z.number().nullable().optional(),
   position: z.string().optional(),
   profileImage: z.string().optional(),
   preferredLanguage: z.enum(["en", "fr", "ar"]).default("en"),
@@ -68,6 +70,7 @@ const UserForm: React.FC<UserFormProps> = ({
     fullName: "",
     role: "guest",
     organization: "",
+    organizationId: null,
     position: "",
     profileImage: "",
     preferredLanguage: "en",
@@ -233,6 +236,22 @@ const UserForm: React.FC<UserFormProps> = ({
             )}
           />
           
+          <FormField
+            control={form.control}
+            name="organizationId"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>{t("users.organizationUnit")}</FormLabel>
+                <OrganizationSelect
+                  value={field.value}
+                  onChange={field.onChange}
+                  disabled={!can("user:update")}
+                />
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+          
           <FormField
             control={form.control}
             name="position"
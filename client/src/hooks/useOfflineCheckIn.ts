@@ -0,0 +1,179 @@
+import { useCallback, useEffect, useState } from "react";
+import { v4 as uuidv4 } from "uuid";
+import { apiRequest } from "@/lib/queryClient";
+import {
+  getQueuedScans,
+  getRoster,
+  queueScan,
+  removeQueuedScans,
+  saveRoster,
+  type CheckInAction,
+  type CheckInRoster,
+} from "@/lib/checkInStore";
+
+export interface SyncResult {
+  summary: { applied: number; duplicate: number; rejected: number };
+  // Scans the server refused, e.g. for a registration cancelled in the meantime
+  conflicts: { clientId: string; fullName: string | null; message: string }[];
+}
+
+export type OfflineScanOutcome =
+  | { success: true; participant: CheckInRoster["registrations"][number]["user"] }
+  | { success: false; reason: "unknown_ticket" | "already_checked_in" | "already_checked_out" | "not_checked_in" };
+
+const normalizeCode = (code: string) => code.replace(/\s+/g, "").toUpperCase();
+
+/**
+ * Keeps a check-in desk working without a connection: tickets are validated
+ * against the downloaded roster, scans are queued in IndexedDB and synced
+ * once the browser is back online.
+ */
+export function useOfflineCheckIn(eventId: number) {
+  const [roster, setRoster] = useState<CheckInRoster | null>(null);
+  const [queuedCount, setQueuedCount] = useState(0);
+  const [isOnline, setIsOnline] = useState(navigator.onLine);
+  const [isSyncing, setIsSyncing] = useState(false);
+  const [lastSync, setLastSync] = useState<SyncResult | null>(null);
+
+  useEffect(() => {
+    getRoster(eventId).then(setRoster).catch(error => console.error("Error reading roster:", error));
+    getQueuedScans(eventId).then(scans => setQueuedCount(scans.length)).catch(error => console.error("Error reading scans:", error));
+  }, [eventId]);
+
+  useEffect(() => {
+    const goOnline = () => setIsOnline(true);
+    const goOffline = () => setIsOnline(false);
+    window.addEventListener("online", goOnline);
+    window.addEventListener("offline", goOffline);
+    return () => {
+      window.removeEventListener("online", goOnline);
+      window.removeEventListener("offline", goOffline);
+    };
+  }, []);
+
+  const downloadRoster = useCallback(async () => {
+    const response = await apiRequest("GET", `/api/events/${eventId}/check-in/roster`);
+    const data: CheckInRoster = await response.json();
+    await saveRoster(data);
+    setRoster(data);
+    return data;
+  }, [eventId]);
+
+  /**
+   * Validates a ticket against the roster and queues the scan
+   */
+  const recordOffline = useCallback(async (
+    code: string,
+    scheduleId: number | null,
+    action: CheckInAction
+  ): Promise<OfflineScanOutcome> => {
+    const current = await getRoster(eventId);
+    const registration = current?.registrations.find(r => r.ticketCode === normalizeCode(code));
+
+    if (!current || !registration) {
+      return { success: false, reason: "unknown_ticket" };
+    }
+
+    const scannedAt = new Date().toISOString();
+    const record = registration.attendanceRecords.find(r => r.scheduleId === scheduleId);
+
+    if (action === "check_in") {
+      if (record && !record.checkedOutAt) {
+        return { success: false, reason: "already_checked_in" };
+      }
+      if (record) {
+        record.checkedOutAt = null;
+      } else {
+        registration.attendanceRecords.push({ scheduleId, checkedInAt: scannedAt, checkedOutAt: null });
+      }
+    } else {
+      if (!record) {
+        return { success: false, reason: "not_checked_in" };
+      }
+      if (record.checkedOutAt) {
+        return { success: false, reason: "already_checked_out" };
+      }
+      record.checkedOutAt = scannedAt;
+    }
+
+    await queueScan({
+      clientId: uuidv4(),
+      eventId,
+      registrationId: registration.id,
+      code: registration.ticketCode,
+      scheduleId,
+      action,
+      scannedAt,
+    });
+    // The roster doubles as the local attendance state, so repeated scans are caught offline
+    await saveRoster(current);
+    setRoster(current);
+    setQueuedCount(count => count + 1);
+
+    return { success: true, participant: registration.user };
+  }, [eventId]);
+
+  const sync = useCallback(async () => {
+    const scans = await getQueuedScans(eventId);
+    if (scans.length === 0) return null;
+
+    setIsSyncing(true);
+    try {
+      const response = await apiRequest("POST", `/api/events/${eventId}/check-in/sync`, {
+        scans: scans.map(({ clientId, code, scheduleId, action, scannedAt }) => ({
+          clientId,
+          code,
+          scheduleId,
+          action,
+          scannedAt,
+        })),
+      });
+      const data: {
+        summary: SyncResult["summary"];
+        results: { clientId: string; registrationId: number | null; status: string; message?: string }[];
+      } = await response.json();
+
+      // Duplicates and rejections are settled too; only a failed request keeps scans queued
+      await removeQueuedScans(data.results.map(result => result.clientId));
+      setQueuedCount((await getQueuedScans(eventId)).length);
+
+      const current = await getRoster(eventId);
+      const result: SyncResult = {
+        summary: data.summary,
+        conflicts: data.results
+          .filter(r => r.status === "rejected")
+          .map(r => ({
+            clientId: r.clientId,
+            fullName: current?.registrations.find(registration => registration.id === r.registrationId)?.user.fullName ?? null,
+            message: r.message ?? "",
+          })),
+      };
+      setLastSync(result);
+
+      // Pick up check-ins made on other devices and registrations changed meanwhile
+      await downloadRoster();
+
+      return result;
+    } finally {
+      setIsSyncing(false);
+    }
+  }, [eventId, downloadRoster]);
+
+  // Flush the queue as soon as the connection returns
+  useEffect(() => {
+    if (isOnline && queuedCount > 0 && !isSyncing) {
+      sync().catch(error => console.error("Error syncing check-ins:", error));
+    }
+  }, [isOnline]);
+
+  return {
+    roster,
+    queuedCount,
+    isOnline,
+    isSyncing,
+    lastSync,
+    downloadRoster,
+    recordOffline,
+    sync,
+  };
+}
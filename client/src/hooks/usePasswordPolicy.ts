@@ -0,0 +1,27 @@
+import { useQuery } from '@tanstack/react-query';
+import { useTranslation } from 'react-i18next';
+import { checkPasswordRules, type PasswordPolicy, type PasswordViolation } from '@shared/passwordPolicy';
+
+/**
+ * A hook exposing the server's password policy and the shared password rules
+ */
+export function usePasswordPolicy() {
+  const { t } = useTranslation();
+
+  const { data: policy } = useQuery<PasswordPolicy>({
+    queryKey: ['/api/auth/password-policy'],
+  });
+
+  /**
+   * Checks a password against the policy rules the client can evaluate
+   * @returns The rules the password breaks; empty while the policy is loading
+   */
+  const check = (password: string, personalInfo: (string | null | undefined)[] = []): PasswordViolation[] =>
+    policy ? checkPasswordRules(password, policy, personalInfo) : [];
+
+  // Human-readable message for a list of violations
+  const describe = (violations: PasswordViolation[]) =>
+    violations.map(violation => t(`password.violations.${violation}`, { count: policy?.minLength })).join(' ');
+
+  return { policy, check, describe };
+}
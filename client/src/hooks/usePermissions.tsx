@@ -1,5 +1,6 @@
 import { useContext } from 'react';
 import { AuthContext } from '@/providers/AuthProvider';
+import { can as canPerform, isPolicyAction } from '@shared/policy';
 
 /**
  * A hook to check if the current user has specific permissions
@@ -8,16 +9,22 @@ export function usePermissions() {
   const { user } = useContext(AuthContext);
   
   /**
-   * Check if the user has a specific permission
-   * @param permission The permission to check for (e.g., "user:create")
+   * Check if the user has a specific permission, optionally against a record
+   * @param permission The permission or policy action to check for (e.g., "event:update")
+   * @param resource Record to evaluate the shared policy against (e.g., an event)
    * @returns boolean indicating if the user has the permission
    */
-  const can = (permission: string): boolean => {
+  const can = (permission: string, resource?: any): boolean => {
     if (!user) return false;
     
     // Super admin has all permissions
     if (user.role === 'super_admin') return true;
     
+    // Record-level checks use the same policies as the API
+    if (resource !== undefined && isPolicyAction(permission)) {
+      return canPerform(user, permission, resource);
+    }
+    
     // Check if the user has the specific permission
     return user.permissions.includes(permission);
   };
@@ -0,0 +1,77 @@
+/**
+ * Checks signed certificate tokens in the browser, see
+ * shared/certificateSignature.ts. The public keys are kept in localStorage
+ * once fetched, so certificates can be verified without a connection.
+ */
+import {
+  parseCertificateToken,
+  type CertificateKeySet,
+  type CertificatePayload,
+} from "@shared/certificateSignature";
+
+const KEYS_STORAGE_KEY = "certificateKeys";
+
+export type TokenVerification =
+  | { status: "valid" | "invalid" | "unknownKey"; payload: CertificatePayload }
+  | { status: "malformed" | "unsupported" };
+
+function readCachedKeys(): CertificateKeySet | null {
+  try {
+    const cached = localStorage.getItem(KEYS_STORAGE_KEY);
+    return cached ? JSON.parse(cached) : null;
+  } catch (error) {
+    return null;
+  }
+}
+
+// Fetches the public keys, falling back to the last fetched ones when offline
+export async function loadCertificateKeys(): Promise<CertificateKeySet | null> {
+  const cached = readCachedKeys();
+
+  try {
+    const response = await fetch("/api/certificates/keys");
+    if (!response.ok) return cached;
+
+    const keySet: CertificateKeySet = await response.json();
+    localStorage.setItem(KEYS_STORAGE_KEY, JSON.stringify(keySet));
+    return keySet;
+  } catch (error) {
+    return cached;
+  }
+}
+
+/**
+ * Checks a token's signature against the published keys
+ */
+export async function verifyCertificateToken(token: string, keySet: CertificateKeySet | null): Promise<TokenVerification> {
+  const parsed = parseCertificateToken(token);
+  if (!parsed) return { status: "malformed" };
+
+  // WebCrypto is only available on secure origins
+  if (!window.crypto?.subtle) return { status: "unsupported" };
+
+  const key = keySet?.keys.find(key => key.kid === parsed.payload.kid);
+  if (!key) return { status: "unknownKey", payload: parsed.payload };
+
+  try {
+    const publicKey = await window.crypto.subtle.importKey(
+      "jwk",
+      { kty: key.kty, crv: key.crv, x: key.x, y: key.y, ext: true },
+      { name: "ECDSA", namedCurve: "P-256" },
+      false,
+      ["verify"]
+    );
+
+    const valid = await window.crypto.subtle.verify(
+      { name: "ECDSA", hash: "SHA-256" },
+      publicKey,
+      parsed.signature,
+      new TextEncoder().encode(parsed.signedPart)
+    );
+
+    return { status: valid ? "valid" : "invalid", payload: parsed.payload };
+  } catch (error) {
+    console.error("Error verifying certificate signature:", error);
+    return { status: "invalid", payload: parsed.payload };
+  }
+}
@@ -0,0 +1,121 @@
+/**
+ * IndexedDB storage for offline check-in: the roster downloaded for each
+ * event and the scans waiting to be synced to the server.
+ */
+
+export type CheckInAction = "check_in" | "check_out";
+
+export interface RosterAttendanceRecord {
+  scheduleId: number | null;
+  checkedInAt: string;
+  checkedOutAt: string | null;
+}
+
+export interface CheckInRoster {
+  eventId: number;
+  title: string;
+  generatedAt: string;
+  sessions: {
+    id: number;
+    title: string;
+    date: string;
+    startTime: string;
+    endTime: string;
+  }[];
+  registrations: {
+    id: number;
+    ticketCode: string;
+    user: {
+      id: number;
+      fullName: string;
+      email: string;
+      organization: string | null;
+      profileImage: string | null;
+    };
+    attendanceRecords: RosterAttendanceRecord[];
+  }[];
+}
+
+export interface QueuedScan {
+  clientId: string;
+  eventId: number;
+  registrationId: number;
+  code: string;
+  scheduleId: number | null;
+  action: CheckInAction;
+  scannedAt: string;
+}
+
+const DB_NAME = "medevents-check-in";
+const DB_VERSION = 1;
+const ROSTERS = "rosters";
+const SCANS = "scans";
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openDatabase(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        db.createObjectStore(ROSTERS, { keyPath: "eventId" });
+        db.createObjectStore(SCANS, { keyPath: "clientId" }).createIndex("eventId", "eventId");
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+}
+
+// Runs one request in its own transaction and resolves once it is committed
+async function run<T>(
+  storeName: string,
+  mode: IDBTransactionMode,
+  operation: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> {
+  const db = await openDatabase();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(storeName, mode);
+    const request = operation(transaction.objectStore(storeName));
+    transaction.oncomplete = () => resolve(request.result);
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+}
+
+export async function saveRoster(roster: CheckInRoster): Promise<void> {
+  await run(ROSTERS, "readwrite", store => store.put(roster));
+}
+
+export async function getRoster(eventId: number): Promise<CheckInRoster | null> {
+  return (await run<CheckInRoster | undefined>(ROSTERS, "readonly", store => store.get(eventId))) ?? null;
+}
+
+export async function queueScan(scan: QueuedScan): Promise<void> {
+  await run(SCANS, "readwrite", store => store.add(scan));
+}
+
+// Queued scans of an event, oldest first
+export async function getQueuedScans(eventId: number): Promise<QueuedScan[]> {
+  const scans = await run<QueuedScan[]>(SCANS, "readonly", store => store.index("eventId").getAll(eventId));
+  return scans.sort((a, b) => a.scannedAt.localeCompare(b.scannedAt));
+}
+
+export async function removeQueuedScans(clientIds: string[]): Promise<void> {
+  if (clientIds.length === 0) return;
+
+  const db = await openDatabase();
+  await new Promise<void>((resolve, reject) => {
+    const transaction = db.transaction(SCANS, "readwrite");
+    const store = transaction.objectStore(SCANS);
+    clientIds.forEach(clientId => store.delete(clientId));
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+}
@@ -7,31 +7,125 @@ async function throwIfResNotOk(res: Response) {
   }
 }
 
+// The access token is short-lived and kept in memory only; the refresh token
+// lives in an httpOnly cookie the browser sends to /api/auth
+let accessToken: string | null = null;
+let refreshPromise: Promise<boolean> | null = null;
+
+export function setAccessToken(token: string | null) {
+  accessToken = token;
+}
+
+/**
+ * Exchanges the refresh cookie for a new access token and the signed-in user
+ */
+export async function refreshSession(): Promise<{ token: string; user: any } | null> {
+  const res = await fetch("/api/auth/refresh", {
+    method: "POST",
+    credentials: "include",
+  });
+
+  if (!res.ok) {
+    setAccessToken(null);
+    return null;
+  }
+
+  const data = await res.json();
+  setAccessToken(data.token);
+  return data;
+}
+
+// Concurrent callers share one request so the rotated refresh token is only used once
+async function refreshAccessToken(): Promise<boolean> {
+  if (!refreshPromise) {
+    refreshPromise = refreshSession()
+      .then(data => !!data)
+      .finally(() => {
+        refreshPromise = null;
+      });
+  }
+  return refreshPromise;
+}
+
+/**
+ * fetch with the access token attached; retries once after refreshing the
+ * session when the token has expired
+ */
+export async function authFetch(url: string, init: RequestInit = {}): Promise<Response> {
+  const send = () =>
+    fetch(url, {
+      ...init,
+      headers: {
+        ...(init.headers as Record<string, string>),
+        ...(accessToken ? { Authorization: `Bearer ${accessToken}` } : {}),
+      },
+      credentials: "include",
+    });
+
+  const res = await send();
+
+  if (res.status === 401 && accessToken && (await refreshAccessToken())) {
+    return send();
+  }
+
+  return res;
+}
+
 export async function apiRequest(
   method: string,
   url: string,
   data?: unknown | undefined,
 ): Promise<Response> {
-  const res = await fetch(url, {
+  // Multipart bodies are sent as-is so the browser sets the boundary
+  const isFormData = data instanceof FormData;
+  const res = await authFetch(url, {
     method,
-    headers: data ? { "Content-Type": "application/json" } : {},
-    body: data ? JSON.stringify(data) : undefined,
-    credentials: "include",
+    headers: data && !isFormData ? { "Content-Type": "application/json" } : {},
+    body: isFormData ? data : data ? JSON.stringify(data) : undefined,
   });
 
   await throwIfResNotOk(res);
   return res;
 }
 
+/**
+ * Downloads an authenticated API response, such as a CSV export, as a file
+ */
+export async function downloadFile(url: string, filename: string) {
+  const res = await authFetch(url);
+  await throwIfResNotOk(res);
+
+  const objectUrl = URL.createObjectURL(await res.blob());
+  const link = document.createElement("a");
+  link.href = objectUrl;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(objectUrl);
+}
+
+/**
+ * Reads the JSON body of an error thrown by apiRequest, when it has one
+ */
+export function getApiErrorBody(error: unknown): { message?: string; [key: string]: any } | null {
+  if (!(error instanceof Error)) return null;
+
+  const separator = error.message.indexOf(": ");
+  if (separator === -1) return null;
+
+  try {
+    return JSON.parse(error.message.slice(separator + 2));
+  } catch (parseError) {
+    return null;
+  }
+}
+
 type UnauthorizedBehavior = "returnNull" | "throw";
 export const getQueryFn: <T>(options: {
   on401: UnauthorizedBehavior;
 }) => QueryFunction<T> =
   ({ on401: unauthorizedBehavior }) =>
   async ({ queryKey }) => {
-    const res = await fetch(queryKey[0] as string, {
-      credentials: "include",
-    });
+    const res = await authFetch(queryKey[0] as string);
 
     if (unauthorizedBehavior === "returnNull" && res.status === 401) {
       return null;
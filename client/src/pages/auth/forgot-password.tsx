@@ -51,6 +51,15 @@ export default function ForgotPasswordPage() {
         body: JSON.stringify(values),
       });
       
+      if (response.status === 429) {
+        toast({
+          variant: 'destructive',
+          title: t('auth.passwordResetEmailFailed'),
+          description: t('auth.tooManyResetRequests'),
+        });
+        return;
+      }
+      
       if (!response.ok) {
         throw new Error('Server error');
       }
@@ -1,4 +1,4 @@
-import React, { useState } from 'react';
+import React, { useEffect, useState } from 'react';
 import { useForm } from 'react-hook-form';
 import { z } from 'zod';
 import { zodResolver } from '@hookform/resolvers/zod';
@@ -18,6 +18,10 @@ import { Input } from '@/components/ui/input';
 import { Button } from '@/components/ui/button';
 import { Checkbox } from '@/components/ui/checkbox';
 import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from '@/components/ui/card';
+import { InputOTP, InputOTPGroup, InputOTPSlot } from '@/components/ui/input-otp';
+import TwoFactorSetup from '@/components/users/TwoFactorSetup';
+import ChangePasswordForm from '@/components/users/ChangePasswordForm';
+import { apiRequest } from '@/lib/queryClient';
 import { Languages, Moon, Sun } from 'lucide-react';
 import { useTheme } from '@/providers/ThemeProvider';
 import { LanguageContext } from '@/providers/LanguageProvider';
@@ -30,12 +34,36 @@ const formSchema = z.object({
 
 export default function LoginPage() {
   const { t } = useTranslation();
-  const { login } = useAuth();
+  const { login, completeLogin } = useAuth();
   const { toast } = useToast();
   const [isLoading, setIsLoading] = useState(false);
   const [, setLocation] = useLocation();
   const { theme, toggleTheme } = useTheme();
   const { language, setLanguage } = React.useContext(LanguageContext);
+  // Further login steps: two-factor verification or enrollment, then an expired password change
+  const [challenge, setChallenge] = useState<{
+    token: string;
+    step: 'two_factor' | 'two_factor_setup' | 'password_change';
+  } | null>(null);
+  const [code, setCode] = useState('');
+  const [useRecoveryCode, setUseRecoveryCode] = useState(false);
+
+  // Result of following an email verification link
+  useEffect(() => {
+    const verified = new URLSearchParams(window.location.search).get('verified');
+    if (verified === 'true') {
+      toast({
+        title: t('auth.verificationSuccess'),
+        description: t('auth.verificationSuccessMessage'),
+      });
+    } else if (verified === 'false') {
+      toast({
+        variant: 'destructive',
+        title: t('auth.verificationFailed'),
+        description: t('auth.verificationLinkExpired'),
+      });
+    }
+  }, []);
 
   const form = useForm<z.infer<typeof formSchema>>({
     resolver: zodResolver(formSchema),
@@ -49,12 +77,20 @@ export default function LoginPage() {
   async function onSubmit(values: z.infer<typeof formSchema>) {
     setIsLoading(true);
     try {
-      const success = await login(values.email, values.password);
-      if (success) {
-        setLocation('/dashboard');
+      const result = await login(values.email, values.password);
+      if (result.status === 'success') {
+        onLoggedIn();
+      } else if (result.status === 'two_factor_required') {
+        setChallenge({ token: result.challengeToken, step: 'two_factor' });
+      } else if (result.status === 'two_factor_setup_required') {
+        setChallenge({ token: result.challengeToken, step: 'two_factor_setup' });
+      } else if (result.status === 'password_change_required') {
+        setChallenge({ token: result.challengeToken, step: 'password_change' });
+      } else if (result.status === 'too_many_attempts') {
         toast({
-          title: t('auth.loginSuccess'),
-          description: t('auth.loginSuccessMessage'),
+          variant: 'destructive',
+          title: t('auth.loginFailed'),
+          description: t('auth.tooManyAttempts'),
         });
       } else {
         toast({
@@ -74,6 +110,48 @@ export default function LoginPage() {
     }
   }
 
+  function onLoggedIn() {
+    setLocation('/dashboard');
+    toast({
+      title: t('auth.loginSuccess'),
+      description: t('auth.loginSuccessMessage'),
+    });
+  }
+
+  // A completed step either signs the user in or asks for an expired password to be changed
+  function onStepComplete(data: any) {
+    if (data.passwordChangeRequired) {
+      setChallenge({ token: data.challengeToken, step: 'password_change' });
+    } else if (data.token && data.user) {
+      completeLogin({ token: data.token, user: data.user });
+      onLoggedIn();
+    }
+  }
+
+  async function onVerifyCode(event: React.FormEvent) {
+    event.preventDefault();
+    if (!challenge) return;
+
+    setIsLoading(true);
+    try {
+      const response = await apiRequest('POST', '/api/auth/login/2fa', {
+        challengeToken: challenge.token,
+        ...(useRecoveryCode ? { recoveryCode: code } : { code }),
+      });
+      onStepComplete(await response.json());
+    } catch (error) {
+      setCode('');
+      const throttled = error instanceof Error && error.message.startsWith('429:');
+      toast({
+        variant: 'destructive',
+        title: t('auth.loginFailed'),
+        description: throttled ? t('auth.tooManyAttempts') : t('twoFactor.invalidCode'),
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  }
+
   function handleLanguageChange() {
     if (language === 'en') setLanguage('fr');
     else if (language === 'fr') setLanguage('ar');
@@ -101,58 +179,124 @@ export default function LoginPage() {
           </CardDescription>
         </CardHeader>
         <CardContent>
-          <Form {...form}>
-            <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
-              <FormField
-                control={form.control}
-                name="email"
-                render={({ field }) => (
-                  <FormItem>
-                    <FormLabel>{t('general.email')}</FormLabel>
-                    <FormControl>
-                      <Input placeholder="user@example.com" {...field} />
-                    </FormControl>
-                    <FormMessage />
-                  </FormItem>
-                )}
-              />
-              <FormField
-                control={form.control}
-                name="password"
-                render={({ field }) => (
-                  <FormItem>
-                    <FormLabel>{t('general.password')}</FormLabel>
-                    <FormControl>
-                      <Input type="password" {...field} />
-                    </FormControl>
-                    <FormMessage />
-                  </FormItem>
-                )}
-              />
-              <FormField
-                control={form.control}
-                name="rememberMe"
-                render={({ field }) => (
-                  <FormItem className="flex flex-row items-start space-x-3 space-y-0 rounded-md p-2">
-                    <FormControl>
-                      <Checkbox
-                        checked={field.value}
-                        onCheckedChange={field.onChange}
-                      />
-                    </FormControl>
-                    <div className="space-y-1 leading-none">
-                      <FormLabel>
-                        {t('auth.rememberMe')}
-                      </FormLabel>
-                    </div>
-                  </FormItem>
-                )}
-              />
-              <Button type="submit" className="w-full" disabled={isLoading}>
-                {isLoading ? t('general.loading') : t('auth.login')}
+          {challenge?.step === 'password_change' ? (
+            <div className="space-y-4">
+              <p className="text-sm font-medium">{t('password.expired')}</p>
+              <ChangePasswordForm challengeToken={challenge.token} onComplete={onStepComplete} />
+            </div>
+          ) : challenge?.step === 'two_factor_setup' ? (
+            <div className="space-y-4">
+              <p className="text-sm font-medium">{t('twoFactor.setupRequired')}</p>
+              <TwoFactorSetup challengeToken={challenge.token} onComplete={onStepComplete} />
+            </div>
+          ) : challenge ? (
+            <form onSubmit={onVerifyCode} className="space-y-4">
+              <p className="text-sm text-center text-gray-500 dark:text-gray-400">
+                {useRecoveryCode ? t('twoFactor.enterRecoveryCode') : t('twoFactor.enterCode')}
+              </p>
+              {useRecoveryCode ? (
+                <Input
+                  value={code}
+                  onChange={(e) => setCode(e.target.value)}
+                  placeholder="xxxxx-xxxxx"
+                  autoComplete="off"
+                  className="font-mono text-center"
+                />
+              ) : (
+                <div className="flex justify-center">
+                  <InputOTP maxLength={6} value={code} onChange={setCode} autoFocus>
+                    <InputOTPGroup>
+                      {[0, 1, 2, 3, 4, 5].map((index) => (
+                        <InputOTPSlot key={index} index={index} />
+                      ))}
+                    </InputOTPGroup>
+                  </InputOTP>
+                </div>
+              )}
+              <Button
+                type="submit"
+                className="w-full"
+                disabled={isLoading || (useRecoveryCode ? !code.trim() : code.length !== 6)}
+              >
+                {isLoading ? t('general.loading') : t('twoFactor.verify')}
               </Button>
+              <div className="flex justify-between text-sm">
+                <button
+                  type="button"
+                  className="text-primary hover:underline"
+                  onClick={() => {
+                    setUseRecoveryCode(!useRecoveryCode);
+                    setCode('');
+                  }}
+                >
+                  {useRecoveryCode ? t('twoFactor.useAuthenticator') : t('twoFactor.useRecoveryCode')}
+                </button>
+                <button
+                  type="button"
+                  className="text-gray-500 hover:underline"
+                  onClick={() => {
+                    setChallenge(null);
+                    setCode('');
+                  }}
+                >
+                  {t('twoFactor.backToLogin')}
+                </button>
+              </div>
             </form>
-          </Form>
+          ) : (
+            <Form {...form}>
+              <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+                <FormField
+                  control={form.control}
+                  name="email"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>{t('general.email')}</FormLabel>
+                      <FormControl>
+                        <Input placeholder="user@example.com" {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="password"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>{t('general.password')}</FormLabel>
+                      <FormControl>
+                        <Input type="password" {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="rememberMe"
+                  render={({ field }) => (
+                    <FormItem className="flex flex-row items-start space-x-3 space-y-0 rounded-md p-2">
+                      <FormControl>
+                        <Checkbox
+                          checked={field.value}
+                          onCheckedChange={field.onChange}
+                        />
+                      </FormControl>
+                      <div className="space-y-1 leading-none">
+                        <FormLabel>
+                          {t('auth.rememberMe')}
+                        </FormLabel>
+                      </div>
+                    </FormItem>
+                  )}
+                />
+                <Button type="submit" className="w-full" disabled={isLoading}>
+                  {isLoading ? t('general.loading') : t('auth.login')}
+                </Button>
+              </form>
+            </Form>
+          )}
           <div className="mt-4 text-center text-sm">
             <Link href="/forgot-password" className="text-primary hover:underline">
               {t('auth.forgotPassword')}?
@@ -6,6 +6,8 @@ import { useTranslation } from 'react-i18next';
 import { Link, useLocation } from 'wouter';
 import { useAuth } from '@/hooks/useAuth';
 import { useToast } from '@/hooks/use-toast';
+import { usePasswordPolicy } from '@/hooks/usePasswordPolicy';
+import PasswordStrength from '@/components/users/PasswordStrength';
 import { 
   Form, 
   FormControl, 
@@ -20,15 +22,13 @@ import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle }
 import { Languages, Moon, Sun } from 'lucide-react';
 import { useTheme } from '@/providers/ThemeProvider';
 import { LanguageContext } from '@/providers/LanguageProvider';
-import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 
 const formSchema = z.object({
   username: z.string().min(3, { message: 'Username must be at least 3 characters' }),
   email: z.string().email({ message: 'Invalid email address' }),
-  password: z.string().min(8, { message: 'Password must be at least 8 characters' }),
+  password: z.string().min(1, { message: 'Password is required' }),
   confirmPassword: z.string(),
   fullName: z.string().min(2, { message: 'Full name must be at least 2 characters' }),
-  role: z.enum(['lecturer_doctor', 'participant_doctor', 'guest']),
   organization: z.string().optional(),
   position: z.string().optional(),
 }).refine((data) => data.password === data.confirmPassword, {
@@ -44,6 +44,7 @@ export default function RegisterPage() {
   const [, setLocation] = useLocation();
   const { theme, toggleTheme } = useTheme();
   const { language, setLanguage } = React.useContext(LanguageContext);
+  const { check, describe } = usePasswordPolicy();
 
   const form = useForm<z.infer<typeof formSchema>>({
     resolver: zodResolver(formSchema),
@@ -53,13 +54,20 @@ export default function RegisterPage() {
       password: '',
       confirmPassword: '',
       fullName: '',
-      role: 'guest',
       organization: '',
       position: '',
     },
   });
 
+  const [password, username, email, fullName] = form.watch(['password', 'username', 'email', 'fullName']);
+
   async function onSubmit(values: z.infer<typeof formSchema>) {
+    const violations = check(values.password, [values.username, values.email, values.fullName]);
+    if (violations.length > 0) {
+      form.setError('password', { message: describe(violations) });
+      return;
+    }
+
     setIsLoading(true);
     try {
       // Remove confirmPassword because it's not in the API schema
@@ -171,8 +179,9 @@ export default function RegisterPage() {
                     <FormItem>
                       <FormLabel>{t('general.password')}</FormLabel>
                       <FormControl>
-                        <Input type="password" {...field} />
+                        <Input type="password" autoComplete="new-password" {...field} />
                       </FormControl>
+                      <PasswordStrength password={password} personalInfo={[username, email, fullName]} />
                       <FormMessage />
                     </FormItem>
                   )}
@@ -193,32 +202,6 @@ export default function RegisterPage() {
                 />
               </div>
               
-              <FormField
-                control={form.control}
-                name="role"
-                render={({ field }) => (
-                  <FormItem>
-                    <FormLabel>{t('general.role')}</FormLabel>
-                    <Select 
-                      onValueChange={field.onChange} 
-                      defaultValue={field.value}
-                    >
-                      <FormControl>
-                        <SelectTrigger>
-                          <SelectValue placeholder="Select a role" />
-                        </SelectTrigger>
-                      </FormControl>
-                      <SelectContent>
-                        <SelectItem value="lecturer_doctor">{t('users.roles.lecturer_doctor')}</SelectItem>
-                        <SelectItem value="participant_doctor">{t('users.roles.participant_doctor')}</SelectItem>
-                        <SelectItem value="guest">{t('users.roles.guest')}</SelectItem>
-                      </SelectContent>
-                    </Select>
-                    <FormMessage />
-                  </FormItem>
-                )}
-              />
-              
               <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
                 <FormField
                   control={form.control}
@@ -5,6 +5,8 @@ import { zodResolver } from '@hookform/resolvers/zod';
 import { useTranslation } from 'react-i18next';
 import { useLocation } from 'wouter';
 import { useToast } from '@/hooks/use-toast';
+import { usePasswordPolicy } from '@/hooks/usePasswordPolicy';
+import PasswordStrength from '@/components/users/PasswordStrength';
 import { 
   Form, 
   FormControl, 
@@ -21,8 +23,7 @@ import { useTheme } from '@/providers/ThemeProvider';
 import { LanguageContext } from '@/providers/LanguageProvider';
 
 const formSchema = z.object({
-  password: z.string()
-    .min(8, { message: 'Password must be at least 8 characters' }),
+  password: z.string().min(1, { message: 'Password is required' }),
   confirmPassword: z.string(),
 }).refine((data) => data.password === data.confirmPassword, {
   message: "Passwords don't match",
@@ -39,6 +40,7 @@ export default function ResetPasswordPage() {
   const token = location.split('/').pop();
   const { theme, toggleTheme } = useTheme();
   const { language, setLanguage } = React.useContext(LanguageContext);
+  const { check, describe } = usePasswordPolicy();
 
   const form = useForm<z.infer<typeof formSchema>>({
     resolver: zodResolver(formSchema),
@@ -48,21 +50,36 @@ export default function ResetPasswordPage() {
     },
   });
 
+  const password = form.watch('password');
+
   async function onSubmit(values: z.infer<typeof formSchema>) {
+    const violations = check(values.password);
+    if (violations.length > 0) {
+      form.setError('password', { message: describe(violations) });
+      return;
+    }
+
     setIsLoading(true);
     try {
-      const response = await fetch('/api/auth/reset-password', {
+      const response = await fetch(`/api/auth/reset-password/${token}`, {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
         },
         body: JSON.stringify({ 
-          token, 
           password: values.password 
         }),
       });
       
       if (!response.ok) {
+        const data = await response.json().catch(() => null);
+
+        // Rules only the server can check, such as common or reused passwords
+        if (data?.violations) {
+          form.setError('password', { message: describe(data.violations) });
+          return;
+        }
+
         throw new Error('Server error');
       }
       
@@ -135,8 +152,9 @@ export default function ResetPasswordPage() {
                     <FormItem>
                       <FormLabel>{t('auth.newPassword')}</FormLabel>
                       <FormControl>
-                        <Input type="password" {...field} />
+                        <Input type="password" autoComplete="new-password" {...field} />
                       </FormControl>
+                      <PasswordStrength password={password} />
                       <FormMessage />
                     </FormItem>
                   )}
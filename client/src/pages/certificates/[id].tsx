@@ -7,10 +7,13 @@ import { Button } from "@/components/ui/button";
 import { Card, CardContent } from "@/components/ui/card";
 import { Skeleton } from "@/components/ui/skeleton";
 import { useToast } from "@/hooks/use-toast";
-import { apiRequest } from "@/lib/queryClient";
+import { apiRequest, downloadFile, getApiErrorBody } from "@/lib/queryClient";
 import { queryClient } from "@/lib/queryClient";
 import { usePermissions } from "@/hooks/usePermissions";
+import { certificateSubject } from "@shared/eventSeries";
 import CertificatePreview from "@/components/certificates/CertificatePreview";
+import CertificateHistory from "@/components/certificates/CertificateHistory";
+import AmendCertificateDialog from "@/components/certificates/AmendCertificateDialog";
 import {
   Dialog,
   DialogContent,
@@ -86,13 +89,18 @@ const CertificateDetailsPage: React.FC<CertificateDetailsPageProps> = ({ id }) =
     revokeCertificate();
   };
   
-  // Handle download certificate
-  const handleDownloadCertificate = () => {
-    // In a real app, this would trigger a download from the server
-    toast({
-      title: t("certificates.download"),
-      description: t("certificates.downloadStarted"),
-    });
+  // Download the PDF rendered by the server
+  const handleDownloadCertificate = async () => {
+    try {
+      await downloadFile(`/api/certificates/${id}/pdf`, `certificate-${certificate.certificateNumber}.pdf`);
+    } catch (error) {
+      console.error("Error downloading certificate:", error);
+      toast({
+        title: t("common.error"),
+        description: getApiErrorBody(error)?.message ?? t("certificates.downloadError"),
+        variant: "destructive",
+      });
+    }
   };
   
   if (isLoading) {
@@ -143,7 +151,14 @@ const CertificateDetailsPage: React.FC<CertificateDetailsPageProps> = ({ id }) =
             {t("certificates.backToCertificates")}
           </Button>
           
-          {!certificate.isRevoked && can("certificate:revoke") && (
+          {!certificate.isRevoked && can("certificate:amend", certificate) && (
+            <AmendCertificateDialog
+              certificateId={certificate.id}
+              holderName={certificate.holderName ?? certificate.registration.user.fullName}
+            />
+          )}
+          
+          {!certificate.isRevoked && can("certificate:revoke", certificate) && (
             <Dialog open={revokeDialogOpen} onOpenChange={setRevokeDialogOpen}>
               <DialogTrigger asChild>
                 <Button
@@ -216,19 +231,18 @@ const CertificateDetailsPage: React.FC<CertificateDetailsPageProps> = ({ id }) =
             certificateNumber: certificate.certificateNumber,
             qrCode: certificate.qrCode,
             issuedDate: certificate.issuedDate,
-            event: {
-              title: certificate.registration.event.title,
-              startDate: certificate.registration.event.startDate,
-              endDate: certificate.registration.event.endDate,
-            },
+            cmeCredits: certificate.cmeCredits,
+            event: certificateSubject(certificate),
             user: {
-              fullName: certificate.registration.user.fullName,
+              fullName: certificate.holderName ?? certificate.registration.user.fullName,
               organization: certificate.registration.user.organization,
               position: certificate.registration.user.position,
             },
           }}
-          onDownload={handleDownloadCertificate}
+          onDownload={certificate.isRevoked ? undefined : handleDownloadCertificate}
         />
+        
+        <CertificateHistory certificateId={certificate.id} />
       </div>
     </div>
   );
@@ -80,6 +80,16 @@ const CertificatesPage = () => {
     <div className="px-4 sm:px-6 lg:px-8">
       <div className="pb-5 border-b border-gray-200 sm:flex sm:items-center sm:justify-between">
         <h1 className="text-2xl font-semibold text-gray-900 dark:text-white">{t("certificates.managementTitle")}</h1>
+        {can("certificate:template") && (
+          <div className="mt-3 sm:mt-0 sm:ml-4">
+            <Button variant="outline" asChild>
+              <Link href="/certificates/templates">
+                <FileText className="h-4 w-4 mr-2" />
+                {t("certificates.templates.title")}
+              </Link>
+            </Button>
+          </div>
+        )}
       </div>
       
       {/* Filters */}
@@ -183,7 +193,14 @@ const CertificatesPage = () => {
                           <span className="text-xs text-gray-500 dark:text-gray-400">{certificate.user.email}</span>
                         </div>
                       </TableCell>
-                      <TableCell>{certificate.event.title}</TableCell>
+                      <TableCell>
+                        {certificate.seriesTitle ? (
+                          <div className="flex flex-col">
+                            <span>{certificate.seriesTitle}</span>
+                            <span className="text-xs text-gray-500 dark:text-gray-400">{t("certificates.seriesCertificate")}</span>
+                          </div>
+                        ) : certificate.event.title}
+                      </TableCell>
                       <TableCell>{format(new Date(certificate.issuedDate), "MMM d, yyyy")}</TableCell>
                       <TableCell>
                         {certificate.isRevoked ? (
@@ -0,0 +1,360 @@
+import React, { useState } from "react";
+import { useTranslation } from "react-i18next";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Link } from "wouter";
+import { ChevronLeft, Eye, Loader2, Plus, Trash2, Upload } from "lucide-react";
+import {
+  CERTIFICATE_LANGUAGES,
+  DEFAULT_CERTIFICATE_LAYOUTS,
+  type CertificateLanguage,
+  type CertificateLayouts,
+} from "@shared/certificateTemplate";
+import type { CertificateTemplate } from "@shared/schema";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Switch } from "@/components/ui/switch";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, getApiErrorBody, queryClient } from "@/lib/queryClient";
+import CertificateLayoutEditor from "@/components/certificates/CertificateLayoutEditor";
+
+const EVENT_TYPES = ["conference", "workshop", "seminar", "training", "symposium"] as const;
+
+// The designer works on a copy of the template until it is saved
+interface TemplateDraft {
+  id?: number;
+  name: string;
+  eventType: typeof EVENT_TYPES[number] | null;
+  isDefault: boolean;
+  pageSize: "A4" | "LETTER";
+  orientation: "landscape" | "portrait";
+  backgroundImage: string | null;
+  layouts: CertificateLayouts;
+}
+
+const newDraft = (): TemplateDraft => ({
+  name: "",
+  eventType: null,
+  isDefault: false,
+  pageSize: "A4",
+  orientation: "landscape",
+  backgroundImage: null,
+  layouts: { ...DEFAULT_CERTIFICATE_LAYOUTS },
+});
+
+/**
+ * Lets admins design the PDF certificate templates and assign them to event
+ * types; organizers pick a template per event in the event form
+ */
+const CertificateTemplatesPage: React.FC = () => {
+  const { t } = useTranslation();
+  const { toast } = useToast();
+  const [draft, setDraft] = useState<TemplateDraft | null>(null);
+  const [language, setLanguage] = useState<CertificateLanguage>("en");
+  const queryKey = ["/api/certificate-templates"];
+
+  const { data: templates, isLoading } = useQuery<CertificateTemplate[]>({
+    queryKey,
+  });
+
+  const onError = (error: Error) => {
+    console.error("Error saving certificate template:", error);
+    toast({
+      title: t("common.error"),
+      description: getApiErrorBody(error)?.message ?? t("certificates.templates.saveError"),
+      variant: "destructive",
+    });
+  };
+
+  const { mutate: saveTemplate, isPending: isSaving } = useMutation({
+    mutationFn: async (template: TemplateDraft) => {
+      const { id, ...data } = template;
+      const response = id
+        ? await apiRequest("PUT", `/api/certificate-templates/${id}`, data)
+        : await apiRequest("POST", "/api/certificate-templates", data);
+      return response.json() as Promise<CertificateTemplate>;
+    },
+    onSuccess: (template) => {
+      queryClient.invalidateQueries({ queryKey });
+      setDraft(current => current && { ...current, id: template.id });
+      toast({ title: t("certificates.templates.saved") });
+    },
+    onError,
+  });
+
+  const { mutate: deleteTemplate, isPending: isDeleting } = useMutation({
+    mutationFn: async (id: number) => {
+      const response = await apiRequest("DELETE", `/api/certificate-templates/${id}`);
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey });
+      setDraft(null);
+      toast({ title: t("certificates.templates.deleted") });
+    },
+    onError,
+  });
+
+  const { mutate: previewTemplate, isPending: isPreviewing } = useMutation({
+    mutationFn: async (template: TemplateDraft) => {
+      const response = await apiRequest("POST", `/api/certificate-templates/preview?language=${language}`, {
+        pageSize: template.pageSize,
+        orientation: template.orientation,
+        backgroundImage: template.backgroundImage,
+        layouts: template.layouts,
+      });
+      return response.blob();
+    },
+    onSuccess: (pdf) => {
+      window.open(URL.createObjectURL(pdf), "_blank");
+    },
+    onError,
+  });
+
+  const uploadImage = async (file: File) => {
+    try {
+      const formData = new FormData();
+      formData.append("file", file);
+      const response = await apiRequest("POST", "/api/certificate-templates/images", formData);
+      const { url } = await response.json();
+      return url as string;
+    } catch (error) {
+      console.error("Error uploading certificate image:", error);
+      toast({
+        title: t("common.error"),
+        description: getApiErrorBody(error)?.message ?? t("certificates.templates.uploadError"),
+        variant: "destructive",
+      });
+      return null;
+    }
+  };
+
+  const updateDraft = (changes: Partial<TemplateDraft>) => {
+    setDraft(current => current && { ...current, ...changes });
+  };
+
+  const editTemplate = (template: CertificateTemplate) => {
+    setDraft({
+      id: template.id,
+      name: template.name,
+      eventType: template.eventType,
+      isDefault: template.isDefault,
+      pageSize: template.pageSize,
+      orientation: template.orientation,
+      backgroundImage: template.backgroundImage,
+      layouts: template.layouts,
+    });
+  };
+
+  return (
+    <div className="px-4 sm:px-6 lg:px-8">
+      <div className="pb-5 border-b border-gray-200 sm:flex sm:items-center sm:justify-between">
+        <h1 className="text-2xl font-semibold text-gray-900 dark:text-white">{t("certificates.templates.title")}</h1>
+        <div className="mt-3 flex gap-2 sm:mt-0 sm:ml-4">
+          <Button variant="outline" asChild>
+            <Link href="/certificates">
+              <ChevronLeft className="h-4 w-4 mr-2" />
+              {t("certificates.backToCertificates")}
+            </Link>
+          </Button>
+          <Button onClick={() => setDraft(newDraft())}>
+            <Plus className="h-4 w-4 mr-2" />
+            {t("certificates.templates.create")}
+          </Button>
+        </div>
+      </div>
+
+      <div className="mt-6 grid grid-cols-1 gap-6 lg:grid-cols-3">
+        <Card>
+          <CardHeader>
+            <CardTitle>{t("certificates.templates.list")}</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-2">
+            {isLoading ? (
+              <Skeleton className="h-32 w-full" />
+            ) : !templates || templates.length === 0 ? (
+              <p className="text-sm text-gray-500 dark:text-gray-400">{t("certificates.templates.empty")}</p>
+            ) : (
+              templates.map(template => (
+                <button
+                  key={template.id}
+                  type="button"
+                  className={`w-full rounded-md border p-3 text-left hover:bg-gray-50 dark:hover:bg-gray-800 ${draft?.id === template.id ? "border-primary" : ""}`}
+                  onClick={() => editTemplate(template)}
+                >
+                  <div className="font-medium text-gray-900 dark:text-white">{template.name}</div>
+                  <div className="mt-1 flex flex-wrap gap-1">
+                    {template.isDefault && <Badge>{t("certificates.templates.default")}</Badge>}
+                    {template.eventType && <Badge variant="secondary">{t(`events.eventTypes.${template.eventType}`)}</Badge>}
+                  </div>
+                </button>
+              ))
+            )}
+          </CardContent>
+        </Card>
+
+        <Card className="lg:col-span-2">
+          <CardContent className="space-y-6 p-6">
+            {!draft ? (
+              <p className="text-center py-10 text-sm text-gray-500 dark:text-gray-400">{t("certificates.templates.selectOrCreate")}</p>
+            ) : (
+              <>
+                <div className="grid grid-cols-1 gap-4 sm:grid-cols-2">
+                  <div className="space-y-2 sm:col-span-2">
+                    <Label htmlFor="template-name">{t("certificates.templates.name")}</Label>
+                    <Input id="template-name" value={draft.name} onChange={(e) => updateDraft({ name: e.target.value })} />
+                  </div>
+                  <div className="space-y-2">
+                    <Label>{t("certificates.templates.eventType")}</Label>
+                    <Select
+                      value={draft.eventType ?? "any"}
+                      onValueChange={(value) => updateDraft({ eventType: value === "any" ? null : value as TemplateDraft["eventType"] })}
+                    >
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="any">{t("certificates.templates.anyEventType")}</SelectItem>
+                        {EVENT_TYPES.map(type => (
+                          <SelectItem key={type} value={type}>{t(`events.eventTypes.${type}`)}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <div className="flex items-end space-x-2 pb-2">
+                    <Switch checked={draft.isDefault} onCheckedChange={(isDefault) => updateDraft({ isDefault })} />
+                    <Label>{t("certificates.templates.useAsDefault")}</Label>
+                  </div>
+                  <div className="space-y-2">
+                    <Label>{t("certificates.templates.pageSize")}</Label>
+                    <Select value={draft.pageSize} onValueChange={(pageSize) => updateDraft({ pageSize: pageSize as TemplateDraft["pageSize"] })}>
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="A4">A4</SelectItem>
+                        <SelectItem value="LETTER">Letter</SelectItem>
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <div className="space-y-2">
+                    <Label>{t("certificates.templates.orientation")}</Label>
+                    <Select
+                      value={draft.orientation}
+                      onValueChange={(orientation) => updateDraft({ orientation: orientation as TemplateDraft["orientation"] })}
+                    >
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="landscape">{t("certificates.templates.landscape")}</SelectItem>
+                        <SelectItem value="portrait">{t("certificates.templates.portrait")}</SelectItem>
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <div className="space-y-2 sm:col-span-2">
+                    <Label>{t("certificates.templates.background")}</Label>
+                    <div className="flex items-center gap-2">
+                      {draft.backgroundImage && (
+                        <img src={draft.backgroundImage} alt="" className="h-12 rounded border object-cover" />
+                      )}
+                      <Button type="button" variant="outline" asChild>
+                        <label className="cursor-pointer">
+                          <Upload className="mr-2 h-4 w-4" /> {t("certificates.templates.uploadBackground")}
+                          <input
+                            type="file"
+                            accept="image/png,image/jpeg"
+                            className="hidden"
+                            onChange={async (e) => {
+                              const file = e.target.files?.[0];
+                              e.target.value = "";
+                              const url = file && await uploadImage(file);
+                              if (url) updateDraft({ backgroundImage: url });
+                            }}
+                          />
+                        </label>
+                      </Button>
+                      {draft.backgroundImage && (
+                        <Button type="button" variant="ghost" onClick={() => updateDraft({ backgroundImage: null })}>
+                          {t("certificates.templates.removeBackground")}
+                        </Button>
+                      )}
+                    </div>
+                  </div>
+                </div>
+
+                <Tabs value={language} onValueChange={(value) => setLanguage(value as CertificateLanguage)}>
+                  <TabsList>
+                    {CERTIFICATE_LANGUAGES.map(code => (
+                      <TabsTrigger key={code} value={code}>{t(`certificates.templates.languages.${code}`)}</TabsTrigger>
+                    ))}
+                  </TabsList>
+                  {CERTIFICATE_LANGUAGES.map(code => (
+                    <TabsContent key={code} value={code} className="pt-4" dir={code === "ar" ? "rtl" : "ltr"}>
+                      {draft.layouts[code] ? (
+                        <CertificateLayoutEditor
+                          value={draft.layouts[code]!}
+                          onChange={(layout) => updateDraft({ layouts: { ...draft.layouts, [code]: layout } })}
+                          onUploadImage={uploadImage}
+                        />
+                      ) : (
+                        <div className="text-center py-6 space-y-3">
+                          <p className="text-sm text-gray-500 dark:text-gray-400">{t("certificates.templates.usesBuiltIn")}</p>
+                          <Button
+                            type="button"
+                            variant="outline"
+                            onClick={() => updateDraft({ layouts: { ...draft.layouts, [code]: DEFAULT_CERTIFICATE_LAYOUTS[code] } })}
+                          >
+                            {t("certificates.templates.customize")}
+                          </Button>
+                        </div>
+                      )}
+                    </TabsContent>
+                  ))}
+                </Tabs>
+
+                <div className="flex flex-wrap justify-between gap-2 border-t pt-4">
+                  <div>
+                    {draft.id && (
+                      <Button
+                        variant="outline"
+                        className="text-red-600 dark:text-red-400"
+                        disabled={isDeleting}
+                        onClick={() => deleteTemplate(draft.id!)}
+                      >
+                        <Trash2 className="mr-2 h-4 w-4" /> {t("common.delete")}
+                      </Button>
+                    )}
+                  </div>
+                  <div className="flex gap-2">
+                    <Button variant="outline" disabled={isPreviewing} onClick={() => previewTemplate(draft)}>
+                      {isPreviewing ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Eye className="mr-2 h-4 w-4" />}
+                      {t("certificates.templates.preview")}
+                    </Button>
+                    <Button disabled={isSaving || draft.name.trim().length < 2} onClick={() => saveTemplate(draft)}>
+                      {isSaving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                      {t("certificates.templates.save")}
+                    </Button>
+                  </div>
+                </div>
+              </>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+};
+
+export default CertificateTemplatesPage;
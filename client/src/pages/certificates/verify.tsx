@@ -1,4 +1,4 @@
-import React, { useState } from "react";
+import React, { useEffect, useState } from "react";
 import { useTranslation } from "react-i18next";
 import { useQuery } from "@tanstack/react-query";
 import { useLocation } from "wouter";
@@ -13,27 +13,61 @@ import { Input } from "@/components/ui/input";
 import { Card, CardContent, CardFooter, CardHeader, CardTitle } from "@/components/ui/card";
 import { Skeleton } from "@/components/ui/skeleton";
 import CertificatePreview from "@/components/certificates/CertificatePreview";
+import SignatureVerification from "@/components/certificates/SignatureVerification";
+import { loadCertificateKeys, verifyCertificateToken } from "@/lib/certificateVerification";
+import { parseCertificateToken } from "@shared/certificateSignature";
 
 const CertificateVerifyPage = () => {
   const { t } = useTranslation();
   const params = useParams();
   const [, navigate] = useLocation();
   const [certificateNumber, setCertificateNumber] = useState(params.number || "");
+  // Signed code from the QR code, carried in the URL fragment
+  const [token, setToken] = useState(() => window.location.hash.slice(1));
+  const [isOnline, setIsOnline] = useState(navigator.onLine);
   
   // Only fetch if we have a certificate number
   const shouldFetch = !!params.number;
   
+  useEffect(() => {
+    const updateOnline = () => setIsOnline(navigator.onLine);
+    window.addEventListener("online", updateOnline);
+    window.addEventListener("offline", updateOnline);
+    return () => {
+      window.removeEventListener("online", updateOnline);
+      window.removeEventListener("offline", updateOnline);
+    };
+  }, []);
+  
   // Fetch certificate verification
   const { data, isLoading, refetch, isError, error } = useQuery({
     queryKey: [`/api/certificates/verify/${params.number}`],
     enabled: shouldFetch,
   });
   
-  // Handle verify certificate
+  // The signature is checked in the browser against the cached public keys, so it works offline
+  const { data: signatureResult, isLoading: isCheckingSignature } = useQuery({
+    queryKey: ["certificateSignature", token],
+    queryFn: async () => verifyCertificateToken(token, await loadCertificateKeys()),
+    enabled: shouldFetch && !!token,
+    networkMode: "always",
+    staleTime: Infinity,
+  });
+  
+  // Handle verify certificate; accepts a certificate number, or the scanned QR link or code
   const handleVerify = (e: React.FormEvent) => {
     e.preventDefault();
-    if (certificateNumber) {
-      navigate(`/certificates/verify/${certificateNumber}`);
+    const input = certificateNumber.trim();
+    const scannedToken = input.includes("#") ? input.slice(input.indexOf("#") + 1) : input;
+    const scanned = parseCertificateToken(scannedToken);
+    
+    if (scanned) {
+      setToken(scannedToken);
+      setCertificateNumber(scanned.payload.num);
+      navigate(`/certificates/verify/${encodeURIComponent(scanned.payload.num)}#${scannedToken}`);
+    } else if (input) {
+      setToken("");
+      navigate(`/certificates/verify/${encodeURIComponent(input)}`);
     }
   };
   
@@ -63,8 +97,25 @@ const CertificateVerifyPage = () => {
             <Button type="submit">{t("certificates.verify")}</Button>
           </form>
           
+          {token && shouldFetch && (
+            isCheckingSignature ? (
+              <Skeleton className="h-24 w-full mb-6" />
+            ) : signatureResult && (
+              <SignatureVerification
+                result={signatureResult}
+                certificateNumber={params.number!}
+                currentSignature={data?.valid ? data.certificate.signature : undefined}
+                token={token}
+              />
+            )
+          )}
+          
           {isLoading ? (
             <Skeleton className="h-64 w-full" />
+          ) : !isOnline && !data ? (
+            <div className="text-center p-8 border rounded-lg border-amber-200 bg-amber-50 dark:bg-amber-950 dark:border-amber-800">
+              <p className="text-sm text-amber-700 dark:text-amber-300">{t("certificates.signature.offline")}</p>
+            </div>
           ) : isError ? (
             <div className="text-center p-8 border rounded-lg border-red-200 bg-red-50 dark:bg-red-950 dark:border-red-800">
               <XCircle className="h-12 w-12 mx-auto text-red-500" />
@@ -6,11 +6,13 @@ import { ChevronLeft, Pencil } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import EventDetails from "@/components/events/EventDetails";
 import EventForm from "@/components/events/EventForm";
+import SeriesScopeDialog, { type SeriesEditScope } from "@/components/events/SeriesScopeDialog";
 import { Skeleton } from "@/components/ui/skeleton";
 import { useToast } from "@/hooks/use-toast";
 import { apiRequest } from "@/lib/queryClient";
 import { queryClient } from "@/lib/queryClient";
 import { usePermissions } from "@/hooks/usePermissions";
+import type { Event } from "@shared/schema";
 
 interface EventDetailsPageProps {
   id: string;
@@ -22,19 +24,21 @@ const EventDetailsPage: React.FC<EventDetailsPageProps> = ({ id }) => {
   const { toast } = useToast();
   const { can } = usePermissions();
   const [isEditing, setIsEditing] = useState(false);
+  // Changes to an occurrence of a series wait here until the user picks what they apply to
+  const [pendingChanges, setPendingChanges] = useState<any>(null);
   
   // Fetch event details
-  const { data: event, isLoading } = useQuery({
+  const { data: event, isLoading } = useQuery<Event>({
     queryKey: [`/api/events/${id}`],
   });
   
   // Update event mutation
   const { mutate, isPending } = useMutation({
-    mutationFn: async (data: any) => {
-      const response = await apiRequest("PUT", `/api/events/${id}`, data);
+    mutationFn: async ({ data, scope }: { data: any; scope: SeriesEditScope }) => {
+      const response = await apiRequest("PUT", `/api/events/${id}${scope === "following" ? "?scope=following" : ""}`, data);
       return response.json();
     },
-    onSuccess: () => {
+    onSuccess: (updatedEvent, { scope }) => {
       toast({
         title: t("events.updateSuccess"),
         description: t("events.updateSuccessMessage"),
@@ -42,6 +46,10 @@ const EventDetailsPage: React.FC<EventDetailsPageProps> = ({ id }) => {
       // Invalidate event query cache
       queryClient.invalidateQueries({ queryKey: [`/api/events/${id}`] });
       queryClient.invalidateQueries({ queryKey: ['/api/events'] });
+      // The other occurrences' pages are stale too
+      if (scope === "following") {
+        queryClient.invalidateQueries({ predicate: (query) => String(query.queryKey[0]).startsWith("/api/events/") });
+      }
       // Exit edit mode
       setIsEditing(false);
     },
@@ -57,14 +65,23 @@ const EventDetailsPage: React.FC<EventDetailsPageProps> = ({ id }) => {
   
   // Handle edit event
   const handleEditEvent = () => {
-    if (can("event:update")) {
+    if (event && can("event:update", event)) {
       setIsEditing(true);
     }
   };
   
   // Handle form submission
   const handleSubmit = (data: any) => {
-    mutate(data);
+    if (event?.seriesId) {
+      setPendingChanges(data);
+    } else {
+      mutate({ data, scope: "this" });
+    }
+  };
+  
+  const handleScopeSelect = (scope: SeriesEditScope) => {
+    mutate({ data: pendingChanges, scope });
+    setPendingChanges(null);
   };
   
   // Handle manage registrations
@@ -121,7 +138,7 @@ const EventDetailsPage: React.FC<EventDetailsPageProps> = ({ id }) => {
             {isEditing ? t("events.cancelEdit") : t("events.backToEvents")}
           </Button>
           
-          {!isEditing && can("event:update") && (
+          {!isEditing && can("event:update", event) && (
             <Button
               variant="secondary"
               className="ml-3"
@@ -150,6 +167,12 @@ const EventDetailsPage: React.FC<EventDetailsPageProps> = ({ id }) => {
           />
         )}
       </div>
+      
+      <SeriesScopeDialog
+        open={pendingChanges !== null}
+        onOpenChange={(open) => !open && setPendingChanges(null)}
+        onSelect={handleScopeSelect}
+      />
     </div>
   );
 };
@@ -0,0 +1,426 @@
+import React, { useEffect, useState } from "react";
+import { useTranslation } from "react-i18next";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Link } from "wouter";
+import { format, formatDistanceToNow, isSameDay } from "date-fns";
+import { CheckCircle2, ChevronLeft, CloudOff, Download, Loader2, LogIn, LogOut, RefreshCw, XCircle } from "lucide-react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow
+} from "@/components/ui/table";
+import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Skeleton } from "@/components/ui/skeleton";
+import { useToast } from "@/hooks/use-toast";
+import { useOfflineCheckIn } from "@/hooks/useOfflineCheckIn";
+import { apiRequest, getApiErrorBody, queryClient } from "@/lib/queryClient";
+import type { CheckInAction } from "@/lib/checkInStore";
+import QrScanner from "@/components/events/QrScanner";
+
+interface Session {
+  id: number;
+  title: string;
+  date: string;
+  startTime: string;
+  endTime: string;
+}
+
+interface Attendance {
+  sessions: Session[];
+  minAttendancePercent: number;
+  registrations: {
+    id: number;
+    sessionsAttended: number;
+    attendancePercent: number;
+    user: {
+      id: number;
+      fullName: string;
+      email: string;
+      organization: string | null;
+      profileImage: string | null;
+    };
+    attendanceRecords: {
+      scheduleId: number | null;
+      checkedInAt: string;
+      checkedOutAt: string | null;
+    }[];
+  }[];
+}
+
+interface ScanResult {
+  success: boolean;
+  message: string;
+  participant?: {
+    fullName: string;
+    email: string;
+    organization: string | null;
+    profileImage: string | null;
+  };
+  attendancePercent?: number;
+}
+
+interface CheckInPageProps {
+  id: string;
+}
+
+/**
+ * Check-in desk: scans or accepts typed ticket codes and records arrivals
+ * and departures per session. With a downloaded roster it keeps working
+ * offline and syncs the queued scans later.
+ */
+const CheckInPage: React.FC<CheckInPageProps> = ({ id }) => {
+  const { t } = useTranslation();
+  const { toast } = useToast();
+  const offline = useOfflineCheckIn(parseInt(id));
+  const [scheduleId, setScheduleId] = useState<string>("");
+  const [action, setAction] = useState<CheckInAction>("check_in");
+  const [code, setCode] = useState("");
+  const [result, setResult] = useState<ScanResult | null>(null);
+  const attendanceKey = [`/api/events/${id}/attendance`];
+
+  const { data: event } = useQuery<{ id: number; title: string }>({
+    queryKey: [`/api/events/${id}`],
+  });
+
+  const { data: attendance, isLoading } = useQuery<Attendance>({
+    queryKey: attendanceKey,
+  });
+
+  const sessions = attendance?.sessions ?? offline.roster?.sessions ?? [];
+
+  // Start on today's first session
+  useEffect(() => {
+    if (sessions.length > 0 && !scheduleId) {
+      const today = sessions.find(session => isSameDay(new Date(session.date), new Date()));
+      setScheduleId(String((today ?? sessions[0]).id));
+    }
+  }, [sessions, scheduleId]);
+
+  const { mutate: recordAttendance, isPending } = useMutation({
+    mutationFn: async (ticketCode: string) => {
+      const session = scheduleId ? parseInt(scheduleId) : null;
+
+      if (offline.isOnline) {
+        try {
+          const response = await apiRequest("POST", `/api/events/${id}/check-in`, {
+            code: ticketCode,
+            scheduleId: session,
+            action,
+          });
+          return { offline: false as const, data: await response.json() };
+        } catch (error) {
+          // fetch rejects with a TypeError when the server cannot be reached at all
+          if (!(error instanceof TypeError) || !offline.roster) throw error;
+        }
+      }
+
+      if (!offline.roster) {
+        throw new Error(t("checkIn.noRoster"));
+      }
+      return { offline: true as const, outcome: await offline.recordOffline(ticketCode, session, action) };
+    },
+    onSuccess: (scan) => {
+      setCode("");
+      if (scan.offline) {
+        setResult(scan.outcome.success
+          ? { success: true, message: t("checkIn.savedOffline"), participant: scan.outcome.participant }
+          : { success: false, message: t(`checkIn.offlineErrors.${scan.outcome.reason}`) });
+        return;
+      }
+      setResult({
+        success: true,
+        message: t(action === "check_in" ? "checkIn.checkedIn" : "checkIn.checkedOut"),
+        participant: scan.data.participant,
+        attendancePercent: scan.data.attendance?.percent,
+      });
+      queryClient.invalidateQueries({ queryKey: attendanceKey });
+    },
+    onError: (error) => {
+      setResult({
+        success: false,
+        message: getApiErrorBody(error)?.message ?? (error instanceof Error && !offline.roster ? t("checkIn.noRoster") : t("checkIn.error")),
+      });
+    },
+  });
+
+  const { mutate: downloadRoster, isPending: isDownloading } = useMutation({
+    mutationFn: offline.downloadRoster,
+    onSuccess: (roster) => {
+      toast({
+        title: t("checkIn.rosterDownloaded"),
+        description: t("checkIn.rosterDownloadedDescription", { count: roster.registrations.length }),
+      });
+    },
+    onError: (error) => {
+      console.error("Error downloading roster:", error);
+      toast({
+        title: t("common.error"),
+        description: getApiErrorBody(error)?.message ?? t("checkIn.rosterError"),
+        variant: "destructive",
+      });
+    },
+  });
+
+  const { mutate: syncScans } = useMutation({
+    mutationFn: offline.sync,
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: attendanceKey });
+    },
+    onError: (error) => {
+      console.error("Error syncing check-ins:", error);
+      toast({
+        title: t("common.error"),
+        description: t("checkIn.syncError"),
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleScan = (scannedCode: string) => {
+    if (!isPending) {
+      recordAttendance(scannedCode);
+    }
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (code.trim()) {
+      recordAttendance(code.trim());
+    }
+  };
+
+  const isPresent = (records: Attendance["registrations"][number]["attendanceRecords"]) => {
+    const record = records.find(r => r.scheduleId === (scheduleId ? parseInt(scheduleId) : null));
+    return !!record && !record.checkedOutAt;
+  };
+
+  return (
+    <div className="px-4 sm:px-6 lg:px-8">
+      <div className="pb-5 border-b border-gray-200 sm:flex sm:items-center sm:justify-between">
+        <div>
+          <h1 className="text-2xl font-semibold text-gray-900 dark:text-white">{t("checkIn.title")}</h1>
+          {event && <p className="text-sm text-gray-500 dark:text-gray-400">{event.title}</p>}
+        </div>
+        <div className="mt-3 flex flex-wrap gap-2 sm:mt-0 sm:ml-4">
+          <Button
+            variant="outline"
+            onClick={() => downloadRoster()}
+            disabled={!offline.isOnline || isDownloading}
+          >
+            {isDownloading ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Download className="h-4 w-4 mr-2" />}
+            {t("checkIn.downloadRoster")}
+          </Button>
+          <Button variant="outline" asChild>
+            <Link href={`/events/${id}`}>
+              <ChevronLeft className="h-4 w-4 mr-2" />
+              {t("checkIn.backToEvent")}
+            </Link>
+          </Button>
+        </div>
+      </div>
+
+      <div className="mt-6 flex flex-wrap items-center gap-3 text-sm text-gray-500 dark:text-gray-400">
+        {!offline.isOnline && (
+          <Badge variant="destructive">
+            <CloudOff className="mr-1 h-3 w-3" />
+            {t("checkIn.offline")}
+          </Badge>
+        )}
+        <span>
+          {offline.roster
+            ? t("checkIn.rosterAge", { age: formatDistanceToNow(new Date(offline.roster.generatedAt), { addSuffix: true }) })
+            : t("checkIn.noRosterYet")}
+        </span>
+        {offline.queuedCount > 0 && (
+          <>
+            <Badge variant="secondary">{t("checkIn.queued", { count: offline.queuedCount })}</Badge>
+            <Button
+              size="sm"
+              variant="outline"
+              onClick={() => syncScans()}
+              disabled={!offline.isOnline || offline.isSyncing}
+            >
+              <RefreshCw className={`mr-2 h-4 w-4 ${offline.isSyncing ? "animate-spin" : ""}`} />
+              {t("checkIn.syncNow")}
+            </Button>
+          </>
+        )}
+      </div>
+
+      {offline.lastSync && (
+        <Card className="mt-4">
+          <CardContent className="space-y-2 p-4 text-sm">
+            <div className="font-medium text-gray-900 dark:text-white">
+              {t("checkIn.syncSummary", offline.lastSync.summary)}
+            </div>
+            {offline.lastSync.conflicts.length > 0 && (
+              <ul className="space-y-1 text-red-600 dark:text-red-400">
+                {offline.lastSync.conflicts.map(conflict => (
+                  <li key={conflict.clientId}>
+                    {conflict.fullName ?? t("checkIn.unknownParticipant")}: {conflict.message}
+                  </li>
+                ))}
+              </ul>
+            )}
+          </CardContent>
+        </Card>
+      )}
+
+      <div className="mt-6 grid grid-cols-1 gap-6 lg:grid-cols-2">
+        <Card>
+          <CardContent className="space-y-4 p-6">
+            {sessions.length > 0 && (
+              <div className="grid gap-2">
+                <Label>{t("checkIn.session")}</Label>
+                <Select value={scheduleId} onValueChange={setScheduleId}>
+                  <SelectTrigger>
+                    <SelectValue placeholder={t("checkIn.selectSession")} />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {sessions.map(session => (
+                      <SelectItem key={session.id} value={String(session.id)}>
+                        {format(new Date(session.date), "PP")} {session.startTime}–{session.endTime} · {session.title}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
+
+            <div className="grid grid-cols-2 gap-2">
+              <Button variant={action === "check_in" ? "default" : "outline"} onClick={() => setAction("check_in")}>
+                <LogIn className="mr-2 h-4 w-4" />
+                {t("checkIn.checkIn")}
+              </Button>
+              <Button variant={action === "check_out" ? "default" : "outline"} onClick={() => setAction("check_out")}>
+                <LogOut className="mr-2 h-4 w-4" />
+                {t("checkIn.checkOut")}
+              </Button>
+            </div>
+
+            <QrScanner onScan={handleScan} paused={isPending} />
+
+            <form className="flex gap-2" onSubmit={handleSubmit}>
+              <Input
+                value={code}
+                placeholder={t("checkIn.codePlaceholder")}
+                aria-label={t("checkIn.typeCode")}
+                autoComplete="off"
+                onChange={(e) => setCode(e.target.value)}
+              />
+              <Button type="submit" disabled={isPending || !code.trim()}>
+                {isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                {t("checkIn.submit")}
+              </Button>
+            </form>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>{t("checkIn.lastScan")}</CardTitle>
+          </CardHeader>
+          <CardContent>
+            {!result ? (
+              <p className="text-sm text-gray-500 dark:text-gray-400">{t("checkIn.waitingForScan")}</p>
+            ) : (
+              <div className={`rounded-md p-4 ${result.success ? "bg-green-50 dark:bg-green-900/20" : "bg-red-50 dark:bg-red-900/20"}`}>
+                <div className="flex items-center">
+                  {result.success
+                    ? <CheckCircle2 className="mr-2 h-5 w-5 text-green-600" />
+                    : <XCircle className="mr-2 h-5 w-5 text-red-600" />}
+                  <span className="font-medium text-gray-900 dark:text-white">{result.message}</span>
+                </div>
+                {result.participant && (
+                  <div className="mt-4 flex items-center">
+                    <Avatar className="h-12 w-12">
+                      <AvatarImage src={result.participant.profileImage || undefined} alt={result.participant.fullName} />
+                      <AvatarFallback>{result.participant.fullName.charAt(0)}</AvatarFallback>
+                    </Avatar>
+                    <div className="ml-3">
+                      <div className="font-medium text-gray-900 dark:text-white">{result.participant.fullName}</div>
+                      <div className="text-sm text-gray-500 dark:text-gray-400">
+                        {result.participant.organization || result.participant.email}
+                      </div>
+                      {result.attendancePercent !== undefined && (
+                        <div className="text-sm text-gray-500 dark:text-gray-400">
+                          {t("checkIn.attendance", { percent: result.attendancePercent })}
+                        </div>
+                      )}
+                    </div>
+                  </div>
+                )}
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+
+      <Card className="mt-6">
+        <CardHeader>
+          <CardTitle>{t("checkIn.participants")}</CardTitle>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <Skeleton className="h-32 w-full" />
+          ) : !attendance || attendance.registrations.length === 0 ? (
+            <p className="text-center py-6 text-sm text-gray-500 dark:text-gray-400">{t("registrations.noRegistrations")}</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>{t("users.fullName")}</TableHead>
+                  <TableHead>{t("checkIn.present")}</TableHead>
+                  <TableHead>{t("checkIn.sessionsAttended")}</TableHead>
+                  <TableHead>{t("checkIn.attendanceRate")}</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {attendance.registrations.map(registration => (
+                  <TableRow key={registration.id}>
+                    <TableCell>
+                      <div className="text-sm font-medium text-gray-900 dark:text-white">{registration.user.fullName}</div>
+                      <div className="text-xs text-gray-500 dark:text-gray-400">
+                        {registration.user.organization || registration.user.email}
+                      </div>
+                    </TableCell>
+                    <TableCell>
+                      {isPresent(registration.attendanceRecords) && (
+                        <CheckCircle2 className="h-4 w-4 text-green-600" aria-label={t("checkIn.present")} />
+                      )}
+                    </TableCell>
+                    <TableCell className="text-sm">
+                      {sessions.length > 0 ? `${registration.sessionsAttended} / ${sessions.length}` : "—"}
+                    </TableCell>
+                    <TableCell>
+                      <Badge variant={registration.attendancePercent >= attendance.minAttendancePercent ? "default" : "secondary"}>
+                        {registration.attendancePercent}%
+                      </Badge>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
+
+export default CheckInPage;
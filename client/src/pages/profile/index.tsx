@@ -0,0 +1,112 @@
+import React from "react";
+import { useTranslation } from "react-i18next";
+import { Award, CalendarDays, KeyRound, Monitor, ShieldCheck, UserCircle } from "lucide-react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { useAuth } from "@/hooks/useAuth";
+import ActiveSessions from "@/components/users/ActiveSessions";
+import AvatarUpload from "@/components/users/AvatarUpload";
+import CalendarFeedSettings from "@/components/users/CalendarFeedSettings";
+import CmeLedger from "@/components/users/CmeLedger";
+import ChangePasswordForm from "@/components/users/ChangePasswordForm";
+import ProfileForm from "@/components/users/ProfileForm";
+import TwoFactorSettings from "@/components/users/TwoFactorSettings";
+
+const ProfilePage = () => {
+  const { t } = useTranslation();
+  const { user } = useAuth();
+
+  if (!user) return null;
+
+  return (
+    <div className="px-4 sm:px-6 lg:px-8">
+      <div className="pb-5 border-b border-gray-200 sm:flex sm:items-center sm:justify-between">
+        <h1 className="text-2xl font-semibold text-gray-900 dark:text-white">{t("users.profile")}</h1>
+      </div>
+
+      <Card className="mt-6">
+        <CardContent className="p-6 flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4">
+          <div>
+            <h2 className="text-lg font-medium text-gray-900 dark:text-white">{user.fullName}</h2>
+            <p className="text-sm text-gray-500 dark:text-gray-400">{user.email}</p>
+            <p className="text-sm text-gray-500 dark:text-gray-400">{t(`users.roles.${user.role}`)}</p>
+          </div>
+          <AvatarUpload />
+        </CardContent>
+      </Card>
+
+      <Card className="mt-6">
+        <CardHeader>
+          <CardTitle className="flex items-center">
+            <UserCircle className="h-5 w-5 mr-2 text-primary-500" />
+            {t("profile.personalInfo")}
+          </CardTitle>
+        </CardHeader>
+        <CardContent className="max-w-2xl">
+          <ProfileForm />
+        </CardContent>
+      </Card>
+
+      <Card className="mt-6">
+        <CardHeader>
+          <CardTitle className="flex items-center">
+            <Award className="h-5 w-5 mr-2 text-primary-500" />
+            {t("cme.title")}
+          </CardTitle>
+        </CardHeader>
+        <CardContent>
+          <CmeLedger />
+        </CardContent>
+      </Card>
+
+      <Card className="mt-6">
+        <CardHeader>
+          <CardTitle className="flex items-center">
+            <CalendarDays className="h-5 w-5 mr-2 text-primary-500" />
+            {t("calendarFeed.title")}
+          </CardTitle>
+        </CardHeader>
+        <CardContent>
+          <CalendarFeedSettings />
+        </CardContent>
+      </Card>
+
+      <Card className="mt-6">
+        <CardHeader>
+          <CardTitle className="flex items-center">
+            <KeyRound className="h-5 w-5 mr-2 text-primary-500" />
+            {t("auth.changePassword")}
+          </CardTitle>
+        </CardHeader>
+        <CardContent className="max-w-md">
+          <ChangePasswordForm />
+        </CardContent>
+      </Card>
+
+      <Card className="mt-6">
+        <CardHeader>
+          <CardTitle className="flex items-center">
+            <ShieldCheck className="h-5 w-5 mr-2 text-primary-500" />
+            {t("twoFactor.title")}
+          </CardTitle>
+        </CardHeader>
+        <CardContent>
+          <TwoFactorSettings />
+        </CardContent>
+      </Card>
+
+      <Card className="mt-6">
+        <CardHeader>
+          <CardTitle className="flex items-center">
+            <Monitor className="h-5 w-5 mr-2 text-primary-500" />
+            {t("sessions.title")}
+          </CardTitle>
+        </CardHeader>
+        <CardContent>
+          <ActiveSessions />
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
+
+export default ProfilePage;
@@ -1,10 +1,11 @@
-import React from "react";
+import React, { useState, useEffect } from "react";
 import { useTranslation } from "react-i18next";
-import { useQuery } from "@tanstack/react-query";
+import { useQuery, useMutation } from "@tanstack/react-query";
 import { 
   Shield, 
   CheckCircle, 
-  XCircle 
+  XCircle,
+  UserCheck
 } from "lucide-react";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { 
@@ -19,8 +20,31 @@ import { Badge } from "@/components/ui/badge";
 import { Skeleton } from "@/components/ui/skeleton";
 import { Checkbox } from "@/components/ui/checkbox";
 import { Button } from "@/components/ui/button";
+import { Switch } from "@/components/ui/switch";
+import { Input } from "@/components/ui/input";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import RolePermissions from "@/components/users/RolePermissions";
 import { usePermissions } from "@/hooks/usePermissions";
 import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import type { Permission } from "@shared/schema";
+
+interface RoleTemplate {
+  id: number;
+  name: string;
+  description: string | null;
+  requireTwoFactor: boolean;
+  passwordMaxAgeDays: number | null;
+  cmeAnnualRequirement: number | null;
+  permissions: { id: number; name: string }[];
+  usersCount: number;
+}
 
 const RolesPage = () => {
   const { t } = useTranslation();
@@ -28,20 +52,45 @@ const RolesPage = () => {
   const { toast } = useToast();
   
   // Fetch permissions
-  const { data: permissions, isLoading: isLoadingPermissions } = useQuery({
+  const { data: permissions, isLoading: isLoadingPermissions } = useQuery<Permission[]>({
     queryKey: ['/api/permissions'],
   });
   
-  // Fetch roles (this would come from a real API in a complete implementation)
-  const roles = [
-    { id: 1, name: "super_admin", displayName: t("users.roles.super_admin"), description: t("roles.descriptions.super_admin") },
-    { id: 2, name: "ministry_manager", displayName: t("users.roles.ministry_manager"), description: t("roles.descriptions.ministry_manager") },
-    { id: 3, name: "province_manager", displayName: t("users.roles.province_manager"), description: t("roles.descriptions.province_manager") },
-    { id: 4, name: "hospital_manager", displayName: t("users.roles.hospital_manager"), description: t("roles.descriptions.hospital_manager") },
-    { id: 5, name: "lecturer_doctor", displayName: t("users.roles.lecturer_doctor"), description: t("roles.descriptions.lecturer_doctor") },
-    { id: 6, name: "participant_doctor", displayName: t("users.roles.participant_doctor"), description: t("roles.descriptions.participant_doctor") },
-    { id: 7, name: "guest", displayName: t("users.roles.guest"), description: t("roles.descriptions.guest") },
-  ];
+  // Fetch role templates
+  const { data: roleTemplates, isLoading: isLoadingRoles } = useQuery<RoleTemplate[]>({
+    queryKey: ['/api/roles'],
+  });
+  
+  // Fetch users to inspect their effective permissions
+  const { data: usersData } = useQuery<any>({
+    queryKey: ['/api/users', { limit: 100 }],
+    enabled: can("role:manage"),
+  });
+  
+  const [selectedUserId, setSelectedUserId] = useState<number | null>(null);
+  const selectedUser = usersData?.users?.find((user: any) => user.id === selectedUserId);
+  
+  // Permission names per role, edited locally until saved
+  const [rolePermissions, setRolePermissions] = useState<Record<string, string[]>>({});
+  
+  useEffect(() => {
+    if (!roleTemplates) return;
+    
+    setRolePermissions(
+      Object.fromEntries(roleTemplates.map(role => [role.name, role.permissions.map(p => p.name)]))
+    );
+  }, [roleTemplates]);
+  
+  const roles = (roleTemplates || []).map(role => ({
+    id: role.id,
+    name: role.name,
+    displayName: t(`users.roles.${role.name}`),
+    description: t(`roles.descriptions.${role.name}`),
+    usersCount: role.usersCount,
+    requireTwoFactor: role.requireTwoFactor,
+    passwordMaxAgeDays: role.passwordMaxAgeDays,
+    cmeAnnualRequirement: role.cmeAnnualRequirement,
+  }));
   
   // Group permissions by category
   const groupedPermissions = React.useMemo(() => {
@@ -63,59 +112,87 @@ const RolesPage = () => {
     }));
   }, [permissions]);
   
-  // Mock role permissions (this would come from a real API)
-  const rolePermissions = {
-    "super_admin": ["*"], // All permissions
-    "ministry_manager": [
-      "user:create", "user:read", "user:update",
-      "event:create", "event:read", "event:update", "event:delete", "event:publish", "event:approve",
-      "certificate:generate", "certificate:read", "certificate:revoke",
-      "media:upload", "media:read", "media:delete",
-      "report:generate", 
-      "log:view"
-    ],
-    "province_manager": [
-      "user:read",
-      "event:create", "event:read", "event:update", "event:publish", "event:approve",
-      "certificate:generate", "certificate:read",
-      "media:upload", "media:read",
-      "report:generate"
-    ],
-    "hospital_manager": [
-      "user:read",
-      "event:create", "event:read", "event:update", "event:publish",
-      "certificate:generate", "certificate:read",
-      "media:upload", "media:read"
-    ],
-    "lecturer_doctor": [
-      "event:read", "event:create", "event:update",
-      "certificate:generate", "certificate:read",
-      "media:upload", "media:read"
-    ],
-    "participant_doctor": [
-      "event:read", "event:register",
-      "certificate:read"
-    ],
-    "guest": [
-      "event:read"
-    ]
-  };
-  
   // Check if a role has a permission
   const hasPermission = (roleName: string, permissionName: string) => {
     if (roleName === "super_admin") return true; // Super admin has all permissions
-    return rolePermissions[roleName as keyof typeof rolePermissions].includes(permissionName);
+    return (rolePermissions[roleName] || []).includes(permissionName);
   };
   
-  // Not implemented for this demo - would save role permissions changes
-  const handleSaveChanges = () => {
-    toast({
-      title: t("roles.saveSuccess"),
-      description: t("roles.saveSuccessMessage"),
-    });
+  const handlePermissionChange = (roleName: string, permissionName: string, checked: boolean) => {
+    setRolePermissions(prev => ({
+      ...prev,
+      [roleName]: checked
+        ? [...(prev[roleName] || []), permissionName]
+        : (prev[roleName] || []).filter(name => name !== permissionName),
+    }));
   };
   
-  if (isLoadingPermissions) {
+  // Roles whose template differs from the saved one
+  const changedRoles = (roleTemplates || []).filter(role => {
+    const saved = role.permissions.map(p => p.name);
+    const current = rolePermissions[role.name] || [];
+    return saved.length !== current.length || current.some(name => !saved.includes(name));
+  });
+  
+  // Save role templates; every user with a changed role picks up the new defaults
+  const { mutate: saveChanges, isPending: isSaving } = useMutation({
+    mutationFn: async () => {
+      for (const role of changedRoles) {
+        const permissionIds = (permissions || [])
+          .filter(permission => rolePermissions[role.name].includes(permission.name))
+          .map(permission => permission.id);
+        
+        await apiRequest("PUT", `/api/roles/${role.name}/permissions`, { permissionIds });
+      }
+    },
+    onSuccess: () => {
+      toast({
+        title: t("roles.saveSuccess"),
+        description: t("roles.saveSuccessMessage"),
+      });
+      queryClient.invalidateQueries({ queryKey: ['/api/roles'] });
+    },
+    onError: (error) => {
+      console.error("Error saving role permissions:", error);
+      toast({
+        title: t("common.error"),
+        description: t("roles.saveError"),
+        variant: "destructive",
+      });
+    },
+  });
+  
+  const handleSaveChanges = () => saveChanges();
+  
+  // Update a role's settings: mandatory two-factor authentication, password expiry and yearly CME requirement
+  const { mutate: updateRole, isPending: isUpdatingRole } = useMutation({
+    mutationFn: async ({ roleName, ...data }: {
+      roleName: string;
+      requireTwoFactor?: boolean;
+      passwordMaxAgeDays?: number | null;
+      cmeAnnualRequirement?: number | null;
+    }) => {
+      const response = await apiRequest("PUT", `/api/roles/${roleName}`, data);
+      return response.json();
+    },
+    onSuccess: () => {
+      toast({
+        title: t("roles.saveSuccess"),
+        description: t("roles.saveSuccessMessage"),
+      });
+      queryClient.invalidateQueries({ queryKey: ['/api/roles'] });
+    },
+    onError: (error) => {
+      console.error("Error updating role:", error);
+      toast({
+        title: t("common.error"),
+        description: t("roles.saveError"),
+        variant: "destructive",
+      });
+    },
+  });
+  
+  if (isLoadingPermissions || isLoadingRoles) {
     return (
       <div className="px-4 sm:px-6 lg:px-8">
         <div className="pb-5 border-b border-gray-200 sm:flex sm:items-center sm:justify-between">
@@ -134,7 +211,7 @@ const RolesPage = () => {
         <h1 className="text-2xl font-semibold text-gray-900 dark:text-white">{t("roles.managementTitle")}</h1>
         {can("role:manage") && (
           <div className="mt-3 sm:mt-0 sm:ml-4">
-            <Button onClick={handleSaveChanges}>
+            <Button onClick={handleSaveChanges} disabled={isSaving || changedRoles.length === 0}>
               {t("roles.saveChanges")}
             </Button>
           </div>
@@ -160,6 +237,54 @@ const RolesPage = () => {
                       <div className="text-xs font-normal text-gray-500 dark:text-gray-400 mt-1 max-w-[120px] mx-auto">
                         {role.description}
                       </div>
+                      <Badge variant="outline" className="mt-1">
+                        {t("roles.usersCount", { count: role.usersCount })}
+                      </Badge>
+                      <label className="flex items-center justify-center space-x-1 mt-2 text-xs font-normal">
+                        <Switch
+                          checked={role.requireTwoFactor}
+                          disabled={!can("role:manage") || isUpdatingRole}
+                          onCheckedChange={(checked) => updateRole({ roleName: role.name, requireTwoFactor: checked })}
+                        />
+                        <span>{t("roles.requireTwoFactor")}</span>
+                      </label>
+                      <label className="flex items-center justify-center space-x-1 mt-2 text-xs font-normal">
+                        <span>{t("roles.passwordMaxAgeDays")}</span>
+                        <Input
+                          key={`${role.name}-${role.passwordMaxAgeDays}`}
+                          type="number"
+                          min={1}
+                          className="h-7 w-16 text-xs"
+                          defaultValue={role.passwordMaxAgeDays ?? ""}
+                          disabled={!can("role:manage") || isUpdatingRole}
+                          onBlur={(event) => {
+                            // An empty value means passwords never expire
+                            const value = event.target.value ? Number(event.target.value) : null;
+                            if (value !== role.passwordMaxAgeDays) {
+                              updateRole({ roleName: role.name, passwordMaxAgeDays: value });
+                            }
+                          }}
+                        />
+                      </label>
+                      <label className="flex items-center justify-center space-x-1 mt-2 text-xs font-normal">
+                        <span>{t("roles.cmeAnnualRequirement")}</span>
+                        <Input
+                          key={`${role.name}-${role.cmeAnnualRequirement}`}
+                          type="number"
+                          min={0}
+                          step={0.25}
+                          className="h-7 w-16 text-xs"
+                          defaultValue={role.cmeAnnualRequirement ?? ""}
+                          disabled={!can("role:manage") || isUpdatingRole}
+                          onBlur={(event) => {
+                            // An empty value means no yearly requirement
+                            const value = event.target.value ? Number(event.target.value) : null;
+                            if (value !== role.cmeAnnualRequirement) {
+                              updateRole({ roleName: role.name, cmeAnnualRequirement: value });
+                            }
+                          }}
+                        />
+                      </label>
                     </TableHead>
                   ))}
                 </TableRow>
@@ -188,8 +313,7 @@ const RolesPage = () => {
                               <Checkbox
                                 checked={hasPermission(role.name, permission.name)}
                                 disabled={role.name === "super_admin"} // Super admin always has all permissions
-                                // In a real implementation, this would update the permissions
-                                // onCheckedChange={(checked) => handlePermissionChange(role.name, permission.name, checked)}
+                                onCheckedChange={(checked) => handlePermissionChange(role.name, permission.name, checked === true)}
                               />
                             ) : (
                               hasPermission(role.name, permission.name) ? (
@@ -215,12 +339,51 @@ const RolesPage = () => {
         {can("role:manage") && (
           <Button
             onClick={handleSaveChanges}
+            disabled={isSaving || changedRoles.length === 0}
             className="mt-4 sm:mt-0"
           >
             {t("roles.saveChanges")}
           </Button>
         )}
       </div>
+      
+      {can("role:manage") && (
+        <Card className="mt-6">
+          <CardHeader>
+            <CardTitle className="flex items-center">
+              <UserCheck className="h-5 w-5 mr-2 text-primary-500" />
+              {t("roles.effectivePermissions")}
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-6">
+            <div className="max-w-sm">
+              <Select
+                value={selectedUserId ? selectedUserId.toString() : undefined}
+                onValueChange={(value) => setSelectedUserId(parseInt(value))}
+              >
+                <SelectTrigger>
+                  <SelectValue placeholder={t("roles.selectUser")} />
+                </SelectTrigger>
+                <SelectContent>
+                  {usersData?.users?.map((user: any) => (
+                    <SelectItem key={user.id} value={user.id.toString()}>
+                      {user.fullName} ({t(`users.roles.${user.role}`)})
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            
+            {selectedUser && (
+              <RolePermissions
+                key={selectedUser.id}
+                userId={selectedUser.id}
+                userRole={selectedUser.role}
+              />
+            )}
+          </CardContent>
+        </Card>
+      )}
     </div>
   );
 };
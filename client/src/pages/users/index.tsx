@@ -8,7 +8,12 @@ import {
   Trash2, 
   Check, 
   X,
-  UserCog
+  UserCog,
+  LogOut,
+  Monitor,
+  Lock,
+  Unlock,
+  Award
 } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
@@ -46,6 +51,8 @@ import {
   DropdownMenuTrigger,
 } from "@/components/ui/dropdown-menu";
 import RolePermissions from "@/components/users/RolePermissions";
+import ActiveSessions from "@/components/users/ActiveSessions";
+import CmeLedger from "@/components/users/CmeLedger";
 
 const UsersPage = () => {
   const { t } = useTranslation();
@@ -57,6 +64,8 @@ const UsersPage = () => {
   const [isEditDialogOpen, setIsEditDialogOpen] = useState(false);
   const [isDeleteDialogOpen, setIsDeleteDialogOpen] = useState(false);
   const [isPermissionsDialogOpen, setIsPermissionsDialogOpen] = useState(false);
+  const [isSessionsDialogOpen, setIsSessionsDialogOpen] = useState(false);
+  const [isCmeDialogOpen, setIsCmeDialogOpen] = useState(false);
   const [selectedUser, setSelectedUser] = useState<any>(null);
   
   // Pagination and filter state
@@ -71,7 +80,7 @@ const UsersPage = () => {
   // Create user mutation
   const { mutate: createUser, isPending: isCreating } = useMutation({
     mutationFn: async (userData: any) => {
-      const response = await apiRequest("POST", "/api/auth/register", userData);
+      const response = await apiRequest("POST", "/api/users", userData);
       return response.json();
     },
     onSuccess: () => {
@@ -146,6 +155,54 @@ const UsersPage = () => {
     },
   });
   
+  // Force logout mutation
+  const { mutate: forceLogout } = useMutation({
+    mutationFn: async (userId: number) => {
+      const response = await apiRequest("POST", `/api/users/${userId}/force-logout`);
+      return response.json();
+    },
+    onSuccess: () => {
+      toast({
+        title: t("users.forceLogoutSuccess"),
+        description: t("users.forceLogoutSuccessMessage"),
+      });
+    },
+    onError: (error) => {
+      console.error("Error forcing logout:", error);
+      toast({
+        title: t("users.forceLogoutError"),
+        description: t("users.forceLogoutErrorMessage"),
+        variant: "destructive",
+      });
+    },
+  });
+  
+  // Unlock mutation for accounts locked after failed logins
+  const { mutate: unlockUser } = useMutation({
+    mutationFn: async (userId: number) => {
+      const response = await apiRequest("POST", `/api/users/${userId}/unlock`);
+      return response.json();
+    },
+    onSuccess: () => {
+      toast({
+        title: t("users.unlockSuccess"),
+        description: t("users.unlockSuccessMessage"),
+      });
+      queryClient.invalidateQueries({ queryKey: ['/api/users'] });
+    },
+    onError: (error) => {
+      console.error("Error unlocking user:", error);
+      toast({
+        title: t("common.error"),
+        description: t("users.unlockError"),
+        variant: "destructive",
+      });
+    },
+  });
+  
+  // Locked until a future time
+  const isLocked = (user: any) => !!user.lockedUntil && new Date(user.lockedUntil) > new Date();
+  
   // Handle search
   const handleSearch = (e: React.FormEvent<HTMLFormElement>) => {
     e.preventDefault();
@@ -177,6 +234,18 @@ const UsersPage = () => {
     setIsPermissionsDialogOpen(true);
   };
   
+  // Handle manage sessions
+  const handleManageSessions = (user: any) => {
+    setSelectedUser(user);
+    setIsSessionsDialogOpen(true);
+  };
+  
+  // Handle view CME credits
+  const handleViewCmeCredits = (user: any) => {
+    setSelectedUser(user);
+    setIsCmeDialogOpen(true);
+  };
+  
   // Handle form submission for create
   const handleCreateSubmit = (data: any) => {
     createUser(data);
@@ -311,6 +380,16 @@ const UsersPage = () => {
                             {t("users.pending")}
                           </Badge>
                         )}
+                        {isLocked(user) && (
+                          <Badge
+                            variant="destructive"
+                            className="ml-1"
+                            title={new Date(user.lockedUntil).toLocaleString()}
+                          >
+                            <Lock className="h-3.5 w-3.5 mr-1" />
+                            {t("users.locked")}
+                          </Badge>
+                        )}
                       </TableCell>
                       <TableCell className="text-right">
                         <DropdownMenu>
@@ -336,6 +415,30 @@ const UsersPage = () => {
                                 {t("users.managePermissions")}
                               </DropdownMenuItem>
                             )}
+                            {can("user:update") && (
+                              <DropdownMenuItem onClick={() => handleManageSessions(user)}>
+                                <Monitor className="h-4 w-4 mr-2" />
+                                {t("users.manageSessions")}
+                              </DropdownMenuItem>
+                            )}
+                            {can("user:read") && (
+                              <DropdownMenuItem onClick={() => handleViewCmeCredits(user)}>
+                                <Award className="h-4 w-4 mr-2" />
+                                {t("users.cmeCredits")}
+                              </DropdownMenuItem>
+                            )}
+                            {can("user:update") && (
+                              <DropdownMenuItem onClick={() => forceLogout(user.id)}>
+                                <LogOut className="h-4 w-4 mr-2" />
+                                {t("users.forceLogout")}
+                              </DropdownMenuItem>
+                            )}
+                            {can("user:update") && isLocked(user) && (
+                              <DropdownMenuItem onClick={() => unlockUser(user.id)}>
+                                <Unlock className="h-4 w-4 mr-2" />
+                                {t("users.unlock")}
+                              </DropdownMenuItem>
+                            )}
                             {can("user:delete") && (
                               <DropdownMenuItem
                                 className="text-red-600 dark:text-red-400"
@@ -448,6 +551,42 @@ const UsersPage = () => {
         </Dialog>
       )}
       
+      {/* Manage Sessions Dialog */}
+      {selectedUser && (
+        <Dialog 
+          open={isSessionsDialogOpen} 
+          onOpenChange={setIsSessionsDialogOpen}
+        >
+          <DialogContent className="sm:max-w-3xl">
+            <DialogHeader>
+              <DialogTitle>{t("users.manageSessions")}</DialogTitle>
+              <DialogDescription>
+                {selectedUser.fullName}
+              </DialogDescription>
+            </DialogHeader>
+            <ActiveSessions userId={selectedUser.id} />
+          </DialogContent>
+        </Dialog>
+      )}
+      
+      {/* CME Credits Dialog */}
+      {selectedUser && (
+        <Dialog 
+          open={isCmeDialogOpen} 
+          onOpenChange={setIsCmeDialogOpen}
+        >
+          <DialogContent className="sm:max-w-3xl">
+            <DialogHeader>
+              <DialogTitle>{t("users.cmeCredits")}</DialogTitle>
+              <DialogDescription>
+                {selectedUser.fullName}
+              </DialogDescription>
+            </DialogHeader>
+            <CmeLedger userId={selectedUser.id} />
+          </DialogContent>
+        </Dialog>
+      )}
+      
       {/* Manage Permissions Dialog */}
       {selectedUser && (
         <Dialog 
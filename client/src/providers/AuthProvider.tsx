@@ -1,5 +1,5 @@
 import React, { createContext, useState, useEffect } from "react";
-import { apiRequest } from "@/lib/queryClient";
+import { apiRequest, getApiErrorBody, queryClient, refreshSession, setAccessToken } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
 
 interface User {
@@ -9,28 +9,45 @@ interface User {
   fullName: string;
   role: string;
   preferredLanguage?: string;
-  profileImage?: string;
+  profileImage?: string | null;
+  // False until the email address has been confirmed
+  verified?: boolean;
   permissions: string[];
+  organizationId?: number | null;
+  organizationScope?: number[] | null;
 }
 
+// Outcome of the password step; two-factor users continue with the challenge token
+export type LoginResult =
+  | { status: "success" | "failed" | "too_many_attempts" }
+  | {
+      status: "two_factor_required" | "two_factor_setup_required" | "password_change_required";
+      challengeToken: string;
+    };
+
 interface AuthContextType {
   user: User | null;
   isAuthenticated: boolean;
   isLoading: boolean;
-  login: (email: string, password: string) => Promise<boolean>;
-  logout: () => void;
+  login: (email: string, password: string) => Promise<LoginResult>;
+  completeLogin: (data: { token: string; user: User }) => void;
+  logout: () => Promise<void>;
   register: (userData: any) => Promise<boolean>;
   updateUser: (userData: Partial<User>) => Promise<boolean>;
+  // Applies changes already saved on the server, such as a new avatar
+  mergeUser: (userData: Partial<User>) => void;
 }
 
 export const AuthContext = createContext<AuthContextType>({
   user: null,
   isAuthenticated: false,
   isLoading: true,
-  login: async () => false,
-  logout: () => {},
+  login: async () => ({ status: "failed" }),
+  completeLogin: () => {},
+  logout: async () => {},
   register: async () => false,
   updateUser: async () => false,
+  mergeUser: () => {},
 });
 
 export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
@@ -38,83 +55,94 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
   const [isLoading, setIsLoading] = useState(true);
   const { toast } = useToast();
 
-  // Check if user is logged in
+  // Restore the session from the refresh cookie
   useEffect(() => {
-    const token = localStorage.getItem("authToken");
-    
-    if (token) {
-      // Set up Authorization header for future requests
-      checkAuth(token);
-    } else {
-      setIsLoading(false);
-    }
+    checkAuth();
   }, []);
 
-  // Check authentication with token
-  const checkAuth = async (token: string) => {
+  // Check authentication by refreshing the session
+  const checkAuth = async () => {
     try {
-      // Set Authorization header for all requests
-      const response = await fetch("/api/users/me", {
-        headers: {
-          Authorization: `Bearer ${token}`
-        }
-      });
+      const session = await refreshSession();
       
-      if (response.ok) {
-        const userData = await response.json();
-        setUser(userData);
-        setIsLoading(false);
-      } else {
-        // Invalid token, clear it
-        localStorage.removeItem("authToken");
-        setIsLoading(false);
+      if (session) {
+        setUser(session.user);
       }
     } catch (error) {
       console.error("Auth check failed:", error);
-      localStorage.removeItem("authToken");
+    } finally {
       setIsLoading(false);
     }
   };
 
+  // Store the access token and user once every login step has passed
+  const completeLogin = (data: { token: string; user: User }) => {
+    setAccessToken(data.token);
+    setUser(data.user);
+    toast({
+      title: "Login successful",
+      description: `Welcome back, ${data.user.fullName}!`,
+    });
+  };
+
   // Login function
-  const login = async (email: string, password: string): Promise<boolean> => {
+  const login = async (email: string, password: string): Promise<LoginResult> => {
     try {
       setIsLoading(true);
       const response = await apiRequest("POST", "/api/auth/login", { email, password });
       const data = await response.json();
       
       if (response.ok) {
-        localStorage.setItem("authToken", data.token);
-        setUser(data.user);
-        toast({
-          title: "Login successful",
-          description: `Welcome back, ${data.user.fullName}!`,
-        });
-        return true;
+        if (data.twoFactorRequired || data.twoFactorSetupRequired) {
+          return {
+            status: data.twoFactorRequired ? "two_factor_required" : "two_factor_setup_required",
+            challengeToken: data.challengeToken,
+          };
+        }
+        
+        if (data.passwordChangeRequired) {
+          return { status: "password_change_required", challengeToken: data.challengeToken };
+        }
+        
+        completeLogin(data);
+        return { status: "success" };
       } else {
         toast({
           title: "Login failed",
           description: data.message || "Invalid email or password",
           variant: "destructive",
         });
-        return false;
+        return { status: "failed" };
       }
     } catch (error) {
+      // Throttled or locked after repeated failures
+      if (error instanceof Error && error.message.startsWith("429:")) {
+        return { status: "too_many_attempts" };
+      }
+      
       console.error("Login error:", error);
       toast({
         title: "Login failed",
         description: "Something went wrong. Please try again.",
         variant: "destructive",
       });
-      return false;
+      return { status: "failed" };
     } finally {
       setIsLoading(false);
     }
   };
 
   // Logout function
-  const logout = () => {
-    localStorage.removeItem("authToken");
+  const logout = async () => {
+    try {
+      // Revokes the session and clears the refresh cookie
+      await apiRequest("POST", "/api/auth/logout");
+    } catch (error) {
+      console.error("Logout error:", error);
+    }
+    
+    setAccessToken(null);
+    queryClient.clear();
     setUser(null);
     // Redirect to login page
     window.location.href = "/login";
@@ -145,7 +173,7 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
       console.error("Registration error:", error);
       toast({
         title: "Registration failed",
-        description: "Something went wrong. Please try again.",
+        description: getApiErrorBody(error)?.message || "Something went wrong. Please try again.",
         variant: "destructive",
       });
       return false;
@@ -160,7 +188,7 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
     
     try {
       setIsLoading(true);
-      const response = await apiRequest("PUT", `/api/users/${user.id}`, userData);
+      const response = await apiRequest("PATCH", "/api/users/me", userData);
       const data = await response.json();
       
       if (response.ok) {
@@ -185,7 +213,7 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
       console.error("Profile update error:", error);
       toast({
         title: "Update failed",
-        description: "Something went wrong. Please try again.",
+        description: getApiErrorBody(error)?.message || "Something went wrong. Please try again.",
         variant: "destructive",
       });
       return false;
@@ -194,6 +222,10 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
     }
   };
 
+  const mergeUser = (userData: Partial<User>) => {
+    setUser(current => current ? { ...current, ...userData } : current);
+  };
+
   return (
     <AuthContext.Provider 
       value={{ 
@@ -201,9 +233,11 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
         isAuthenticated: !!user, 
         isLoading, 
         login, 
+        completeLogin,
         logout, 
         register,
         updateUser,
+        mergeUser,
       }}
     >
       {children}
@@ -17,7 +17,9 @@ async function seed() {
     console.log("Clearing existing data...");
     await db.execute(sql`TRUNCATE TABLE "users" CASCADE`);
     await db.execute(sql`TRUNCATE TABLE "permissions" CASCADE`);
+    await db.execute(sql`TRUNCATE TABLE "roles" CASCADE`);
     await db.execute(sql`TRUNCATE TABLE "events" CASCADE`);
+    await db.execute(sql`TRUNCATE TABLE "organizations" CASCADE`);
 
     // Seed permissions
     console.log("Seeding permissions...");
@@ -27,6 +29,7 @@ async function seed() {
       { name: "user:update", description: "Can update users" },
       { name: "user:delete", description: "Can delete users" },
       { name: "role:manage", description: "Can manage roles and permissions" },
+      { name: "organization:manage", description: "Can manage organizations" },
       { name: "event:create", description: "Can create events" },
       { name: "event:read", description: "Can view events" },
       { name: "event:update", description: "Can update events" },
@@ -34,9 +37,13 @@ async function seed() {
       { name: "event:publish", description: "Can publish events" },
       { name: "event:register", description: "Can register for events" },
       { name: "event:approve", description: "Can approve event registrations" },
+      { name: "event:check_in", description: "Can check participants in and out of event sessions" },
+      { name: "registration:transfer", description: "Can cancel and transfer registrations of their organization's members" },
       { name: "certificate:generate", description: "Can generate certificates" },
       { name: "certificate:revoke", description: "Can revoke certificates" },
       { name: "certificate:read", description: "Can view certificates" },
+      { name: "certificate:template", description: "Can design certificate templates" },
+      { name: "certificate:keys", description: "Can rotate the keys certificates are signed with" },
       { name: "media:upload", description: "Can upload media files" },
       { name: "media:read", description: "Can view media files" },
       { name: "media:delete", description: "Can delete media files" },
@@ -47,6 +54,115 @@ async function seed() {
     const permissions = await db.insert(schema.permissions).values(permissionsData).returning();
     console.log(`✅ Created ${permissions.length} permissions`);
 
+    // Seed role templates
+    console.log("Seeding role templates...");
+    const roleTemplates: Record<typeof schema.userRoleEnum.enumValues[number], { description: string; requireTwoFactor?: boolean; passwordMaxAgeDays?: number; permissions: string[] }> = {
+      super_admin: {
+        description: "Full access to the platform",
+        requireTwoFactor: true,
+        passwordMaxAgeDays: 90,
+        permissions: permissions.map(p => p.name),
+      },
+      ministry_manager: {
+        description: "Manages events and users at the national level",
+        requireTwoFactor: true,
+        passwordMaxAgeDays: 90,
+        permissions: [
+          "user:create", "user:read", "user:update",
+          "organization:manage",
+          "event:create", "event:read", "event:update", "event:delete", "event:publish", "event:approve", "event:check_in",
+          "registration:transfer",
+          "certificate:generate", "certificate:read", "certificate:revoke", "certificate:template",
+          "media:upload", "media:read", "media:delete",
+          "report:generate",
+          "log:view",
+        ],
+      },
+      province_manager: {
+        description: "Manages events and users within a province",
+        permissions: [
+          "user:read",
+          "organization:manage",
+          "event:create", "event:read", "event:update", "event:publish", "event:approve", "event:check_in",
+          "registration:transfer",
+          "certificate:generate", "certificate:read",
+          "media:upload", "media:read",
+          "report:generate",
+        ],
+      },
+      hospital_manager: {
+        description: "Manages events within a hospital",
+        permissions: [
+          "user:read",
+          "event:create", "event:read", "event:update", "event:publish", "event:check_in",
+          "registration:transfer",
+          "certificate:generate", "certificate:read",
+          "media:upload", "media:read",
+        ],
+      },
+      lecturer_doctor: {
+        description: "Organizes and teaches sessions",
+        permissions: [
+          "event:read", "event:create", "event:update", "event:check_in",
+          "certificate:generate", "certificate:read",
+          "media:upload", "media:read",
+        ],
+      },
+      participant_doctor: {
+        description: "Registers for and attends events",
+        permissions: ["event:read", "event:register", "certificate:read"],
+      },
+      guest: {
+        description: "Browses published events",
+        permissions: ["event:read"],
+      },
+    };
+
+    for (const [name, template] of Object.entries(roleTemplates)) {
+      const [role] = await db.insert(schema.roles).values({
+        name: name as keyof typeof roleTemplates,
+        description: template.description,
+        requireTwoFactor: template.requireTwoFactor ?? false,
+        passwordMaxAgeDays: template.passwordMaxAgeDays ?? null,
+      }).returning();
+
+      await db.insert(schema.rolePermissions).values(
+        permissions
+          .filter(permission => template.permissions.includes(permission.name))
+          .map(permission => ({
+            roleId: role.id,
+            permissionId: permission.id,
+          }))
+      );
+    }
+    console.log(`✅ Created ${Object.keys(roleTemplates).length} role templates`);
+
+    // Seed organizations
+    console.log("Seeding organizations...");
+    const [ministry] = await db.insert(schema.organizations).values({
+      name: "Ministry of Health",
+      type: "ministry",
+      code: "MOH",
+    }).returning();
+    
+    const [northernProvince, easternProvince] = await db.insert(schema.organizations).values([
+      { name: "Northern Province", type: "province", code: "PROV-N", parentId: ministry.id },
+      { name: "Eastern Province", type: "province", code: "PROV-E", parentId: ministry.id },
+    ]).returning();
+    
+    const [centralHospital, universityMedicalCenter, childrensHospital] = await db.insert(schema.organizations).values([
+      { name: "Central Hospital", type: "hospital", code: "HOSP-CEN", parentId: northernProvince.id },
+      { name: "University Medical Center", type: "hospital", code: "HOSP-UMC", parentId: northernProvince.id },
+      { name: "Children's Hospital", type: "hospital", code: "HOSP-CHI", parentId: easternProvince.id },
+    ]).returning();
+    
+    await db.insert(schema.organizations).values([
+      { name: "Cardiology Department", type: "department", code: "HOSP-CEN-CARD", parentId: centralHospital.id },
+      { name: "Pediatrics Department", type: "department", code: "HOSP-CHI-PED", parentId: childrensHospital.id },
+    ]);
+    
+    console.log("✅ Created organizations");
+
     // Seed users
     console.log("Seeding users...");
     const superAdminPassword = await hashPassword("Admin@123");
@@ -61,6 +177,7 @@ async function seed() {
         fullName: "System Administrator",
         role: "super_admin",
         organization: "MedEvents System",
+        organizationId: ministry.id,
         position: "Administrator",
         verified: true,
         profileImage: "https://images.unsplash.com/photo-1531123897727-8f129e1688ce?w=400&auto=format&fit=crop&q=60&ixlib=rb-4.0.3",
@@ -73,6 +190,7 @@ async function seed() {
         fullName: "Dr. Sara Ahmed",
         role: "ministry_manager",
         organization: "Ministry of Health",
+        organizationId: ministry.id,
         position: "Health Director",
         verified: true,
         profileImage: "https://images.unsplash.com/photo-1559839734-2b71ea197ec2?w=400&auto=format&fit=crop&q=60&ixlib=rb-4.0.3",
@@ -85,6 +203,7 @@ async function seed() {
         fullName: "Dr. Ahmed Hassan",
         role: "lecturer_doctor",
         organization: "Central Hospital",
+        organizationId: centralHospital.id,
         position: "Chief Cardiologist",
         verified: true,
         profileImage: "https://images.unsplash.com/photo-1472099645785-5658abf4ff4e?w=400&auto=format&fit=crop&q=60&ixlib=rb-4.0.3",
@@ -97,6 +216,7 @@ async function seed() {
         fullName: "Dr. Sarah Johnson",
         role: "participant_doctor",
         organization: "University Medical Center",
+        organizationId: universityMedicalCenter.id,
         position: "Pediatrician",
         verified: true,
         profileImage: "https://images.unsplash.com/photo-1494790108377-be9c29b29330?w=400&auto=format&fit=crop&q=60&ixlib=rb-4.0.3",
@@ -109,6 +229,7 @@ async function seed() {
         fullName: "Dr. Michael Rodriguez",
         role: "participant_doctor",
         organization: "Children's Hospital",
+        organizationId: childrensHospital.id,
         position: "Neurologist",
         verified: true,
         profileImage: "https://images.unsplash.com/photo-1491528323818-fdd1faba62cc?w=400&auto=format&fit=crop&q=60&ixlib=rb-4.0.3",
@@ -118,51 +239,8 @@ async function seed() {
     
     console.log(`✅ Created ${users.length} users`);
 
-    // Assign permissions to users
-    console.log("Assigning permissions to users...");
-    const superAdmin = users.find(user => user.role === "super_admin");
     const ministryManager = users.find(user => user.role === "ministry_manager");
     const lecturerDoctor = users.find(user => user.role === "lecturer_doctor");
-    
-    if (superAdmin) {
-      // Super admin gets all permissions
-      await db.insert(schema.userPermissions).values(
-        permissions.map(permission => ({
-          userId: superAdmin.id,
-          permissionId: permission.id
-        }))
-      );
-    }
-    
-    if (ministryManager) {
-      // Ministry manager gets most permissions except for some admin ones
-      const ministryPermissions = permissions.filter(p => 
-        !["user:delete", "role:manage"].includes(p.name)
-      );
-      
-      await db.insert(schema.userPermissions).values(
-        ministryPermissions.map(permission => ({
-          userId: ministryManager.id,
-          permissionId: permission.id
-        }))
-      );
-    }
-    
-    if (lecturerDoctor) {
-      // Lecturer doctor gets permissions related to events and certificates
-      const lecturerPermissions = permissions.filter(p => 
-        ["event:read", "event:create", "event:update", "certificate:generate", "certificate:read", "media:upload", "media:read"].includes(p.name)
-      );
-      
-      await db.insert(schema.userPermissions).values(
-        lecturerPermissions.map(permission => ({
-          userId: lecturerDoctor.id,
-          permissionId: permission.id
-        }))
-      );
-    }
-
-    console.log("✅ Assigned permissions to users");
 
     // Seed events
     console.log("Seeding events...");
@@ -183,6 +261,7 @@ async function seed() {
         status: "active",
         coverImage: "https://images.unsplash.com/photo-1576091160399-112ba8d25d1d?w=1500&auto=format&fit=crop&q=80&ixlib=rb-4.0.3",
         autoApproveRegistrations: true,
+        organizationId: ministry.id,
         createdById: ministryManager?.id || 1,
       },
       {
@@ -201,6 +280,7 @@ async function seed() {
         status: "upcoming",
         coverImage: "https://images.unsplash.com/photo-1581093450021-4a7360e9a6b5?w=1500&auto=format&fit=crop&q=80&ixlib=rb-4.0.3",
         autoApproveRegistrations: false,
+        organizationId: northernProvince.id,
         createdById: ministryManager?.id || 1,
       },
       {
@@ -219,6 +299,7 @@ async function seed() {
         status: "completed",
         coverImage: "https://images.unsplash.com/photo-1581594549595-35f6edc7b762?w=1500&auto=format&fit=crop&q=80&ixlib=rb-4.0.3",
         autoApproveRegistrations: true,
+        organizationId: childrensHospital.id,
         createdById: lecturerDoctor?.id || 3,
       },
     ]).returning();
@@ -0,0 +1,228 @@
+import { storage } from "../storage";
+import { sendEmail } from "../utils/emailer";
+import { createSignedCertificate } from "../utils/certificateSignature";
+import {
+  checkCertificateRules,
+  checkSeriesCertificateRule,
+  type CertificateIssuanceResult,
+  type CertificateIssuanceSummary,
+} from "@shared/certificateRules";
+import { seriesDateRange } from "@shared/eventSeries";
+
+const APP_URL = process.env.APP_URL || "http://localhost:5000";
+
+type CertificateCandidate = Awaited<ReturnType<typeof storage.getCertificateCandidates>>[number];
+
+async function notifyCertificateIssued(
+  candidate: CertificateCandidate,
+  event: { id: number; title: string },
+  certificate: { id: number; certificateNumber: string }
+) {
+  try {
+    await sendEmail({
+      to: candidate.user.email,
+      subject: `Your certificate for ${event.title}`,
+      html: `
+        <h1>Your certificate is ready</h1>
+        <p>Dear ${candidate.user.fullName},</p>
+        <p>Your certificate of attendance for <strong>${event.title}</strong> has been issued under number ${certificate.certificateNumber}.</p>
+        <a href="${APP_URL}/certificates/${certificate.id}">View Certificate</a>
+      `,
+    });
+  } catch (emailError) {
+    console.error("Email sending failed:", emailError);
+  }
+}
+
+/**
+ * Issues certificates to every registration of an event that meets its
+ * certificate rules, emails the recipients and stores a report explaining
+ * who was skipped and why
+ */
+export async function issueEventCertificates(
+  eventId: number,
+  trigger: "event_completed" | "manual",
+  triggeredById: number | null
+) {
+  const event = await storage.getEventById(eventId);
+  if (!event) {
+    throw new Error(`Event ${eventId} not found`);
+  }
+
+  const candidates = await storage.getCertificateCandidates(eventId);
+  const results: CertificateIssuanceResult[] = [];
+  const issued: { candidate: CertificateCandidate; certificate: { id: number; certificateNumber: string } }[] = [];
+
+  for (const candidate of candidates) {
+    const result: CertificateIssuanceResult = {
+      registrationId: candidate.id,
+      userId: candidate.userId,
+      fullName: candidate.user.fullName,
+      email: candidate.user.email,
+      outcome: "skipped",
+    };
+    results.push(result);
+
+    const activeCertificate = candidate.certificates.find(certificate => !certificate.isRevoked);
+    if (activeCertificate) {
+      result.outcome = "already_issued";
+      result.certificateNumber = activeCertificate.certificateNumber;
+      continue;
+    }
+
+    const issues = checkCertificateRules(candidate, event);
+    if (issues.length > 0) {
+      result.issues = issues;
+      continue;
+    }
+
+    try {
+      const signedCertificate = await createSignedCertificate({ user: candidate.user, event }, APP_URL);
+      const certificate = await storage.generateCertificate(
+        candidate.id,
+        signedCertificate,
+        triggeredById,
+        candidate.certificates.length > 0 ? "Reissued by bulk certificate issuance" : undefined
+      );
+
+      result.outcome = "issued";
+      result.certificateNumber = certificate.certificateNumber;
+      issued.push({ candidate, certificate });
+    } catch (error) {
+      console.error(`Error issuing certificate for registration ${candidate.id}:`, error);
+      result.outcome = "failed";
+      result.message = "The certificate could not be generated";
+    }
+  }
+
+  await storage.createNotifications(issued.map(({ candidate, certificate }) => ({
+    userId: candidate.userId,
+    title: "Certificate Issued",
+    message: `Your certificate for ${event.title} is ready.`,
+    link: `/certificates/${certificate.id}`,
+  })));
+
+  for (const { candidate, certificate } of issued) {
+    await notifyCertificateIssued(candidate, event, certificate);
+  }
+
+  const summary: CertificateIssuanceSummary = { issued: 0, already_issued: 0, skipped: 0, failed: 0 };
+  results.forEach(result => summary[result.outcome]++);
+
+  const report = await storage.createCertificateIssuanceReport({
+    eventId,
+    trigger,
+    triggeredById,
+    summary,
+    results,
+  });
+
+  if (triggeredById) {
+    await storage.createNotification(
+      triggeredById,
+      "Certificates Issued",
+      `${summary.issued} certificates were issued for ${event.title}; ${summary.skipped} participants did not qualify.`,
+      `/events/${eventId}`
+    );
+  }
+
+  return report;
+}
+
+/**
+ * Issues the series certificate to every participant who met the
+ * certificate rules of enough occurrences of a series. Runs on demand, so
+ * the results are returned rather than stored as a report.
+ */
+export async function issueSeriesCertificates(seriesId: number, triggeredById: number | null) {
+  const series = await storage.getEventSeriesById(seriesId);
+  if (!series) {
+    throw new Error(`Event series ${seriesId} not found`);
+  }
+  if (!series.requiredOccurrences) {
+    throw new Error("The series has no certificate");
+  }
+
+  const occurrences = series.events.filter(event => event.status !== "cancelled");
+  const subject = { title: series.title, ...seriesDateRange(occurrences) };
+
+  // Each participant's registrations, and those that met the occurrence's rules, in date order
+  const participants = new Map<number, { candidate: CertificateCandidate; qualified: number[] }>();
+  for (const occurrence of occurrences) {
+    for (const candidate of await storage.getCertificateCandidates(occurrence.id)) {
+      const participant = participants.get(candidate.userId) ?? { candidate, qualified: [] };
+      participant.candidate = candidate;
+      if (checkCertificateRules(candidate, occurrence).length === 0) {
+        participant.qualified.push(candidate.id);
+      }
+      participants.set(candidate.userId, participant);
+    }
+  }
+
+  const existingCertificates = await storage.getSeriesCertificates(seriesId);
+  const results: CertificateIssuanceResult[] = [];
+  const issued: { candidate: CertificateCandidate; certificate: { id: number; certificateNumber: string } }[] = [];
+
+  for (const { candidate, qualified } of Array.from(participants.values())) {
+    const result: CertificateIssuanceResult = {
+      registrationId: qualified[qualified.length - 1] ?? candidate.id,
+      userId: candidate.userId,
+      fullName: candidate.user.fullName,
+      email: candidate.user.email,
+      outcome: "skipped",
+    };
+    results.push(result);
+
+    const userCertificates = existingCertificates.filter(certificate => certificate.userId === candidate.userId);
+    const activeCertificate = userCertificates.find(certificate => !certificate.isRevoked);
+    if (activeCertificate) {
+      result.outcome = "already_issued";
+      result.certificateNumber = activeCertificate.certificateNumber;
+      continue;
+    }
+
+    const issues = checkSeriesCertificateRule(qualified.length, {
+      requiredOccurrences: series.requiredOccurrences,
+      occurrences: occurrences.length,
+    });
+    if (issues.length > 0) {
+      result.issues = issues;
+      continue;
+    }
+
+    try {
+      const signedCertificate = await createSignedCertificate({ user: candidate.user, event: subject }, APP_URL);
+      const certificate = await storage.generateSeriesCertificate(
+        seriesId,
+        result.registrationId,
+        signedCertificate,
+        triggeredById,
+        userCertificates.length > 0 ? "Reissued by series certificate issuance" : undefined
+      );
+
+      result.outcome = "issued";
+      result.certificateNumber = certificate.certificateNumber;
+      issued.push({ candidate, certificate });
+    } catch (error) {
+      console.error(`Error issuing series certificate for user ${candidate.userId}:`, error);
+      result.outcome = "failed";
+      result.message = "The certificate could not be generated";
+    }
+  }
+
+  await storage.createNotifications(issued.map(({ candidate, certificate }) => ({
+    userId: candidate.userId,
+    title: "Certificate Issued",
+    message: `Your certificate for ${series.title} is ready.`,
+    link: `/certificates/${certificate.id}`,
+  })));
+
+  for (const { candidate, certificate } of issued) {
+    await notifyCertificateIssued(candidate, series, certificate);
+  }
+
+  const summary: CertificateIssuanceSummary = { issued: 0, already_issued: 0, skipped: 0, failed: 0 };
+  results.forEach(result => summary[result.outcome]++);
+
+  return { summary, results };
+}
@@ -0,0 +1,79 @@
+import { storage } from "../storage";
+import { sendEmail } from "../utils/emailer";
+
+// How often expired waitlist offers are released to the next participant
+const WAITLIST_SWEEP_INTERVAL_MS = parseInt(process.env.WAITLIST_SWEEP_INTERVAL_MINUTES || "5") * 60 * 1000;
+const APP_URL = process.env.APP_URL || "http://localhost:5000";
+
+type WaitlistOffer = Awaited<ReturnType<typeof storage.promoteFromWaitlist>>[number];
+
+async function notifyWaitlistOffer(offer: WaitlistOffer) {
+  const deadline = offer.offerExpiresAt.toUTCString();
+
+  await storage.createNotification(
+    offer.userId,
+    "A Seat Is Available",
+    `A seat has opened up for ${offer.event.title}. Confirm your registration before ${deadline} or it will go to the next person on the waitlist.`,
+    `/events/${offer.event.id}`
+  );
+
+  try {
+    await sendEmail({
+      to: offer.user.email,
+      subject: `A seat is available for ${offer.event.title}`,
+      html: `
+        <h1>A seat is available</h1>
+        <p>Dear ${offer.user.fullName},</p>
+        <p>A seat has opened up for <strong>${offer.event.title}</strong>.</p>
+        <p>Please confirm your registration before ${deadline}:</p>
+        <a href="${APP_URL}/events/${offer.event.id}">Confirm Registration</a>
+      `,
+    });
+  } catch (emailError) {
+    console.error("Email sending failed:", emailError);
+  }
+}
+
+/**
+ * Offers any free seats of an event to the waitlist and notifies the
+ * participants who received an offer
+ */
+export async function promoteWaitlist(eventId: number) {
+  const offers = await storage.promoteFromWaitlist(eventId);
+
+  for (const offer of offers) {
+    await notifyWaitlistOffer(offer);
+  }
+
+  return offers;
+}
+
+/**
+ * Releases offers that were not confirmed in time and offers the seats on
+ */
+export async function releaseExpiredWaitlistOffers() {
+  const expiredRegistrations = await storage.expireWaitlistOffers();
+
+  for (const registration of expiredRegistrations) {
+    const event = await storage.getEventById(registration.eventId);
+    await storage.createNotification(
+      registration.userId,
+      "Waitlist Offer Expired",
+      `Your waitlist offer for ${event?.title} was not confirmed in time and the seat has been offered to the next participant.`,
+      `/events/${registration.eventId}`
+    );
+  }
+
+  const eventIds = Array.from(new Set(expiredRegistrations.map(registration => registration.eventId)));
+  for (const eventId of eventIds) {
+    await promoteWaitlist(eventId);
+  }
+}
+
+export function startWaitlistJob() {
+  setInterval(() => {
+    releaseExpiredWaitlistOffers().catch(error => {
+      console.error("Error releasing expired waitlist offers:", error);
+    });
+  }, WAITLIST_SWEEP_INTERVAL_MS);
+}
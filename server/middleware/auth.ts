@@ -1,5 +1,6 @@
 import { Request, Response, NextFunction } from "express";
 import jwt from "jsonwebtoken";
+import { storage } from "../storage";
 
 // Add user property to Request type
 declare global {
@@ -10,12 +11,61 @@ declare global {
         email: string;
         role: string;
         permissions: string[];
+        verified: boolean;
+        // Session the access token was issued for
+        sessionId?: number;
       };
     }
   }
 }
 
-export const authenticateJWT = (req: Request, res: Response, next: NextFunction) => {
+interface TokenPayload {
+  id: number;
+  tokenVersion?: number;
+  sessionId?: number;
+}
+
+/**
+ * Resolves the user behind a token from the database (through the auth state
+ * cache), so revoked permissions, deactivation and forced logouts apply to
+ * tokens that have not expired yet. Returns an error message when the token
+ * must be rejected.
+ */
+const resolveTokenUser = async (token: string) => {
+  let decoded: TokenPayload;
+  try {
+    decoded = jwt.verify(token, process.env.JWT_SECRET || "your_jwt_secret") as TokenPayload;
+  } catch (error) {
+    return { status: 401, error: "Invalid or expired token" };
+  }
+
+  const state = await storage.getUserAuthState(decoded.id);
+
+  if (!state || !state.active) {
+    return { status: 401, error: "Account is inactive or no longer exists" };
+  }
+
+  if ((decoded.tokenVersion ?? 0) !== state.tokenVersion) {
+    return { status: 401, error: "Session has been revoked, please log in again" };
+  }
+
+  if (decoded.sessionId === undefined || !state.sessionIds.includes(decoded.sessionId)) {
+    return { status: 401, error: "Session has been revoked, please log in again" };
+  }
+
+  return {
+    user: {
+      id: state.id,
+      email: state.email,
+      role: state.role,
+      permissions: state.permissions,
+      verified: state.verified,
+      sessionId: decoded.sessionId,
+    },
+  };
+};
+
+export const authenticateJWT = async (req: Request, res: Response, next: NextFunction) => {
   const authHeader = req.headers.authorization;
 
   if (!authHeader) {
@@ -29,17 +79,40 @@ export const authenticateJWT = (req: Request, res: Response, next: NextFunction)
   }
 
   try {
-    const decoded = jwt.verify(token, process.env.JWT_SECRET || "your_jwt_secret");
-    req.user = decoded as {
-      id: number;
-      email: string;
-      role: string;
-      permissions: string[];
-    };
+    const result = await resolveTokenUser(token);
+
+    if (!result.user) {
+      return res.status(result.status).json({ message: result.error });
+    }
+
+    req.user = result.user;
     next();
   } catch (error) {
-    return res.status(403).json({ message: "Invalid or expired token" });
+    console.error("Error authenticating request:", error);
+    return res.status(500).json({ message: "Failed to authenticate request" });
+  }
+};
+
+// Populates req.user when a valid token is present, but lets anonymous requests through
+export const optionalAuthenticateJWT = async (req: Request, res: Response, next: NextFunction) => {
+  const token = req.headers.authorization?.split(" ")[1];
+
+  if (!token) {
+    return next();
   }
+
+  try {
+    const result = await resolveTokenUser(token);
+
+    // Treat a rejected token like an anonymous request
+    if (result.user) {
+      req.user = result.user;
+    }
+  } catch (error) {
+    console.error("Error authenticating request:", error);
+  }
+
+  next();
 };
 
 export const checkPermission = (permission: string) => {
@@ -0,0 +1,104 @@
+import { Request, Response, NextFunction } from "express";
+import { can, type PolicyAction, type PolicySubject } from "@shared/policy";
+import { storage } from "../storage";
+
+interface ResourceLoader {
+  // Used in the 404 message, e.g. "Event not found"
+  name: string;
+  load: (req: Request) => Promise<any>;
+}
+
+// Loaders for the records routes are authorized against
+export const resources = {
+  event: (param = "id"): ResourceLoader => ({
+    name: "Event",
+    load: (req) => storage.getEventById(parseInt(req.params[param])),
+  }),
+  registration: (param = "id"): ResourceLoader => ({
+    name: "Registration",
+    load: (req) => storage.getRegistrationById(parseInt(req.params[param])),
+  }),
+  certificate: (param = "id"): ResourceLoader => ({
+    name: "Certificate",
+    load: (req) => storage.getCertificateById(parseInt(req.params[param])),
+  }),
+  scheduleEvent: (param = "id"): ResourceLoader => ({
+    name: "Event schedule",
+    load: async (req) => (await storage.getEventScheduleById(parseInt(req.params[param])))?.event,
+  }),
+  assessmentEvent: (param = "id"): ResourceLoader => ({
+    name: "Assessment",
+    load: async (req) => (await storage.getAssessmentById(parseInt(req.params[param])))?.event,
+  }),
+  speakerEvent: (param = "id"): ResourceLoader => ({
+    name: "Event speaker",
+    load: async (req) => (await storage.getEventSpeakerById(parseInt(req.params[param])))?.event,
+  }),
+  documentEvent: (param = "id"): ResourceLoader => ({
+    name: "Event document",
+    load: async (req) => (await storage.getEventDocumentById(parseInt(req.params[param])))?.event,
+  }),
+  // A series is authorized against its first occurrence
+  seriesEvent: (param = "id"): ResourceLoader => ({
+    name: "Event series",
+    load: async (req) => (await storage.getEventSeriesById(parseInt(req.params[param])))?.events[0],
+  }),
+  user: (param = "id"): ResourceLoader => ({
+    name: "User",
+    load: (req) => storage.getUserById(parseInt(req.params[param])),
+  }),
+  organization: (param = "id"): ResourceLoader => ({
+    name: "Organization",
+    load: (req) => storage.getOrganizationById(parseInt(req.params[param])),
+  }),
+};
+
+// Builds the policy subject for the authenticated user, including the
+// organizations they manage
+export async function getPolicySubject(req: Request): Promise<PolicySubject> {
+  const user = req.user!;
+
+  return {
+    id: user.id,
+    role: user.role,
+    permissions: user.permissions,
+    organizationScope: await storage.getUserOrganizationScope(user.id),
+  };
+}
+
+/**
+ * Evaluates a policy action for the authenticated user. When a loader is
+ * given, the record is fetched, checked against the action's conditions and
+ * exposed to the handler as res.locals.resource.
+ */
+export const authorize = (action: PolicyAction, loader?: ResourceLoader) => {
+  return async (req: Request, res: Response, next: NextFunction) => {
+    if (!req.user) {
+      return res.status(401).json({ message: "Authentication required" });
+    }
+
+    try {
+      const subject = await getPolicySubject(req);
+      let resource;
+
+      if (loader) {
+        resource = await loader.load(req);
+
+        if (!resource) {
+          return res.status(404).json({ message: `${loader.name} not found` });
+        }
+      }
+
+      if (!can(subject, action, resource)) {
+        return res.status(403).json({ message: "Permission denied" });
+      }
+
+      res.locals.subject = subject;
+      res.locals.resource = resource;
+      next();
+    } catch (error) {
+      console.error("Error evaluating policy:", error);
+      res.status(500).json({ message: "Failed to check permissions" });
+    }
+  };
+};
@@ -1,7 +1,9 @@
 import type { Express, Request, Response } from "express";
 import { createServer, type Server } from "http";
-import { storage } from "./storage";
-import { authenticateJWT, checkPermission } from "./middleware/auth";
+import { storage, RegistrationIneligibleError, RegistrationApprovalError, AttendanceError, type OrganizationScope } from "./storage";
+import { authenticateJWT, optionalAuthenticateJWT, checkPermission } from "./middleware/auth";
+import { authorize, resources, getPolicySubject } from "./middleware/policy";
+import { can, isInScope, type PolicySubject } from "@shared/policy";
 import multer from "multer";
 import path from "path";
 import fs from "fs";
@@ -9,6 +11,72 @@ import { v4 as uuidv4 } from "uuid";
 import { z } from "zod";
 import { generateCertificate } from "./utils/certificate";
 import { sendEmail } from "./utils/emailer";
+import {
+  signAccessToken,
+  setRefreshCookie,
+  clearRefreshCookie,
+  readRefreshCookie,
+  describeDevice,
+  signTwoFactorChallenge,
+  verifyTwoFactorChallenge,
+  signPasswordChangeChallenge,
+  verifyPasswordChangeChallenge,
+} from "./utils/session";
+import { generateTotpSecret, buildOtpAuthUrl } from "./utils/totp";
+import {
+  MAX_IP_FAILURES,
+  IP_FAILURE_WINDOW_MS,
+  MAX_ACCOUNT_FAILURES,
+  MAX_PASSWORD_RESETS_PER_EMAIL,
+  MAX_PASSWORD_RESETS_PER_IP,
+  PASSWORD_RESET_WINDOW_MS,
+  getLoginDelayMs,
+  sleep,
+} from "./utils/loginThrottle";
+import {
+  EMAIL_VERIFICATION_REQUIRED,
+  INVITATION_TTL_MS,
+  MAX_VERIFICATION_EMAILS_PER_EMAIL,
+  VERIFICATION_EMAIL_WINDOW_MS,
+  VERIFICATION_TOKEN_TTL_MS,
+} from "./utils/verification";
+import { PASSWORD_POLICY, validatePassword } from "./utils/passwordPolicy";
+import { AVATAR_MIME_TYPES, MAX_AVATAR_BYTES, resizeAvatar, removeAvatar } from "./utils/avatar";
+import { promoteWaitlist } from "./jobs/waitlist";
+import { issueEventCertificates, issueSeriesCertificates } from "./jobs/certificates";
+import {
+  readCachedCertificatePdf,
+  removeCachedCertificatePdfs,
+  renderCertificatePdf,
+  writeCachedCertificatePdf,
+} from "./utils/certificatePdf";
+import { parseCsv, toCsv } from "./utils/csv";
+import { toAtomFeed } from "./utils/atom";
+import { toFloatingTime, toICalendar, type ICalEvent } from "./utils/ical";
+import { createTicketCode, readTicketRegistrationId, verifyTicketCode } from "./utils/ticket";
+import {
+  createSignedCertificate,
+  generateCertificateSigningKey,
+  toCertificatePublicKey,
+} from "./utils/certificateSignature";
+import { eligibilityRulesSchema, type EligibilityIssue } from "@shared/eligibility";
+import { checkCertificateRules } from "@shared/certificateRules";
+import { CERTIFICATE_LANGUAGES, type CertificateLanguage } from "@shared/certificateTemplate";
+import { certificateVerificationUrl, type CertificateKeySet } from "@shared/certificateSignature";
+import { cmeCreditsSchema, roundCmeCredits } from "@shared/cmeCredits";
+import { certificateSubject, expandRecurrence, parseRecurrenceRule } from "@shared/eventSeries";
+import {
+  buildAssessmentAnswersSchema,
+  isAssessmentOpen,
+  scoreAssessment,
+  toParticipantQuestions,
+} from "@shared/assessments";
+import {
+  buildRegistrationAnswersSchema,
+  formatRegistrationAnswer,
+  registrationFormSchema,
+} from "@shared/registrationForm";
+import QRCode from "qrcode";
 import * as schema from "@shared/schema";
 
 // Configure multer for file uploads
@@ -54,6 +122,445 @@ const upload = multer({
   },
 });
 
+// Profile pictures are resized after upload, so only raster images are accepted
+const avatarUpload = multer({
+  storage: storage_config,
+  limits: { fileSize: MAX_AVATAR_BYTES },
+  fileFilter: (req, file, cb) => {
+    if (AVATAR_MIME_TYPES.includes(file.mimetype)) {
+      cb(null, true);
+    } else {
+      cb(new Error("Invalid file type. Only JPEG, PNG, GIF and WebP images are allowed."));
+    }
+  },
+});
+
+// Registration imports are parsed in memory and never written to disk
+const csvUpload = multer({
+  storage: multer.memoryStorage(),
+  limits: { fileSize: 1024 * 1024 },
+  fileFilter: (req, file, cb) => {
+    if (path.extname(file.originalname).toLowerCase() === ".csv") {
+      cb(null, true);
+    } else {
+      cb(new Error("Invalid file type. Only CSV files are allowed."));
+    }
+  },
+});
+
+// Certificate backgrounds, logos and signatures; PDFs can only embed PNG and JPEG
+const certificateImageUpload = multer({
+  storage: storage_config,
+  limits: { fileSize: 5 * 1024 * 1024 },
+  fileFilter: (req, file, cb) => {
+    if (["image/png", "image/jpeg"].includes(file.mimetype)) {
+      cb(null, true);
+    } else {
+      cb(new Error("Invalid file type. Only PNG and JPEG images are allowed."));
+    }
+  },
+});
+
+const certificateLanguageSchema = z.enum(CERTIFICATE_LANGUAGES);
+
+const certificateChangeReasonSchema = z.string().trim().min(3).max(500);
+
+const certificateAmendmentSchema = z.object({
+  holderName: z.string().trim().min(2).max(200),
+  reason: certificateChangeReasonSchema,
+});
+
+// Revocation list consumers sync incrementally from their last fetch
+const revocationListQuerySchema = z.object({
+  since: z.coerce.date().optional(),
+});
+
+// Most recent revocations included in the Atom feed
+const REVOCATION_FEED_SIZE = 100;
+
+// How often calendar apps subscribed to a personal feed fetch it again
+const CALENDAR_FEED_REFRESH_HOURS = 1;
+
+const cmeLedgerQuerySchema = z.object({
+  year: z.coerce.number().int().min(1900).max(9999).optional(),
+});
+
+// Placeholder details for previewing a template before it is used
+const SAMPLE_CERTIFICATE = {
+  certificateNumber: "MEDEVENT-0000-SAMPLE",
+  issuedDate: new Date(),
+  cmeCredits: 6,
+  user: {
+    fullName: "Dr. Amina Benali",
+    position: "Cardiologist",
+    organization: "Central University Hospital",
+  },
+  event: {
+    title: "Annual Cardiology Conference",
+    startDate: new Date(),
+    endDate: new Date(),
+  },
+};
+
+const REGISTRATION_IMPORT_MAX_ROWS = 1000;
+
+// Import columns, matched ignoring case, spaces and underscores
+const REGISTRATION_IMPORT_COLUMNS: Record<string, "email" | "fullName" | "position" | "notes"> = {
+  email: "email",
+  emailaddress: "email",
+  fullname: "fullName",
+  name: "fullName",
+  position: "position",
+  specialty: "position",
+  notes: "notes",
+};
+
+interface RegistrationImportResult {
+  // Line of the CSV file, counting the header
+  row: number;
+  email: string;
+  outcome: "registered" | "invited" | "skipped" | "failed";
+  registrationStatus?: string;
+  message?: string;
+  reasons?: EligibilityIssue[];
+}
+
+const checkInSchema = z.object({
+  code: z.string().trim().min(1).max(100),
+  // Null for events without a schedule
+  scheduleId: z.number().int().positive().nullable().default(null),
+  action: z.enum(["check_in", "check_out"]).default("check_in"),
+});
+
+const checkInSyncSchema = z.object({
+  scans: z.array(checkInSchema.extend({
+    // Generated by the device, echoed back so it can clear its queue
+    clientId: z.string().min(1).max(100),
+    scannedAt: z.coerce.date(),
+  })).max(1000),
+});
+
+// Scans that found the attendance already recorded, e.g. a ticket scanned twice
+const DUPLICATE_SCAN_CODES = ["already_checked_in", "already_checked_out"];
+
+const batchRegistrationStatusSchema = z.object({
+  status: z.enum(["approved", "rejected"]),
+  notes: z.string().trim().max(1000).optional(),
+  registrations: z.array(z.object({
+    id: z.number().int().positive(),
+    notes: z.string().trim().max(1000).optional(),
+  })).min(1).max(500)
+    .refine(
+      registrations => new Set(registrations.map(registration => registration.id)).size === registrations.length,
+      { message: "Registrations must not be listed twice" }
+    ),
+});
+
+// Managers of the organizing unit see every registration of an event; anyone
+// else only sees registrants from the organizations they manage
+function getRegistrantScope(subject: PolicySubject, event: schema.Event) {
+  return event.createdById === subject.id || isInScope(event.organizationId, subject.organizationScope)
+    ? null
+    : subject.organizationScope ?? [];
+}
+
+// The signed-in user as returned by login and token refresh
+async function getSignedInUser(user: {
+  id: number;
+  username: string;
+  email: string;
+  fullName: string;
+  role: string;
+  preferredLanguage: string | null;
+  profileImage: string | null;
+  organizationId: number | null;
+  verified: boolean;
+}) {
+  const permissions = await storage.getUserPermissions(user.id);
+  
+  return {
+    id: user.id,
+    username: user.username,
+    email: user.email,
+    fullName: user.fullName,
+    role: user.role,
+    preferredLanguage: user.preferredLanguage,
+    profileImage: user.profileImage,
+    verified: user.verified,
+    permissions: permissions.map(p => p.name),
+    organizationId: user.organizationId,
+    organizationScope: await storage.getUserOrganizationScope(user.id),
+  };
+}
+
+/**
+ * Completes a login: starts a session, sets the refresh cookie and returns the
+ * access token with the signed-in user
+ */
+async function startSession(req: Request, res: Response, user: Parameters<typeof getSignedInUser>[0] & { tokenVersion: number }) {
+  // The refresh token lives in an httpOnly cookie and the short-lived access
+  // token is returned to the client
+  const { session, refreshToken } = await storage.createSession(user.id, {
+    device: describeDevice(req.headers["user-agent"]),
+    ipAddress: req.ip,
+    userAgent: req.headers["user-agent"],
+  });
+  setRefreshCookie(res, refreshToken, session.expiresAt);
+  await storage.resetLoginFailures(user.id);
+  
+  // Log the activity
+  await storage.logActivity(
+    user.id,
+    "login",
+    { email: user.email },
+    "user",
+    user.id,
+    req.ip,
+    req.headers["user-agent"]
+  );
+  
+  return {
+    token: signAccessToken(user, session.id),
+    user: await getSignedInUser(user),
+  };
+}
+
+/**
+ * Last login step: users whose password has expired for their role get a
+ * password change challenge instead of a session
+ */
+async function finishLogin(req: Request, res: Response, user: Parameters<typeof startSession>[2]) {
+  if (await storage.isPasswordExpired(user.id)) {
+    return {
+      message: "Your password has expired and must be changed",
+      passwordChangeRequired: true,
+      challengeToken: signPasswordChangeChallenge(user.id),
+    };
+  }
+  
+  return {
+    message: "Logged in successfully",
+    ...(await startSession(req, res, user)),
+  };
+}
+
+// Names, usernames and emails a user's password must not contain
+function getPersonalInfo(user: { username?: string | null; email?: string | null; fullName?: string | null }) {
+  return [user.username, user.email, user.fullName];
+}
+
+// Responds with the policy violations, or returns false when the password is acceptable
+async function rejectInvalidPassword(
+  res: Response,
+  password: unknown,
+  user: { id?: number; username?: string | null; email?: string | null; fullName?: string | null }
+): Promise<boolean> {
+  if (typeof password !== "string") {
+    res.status(400).json({ message: "Password is required" });
+    return true;
+  }
+  
+  const violations = validatePassword(password, getPersonalInfo(user));
+  
+  if (user.id && await storage.isPasswordReused(user.id, password)) {
+    violations.push("reused_password");
+  }
+  
+  if (violations.length > 0) {
+    res.status(400).json({ message: "Password does not meet the password policy", violations });
+    return true;
+  }
+  
+  return false;
+}
+
+// Which events the caller may see: those in their visibility scope, and no
+// drafts for visitors or accounts awaiting email verification
+async function getEventVisibility(req: Request) {
+  return {
+    scope: await storage.getUserEventVisibilityScope(req.user?.id),
+    publishedOnly: !req.user || (EMAIL_VERIFICATION_REQUIRED && req.user.verified === false),
+  };
+}
+
+function isEventVisible(
+  event: { status: string; organizationId: number | null },
+  visibility: { scope: OrganizationScope; publishedOnly: boolean }
+) {
+  if (visibility.publishedOnly && event.status === "draft") return false;
+  
+  // Events not yet linked to an organization stay visible to everyone
+  return event.organizationId === null || isInScope(event.organizationId, visibility.scope);
+}
+
+// Responds with 403, or returns false when the caller may hand out the role:
+// only super admins assign super_admin, and nobody grants a role permissions
+// they do not hold themselves
+async function rejectRoleEscalation(
+  res: Response,
+  subject: PolicySubject,
+  role: schema.User["role"]
+): Promise<boolean> {
+  if (subject.role === "super_admin") return false;
+  
+  const template = role === "super_admin" ? undefined : await storage.getRoleByName(role);
+  if (!template || template.permissions.some(permission => !subject.permissions.includes(permission.name))) {
+    res.status(403).json({ message: `Permission denied for assigning the ${role} role` });
+    return true;
+  }
+  
+  return false;
+}
+
+// The user enrolling in two-factor authentication: either signed in, or
+// finishing a login their role requires enrollment for
+function getEnrollingUserId(req: Request): number | null {
+  if (req.body.challengeToken) {
+    return verifyTwoFactorChallenge(req.body.challengeToken);
+  }
+  return req.user?.id ?? null;
+}
+
+async function sendVerificationEmail(req: Request, email: string, token: string) {
+  const verificationUrl = `${req.protocol}://${req.get("host")}/api/auth/verify/${token}`;
+  await sendEmail({
+    to: email,
+    subject: "Verify your MedEvents account",
+    html: `
+      <h1>Welcome to MedEvents!</h1>
+      <p>Please verify your email address by clicking the link below:</p>
+      <a href="${verificationUrl}">Verify Email</a>
+      <p>This link will expire in ${Math.round(VERIFICATION_TOKEN_TTL_MS / (60 * 60 * 1000))} hours.</p>
+    `,
+  });
+}
+
+async function sendInvitationEmail(req: Request, email: string, token: string, event: schema.Event) {
+  const invitationUrl = `${req.protocol}://${req.get("host")}/reset-password/${token}`;
+  await sendEmail({
+    to: email,
+    subject: `You have been registered for ${event.title}`,
+    html: `
+      <h1>Welcome to MedEvents!</h1>
+      <p>The organizers of ${event.title} have registered you and created a MedEvents account for you.</p>
+      <p>Choose a password by clicking the link below to sign in and follow your registration:</p>
+      <a href="${invitationUrl}">Set your password</a>
+      <p>This link will expire in ${Math.round(INVITATION_TTL_MS / (24 * 60 * 60 * 1000))} days.</p>
+    `,
+  });
+}
+
+/**
+ * Rejects sign-in attempts from an IP with too many recent failures, then
+ * waits out the progressive delay for the account or IP
+ * @param accountFailures Consecutive failures of the targeted account
+ * @returns false when the request has been rejected
+ */
+async function throttleLogin(req: Request, res: Response, accountFailures = 0): Promise<boolean> {
+  const ipFailures = await storage.countRecentAuthAttempts(
+    { types: ["login", "two_factor"], ipAddress: req.ip, successful: false },
+    new Date(Date.now() - IP_FAILURE_WINDOW_MS)
+  );
+  
+  if (ipFailures >= MAX_IP_FAILURES) {
+    res.setHeader("Retry-After", Math.ceil(IP_FAILURE_WINDOW_MS / 1000).toString());
+    res.status(429).json({ message: "Too many failed login attempts. Please try again later." });
+    return false;
+  }
+  
+  // An IP is only slowed down once it has failed more often than a single
+  // account could, so users sharing an address are not penalised early
+  await sleep(getLoginDelayMs(Math.max(accountFailures, ipFailures - MAX_ACCOUNT_FAILURES)));
+  return true;
+}
+
+function rejectLockedAccount(res: Response, lockedUntil: Date) {
+  res.setHeader("Retry-After", Math.ceil((lockedUntil.getTime() - Date.now()) / 1000).toString());
+  res.status(429).json({
+    message: "This account is temporarily locked after too many failed login attempts",
+    lockedUntil,
+  });
+}
+
+// Records a failed password or two-factor check and locks the account at the threshold
+async function recordFailedLogin(
+  req: Request,
+  type: "login" | "two_factor",
+  email: string,
+  userId?: number
+) {
+  await storage.recordAuthAttempt({ type, email, userId, ipAddress: req.ip, successful: false });
+  
+  if (!userId) return;
+  
+  const failure = await storage.registerLoginFailure(userId);
+  if (!failure) return;
+  
+  // Log the activity
+  await storage.logActivity(
+    userId,
+    "login_failed",
+    { email, step: type, failedAttempts: failure.failedLoginAttempts },
+    "user",
+    userId,
+    req.ip,
+    req.headers["user-agent"]
+  );
+  
+  if (failure.lockedUntil) {
+    await storage.logActivity(
+      userId,
+      "account_locked",
+      { email, failedAttempts: failure.failedLoginAttempts, lockedUntil: failure.lockedUntil },
+      "user",
+      userId,
+      req.ip,
+      req.headers["user-agent"]
+    );
+  }
+}
+
+// Calendar entries for an event: one per session, or the event itself when it has no schedule
+function toCalendarEvents(
+  event: schema.Event & { eventSchedules: (schema.EventSchedule & { speaker: { name: string } | null })[] },
+  baseUrl: string
+): ICalEvent[] {
+  const host = new URL(baseUrl).hostname;
+  const url = `${baseUrl}/events/${event.id}`;
+  const eventLocation = [event.location, event.address].filter(Boolean).join(", ");
+  const cancelled = event.status === "cancelled";
+  
+  if (event.eventSchedules.length === 0) {
+    const hasTimes = event.startTime && event.endTime;
+    return [{
+      uid: `event-${event.id}@${host}`,
+      title: event.title,
+      start: hasTimes ? toFloatingTime(new Date(event.startDate), event.startTime!) : new Date(event.startDate),
+      end: hasTimes ? toFloatingTime(new Date(event.endDate), event.endTime!) : new Date(event.endDate),
+      updated: event.updatedAt,
+      description: event.description,
+      location: eventLocation,
+      url,
+      cancelled,
+    }];
+  }
+  
+  return event.eventSchedules.map(schedule => ({
+    uid: `session-${schedule.id}@${host}`,
+    title: `${schedule.title} (${event.title})`,
+    start: toFloatingTime(new Date(schedule.date), schedule.startTime),
+    end: toFloatingTime(new Date(schedule.date), schedule.endTime),
+    // A session moves with its event, e.g. when the event is cancelled
+    updated: new Date(Math.max(event.updatedAt.getTime(), schedule.updatedAt.getTime())),
+    description: [schedule.speaker ? `Speaker: ${schedule.speaker.name}` : null, schedule.description]
+      .filter(Boolean)
+      .join("\n\n"),
+    location: schedule.location || eventLocation,
+    url,
+    cancelled,
+  }));
+}
+
 export async function registerRoutes(app: Express): Promise<Server> {
   // API prefix
   const apiPrefix = "/api";
@@ -73,7 +580,11 @@ export async function registerRoutes(app: Express): Promise<Server> {
   // Authentication routes
   app.post(`${apiPrefix}/auth/register`, async (req, res) => {
     try {
-      const userData = schema.insertUserSchema.parse(req.body);
+      const userData = schema.registerUserSchema.parse(req.body);
+      
+      if (await rejectInvalidPassword(res, userData.password, userData)) {
+        return;
+      }
       
       // Check if user already exists
       const existingUser = await storage.getUserByEmail(userData.email);
@@ -87,29 +598,16 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(400).json({ message: "Username already taken" });
       }
       
-      // For development, set verified to true by default
-      const modifiedUserData = {
-        ...userData,
-        verified: true // Skip email verification for development
-      };
-      
-      const { user, verificationToken } = await storage.createUser(modifiedUserData);
+      const { user, verificationToken } = await storage.createUser(userData);
       
-      // Attempt to send verification email, but don't fail if it doesn't work
-      try {
-        const verificationUrl = `${req.protocol}://${req.get("host")}${apiPrefix}/auth/verify/${verificationToken}`;
-        await sendEmail({
-          to: userData.email,
-          subject: "Verify your MedEvents account",
-          html: `
-            <h1>Welcome to MedEvents!</h1>
-            <p>Please verify your email address by clicking the link below:</p>
-            <a href="${verificationUrl}">Verify Email</a>
-          `,
-        });
-      } catch (emailError) {
-        console.error("Email sending failed:", emailError);
-        // Continue without failing the registration
+      // Attempt to send verification email, but don't fail if it doesn't work;
+      // the user can ask for another one
+      if (verificationToken) {
+        try {
+          await sendVerificationEmail(req, user.email, verificationToken);
+        } catch (emailError) {
+          console.error("Email sending failed:", emailError);
+        }
       }
       
       // Log the activity
@@ -129,7 +627,10 @@ export async function registerRoutes(app: Express): Promise<Server> {
       }
       
       res.status(201).json({
-        message: "User registered successfully. You can now log in.",
+        message: verificationToken
+          ? "User registered successfully. Please check your email to verify your account."
+          : "User registered successfully. You can now log in.",
+        verificationRequired: !!verificationToken,
         user: {
           id: user.id,
           username: user.username,
@@ -152,8 +653,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
       const { token } = req.params;
       const user = await storage.verifyUser(token);
       
+      // The link is opened from an email, so both outcomes land on the login page
       if (!user) {
-        return res.status(400).json({ message: "Invalid or expired verification token" });
+        return res.redirect(`/login?verified=false`);
       }
       
       // Log the activity
@@ -168,72 +670,104 @@ export async function registerRoutes(app: Express): Promise<Server> {
       );
       
       // Redirect to login page
-      res.redirect(`/?verified=true`);
+      res.redirect(`/login?verified=true`);
     } catch (error) {
       console.error("Error verifying user:", error);
       res.status(500).json({ message: "Failed to verify user" });
     }
   });
   
+  // Signed-in users resend to their own address; otherwise the email is taken from the body
+  app.post(`${apiPrefix}/auth/verify/resend`, optionalAuthenticateJWT, async (req, res) => {
+    try {
+      const email = req.user?.email ?? req.body.email;
+      
+      if (!email) {
+        return res.status(400).json({ message: "Email is required" });
+      }
+      
+      const genericResponse = {
+        message: "If the account exists and is not yet verified, a new verification email has been sent",
+      };
+      
+      if (!EMAIL_VERIFICATION_REQUIRED) {
+        return res.json(genericResponse);
+      }
+      
+      const recentEmails = await storage.countRecentAuthAttempts(
+        { types: ["verification_email"], email },
+        new Date(Date.now() - VERIFICATION_EMAIL_WINDOW_MS)
+      );
+      
+      if (recentEmails >= MAX_VERIFICATION_EMAILS_PER_EMAIL) {
+        res.setHeader("Retry-After", Math.ceil(VERIFICATION_EMAIL_WINDOW_MS / 1000).toString());
+        return res.status(429).json({ message: "Too many verification emails requested. Please try again later." });
+      }
+      
+      const verification = await storage.createVerificationToken(email);
+      
+      await storage.recordAuthAttempt({
+        type: "verification_email",
+        email,
+        userId: verification?.user.id,
+        ipAddress: req.ip,
+        successful: !!verification,
+      });
+      
+      if (verification) {
+        await sendVerificationEmail(req, verification.user.email, verification.token);
+      }
+      
+      res.json(genericResponse);
+    } catch (error) {
+      console.error("Error resending verification email:", error);
+      res.status(500).json({ message: "Failed to resend verification email" });
+    }
+  });
+  
   app.post(`${apiPrefix}/auth/login`, async (req, res) => {
     try {
       const loginData = schema.loginSchema.parse(req.body);
-      const user = await storage.authenticateUser(loginData.email, loginData.password);
       
-      if (!user) {
-        return res.status(401).json({ message: "Invalid email or password" });
+      const lockState = await storage.getLoginLockState(loginData.email);
+      if (lockState?.lockedUntil) {
+        return rejectLockedAccount(res, lockState.lockedUntil);
       }
       
-      // For development, skip email verification check
-      // In production, uncomment the following block:
-      /*
-      if (!user.verified) {
-        return res.status(403).json({ message: "Please verify your email before logging in" });
+      if (!(await throttleLogin(req, res, lockState?.failedLoginAttempts))) {
+        return;
       }
-      */
       
-      // Get user permissions
-      const permissions = await storage.getUserPermissions(user.id);
-      const permissionNames = permissions.map(p => p.name);
-      
-      // Create JWT token
-      const jwt = require("jsonwebtoken");
-      const token = jwt.sign(
-        {
-          id: user.id,
-          email: user.email,
-          role: user.role,
-          permissions: permissionNames,
-        },
-        process.env.JWT_SECRET || "your_jwt_secret",
-        { expiresIn: "1d" }
-      );
+      const user = await storage.authenticateUser(loginData.email, loginData.password);
       
-      // Log the activity
-      await storage.logActivity(
-        user.id,
-        "login",
-        { email: user.email },
-        "user",
-        user.id,
-        req.ip,
-        req.headers["user-agent"]
-      );
+      if (!user) {
+        await recordFailedLogin(req, "login", loginData.email, lockState?.userId);
+        return res.status(401).json({ message: "Invalid email or password" });
+      }
       
-      res.json({
-        message: "Logged in successfully",
-        token,
-        user: {
-          id: user.id,
-          username: user.username,
-          email: user.email,
-          fullName: user.fullName,
-          role: user.role,
-          preferredLanguage: user.preferredLanguage,
-          profileImage: user.profileImage,
-          permissions: permissionNames,
-        },
+      await storage.recordAuthAttempt({
+        type: "login",
+        email: user.email,
+        userId: user.id,
+        ipAddress: req.ip,
+        successful: true,
       });
+      
+      // Users with two-factor enabled, or whose role requires it, finish the
+      // login with a second step
+      const twoFactor = await storage.getTwoFactorStatus(user.id);
+      if (twoFactor && (twoFactor.enabled || twoFactor.required)) {
+        return res.json({
+          message: twoFactor.enabled
+            ? "Two-factor verification required"
+            : "Two-factor enrollment required for your role",
+          twoFactorRequired: twoFactor.enabled,
+          twoFactorSetupRequired: !twoFactor.enabled,
+          challengeToken: signTwoFactorChallenge(user.id),
+        });
+      }
+      
+      res.json(await finishLogin(req, res, user));
     } catch (error) {
       if (error instanceof z.ZodError) {
         return res.status(400).json({ message: "Validation error", errors: error.errors });
@@ -243,522 +777,2590 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
   
-  app.post(`${apiPrefix}/auth/forgot-password`, async (req, res) => {
+  // Second login step for users with two-factor authentication enabled
+  app.post(`${apiPrefix}/auth/login/2fa`, async (req, res) => {
     try {
-      const { email } = req.body;
+      const { challengeToken, code, recoveryCode } = req.body;
       
-      if (!email) {
-        return res.status(400).json({ message: "Email is required" });
+      const userId = challengeToken ? verifyTwoFactorChallenge(challengeToken) : null;
+      if (!userId) {
+        return res.status(401).json({ message: "Login has expired, please sign in again" });
       }
       
-      const token = await storage.createPasswordResetToken(email);
+      const user = await storage.getUserById(userId);
+      if (!user || !user.active || !user.twoFactorEnabled) {
+        return res.status(401).json({ message: "Login has expired, please sign in again" });
+      }
       
-      if (!token) {
-        // Don't reveal that the email doesn't exist
-        return res.status(200).json({
-          message: "If a user with that email exists, a password reset link has been sent",
-        });
+      if (user.lockedUntil && user.lockedUntil > new Date()) {
+        return rejectLockedAccount(res, user.lockedUntil);
       }
       
-      // Send password reset email
-      const resetUrl = `${req.protocol}://${req.get("host")}/reset-password/${token}`;
-      await sendEmail({
-        to: email,
-        subject: "Reset your MedEvents password",
-        html: `
-          <h1>Password Reset Request</h1>
-          <p>Please click the link below to reset your password:</p>
-          <a href="${resetUrl}">Reset Password</a>
-          <p>This link will expire in 10 minutes.</p>
-        `,
-      });
+      if (!(await throttleLogin(req, res, user.failedLoginAttempts))) {
+        return;
+      }
       
-      res.status(200).json({
-        message: "If a user with that email exists, a password reset link has been sent",
+      const verified = recoveryCode
+        ? await storage.consumeRecoveryCode(userId, recoveryCode)
+        : code
+          ? await storage.verifyTwoFactorCode(userId, code)
+          : false;
+      
+      if (!verified) {
+        await recordFailedLogin(req, "two_factor", user.email, user.id);
+        return res.status(401).json({ message: "Invalid verification code" });
+      }
+      
+      await storage.recordAuthAttempt({
+        type: "two_factor",
+        email: user.email,
+        userId: user.id,
+        ipAddress: req.ip,
+        successful: true,
       });
+      
+      res.json(await finishLogin(req, res, user));
     } catch (error) {
-      console.error("Error requesting password reset:", error);
-      res.status(500).json({ message: "Failed to process password reset request" });
+      console.error("Error verifying two-factor login:", error);
+      res.status(500).json({ message: "Failed to verify two-factor login" });
     }
   });
   
-  app.post(`${apiPrefix}/auth/reset-password/:token`, async (req, res) => {
+  // Password routes
+  app.get(`${apiPrefix}/auth/password-policy`, (req, res) => {
+    res.json(PASSWORD_POLICY);
+  });
+  
+  app.post(`${apiPrefix}/auth/change-password`, authenticateJWT, async (req, res) => {
     try {
-      const { token } = req.params;
-      const { password } = req.body;
+      const { currentPassword, newPassword } = req.body;
       
-      if (!password || password.length < 8) {
-        return res.status(400).json({
-          message: "Password must be at least 8 characters long",
-        });
+      if (!currentPassword || !(await storage.verifyUserPassword(req.user.id, currentPassword))) {
+        return res.status(400).json({ message: "Current password is incorrect" });
       }
       
-      const user = await storage.resetPassword(token, password);
-      
+      const user = await storage.getUserById(req.user.id);
       if (!user) {
-        return res.status(400).json({
-          message: "Invalid or expired password reset token",
-        });
+        return res.status(404).json({ message: "User not found" });
+      }
+      
+      if (await rejectInvalidPassword(res, newPassword, user)) {
+        return;
       }
       
+      await storage.changePassword(user.id, newPassword);
+      
+      // Sign out every other session that used the old password
+      await storage.revokeUserSessions(user.id, "password_change", req.user.sessionId);
+      
       // Log the activity
       await storage.logActivity(
         user.id,
         "update",
-        { passwordReset: true },
+        { passwordChanged: true },
         "user",
         user.id,
         req.ip,
         req.headers["user-agent"]
       );
       
-      res.status(200).json({
-        message: "Password has been reset successfully",
-      });
-    } catch (error) {
-      console.error("Error resetting password:", error);
-      res.status(500).json({ message: "Failed to reset password" });
-    }
-  });
-  
-  // User routes
-  app.get(`${apiPrefix}/users`, authenticateJWT, checkPermission("user:read"), async (req, res) => {
-    try {
-      const page = parseInt(req.query.page as string) || 1;
-      const limit = parseInt(req.query.limit as string) || 10;
-      const search = (req.query.search as string) || "";
-      
-      const result = await storage.getAllUsers(page, limit, search);
-      res.json(result);
+      res.json({ message: "Password changed successfully" });
     } catch (error) {
-      console.error("Error getting users:", error);
-      res.status(500).json({ message: "Failed to get users" });
+      console.error("Error changing password:", error);
+      res.status(500).json({ message: "Failed to change password" });
     }
   });
   
-  app.get(`${apiPrefix}/users/:id`, authenticateJWT, async (req, res) => {
+  // Last login step for users whose password has expired
+  app.post(`${apiPrefix}/auth/password/expired`, async (req, res) => {
     try {
-      const userId = parseInt(req.params.id);
+      const { challengeToken, newPassword } = req.body;
       
-      // Check if user is requesting their own profile or has permission
-      if (req.user.id !== userId && !req.user.permissions.includes("user:read")) {
-        return res.status(403).json({ message: "Permission denied" });
+      const userId = challengeToken ? verifyPasswordChangeChallenge(challengeToken) : null;
+      if (!userId) {
+        return res.status(401).json({ message: "Login has expired, please sign in again" });
       }
       
       const user = await storage.getUserById(userId);
+      if (!user || !user.active) {
+        return res.status(401).json({ message: "Login has expired, please sign in again" });
+      }
       
-      if (!user) {
-        return res.status(404).json({ message: "User not found" });
+      if (await rejectInvalidPassword(res, newPassword, user)) {
+        return;
       }
       
-      res.json(user);
-    } catch (error) {
-      console.error("Error getting user:", error);
-      res.status(500).json({ message: "Failed to get user" });
-    }
-  });
-  
-  app.put(`${apiPrefix}/users/:id`, authenticateJWT, async (req, res) => {
-    try {
-      const userId = parseInt(req.params.id);
+      await storage.changePassword(user.id, newPassword);
+      await storage.revokeUserSessions(user.id, "password_change");
       
-      // Check if user is updating their own profile or has permission
-      if (req.user.id !== userId && !req.user.permissions.includes("user:update")) {
-        return res.status(403).json({ message: "Permission denied" });
+      // Log the activity
+      await storage.logActivity(
+        user.id,
+        "update",
+        { passwordChanged: true, expired: true },
+        "user",
+        user.id,
+        req.ip,
+        req.headers["user-agent"]
+      );
+      
+      res.json({
+        message: "Password changed successfully",
+        ...(await startSession(req, res, user)),
+      });
+    } catch (error) {
+      console.error("Error changing expired password:", error);
+      res.status(500).json({ message: "Failed to change password" });
+    }
+  });
+  
+  // Two-factor authentication routes
+  app.get(`${apiPrefix}/auth/2fa`, authenticateJWT, async (req, res) => {
+    try {
+      const status = await storage.getTwoFactorStatus(req.user.id);
+      
+      if (!status) {
+        return res.status(404).json({ message: "User not found" });
+      }
+      
+      res.json(status);
+    } catch (error) {
+      console.error("Error getting two-factor status:", error);
+      res.status(500).json({ message: "Failed to get two-factor status" });
+    }
+  });
+  
+  app.post(`${apiPrefix}/auth/2fa/setup`, optionalAuthenticateJWT, async (req, res) => {
+    try {
+      const userId = getEnrollingUserId(req);
+      if (!userId) {
+        return res.status(401).json({ message: "Authentication required" });
+      }
+      
+      const user = await storage.getUserById(userId);
+      if (!user) {
+        return res.status(404).json({ message: "User not found" });
+      }
+      
+      if (user.twoFactorEnabled) {
+        return res.status(400).json({ message: "Two-factor authentication is already enabled" });
+      }
+      
+      const secret = generateTotpSecret();
+      await storage.setTwoFactorSecret(userId, secret);
+      
+      const otpauthUrl = buildOtpAuthUrl(secret, user.email);
+      const qrCode = await QRCode.toDataURL(otpauthUrl, { margin: 1, width: 200 });
+      
+      res.json({ secret, otpauthUrl, qrCode });
+    } catch (error) {
+      console.error("Error setting up two-factor authentication:", error);
+      res.status(500).json({ message: "Failed to set up two-factor authentication" });
+    }
+  });
+  
+  app.post(`${apiPrefix}/auth/2fa/enable`, optionalAuthenticateJWT, async (req, res) => {
+    try {
+      const userId = getEnrollingUserId(req);
+      if (!userId) {
+        return res.status(401).json({ message: "Authentication required" });
+      }
+      
+      const user = await storage.getUserById(userId);
+      if (!user) {
+        return res.status(404).json({ message: "User not found" });
+      }
+      
+      if (user.twoFactorEnabled) {
+        return res.status(400).json({ message: "Two-factor authentication is already enabled" });
+      }
+      
+      if (!req.body.code || !(await storage.verifyTwoFactorCode(userId, req.body.code))) {
+        return res.status(400).json({ message: "Invalid verification code" });
+      }
+      
+      const recoveryCodes = await storage.enableTwoFactor(userId);
+      
+      // Log the activity
+      await storage.logActivity(
+        userId,
+        "update",
+        { twoFactorEnabled: true },
+        "user",
+        userId,
+        req.ip,
+        req.headers["user-agent"]
+      );
+      
+      // Enrolling during login completes that login
+      const login = req.body.challengeToken ? await finishLogin(req, res, user) : {};
+      
+      res.json({
+        ...login,
+        message: "Two-factor authentication enabled",
+        recoveryCodes,
+      });
+    } catch (error) {
+      console.error("Error enabling two-factor authentication:", error);
+      res.status(500).json({ message: "Failed to enable two-factor authentication" });
+    }
+  });
+  
+  app.post(`${apiPrefix}/auth/2fa/disable`, authenticateJWT, async (req, res) => {
+    try {
+      const status = await storage.getTwoFactorStatus(req.user.id);
+      
+      if (!status?.enabled) {
+        return res.status(400).json({ message: "Two-factor authentication is not enabled" });
+      }
+      
+      if (status.required) {
+        return res.status(403).json({ message: "Two-factor authentication is mandatory for your role" });
+      }
+      
+      if (!req.body.code || !(await storage.verifyTwoFactorCode(req.user.id, req.body.code))) {
+        return res.status(400).json({ message: "Invalid verification code" });
+      }
+      
+      await storage.disableTwoFactor(req.user.id);
+      
+      // Log the activity
+      await storage.logActivity(
+        req.user.id,
+        "update",
+        { twoFactorEnabled: false },
+        "user",
+        req.user.id,
+        req.ip,
+        req.headers["user-agent"]
+      );
+      
+      res.json({ message: "Two-factor authentication disabled" });
+    } catch (error) {
+      console.error("Error disabling two-factor authentication:", error);
+      res.status(500).json({ message: "Failed to disable two-factor authentication" });
+    }
+  });
+  
+  app.post(`${apiPrefix}/auth/2fa/recovery-codes`, authenticateJWT, async (req, res) => {
+    try {
+      const status = await storage.getTwoFactorStatus(req.user.id);
+      
+      if (!status?.enabled) {
+        return res.status(400).json({ message: "Two-factor authentication is not enabled" });
+      }
+      
+      if (!req.body.code || !(await storage.verifyTwoFactorCode(req.user.id, req.body.code))) {
+        return res.status(400).json({ message: "Invalid verification code" });
+      }
+      
+      const recoveryCodes = await storage.regenerateRecoveryCodes(req.user.id);
+      
+      res.json({ recoveryCodes });
+    } catch (error) {
+      console.error("Error regenerating recovery codes:", error);
+      res.status(500).json({ message: "Failed to regenerate recovery codes" });
+    }
+  });
+  
+  app.post(`${apiPrefix}/auth/refresh`, async (req, res) => {
+    try {
+      const refreshToken = readRefreshCookie(req);
+      
+      if (!refreshToken) {
+        return res.status(401).json({ message: "Refresh token is missing" });
+      }
+      
+      const result = await storage.rotateRefreshToken(refreshToken, {
+        ipAddress: req.ip,
+        userAgent: req.headers["user-agent"],
+      });
+      
+      if (result.error) {
+        clearRefreshCookie(res);
+        
+        if (result.error === "reused" && result.session) {
+          await storage.logActivity(
+            result.session.userId,
+            "logout",
+            { reason: "refresh_token_reuse" },
+            "session",
+            result.session.id,
+            req.ip,
+            req.headers["user-agent"]
+          );
+        }
+        
+        return res.status(401).json({ message: "Session has expired, please log in again" });
+      }
+      
+      const user = await storage.getUserById(result.session.userId);
+      
+      if (!user || !user.active) {
+        await storage.revokeSession(result.session.id, "account_inactive");
+        clearRefreshCookie(res);
+        return res.status(401).json({ message: "Account is inactive or no longer exists" });
+      }
+      
+      setRefreshCookie(res, result.refreshToken, result.session.expiresAt);
+      
+      res.json({
+        token: signAccessToken(user, result.session.id),
+        user: await getSignedInUser(user),
+      });
+    } catch (error) {
+      console.error("Error refreshing session:", error);
+      res.status(500).json({ message: "Failed to refresh session" });
+    }
+  });
+  
+  app.post(`${apiPrefix}/auth/logout`, optionalAuthenticateJWT, async (req, res) => {
+    try {
+      const refreshToken = readRefreshCookie(req);
+      
+      const session = refreshToken
+        ? await storage.getSessionByRefreshToken(refreshToken)
+        : req.user?.sessionId
+          ? await storage.getSessionById(req.user.sessionId)
+          : undefined;
+      
+      if (session && !session.revokedAt) {
+        await storage.revokeSession(session.id, "logout");
+        
+        // Log the activity
+        await storage.logActivity(
+          session.userId,
+          "logout",
+          {},
+          "session",
+          session.id,
+          req.ip,
+          req.headers["user-agent"]
+        );
+      }
+      
+      clearRefreshCookie(res);
+      res.json({ message: "Logged out successfully" });
+    } catch (error) {
+      console.error("Error logging out:", error);
+      res.status(500).json({ message: "Failed to log out" });
+    }
+  });
+  
+  // Session routes
+  app.get(`${apiPrefix}/auth/sessions`, authenticateJWT, async (req, res) => {
+    try {
+      const userId = req.query.userId ? parseInt(req.query.userId as string) : req.user.id;
+      
+      // Listing someone else's sessions requires managing that user
+      if (userId !== req.user.id) {
+        const targetUser = await storage.getUserById(userId);
+        
+        if (!targetUser) {
+          return res.status(404).json({ message: "User not found" });
+        }
+        
+        if (!can(await getPolicySubject(req), "user:update", targetUser)) {
+          return res.status(403).json({ message: "Permission denied" });
+        }
+      }
+      
+      const sessions = await storage.getUserSessions(userId);
+      
+      res.json(sessions.map(session => ({
+        id: session.id,
+        device: session.device,
+        ipAddress: session.ipAddress,
+        userAgent: session.userAgent,
+        createdAt: session.createdAt,
+        lastUsedAt: session.lastUsedAt,
+        expiresAt: session.expiresAt,
+        current: session.id === req.user.sessionId,
+      })));
+    } catch (error) {
+      console.error("Error getting sessions:", error);
+      res.status(500).json({ message: "Failed to get sessions" });
+    }
+  });
+  
+  app.delete(`${apiPrefix}/auth/sessions/:id`, authenticateJWT, async (req, res) => {
+    try {
+      const sessionId = parseInt(req.params.id);
+      
+      const session = await storage.getSessionById(sessionId);
+      
+      if (!session) {
+        return res.status(404).json({ message: "Session not found" });
+      }
+      
+      // Users may revoke their own sessions; admins any session of a user they manage
+      if (session.userId !== req.user.id) {
+        const owner = await storage.getUserById(session.userId);
+        
+        if (!owner || !can(await getPolicySubject(req), "user:update", owner)) {
+          return res.status(403).json({ message: "Permission denied" });
+        }
+      }
+      
+      await storage.revokeSession(sessionId, session.userId === req.user.id ? "revoked_by_user" : "revoked_by_admin");
+      
+      // Log the activity
+      await storage.logActivity(
+        req.user.id,
+        "logout",
+        { revokedUserId: session.userId },
+        "session",
+        sessionId,
+        req.ip,
+        req.headers["user-agent"]
+      );
+      
+      res.json({ message: "Session revoked successfully" });
+    } catch (error) {
+      console.error("Error revoking session:", error);
+      res.status(500).json({ message: "Failed to revoke session" });
+    }
+  });
+  
+  // Revokes every session of the current user except the one making the request
+  app.delete(`${apiPrefix}/auth/sessions`, authenticateJWT, async (req, res) => {
+    try {
+      const revoked = await storage.revokeUserSessions(req.user.id, "revoked_by_user", req.user.sessionId);
+      
+      // Log the activity
+      await storage.logActivity(
+        req.user.id,
+        "logout",
+        { revokedSessions: revoked.length },
+        "session",
+        undefined,
+        req.ip,
+        req.headers["user-agent"]
+      );
+      
+      res.json({ message: "Other sessions revoked successfully", revoked: revoked.length });
+    } catch (error) {
+      console.error("Error revoking sessions:", error);
+      res.status(500).json({ message: "Failed to revoke sessions" });
+    }
+  });
+  
+  app.post(`${apiPrefix}/auth/forgot-password`, async (req, res) => {
+    try {
+      const { email } = req.body;
+      
+      if (!email) {
+        return res.status(400).json({ message: "Email is required" });
+      }
+      
+      const since = new Date(Date.now() - PASSWORD_RESET_WINDOW_MS);
+      const ipRequests = await storage.countRecentAuthAttempts(
+        { types: ["password_reset"], ipAddress: req.ip },
+        since
+      );
+      
+      if (ipRequests >= MAX_PASSWORD_RESETS_PER_IP) {
+        res.setHeader("Retry-After", Math.ceil(PASSWORD_RESET_WINDOW_MS / 1000).toString());
+        return res.status(429).json({ message: "Too many password reset requests. Please try again later." });
+      }
+      
+      const emailRequests = await storage.countRecentAuthAttempts(
+        { types: ["password_reset"], email },
+        since
+      );
+      
+      await storage.recordAuthAttempt({
+        type: "password_reset",
+        email,
+        ipAddress: req.ip,
+        successful: emailRequests < MAX_PASSWORD_RESETS_PER_EMAIL,
+      });
+      
+      // Stop emailing an address that has had enough links, without revealing it
+      if (emailRequests >= MAX_PASSWORD_RESETS_PER_EMAIL) {
+        return res.status(200).json({
+          message: "If a user with that email exists, a password reset link has been sent",
+        });
+      }
+      
+      const token = await storage.createPasswordResetToken(email);
+      
+      if (!token) {
+        // Don't reveal that the email doesn't exist
+        return res.status(200).json({
+          message: "If a user with that email exists, a password reset link has been sent",
+        });
+      }
+      
+      // Send password reset email
+      const resetUrl = `${req.protocol}://${req.get("host")}/reset-password/${token}`;
+      await sendEmail({
+        to: email,
+        subject: "Reset your MedEvents password",
+        html: `
+          <h1>Password Reset Request</h1>
+          <p>Please click the link below to reset your password:</p>
+          <a href="${resetUrl}">Reset Password</a>
+          <p>This link will expire in 10 minutes.</p>
+        `,
+      });
+      
+      res.status(200).json({
+        message: "If a user with that email exists, a password reset link has been sent",
+      });
+    } catch (error) {
+      console.error("Error requesting password reset:", error);
+      res.status(500).json({ message: "Failed to process password reset request" });
+    }
+  });
+  
+  app.post(`${apiPrefix}/auth/reset-password/:token`, async (req, res) => {
+    try {
+      const { token } = req.params;
+      const { password } = req.body;
+      
+      const resetUser = await storage.getPasswordResetUser(token);
+      
+      if (!resetUser) {
+        return res.status(400).json({
+          message: "Invalid or expired password reset token",
+        });
+      }
+      
+      if (await rejectInvalidPassword(res, password, resetUser)) {
+        return;
+      }
+      
+      const user = await storage.resetPassword(token, password);
+      
+      if (!user) {
+        return res.status(400).json({
+          message: "Invalid or expired password reset token",
+        });
+      }
+      
+      // Log the activity
+      await storage.logActivity(
+        user.id,
+        "update",
+        { passwordReset: true },
+        "user",
+        user.id,
+        req.ip,
+        req.headers["user-agent"]
+      );
+      
+      res.status(200).json({
+        message: "Password has been reset successfully",
+      });
+    } catch (error) {
+      console.error("Error resetting password:", error);
+      res.status(500).json({ message: "Failed to reset password" });
+    }
+  });
+  
+  // User routes
+  app.get(`${apiPrefix}/users`, authenticateJWT, checkPermission("user:read"), async (req, res) => {
+    try {
+      const page = parseInt(req.query.page as string) || 1;
+      const limit = parseInt(req.query.limit as string) || 10;
+      const search = (req.query.search as string) || "";
+      
+      const scope = await storage.getUserOrganizationScope(req.user.id);
+      const result = await storage.getAllUsers(page, limit, search, scope);
+      res.json(result);
+    } catch (error) {
+      console.error("Error getting users:", error);
+      res.status(500).json({ message: "Failed to get users" });
+    }
+  });
+  
+  // Managers create users inside the organizations they manage
+  app.post(`${apiPrefix}/users`, authenticateJWT, checkPermission("user:create"), async (req, res) => {
+    try {
+      const userData = schema.insertUserSchema.parse(req.body);
+      const subject = await getPolicySubject(req);
+      
+      if (
+        userData.role &&
+        userData.role !== "guest" &&
+        subject.role !== "super_admin" &&
+        !subject.permissions.includes("role:manage")
+      ) {
+        return res.status(403).json({ message: "Permission denied for role assignment" });
+      }
+      
+      if (userData.role && await rejectRoleEscalation(res, subject, userData.role)) {
+        return;
+      }
+      
+      // Scoped managers could not see a user placed outside their organizations
+      if (subject.organizationScope !== null && !isInScope(userData.organizationId, subject.organizationScope)) {
+        return res.status(403).json({ message: "Permission denied for organization assignment" });
+      }
+      
+      if (await rejectInvalidPassword(res, userData.password, userData)) {
+        return;
+      }
+      
+      if (await storage.getUserByEmail(userData.email)) {
+        return res.status(400).json({ message: "User with this email already exists" });
+      }
+      
+      if (await storage.getUserByUsername(userData.username)) {
+        return res.status(400).json({ message: "Username already taken" });
+      }
+      
+      const { user, verificationToken } = await storage.createUser(userData);
+      
+      if (verificationToken) {
+        try {
+          await sendVerificationEmail(req, user.email, verificationToken);
+        } catch (emailError) {
+          console.error("Email sending failed:", emailError);
+        }
+      }
+      
+      await storage.logActivity(
+        subject.id,
+        "create",
+        { email: user.email, role: user.role, organizationId: user.organizationId },
+        "user",
+        user.id,
+        req.ip,
+        req.headers["user-agent"]
+      );
+      
+      res.status(201).json({
+        id: user.id,
+        username: user.username,
+        email: user.email,
+        fullName: user.fullName,
+        role: user.role,
+        organizationId: user.organizationId,
+      });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Validation error", errors: error.errors });
+      }
+      console.error("Error creating user:", error);
+      res.status(500).json({ message: "Failed to create user" });
+    }
+  });
+  
+  // Self-service profile routes; registered before /users/:id so "me" is not taken for an id
+  app.get(`${apiPrefix}/users/me`, authenticateJWT, async (req, res) => {
+    try {
+      const profile = await storage.getUserProfile(req.user.id);
+      
+      if (!profile) {
+        return res.status(404).json({ message: "User not found" });
+      }
+      
+      res.json(profile);
+    } catch (error) {
+      console.error("Error getting profile:", error);
+      res.status(500).json({ message: "Failed to get profile" });
+    }
+  });
+  
+  app.patch(`${apiPrefix}/users/me`, authenticateJWT, async (req, res) => {
+    try {
+      const profileData = schema.updateProfileSchema.parse(req.body);
+      
+      await storage.updateUser(req.user.id, profileData);
+      
+      // Log the activity
+      await storage.logActivity(
+        req.user.id,
+        "update",
+        { profileUpdated: Object.keys(profileData) },
+        "user",
+        req.user.id,
+        req.ip,
+        req.headers["user-agent"]
+      );
+      
+      res.json(await storage.getUserProfile(req.user.id));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Validation error", errors: error.errors });
+      }
+      console.error("Error updating profile:", error);
+      res.status(500).json({ message: "Failed to update profile" });
+    }
+  });
+  
+  app.post(
+    `${apiPrefix}/users/me/avatar`,
+    authenticateJWT,
+    (req, res, next) => {
+      // Report rejected files as bad requests rather than server errors
+      avatarUpload.single("avatar")(req, res, (error: any) => {
+        if (error) {
+          return res.status(400).json({ message: error.message });
+        }
+        next();
+      });
+    },
+    async (req, res) => {
+      try {
+        const file = req.file;
+        
+        if (!file) {
+          return res.status(400).json({ message: "No file uploaded" });
+        }
+        
+        let filename: string;
+        try {
+          filename = await resizeAvatar(file.path);
+        } catch (resizeError) {
+          console.error("Error resizing avatar:", resizeError);
+          return res.status(400).json({ message: "The uploaded file is not a valid image" });
+        }
+        
+        const previous = await storage.getUserProfile(req.user.id);
+        const profileImage = `/uploads/${filename}`;
+        
+        await storage.updateUser(req.user.id, { profileImage });
+        removeAvatar(uploadDir, previous?.profileImage ?? null);
+        
+        // Log the activity
+        await storage.logActivity(
+          req.user.id,
+          "upload",
+          { avatar: true },
+          "user",
+          req.user.id,
+          req.ip,
+          req.headers["user-agent"]
+        );
+        
+        res.json({ profileImage });
+      } catch (error) {
+        console.error("Error uploading avatar:", error);
+        res.status(500).json({ message: "Failed to upload avatar" });
+      }
+    }
+  );
+  
+  app.delete(`${apiPrefix}/users/me/avatar`, authenticateJWT, async (req, res) => {
+    try {
+      const previous = await storage.getUserProfile(req.user.id);
+      
+      await storage.updateUser(req.user.id, { profileImage: null });
+      removeAvatar(uploadDir, previous?.profileImage ?? null);
+      
+      res.json({ profileImage: null });
+    } catch (error) {
+      console.error("Error removing avatar:", error);
+      res.status(500).json({ message: "Failed to remove avatar" });
+    }
+  });
+  
+  // Personal calendar feed; its URL carries a token, so only whether one exists is returned here
+  app.get(`${apiPrefix}/users/me/calendar-feed`, authenticateJWT, async (req, res) => {
+    try {
+      res.json({ enabled: await storage.hasCalendarFeed(req.user.id) });
+    } catch (error) {
+      console.error("Error getting calendar feed:", error);
+      res.status(500).json({ message: "Failed to get calendar feed" });
+    }
+  });
+  
+  // Creates the feed URL, or replaces it so the previous one stops working
+  app.post(`${apiPrefix}/users/me/calendar-feed`, authenticateJWT, async (req, res) => {
+    try {
+      const token = await storage.createCalendarFeedToken(req.user.id);
+      
+      // Log the activity
+      await storage.logActivity(
+        req.user.id,
+        "create",
+        { calendarFeed: true },
+        "user",
+        req.user.id,
+        req.ip,
+        req.headers["user-agent"]
+      );
+      
+      res.status(201).json({ url: `${req.protocol}://${req.get("host")}${apiPrefix}/calendar/${token}.ics` });
+    } catch (error) {
+      console.error("Error creating calendar feed:", error);
+      res.status(500).json({ message: "Failed to create calendar feed" });
+    }
+  });
+  
+  app.delete(`${apiPrefix}/users/me/calendar-feed`, authenticateJWT, async (req, res) => {
+    try {
+      await storage.revokeCalendarFeedToken(req.user.id);
+      
+      // Log the activity
+      await storage.logActivity(
+        req.user.id,
+        "delete",
+        { calendarFeed: true },
+        "user",
+        req.user.id,
+        req.ip,
+        req.headers["user-agent"]
+      );
+      
+      res.json({ message: "Calendar feed revoked" });
+    } catch (error) {
+      console.error("Error revoking calendar feed:", error);
+      res.status(500).json({ message: "Failed to revoke calendar feed" });
+    }
+  });
+  
+  // The feed calendar apps subscribe to: every event the user is approved for.
+  // Calendar apps cannot send a bearer token, so the token in the URL authenticates it.
+  app.get(`${apiPrefix}/calendar/:token.ics`, async (req, res) => {
+    try {
+      const user = await storage.getUserByCalendarFeedToken(req.params.token);
+      
+      if (!user) {
+        return res.status(404).json({ message: "Calendar feed not found" });
+      }
+      
+      const baseUrl = `${req.protocol}://${req.get("host")}`;
+      const events = await storage.getUserCalendarEvents(user.id);
+      
+      res.setHeader("Content-Type", "text/calendar; charset=utf-8");
+      // Schedule changes and cancellations show up on the next fetch
+      res.setHeader("Cache-Control", "no-cache");
+      res.send(toICalendar({
+        name: `MedEvents – ${user.fullName}`,
+        events: events.flatMap(event => toCalendarEvents(event, baseUrl)),
+        refreshHours: CALENDAR_FEED_REFRESH_HOURS,
+      }));
+    } catch (error) {
+      console.error("Error getting calendar feed:", error);
+      res.status(500).json({ message: "Failed to get calendar feed" });
+    }
+  });
+  
+  app.get(`${apiPrefix}/users/:id`, authenticateJWT, authorize("user:read", resources.user()), async (req, res) => {
+    try {
+      res.json(res.locals.resource);
+    } catch (error) {
+      console.error("Error getting user:", error);
+      res.status(500).json({ message: "Failed to get user" });
+    }
+  });
+  
+  app.get(`${apiPrefix}/users/:id/cme`, authenticateJWT, authorize("user:read", resources.user()), async (req, res) => {
+    try {
+      const user: schema.User = res.locals.resource;
+      const { year } = cmeLedgerQuerySchema.parse(req.query);
+      
+      const [years, entries] = await Promise.all([
+        storage.getCmeYearlySummary(user.id),
+        storage.getCmeCreditEntries(user.id, year),
+      ]);
+      
+      res.json({ years, entries });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Validation error", errors: error.errors });
+      }
+      console.error("Error getting user CME credits:", error);
+      res.status(500).json({ message: "Failed to get user CME credits" });
+    }
+  });
+  
+  app.put(`${apiPrefix}/users/:id`, authenticateJWT, authorize("user:update", resources.user()), async (req, res) => {
+    try {
+      const userId = parseInt(req.params.id);
+      const subject: PolicySubject = res.locals.subject;
+      const existingUser: schema.User = res.locals.resource;
+      const userData = schema.updateUserSchema.parse(req.body);
+      
+      // Only allow role changes if user has role:manage permission
+      if (
+        userData.role &&
+        userData.role !== existingUser.role &&
+        subject.role !== "super_admin" &&
+        !subject.permissions.includes("role:manage")
+      ) {
+        return res.status(403).json({ message: "Permission denied for role update" });
+      }
+      
+      if (userData.role && userData.role !== existingUser.role && await rejectRoleEscalation(res, subject, userData.role)) {
+        return;
+      }
+      
+      // Users change their own password with their current one; administrators
+      // setting a password are held to the same policy
+      if (userData.password !== undefined) {
+        if (subject.id === userId) {
+          return res.status(403).json({ message: "Use the change password form to change your own password" });
+        }
+        
+        if (await rejectInvalidPassword(res, userData.password, existingUser)) {
+          return;
+        }
+      }
+      
+      // Users cannot confirm their own email by editing their profile
+      if (
+        userData.verified !== undefined &&
+        userData.verified !== existingUser.verified &&
+        (subject.id === userId || !subject.permissions.includes("user:update"))
+      ) {
+        return res.status(403).json({ message: "Permission denied for verification update" });
+      }
+      
+      // Organization changes move a user between scopes, so they are limited to
+      // managers placing users inside the organizations they manage
+      if (
+        userData.organizationId !== undefined &&
+        userData.organizationId !== existingUser.organizationId
+      ) {
+        if (
+          (subject.id === userId && subject.organizationScope !== null) ||
+          !isInScope(userData.organizationId, subject.organizationScope)
+        ) {
+          return res.status(403).json({ message: "Permission denied for organization update" });
+        }
+      }
+      
+      const updatedUser = await storage.updateUser(userId, userData);
+      
+      if (userData.password) {
+        await storage.revokeUserSessions(userId, "password_change");
+      }
+      
+      // Log the activity
+      await storage.logActivity(
+        req.user.id,
+        "update",
+        { updated: true },
+        "user",
+        userId,
+        req.ip,
+        req.headers["user-agent"]
+      );
+      
+      res.json(updatedUser);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Validation error", errors: error.errors });
+      }
+      console.error("Error updating user:", error);
+      res.status(500).json({ message: "Failed to update user" });
+    }
+  });
+  
+  // Invalidates every token issued to the user
+  app.post(`${apiPrefix}/users/:id/force-logout`, authenticateJWT, authorize("user:update", resources.user()), async (req, res) => {
+    try {
+      const userId = parseInt(req.params.id);
+      
+      await storage.revokeUserTokens(userId);
+      
+      // Log the activity
+      await storage.logActivity(
+        req.user.id,
+        "logout",
+        { forced: true },
+        "user",
+        userId,
+        req.ip,
+        req.headers["user-agent"]
+      );
+      
+      res.json({ message: "User has been logged out of all sessions" });
+    } catch (error) {
+      console.error("Error forcing logout:", error);
+      res.status(500).json({ message: "Failed to log out user" });
+    }
+  });
+  
+  app.post(`${apiPrefix}/users/:id/unlock`, authenticateJWT, authorize("user:update", resources.user()), async (req, res) => {
+    try {
+      const userId = parseInt(req.params.id);
+      
+      const user = await storage.unlockUser(userId);
+      
+      if (!user) {
+        return res.status(404).json({ message: "User not found" });
+      }
+      
+      // Log the activity
+      await storage.logActivity(
+        req.user.id,
+        "account_unlocked",
+        { email: user.email },
+        "user",
+        userId,
+        req.ip,
+        req.headers["user-agent"]
+      );
+      
+      res.json({ message: "User account has been unlocked" });
+    } catch (error) {
+      console.error("Error unlocking user:", error);
+      res.status(500).json({ message: "Failed to unlock user" });
+    }
+  });
+  
+  // Permissions routes
+  app.get(`${apiPrefix}/permissions`, authenticateJWT, checkPermission("role:manage"), async (req, res) => {
+    try {
+      const permissions = await storage.getAllPermissions();
+      res.json(permissions);
+    } catch (error) {
+      console.error("Error getting permissions:", error);
+      res.status(500).json({ message: "Failed to get permissions" });
+    }
+  });
+  
+  app.get(`${apiPrefix}/users/:id/permissions`, authenticateJWT, checkPermission("role:manage"), async (req, res) => {
+    try {
+      const userId = parseInt(req.params.id);
+      const permissions = await storage.getUserPermissionDetails(userId);
+      
+      if (!permissions) {
+        return res.status(404).json({ message: "User not found" });
+      }
+      
+      res.json(permissions);
+    } catch (error) {
+      console.error("Error getting user permissions:", error);
+      res.status(500).json({ message: "Failed to get user permissions" });
+    }
+  });
+  
+  app.put(`${apiPrefix}/users/:id/permissions`, authenticateJWT, checkPermission("role:manage"), async (req, res) => {
+    try {
+      const userId = parseInt(req.params.id);
+      const overrides = z.array(schema.permissionOverrideSchema).parse(req.body.overrides);
+      
+      const permissions = await storage.updateUserPermissions(userId, overrides);
+      
+      if (!permissions) {
+        return res.status(404).json({ message: "User not found" });
+      }
+      
+      // Log the activity
+      await storage.logActivity(
+        req.user.id,
+        "update",
+        { overrides },
+        "user_permissions",
+        userId,
+        req.ip,
+        req.headers["user-agent"]
+      );
+      
+      res.json(permissions);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Validation error", errors: error.errors });
+      }
+      console.error("Error updating user permissions:", error);
+      res.status(500).json({ message: "Failed to update user permissions" });
+    }
+  });
+  
+  // Role template routes
+  app.get(`${apiPrefix}/roles`, authenticateJWT, async (req, res) => {
+    try {
+      const roles = await storage.getAllRoles();
+      res.json(roles);
+    } catch (error) {
+      console.error("Error getting roles:", error);
+      res.status(500).json({ message: "Failed to get roles" });
+    }
+  });
+  
+  app.put(`${apiPrefix}/roles/:name`, authenticateJWT, checkPermission("role:manage"), async (req, res) => {
+    try {
+      const roleName = z.enum(schema.userRoleEnum.enumValues).parse(req.params.name);
+      const roleData = z.object({
+        description: z.string().nullable().optional(),
+        requireTwoFactor: z.boolean().optional(),
+        passwordMaxAgeDays: z.number().int().positive().nullable().optional(),
+        cmeAnnualRequirement: cmeCreditsSchema.nullable().optional(),
+      }).parse(req.body);
+      
+      const role = await storage.updateRole(roleName, roleData);
+      
+      if (!role) {
+        return res.status(404).json({ message: "Role not found" });
+      }
+      
+      // Log the activity
+      await storage.logActivity(
+        req.user.id,
+        "update",
+        { role: roleName, ...roleData },
+        "role",
+        role.id,
+        req.ip,
+        req.headers["user-agent"]
+      );
+      
+      res.json(role);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Validation error", errors: error.errors });
+      }
+      console.error("Error updating role:", error);
+      res.status(500).json({ message: "Failed to update role" });
+    }
+  });
+  
+  app.put(`${apiPrefix}/roles/:name/permissions`, authenticateJWT, checkPermission("role:manage"), async (req, res) => {
+    try {
+      const roleName = z.enum(schema.userRoleEnum.enumValues).parse(req.params.name);
+      const permissionIds = z.array(z.number().int().positive()).parse(req.body.permissionIds);
+      
+      const role = await storage.updateRolePermissions(roleName, permissionIds);
+      
+      if (!role) {
+        return res.status(404).json({ message: "Role not found" });
+      }
+      
+      // Log the activity
+      await storage.logActivity(
+        req.user.id,
+        "update",
+        { role: roleName, permissionIds },
+        "role",
+        role.id,
+        req.ip,
+        req.headers["user-agent"]
+      );
+      
+      res.json(role);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Validation error", errors: error.errors });
+      }
+      console.error("Error updating role permissions:", error);
+      res.status(500).json({ message: "Failed to update role permissions" });
+    }
+  });
+  
+  app.post(`${apiPrefix}/roles/:name/users`, authenticateJWT, checkPermission("role:manage"), async (req, res) => {
+    try {
+      const roleName = z.enum(schema.userRoleEnum.enumValues).parse(req.params.name);
+      const userIds = z.array(z.number().int().positive()).min(1).parse(req.body.userIds);
+      
+      if (await rejectRoleEscalation(res, await getPolicySubject(req), roleName)) {
+        return;
+      }
+      
+      // Every user must be inside the organizations the caller manages
+      const scope = await storage.getUserOrganizationScope(req.user.id);
+      for (const userId of userIds) {
+        const user = await storage.getUserById(userId);
+        
+        if (!user) {
+          return res.status(404).json({ message: `User ${userId} not found` });
+        }
+        
+        if (!isInScope(user.organizationId, scope)) {
+          return res.status(403).json({ message: `Permission denied for user ${userId}` });
+        }
+      }
+      
+      const updatedUsers = await storage.assignRoleToUsers(roleName, userIds);
+      
+      // Log the activity
+      await storage.logActivity(
+        req.user.id,
+        "update",
+        { role: roleName, userIds },
+        "user",
+        undefined,
+        req.ip,
+        req.headers["user-agent"]
+      );
+      
+      res.json(updatedUsers);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Validation error", errors: error.errors });
+      }
+      console.error("Error assigning role:", error);
+      res.status(500).json({ message: "Failed to assign role" });
+    }
+  });
+  
+  // Organization routes
+  app.get(`${apiPrefix}/organizations`, authenticateJWT, async (req, res) => {
+    try {
+      const organizations = await storage.getAllOrganizations();
+      res.json(organizations);
+    } catch (error) {
+      console.error("Error getting organizations:", error);
+      res.status(500).json({ message: "Failed to get organizations" });
+    }
+  });
+  
+  app.get(`${apiPrefix}/organizations/:id`, authenticateJWT, async (req, res) => {
+    try {
+      const organizationId = parseInt(req.params.id);
+      const organization = await storage.getOrganizationById(organizationId);
+      
+      if (!organization) {
+        return res.status(404).json({ message: "Organization not found" });
+      }
+      
+      res.json(organization);
+    } catch (error) {
+      console.error("Error getting organization:", error);
+      res.status(500).json({ message: "Failed to get organization" });
+    }
+  });
+  
+  app.post(`${apiPrefix}/organizations`, authenticateJWT, authorize("organization:manage"), async (req, res) => {
+    try {
+      const organizationData = schema.insertOrganizationSchema.parse(req.body);
+      const subject: PolicySubject = res.locals.subject;
+      
+      // Managers can only add units below an organization they manage
+      if (!isInScope(organizationData.parentId, subject.organizationScope)) {
+        return res.status(403).json({ message: "Permission denied" });
+      }
+      
+      const organization = await storage.createOrganization(organizationData);
+      
+      // Log the activity
+      await storage.logActivity(
+        req.user.id,
+        "create",
+        { name: organization.name, type: organization.type },
+        "organization",
+        organization.id,
+        req.ip,
+        req.headers["user-agent"]
+      );
+      
+      res.status(201).json(organization);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Validation error", errors: error.errors });
+      }
+      console.error("Error creating organization:", error);
+      res.status(500).json({ message: "Failed to create organization" });
+    }
+  });
+  
+  app.put(`${apiPrefix}/organizations/:id`, authenticateJWT, authorize("organization:manage", resources.organization()), async (req, res) => {
+    try {
+      const organizationId = parseInt(req.params.id);
+      const organizationData = schema.insertOrganizationSchema.partial().parse(req.body);
+      const subject: PolicySubject = res.locals.subject;
+      
+      if (organizationData.parentId !== undefined) {
+        // Moving a unit must keep it inside the caller's scope and must not create a cycle
+        if (!isInScope(organizationData.parentId, subject.organizationScope)) {
+          return res.status(403).json({ message: "Permission denied" });
+        }
+        
+        const subtree = await storage.getOrganizationSubtreeIds(organizationId);
+        if (organizationData.parentId !== null && subtree.includes(organizationData.parentId)) {
+          return res.status(400).json({ message: "An organization cannot be moved below itself" });
+        }
+      }
+      
+      const updatedOrganization = await storage.updateOrganization(organizationId, organizationData);
+      
+      // Log the activity
+      await storage.logActivity(
+        req.user.id,
+        "update",
+        organizationData,
+        "organization",
+        organizationId,
+        req.ip,
+        req.headers["user-agent"]
+      );
+      
+      res.json(updatedOrganization);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Validation error", errors: error.errors });
+      }
+      console.error("Error updating organization:", error);
+      res.status(500).json({ message: "Failed to update organization" });
+    }
+  });
+  
+  app.delete(`${apiPrefix}/organizations/:id`, authenticateJWT, authorize("organization:manage", resources.organization()), async (req, res) => {
+    try {
+      const organizationId = parseInt(req.params.id);
+      
+      const deletedOrganization = await storage.deleteOrganization(organizationId);
+      
+      // Log the activity
+      await storage.logActivity(
+        req.user.id,
+        "delete",
+        { name: deletedOrganization.name },
+        "organization",
+        organizationId,
+        req.ip,
+        req.headers["user-agent"]
+      );
+      
+      res.json({ message: "Organization deleted successfully" });
+    } catch (error) {
+      console.error("Error deleting organization:", error);
+      res.status(500).json({ message: error instanceof Error ? error.message : "Failed to delete organization" });
+    }
+  });
+  
+  // Event routes
+  app.get(`${apiPrefix}/events`, optionalAuthenticateJWT, async (req, res) => {
+    try {
+      const page = parseInt(req.query.page as string) || 1;
+      const limit = parseInt(req.query.limit as string) || 10;
+      const search = (req.query.search as string) || "";
+      
+      const visibility = await getEventVisibility(req);
+      const filters = {
+        type: req.query.type as string,
+        status: req.query.status as string,
+        location: req.query.location as string,
+        level: req.query.level as string,
+        startDate: req.query.startDate as string,
+        endDate: req.query.endDate as string,
+        publishedOnly: visibility.publishedOnly,
+      };
+      
+      const result = await storage.getAllEvents(page, limit, search, filters, visibility.scope);
+      
+      // Flag the events the signed-in user cannot register for, and why
+      const profile = req.user ? await storage.getEligibilityProfile(req.user.id) : null;
+      const events = await Promise.all(result.events.map(async (event) => ({
+        ...event,
+        eligibilityIssues: profile ? await storage.checkEventRules(event, profile) : [],
+      })));
+      
+      res.json({ ...result, events });
+    } catch (error) {
+      console.error("Error getting events:", error);
+      res.status(500).json({ message: "Failed to get events" });
+    }
+  });
+  
+  app.get(`${apiPrefix}/events/:id`, optionalAuthenticateJWT, async (req, res) => {
+    try {
+      const eventId = parseInt(req.params.id);
+      const event = await storage.getEventById(eventId);
+      
+      if (!event || !isEventVisible(event, await getEventVisibility(req))) {
+        return res.status(404).json({ message: "Event not found" });
+      }
+      
+      const profile = req.user ? await storage.getEligibilityProfile(req.user.id) : null;
+      const eligibilityIssues = profile ? await storage.checkEventRules(event, profile) : [];
+      
+      res.json({ ...event, eligibilityIssues });
+    } catch (error) {
+      console.error("Error getting event:", error);
+      res.status(500).json({ message: "Failed to get event" });
+    }
+  });
+  
+  // The event and its sessions as an iCalendar file, for adding to a calendar app
+  app.get(`${apiPrefix}/events/:id/calendar.ics`, optionalAuthenticateJWT, async (req, res) => {
+    try {
+      const event = await storage.getEventById(parseInt(req.params.id));
+      
+      if (!event || !isEventVisible(event, await getEventVisibility(req))) {
+        return res.status(404).json({ message: "Event not found" });
+      }
+      
+      const calendar = toICalendar({
+        name: event.title,
+        events: toCalendarEvents(event, `${req.protocol}://${req.get("host")}`),
+      });
+      
+      res.setHeader("Content-Type", "text/calendar; charset=utf-8");
+      res.setHeader("Content-Disposition", `attachment; filename="event-${event.id}.ics"`);
+      res.send(calendar);
+    } catch (error) {
+      console.error("Error exporting event calendar:", error);
+      res.status(500).json({ message: "Failed to export event calendar" });
+    }
+  });
+  
+  app.post(`${apiPrefix}/events`, authenticateJWT, authorize("event:create"), async (req, res) => {
+    try {
+      const creator = await storage.getUserById(req.user.id);
+      const eventData = schema.insertEventSchema.parse({
+        organizationId: creator?.organizationId ?? null,
+        ...req.body,
+        createdById: req.user.id,
+      });
+      
+      // Events can only be organized on behalf of units the creator manages
+      if (!can(res.locals.subject, "event:create", { organizationId: eventData.organizationId ?? null })) {
+        return res.status(403).json({ message: "Permission denied for this organization" });
+      }
+      
+      const event = await storage.createEvent(eventData);
+      
+      // Log the activity
+      await storage.logActivity(
+        req.user.id,
+        "create",
+        { title: event.title },
+        "event",
+        event.id,
+        req.ip,
+        req.headers["user-agent"]
+      );
+      
+      res.status(201).json(event);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Validation error", errors: error.errors });
+      }
+      console.error("Error creating event:", error);
+      res.status(500).json({ message: "Failed to create event" });
+    }
+  });
+  
+  app.put(`${apiPrefix}/events/:id`, authenticateJWT, authorize("event:update", resources.event()), async (req, res) => {
+    try {
+      const eventId = parseInt(req.params.id);
+      const eventData = req.body;
+      const subject: PolicySubject = res.locals.subject;
+      const existingEvent: schema.Event = res.locals.resource;
+      
+      // Moving an event to another organization requires managing that organization
+      if (
+        eventData.organizationId !== undefined &&
+        eventData.organizationId !== existingEvent.organizationId &&
+        !isInScope(eventData.organizationId, subject.organizationScope)
+      ) {
+        return res.status(403).json({ message: "Permission denied for this organization" });
       }
       
-      // Only allow role updates if user has role:manage permission
-      if (req.body.role && req.user.id !== userId && !req.user.permissions.includes("role:manage")) {
-        return res.status(403).json({ message: "Permission denied for role update" });
+      // If status is changed to "published", check for publish permission
+      if (
+        eventData.status === "active" &&
+        existingEvent.status !== "active" &&
+        !can(subject, "event:publish", existingEvent)
+      ) {
+        return res.status(403).json({ message: "Permission denied for publishing events" });
+      }
+      
+      if (eventData.registrationForm !== undefined) {
+        eventData.registrationForm = registrationFormSchema.parse(eventData.registrationForm);
+      }
+      
+      if (eventData.eligibilityRules !== undefined) {
+        eventData.eligibilityRules = eligibilityRulesSchema.parse(eventData.eligibilityRules);
+      }
+      
+      if (eventData.minAttendancePercent !== undefined) {
+        eventData.minAttendancePercent = z.number().int().min(0).max(100).parse(eventData.minAttendancePercent);
+      }
+      
+      if (eventData.certificateTemplateId && !(await storage.getCertificateTemplateById(eventData.certificateTemplateId))) {
+        return res.status(400).json({ message: "Certificate template not found" });
+      }
+      
+      // With scope=following the edit also applies to the later occurrences of the series
+      const updatedEvents = req.query.scope === "following" && existingEvent.seriesId
+        ? await storage.updateFollowingOccurrences(existingEvent, eventData)
+        : [await storage.updateEvent(eventId, eventData)];
+      const updatedEvent = updatedEvents.find(event => event.id === eventId)!;
+      
+      // A larger capacity frees seats for the waitlist
+      if (eventData.capacity !== undefined && eventData.capacity !== existingEvent.capacity) {
+        for (const event of updatedEvents) {
+          await promoteWaitlist(event.id);
+        }
+      }
+      
+      // Completing an event issues certificates in the background; the report is stored for the organizers
+      if (
+        updatedEvent.status === "completed" &&
+        existingEvent.status !== "completed" &&
+        updatedEvent.autoIssueCertificates
+      ) {
+        issueEventCertificates(eventId, "event_completed", req.user.id).catch(error => {
+          console.error("Error issuing certificates:", error);
+        });
+      }
+      
+      // Log the activity
+      await storage.logActivity(
+        req.user.id,
+        "update",
+        { title: updatedEvent.title, status: updatedEvent.status, occurrences: updatedEvents.length },
+        "event",
+        eventId,
+        req.ip,
+        req.headers["user-agent"]
+      );
+      
+      res.json(updatedEvent);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Validation error", errors: error.errors });
+      }
+      console.error("Error updating event:", error);
+      res.status(500).json({ message: "Failed to update event" });
+    }
+  });
+  
+  app.delete(`${apiPrefix}/events/:id`, authenticateJWT, authorize("event:delete", resources.event()), async (req, res) => {
+    try {
+      const eventId = parseInt(req.params.id);
+      const event: schema.Event = res.locals.resource;
+      
+      // With scope=following the later occurrences of the series go too
+      const deletedEvents = req.query.scope === "following" && event.seriesId
+        ? await storage.deleteFollowingOccurrences(event)
+        : [await storage.deleteEvent(eventId)];
+      
+      // Log the activity
+      await storage.logActivity(
+        req.user.id,
+        "delete",
+        { title: event.title, occurrences: deletedEvents.length },
+        "event",
+        eventId,
+        req.ip,
+        req.headers["user-agent"]
+      );
+      
+      res.json({ message: "Event deleted successfully" });
+    } catch (error) {
+      console.error("Error deleting event:", error);
+      res.status(500).json({ message: "Failed to delete event" });
+    }
+  });
+  
+  // Event series routes
+  // Turns an event into the first occurrence of a recurring series and creates the later occurrences
+  app.post(`${apiPrefix}/events/:id/series`, authenticateJWT, authorize("event:update", resources.event()), async (req, res) => {
+    try {
+      const eventId = parseInt(req.params.id);
+      const event: schema.Event = res.locals.resource;
+      
+      if (event.seriesId) {
+        return res.status(409).json({ message: "Event already belongs to a series" });
+      }
+      
+      const seriesData = schema.insertEventSeriesSchema.parse({
+        title: req.body.title ?? event.title,
+        recurrenceRule: req.body.recurrenceRule,
+        requiredOccurrences: req.body.requiredOccurrences ?? null,
+      });
+      
+      const occurrenceStarts = expandRecurrence(parseRecurrenceRule(seriesData.recurrenceRule), event.startDate);
+      if (occurrenceStarts.length < 2) {
+        return res.status(400).json({ message: "The recurrence rule produces no further occurrences" });
+      }
+      if (seriesData.requiredOccurrences && seriesData.requiredOccurrences > occurrenceStarts.length) {
+        return res.status(400).json({
+          message: `The series has only ${occurrenceStarts.length} occurrences`,
+        });
+      }
+      
+      const series = await storage.createEventSeries(eventId, seriesData, occurrenceStarts, req.user.id);
+      
+      await storage.logActivity(
+        req.user.id,
+        "create",
+        { title: series.title, recurrenceRule: series.recurrenceRule, occurrences: occurrenceStarts.length },
+        "event_series",
+        series.id,
+        req.ip,
+        req.headers["user-agent"]
+      );
+      
+      res.status(201).json(await storage.getEventSeriesById(series.id));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Validation error", errors: error.errors });
+      }
+      console.error("Error creating event series:", error);
+      res.status(500).json({ message: "Failed to create event series" });
+    }
+  });
+  
+  app.get(`${apiPrefix}/event-series/:id`, optionalAuthenticateJWT, async (req, res) => {
+    try {
+      const series = await storage.getEventSeriesById(parseInt(req.params.id));
+      if (!series) {
+        return res.status(404).json({ message: "Event series not found" });
+      }
+      
+      const visibility = await getEventVisibility(req);
+      const events = series.events.filter(event => isEventVisible(event, visibility));
+      if (events.length === 0) {
+        return res.status(404).json({ message: "Event series not found" });
+      }
+      
+      res.json({ ...series, events });
+    } catch (error) {
+      console.error("Error getting event series:", error);
+      res.status(500).json({ message: "Failed to get event series" });
+    }
+  });
+  
+  app.put(`${apiPrefix}/event-series/:id`, authenticateJWT, authorize("event:update", resources.seriesEvent()), async (req, res) => {
+    try {
+      const seriesId = parseInt(req.params.id);
+      const seriesData = schema.insertEventSeriesSchema
+        .pick({ title: true, requiredOccurrences: true })
+        .partial()
+        .parse(req.body);
+      
+      const series = await storage.getEventSeriesById(seriesId);
+      const occurrences = series!.events.filter(event => event.status !== "cancelled").length;
+      if (seriesData.requiredOccurrences && seriesData.requiredOccurrences > occurrences) {
+        return res.status(400).json({ message: `The series has only ${occurrences} occurrences` });
+      }
+      
+      const updatedSeries = await storage.updateEventSeries(seriesId, seriesData);
+      
+      await storage.logActivity(
+        req.user.id,
+        "update",
+        { title: updatedSeries.title, requiredOccurrences: updatedSeries.requiredOccurrences },
+        "event_series",
+        seriesId,
+        req.ip,
+        req.headers["user-agent"]
+      );
+      
+      res.json(updatedSeries);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Validation error", errors: error.errors });
+      }
+      console.error("Error updating event series:", error);
+      res.status(500).json({ message: "Failed to update event series" });
+    }
+  });
+  
+  // Issues the series certificate to everyone who completed enough occurrences
+  app.post(`${apiPrefix}/event-series/:id/certificates/issue`, authenticateJWT, authorize("certificate:issue", resources.seriesEvent()), async (req, res) => {
+    try {
+      const seriesId = parseInt(req.params.id);
+      const series = await storage.getEventSeriesById(seriesId);
+      
+      if (!series!.requiredOccurrences) {
+        return res.status(400).json({ message: "The series has no certificate" });
+      }
+      
+      const report = await issueSeriesCertificates(seriesId, req.user.id);
+      
+      await storage.logActivity(
+        req.user.id,
+        "generate_certificate",
+        { bulk: true, summary: report.summary },
+        "event_series",
+        seriesId,
+        req.ip,
+        req.headers["user-agent"]
+      );
+      
+      res.status(201).json(report);
+    } catch (error) {
+      console.error("Error issuing series certificates:", error);
+      res.status(500).json({ message: "Failed to issue series certificates" });
+    }
+  });
+  
+  // Event Registration routes
+  app.post(`${apiPrefix}/events/:id/register`, authenticateJWT, checkPermission("event:register"), async (req, res) => {
+    try {
+      const eventId = parseInt(req.params.id);
+      const userId = req.user.id;
+      
+      const event = await storage.getEventById(eventId);
+      if (!event || !isEventVisible(event, await getEventVisibility(req))) {
+        return res.status(404).json({ message: "Event not found" });
+      }
+      
+      if (!["upcoming", "active"].includes(event.status)) {
+        return res.status(409).json({ message: "Registration is not open for this event" });
+      }
+      
+      // Answers are checked against the event's own registration form
+      const answers = event.registrationForm.length > 0
+        ? buildRegistrationAnswersSchema(event.registrationForm).parse(req.body.answers ?? {})
+        : null;
+      
+      const registrationData = {
+        eventId,
+        userId,
+        notes: req.body.notes,
+        answers,
+      };
+      
+      const registration = await storage.registerForEvent(registrationData);
+      
+      // Log the activity
+      await storage.logActivity(
+        req.user.id,
+        "create",
+        { eventId, status: registration.status },
+        "event_registration",
+        registration.id,
+        req.ip,
+        req.headers["user-agent"]
+      );
+      
+      // If registration status is approved, create notification for user
+      if (registration.status === "approved") {
+        const event = await storage.getEventById(eventId);
+        await storage.createNotification(
+          userId,
+          "Registration Approved",
+          `Your registration for ${event?.title} has been approved.`,
+          `/events/${eventId}`
+        );
+      } else if (registration.status === "waitlisted") {
+        const event = await storage.getEventById(eventId);
+        await storage.createNotification(
+          userId,
+          "Added to Waitlist",
+          `${event?.title} is full. You are number ${registration.waitlistPosition} on the waitlist and will be notified when a seat becomes available.`,
+          `/events/${eventId}`
+        );
+      }
+      
+      res.status(201).json(registration);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Validation error", errors: error.errors });
+      }
+      if (error instanceof RegistrationIneligibleError) {
+        return res.status(403).json({ message: error.message, reasons: error.issues });
       }
+      console.error("Error registering for event:", error);
+      res.status(500).json({ message: error instanceof Error ? error.message : "Failed to register for event" });
+    }
+  });
+  
+  app.get(`${apiPrefix}/events/:id/my-registration`, authenticateJWT, async (req, res) => {
+    try {
+      const eventId = parseInt(req.params.id);
+      
+      const registration = await storage.getUserRegistration(eventId, req.user.id);
+      res.json(registration ?? null);
+    } catch (error) {
+      console.error("Error getting registration:", error);
+      res.status(500).json({ message: "Failed to get registration" });
+    }
+  });
+  
+  app.get(`${apiPrefix}/events/:id/waitlist`, authenticateJWT, authorize("registration:read", resources.event()), async (req, res) => {
+    try {
+      const eventId = parseInt(req.params.id);
+      
+      const waitlist = await storage.getWaitlist(eventId);
+      res.json(waitlist);
+    } catch (error) {
+      console.error("Error getting waitlist:", error);
+      res.status(500).json({ message: "Failed to get waitlist" });
+    }
+  });
+  
+  app.get(`${apiPrefix}/events/:id/registrations`, authenticateJWT, authorize("registration:read", resources.event()), async (req, res) => {
+    try {
+      const eventId = parseInt(req.params.id);
+      const page = parseInt(req.query.page as string) || 1;
+      const limit = parseInt(req.query.limit as string) || 10;
+      const search = (req.query.search as string) || "";
+      const status = (req.query.status as string) || "";
+      
+      const registrantScope = getRegistrantScope(res.locals.subject, res.locals.resource);
+      
+      const result = await storage.getEventRegistrations(eventId, page, limit, search, status, registrantScope);
+      res.json(result);
+    } catch (error) {
+      console.error("Error getting event registrations:", error);
+      res.status(500).json({ message: "Failed to get event registrations" });
+    }
+  });
+  
+  // Registrations with the answers to the event's registration form as CSV
+  app.get(`${apiPrefix}/events/:id/registrations/export`, authenticateJWT, authorize("registration:read", resources.event()), async (req, res) => {
+    try {
+      const event: schema.Event = res.locals.resource;
+      const registrantScope = getRegistrantScope(res.locals.subject, event);
+      
+      const registrations = await storage.getEventRegistrationsForExport(event.id, registrantScope);
       
-      const userData = req.body;
-      const updatedUser = await storage.updateUser(userId, userData);
+      const header = [
+        "Full Name",
+        "Email",
+        "Organization",
+        "Position",
+        "Status",
+        "Registration Date",
+        "Attendance Confirmed",
+        "Notes",
+        ...event.registrationForm.map(field => field.label),
+      ];
+      
+      const rows = registrations.map(registration => [
+        registration.user.fullName,
+        registration.user.email,
+        registration.user.organization,
+        registration.user.position,
+        registration.status,
+        registration.registrationDate,
+        registration.attendanceConfirmed ? "Yes" : "No",
+        registration.notes,
+        ...event.registrationForm.map(field => formatRegistrationAnswer(registration.answers?.[field.id])),
+      ]);
       
       // Log the activity
       await storage.logActivity(
         req.user.id,
-        "update",
-        { updated: true },
-        "user",
-        userId,
+        "download",
+        { export: "registrations", count: registrations.length },
+        "event",
+        event.id,
         req.ip,
         req.headers["user-agent"]
       );
       
-      res.json(updatedUser);
+      res.setHeader("Content-Type", "text/csv; charset=utf-8");
+      res.setHeader("Content-Disposition", `attachment; filename="event-${event.id}-registrations.csv"`);
+      res.send(toCsv(header, rows));
     } catch (error) {
-      console.error("Error updating user:", error);
-      res.status(500).json({ message: "Failed to update user" });
+      console.error("Error exporting event registrations:", error);
+      res.status(500).json({ message: "Failed to export event registrations" });
     }
   });
   
-  // Permissions routes
-  app.get(`${apiPrefix}/permissions`, authenticateJWT, checkPermission("role:manage"), async (req, res) => {
-    try {
-      const permissions = await storage.getAllPermissions();
-      res.json(permissions);
-    } catch (error) {
-      console.error("Error getting permissions:", error);
-      res.status(500).json({ message: "Failed to get permissions" });
+  // Pre-registers a CSV list of people by email. Unknown addresses are
+  // invited when the caller may create users; every row gets a result.
+  app.post(
+    `${apiPrefix}/events/:id/registrations/import`,
+    authenticateJWT,
+    authorize("event:approve", resources.event()),
+    (req, res, next) => {
+      // Report rejected files as bad requests rather than server errors
+      csvUpload.single("file")(req, res, (error: any) => {
+        if (error) {
+          return res.status(400).json({ message: error.message });
+        }
+        next();
+      });
+    },
+    async (req, res) => {
+      try {
+        const event: schema.Event = res.locals.resource;
+        const subject: PolicySubject = res.locals.subject;
+        const file = req.file;
+        
+        if (!file) {
+          return res.status(400).json({ message: "No file uploaded" });
+        }
+        
+        const [header, ...lines] = parseCsv(file.buffer.toString("utf8"));
+        const columns = (header ?? []).map(cell =>
+          REGISTRATION_IMPORT_COLUMNS[cell.trim().toLowerCase().replace(/[\s_-]/g, "")]
+        );
+        
+        if (!columns.includes("email")) {
+          return res.status(400).json({ message: "The file must have an email column" });
+        }
+        
+        if (lines.length > REGISTRATION_IMPORT_MAX_ROWS) {
+          return res.status(400).json({ message: `Imports are limited to ${REGISTRATION_IMPORT_MAX_ROWS} rows` });
+        }
+        
+        const canInvite = subject.role === "super_admin" || subject.permissions.includes("user:create");
+        const approve = req.body.approve === "true";
+        const seenEmails = new Set<string>();
+        const results: RegistrationImportResult[] = [];
+        const registeredUserIds: number[] = [];
+        const invitations: { email: string; token: string }[] = [];
+        
+        for (let index = 0; index < lines.length; index++) {
+          const line = lines[index];
+          const values: Partial<Record<"email" | "fullName" | "position" | "notes", string>> = {};
+          columns.forEach((column, i) => {
+            if (column && line[i]?.trim()) values[column] = line[i].trim();
+          });
+          
+          const email = values.email ?? "";
+          const result: RegistrationImportResult = { row: index + 2, email, outcome: "failed" };
+          results.push(result);
+          
+          if (!z.string().email().safeParse(email).success) {
+            result.message = "Invalid email address";
+            continue;
+          }
+          
+          if (seenEmails.has(email.toLowerCase())) {
+            result.outcome = "skipped";
+            result.message = "Listed earlier in the file";
+            continue;
+          }
+          seenEmails.add(email.toLowerCase());
+          
+          try {
+            const user = await storage.getUserByEmail(email);
+            let userId = user?.id;
+            let invitationToken: string | null = null;
+            
+            if (!userId) {
+              if (!canInvite) {
+                result.message = "No account uses this email address";
+                continue;
+              }
+              if (!values.fullName) {
+                result.message = "A full name is required to invite a new user";
+                continue;
+              }
+              
+              const invitation = await storage.inviteUser({
+                email,
+                fullName: values.fullName,
+                position: values.position,
+              });
+              userId = invitation.user.id;
+              invitationToken = invitation.invitationToken;
+            }
+            
+            let registration = await storage.registerForEvent({
+              eventId: event.id,
+              userId,
+              notes: values.notes,
+              answers: null,
+            });
+            
+            // Beyond the free seats the registration stays pending for the organizer to decide
+            if (approve && registration.status === "pending") {
+              try {
+                registration = await storage.updateRegistrationStatus(registration.id, "approved", values.notes);
+              } catch (error) {
+                if (!(error instanceof RegistrationApprovalError)) throw error;
+                result.message = `Not approved: ${error.message}`;
+              }
+            }
+            
+            result.outcome = invitationToken ? "invited" : "registered";
+            result.registrationStatus = registration.status;
+            registeredUserIds.push(userId);
+            if (invitationToken) {
+              invitations.push({ email, token: invitationToken });
+            }
+          } catch (error) {
+            if (error instanceof RegistrationIneligibleError) {
+              result.outcome = error.issues.some(issue => issue.rule === "registered") ? "skipped" : "failed";
+              result.message = error.issues.map(issue => issue.message).join(". ");
+              result.reasons = error.issues;
+              continue;
+            }
+            console.error(`Error importing registration row ${result.row}:`, error);
+            result.message = "Failed to register";
+          }
+        }
+        
+        // Invitations are best effort; the organizer can re-send one through a password reset
+        for (const invitation of invitations) {
+          try {
+            await sendInvitationEmail(req, invitation.email, invitation.token, event);
+          } catch (emailError) {
+            console.error("Email sending failed:", emailError);
+          }
+        }
+        
+        await storage.createNotifications(registeredUserIds.map(userId => ({
+          userId,
+          title: "Registered for Event",
+          message: `The organizers of ${event.title} have registered you.`,
+          link: `/events/${event.id}`,
+        })));
+        
+        const summary = {
+          total: results.length,
+          registered: results.filter(result => result.outcome === "registered").length,
+          invited: results.filter(result => result.outcome === "invited").length,
+          skipped: results.filter(result => result.outcome === "skipped").length,
+          failed: results.filter(result => result.outcome === "failed").length,
+        };
+        
+        // Log the activity
+        await storage.logActivity(
+          req.user.id,
+          "create",
+          { import: "registrations", filename: file.originalname, ...summary },
+          "event",
+          event.id,
+          req.ip,
+          req.headers["user-agent"]
+        );
+        
+        res.json({ summary, results });
+      } catch (error) {
+        console.error("Error importing event registrations:", error);
+        res.status(500).json({ message: "Failed to import event registrations" });
+      }
     }
-  });
+  );
   
-  app.get(`${apiPrefix}/users/:id/permissions`, authenticateJWT, checkPermission("role:manage"), async (req, res) => {
+  // Approves or rejects many registrations of an event at once, with a shared
+  // reason or one per registration
+  app.post(`${apiPrefix}/events/:id/registrations/status`, authenticateJWT, authorize("event:approve", resources.event()), async (req, res) => {
     try {
-      const userId = parseInt(req.params.id);
-      const permissions = await storage.getUserPermissions(userId);
-      res.json(permissions);
+      const event: schema.Event = res.locals.resource;
+      const { status, notes, registrations } = batchRegistrationStatusSchema.parse(req.body);
+      
+      const { updated, skipped } = await storage.updateRegistrationStatuses(event.id, status, registrations, notes);
+      
+      // Log the activity
+      await storage.logActivity(
+        req.user.id,
+        "update",
+        {
+          status,
+          registrations: updated.map(registration => ({ id: registration.id, notes: registration.notes })),
+          skipped,
+        },
+        "event",
+        event.id,
+        req.ip,
+        req.headers["user-agent"]
+      );
+      
+      await storage.createNotifications(updated.map(registration => ({
+        userId: registration.userId,
+        title: `Registration ${status === "approved" ? "Approved" : "Rejected"}`,
+        message: `Your registration for ${event.title} has been ${status === "approved" ? "approved" : "rejected"}.` +
+          (status === "rejected" && registration.notes ? ` Reason: ${registration.notes}` : ""),
+        link: `/events/${event.id}`,
+      })));
+      
+      // Rejections may have freed seats
+      if (status === "rejected" && updated.length > 0) {
+        await promoteWaitlist(event.id);
+      }
+      
+      res.json({ updated, skipped });
     } catch (error) {
-      console.error("Error getting user permissions:", error);
-      res.status(500).json({ message: "Failed to get user permissions" });
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Validation error", errors: error.errors });
+      }
+      console.error("Error updating registration statuses:", error);
+      res.status(500).json({ message: "Failed to update registration statuses" });
     }
   });
   
-  app.put(`${apiPrefix}/users/:id/permissions`, authenticateJWT, checkPermission("role:manage"), async (req, res) => {
+  app.put(`${apiPrefix}/registrations/:id/status`, authenticateJWT, authorize("registration:update", resources.registration()), async (req, res) => {
     try {
-      const userId = parseInt(req.params.id);
-      const { permissionIds } = req.body;
+      const registrationId = parseInt(req.params.id);
+      const { status, notes } = req.body;
+      
+      if (!["approved", "rejected"].includes(status)) {
+        return res.status(400).json({ message: "Invalid status" });
+      }
       
-      if (!Array.isArray(permissionIds)) {
-        return res.status(400).json({ message: "permissionIds must be an array" });
+      if (res.locals.resource.status === "cancelled") {
+        return res.status(409).json({ message: "Cancelled registrations cannot be updated" });
       }
       
-      const permissions = await storage.updateUserPermissions(userId, permissionIds);
+      const updatedRegistration = await storage.updateRegistrationStatus(
+        registrationId,
+        status as "approved" | "rejected",
+        notes
+      );
       
       // Log the activity
       await storage.logActivity(
         req.user.id,
         "update",
-        { permissionIds },
-        "user_permissions",
-        userId,
+        { status, notes },
+        "event_registration",
+        registrationId,
         req.ip,
         req.headers["user-agent"]
       );
       
-      res.json(permissions);
-    } catch (error) {
-      console.error("Error updating user permissions:", error);
-      res.status(500).json({ message: "Failed to update user permissions" });
-    }
-  });
-  
-  // Event routes
-  app.get(`${apiPrefix}/events`, async (req, res) => {
-    try {
-      const page = parseInt(req.query.page as string) || 1;
-      const limit = parseInt(req.query.limit as string) || 10;
-      const search = (req.query.search as string) || "";
+      // Create notification for user
+      const event = await storage.getEventById(updatedRegistration.eventId);
+      await storage.createNotification(
+        updatedRegistration.userId,
+        `Registration ${status === "approved" ? "Approved" : "Rejected"}`,
+        `Your registration for ${event?.title} has been ${status === "approved" ? "approved" : "rejected"}.`,
+        `/events/${updatedRegistration.eventId}`
+      );
       
-      const filters = {
-        type: req.query.type as string,
-        status: req.query.status as string,
-        location: req.query.location as string,
-        level: req.query.level as string,
-        startDate: req.query.startDate as string,
-        endDate: req.query.endDate as string,
-      };
+      // A rejection may have freed a seat
+      await promoteWaitlist(updatedRegistration.eventId);
       
-      const result = await storage.getAllEvents(page, limit, search, filters);
-      res.json(result);
+      res.json(updatedRegistration);
     } catch (error) {
-      console.error("Error getting events:", error);
-      res.status(500).json({ message: "Failed to get events" });
+      if (error instanceof RegistrationApprovalError) {
+        return res.status(409).json({ message: error.message, code: error.code });
+      }
+      console.error("Error updating registration status:", error);
+      res.status(500).json({ message: "Failed to update registration status" });
     }
   });
   
-  app.get(`${apiPrefix}/events/:id`, async (req, res) => {
+  // Participants accept the seat offered to them from the waitlist
+  app.post(`${apiPrefix}/registrations/:id/waitlist/confirm`, authenticateJWT, async (req, res) => {
     try {
-      const eventId = parseInt(req.params.id);
-      const event = await storage.getEventById(eventId);
+      const registrationId = parseInt(req.params.id);
       
-      if (!event) {
-        return res.status(404).json({ message: "Event not found" });
+      const registration = await storage.getRegistrationById(registrationId);
+      if (!registration || registration.userId !== req.user.id) {
+        return res.status(404).json({ message: "Registration not found" });
       }
       
-      res.json(event);
+      const confirmedRegistration = await storage.confirmWaitlistOffer(registrationId);
+      if (!confirmedRegistration) {
+        return res.status(409).json({ message: "There is no open seat offer for this registration" });
+      }
+      
+      // Log the activity
+      await storage.logActivity(
+        req.user.id,
+        "update",
+        { status: "approved", fromWaitlist: true },
+        "event_registration",
+        registrationId,
+        req.ip,
+        req.headers["user-agent"]
+      );
+      
+      await storage.createNotification(
+        req.user.id,
+        "Registration Approved",
+        `Your seat for ${registration.event.title} is confirmed.`,
+        `/events/${registration.eventId}`
+      );
+      
+      res.json(confirmedRegistration);
     } catch (error) {
-      console.error("Error getting event:", error);
-      res.status(500).json({ message: "Failed to get event" });
+      console.error("Error confirming waitlist offer:", error);
+      res.status(500).json({ message: "Failed to confirm waitlist offer" });
     }
   });
   
-  app.post(`${apiPrefix}/events`, authenticateJWT, checkPermission("event:create"), async (req, res) => {
+  // Organizers reorder the waitlist queue
+  app.put(`${apiPrefix}/registrations/:id/waitlist-position`, authenticateJWT, authorize("registration:update", resources.registration()), async (req, res) => {
     try {
-      const eventData = schema.insertEventSchema.parse({
-        ...req.body,
-        createdById: req.user.id,
-      });
+      const registrationId = parseInt(req.params.id);
+      const { position } = z.object({ position: z.number().int().positive() }).parse(req.body);
       
-      const event = await storage.createEvent(eventData);
+      const registration = await storage.moveWaitlistEntry(registrationId, position);
+      if (!registration) {
+        return res.status(400).json({ message: "Registration is not on the waitlist" });
+      }
       
       // Log the activity
       await storage.logActivity(
         req.user.id,
-        "create",
-        { title: event.title },
-        "event",
-        event.id,
+        "update",
+        { waitlistPosition: position },
+        "event_registration",
+        registrationId,
         req.ip,
         req.headers["user-agent"]
       );
       
-      res.status(201).json(event);
+      res.json({ message: "Waitlist updated" });
     } catch (error) {
       if (error instanceof z.ZodError) {
         return res.status(400).json({ message: "Validation error", errors: error.errors });
       }
-      console.error("Error creating event:", error);
-      res.status(500).json({ message: "Failed to create event" });
+      console.error("Error moving waitlist entry:", error);
+      res.status(500).json({ message: "Failed to update waitlist" });
     }
   });
   
-  app.put(`${apiPrefix}/events/:id`, authenticateJWT, checkPermission("event:update"), async (req, res) => {
+  // Participants cancel their own registration before the event's cutoff;
+  // organizers and managers may cancel at any time
+  app.post(`${apiPrefix}/registrations/:id/cancel`, authenticateJWT, authorize("registration:cancel", resources.registration()), async (req, res) => {
     try {
-      const eventId = parseInt(req.params.id);
-      const eventData = req.body;
+      const subject: PolicySubject = res.locals.subject;
+      const registration = res.locals.resource;
+      const { reason } = z.object({ reason: z.string().trim().max(500).optional() }).parse(req.body ?? {});
       
-      // Check if event exists
-      const existingEvent = await storage.getEventById(eventId);
-      if (!existingEvent) {
-        return res.status(404).json({ message: "Event not found" });
+      if (!["pending", "approved", "waitlisted"].includes(registration.status)) {
+        return res.status(409).json({ message: "Only active registrations can be cancelled" });
       }
       
-      // Only allow update if user is the creator or has special permissions
-      if (
-        existingEvent.createdById !== req.user.id &&
-        !["super_admin", "ministry_manager"].includes(req.user.role)
-      ) {
-        return res.status(403).json({ message: "Permission denied" });
+      if (registration.attendanceConfirmed) {
+        return res.status(409).json({ message: "Registrations with confirmed attendance cannot be cancelled" });
       }
       
-      // If status is changed to "published", check for publish permission
-      if (
-        eventData.status === "active" &&
-        existingEvent.status !== "active" &&
-        !req.user.permissions.includes("event:publish")
-      ) {
-        return res.status(403).json({ message: "Permission denied for publishing events" });
+      const cutoff = new Date(registration.event.startDate);
+      cutoff.setHours(cutoff.getHours() - registration.event.cancellationCutoffHours);
+      
+      if (new Date() > cutoff && !can(subject, "registration:update", registration)) {
+        return res.status(403).json({
+          message: `Registrations can no longer be cancelled less than ${registration.event.cancellationCutoffHours} hours before the event starts`,
+        });
+      }
+      
+      const result = await storage.cancelRegistration(registration.id, req.user.id, reason);
+      if (!result) {
+        return res.status(404).json({ message: "Registration not found" });
       }
       
-      const updatedEvent = await storage.updateEvent(eventId, eventData);
+      for (const certificate of result.revokedCertificates) {
+        await removeCachedCertificatePdfs(certificate.id);
+      }
       
       // Log the activity
       await storage.logActivity(
         req.user.id,
-        "update",
-        { title: updatedEvent.title, status: updatedEvent.status },
-        "event",
-        eventId,
+        "cancel_registration",
+        { reason, revokedCertificates: result.revokedCertificates.map(certificate => certificate.id) },
+        "event_registration",
+        registration.id,
         req.ip,
         req.headers["user-agent"]
       );
       
-      res.json(updatedEvent);
+      if (registration.userId !== req.user.id) {
+        await storage.createNotification(
+          registration.userId,
+          "Registration Cancelled",
+          `Your registration for ${registration.event.title} has been cancelled.${reason ? ` Reason: ${reason}` : ""}`,
+          `/events/${registration.eventId}`
+        );
+      }
+      
+      // The cancelled seat goes to the waitlist
+      await promoteWaitlist(registration.eventId);
+      
+      res.json(result.registration);
     } catch (error) {
-      console.error("Error updating event:", error);
-      res.status(500).json({ message: "Failed to update event" });
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Validation error", errors: error.errors });
+      }
+      console.error("Error cancelling registration:", error);
+      res.status(500).json({ message: "Failed to cancel registration" });
     }
   });
   
-  app.delete(`${apiPrefix}/events/:id`, authenticateJWT, checkPermission("event:delete"), async (req, res) => {
+  // Managers substitute another participant from the same organization
+  app.post(`${apiPrefix}/registrations/:id/transfer`, authenticateJWT, authorize("registration:transfer", resources.registration()), async (req, res) => {
     try {
-      const eventId = parseInt(req.params.id);
+      const registration = res.locals.resource;
+      const { userId, reason } = z.object({
+        userId: z.number().int().positive(),
+        reason: z.string().trim().max(500).optional(),
+      }).parse(req.body);
       
-      // Check if event exists
-      const existingEvent = await storage.getEventById(eventId);
-      if (!existingEvent) {
-        return res.status(404).json({ message: "Event not found" });
+      if (!["pending", "approved", "waitlisted"].includes(registration.status)) {
+        return res.status(409).json({ message: "Only active registrations can be transferred" });
       }
       
-      // Only allow deletion if user is the creator or has special permissions
-      if (
-        existingEvent.createdById !== req.user.id &&
-        !["super_admin", "ministry_manager"].includes(req.user.role)
-      ) {
-        return res.status(403).json({ message: "Permission denied" });
+      if (registration.attendanceConfirmed || registration.certificates.length > 0) {
+        return res.status(409).json({ message: "Registrations with confirmed attendance or a certificate cannot be transferred" });
+      }
+      
+      if (userId === registration.userId) {
+        return res.status(400).json({ message: "The registration already belongs to this user" });
+      }
+      
+      const targetUser = await storage.getUserById(userId);
+      if (!targetUser) {
+        return res.status(404).json({ message: "User not found" });
+      }
+      
+      if (registration.user.organizationId === null || targetUser.organizationId !== registration.user.organizationId) {
+        return res.status(400).json({ message: "Registrations can only be transferred within the same organization" });
       }
       
-      const deletedEvent = await storage.deleteEvent(eventId);
+      const reasons = await storage.checkRegistrationEligibility(registration.eventId, userId, {
+        replacingRegistrationId: registration.id,
+      });
+      if (reasons.length > 0) {
+        return res.status(400).json({ message: "The user is not eligible for this event", reasons });
+      }
+      
+      const transferredRegistration = await storage.transferRegistration(registration.id, userId, req.user.id, reason);
       
       // Log the activity
       await storage.logActivity(
         req.user.id,
-        "delete",
-        { title: deletedEvent.title },
-        "event",
-        eventId,
+        "transfer_registration",
+        { fromUserId: registration.userId, toUserId: userId, reason },
+        "event_registration",
+        registration.id,
         req.ip,
         req.headers["user-agent"]
       );
       
-      res.json({ message: "Event deleted successfully" });
+      await storage.createNotification(
+        registration.userId,
+        "Registration Transferred",
+        `Your registration for ${registration.event.title} has been transferred to ${targetUser.fullName}.`,
+        `/events/${registration.eventId}`
+      );
+      
+      await storage.createNotification(
+        userId,
+        "Registration Transferred To You",
+        `A registration for ${registration.event.title} has been transferred to you.`,
+        `/events/${registration.eventId}`
+      );
+      
+      res.json(transferredRegistration);
     } catch (error) {
-      console.error("Error deleting event:", error);
-      res.status(500).json({ message: "Failed to delete event" });
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Validation error", errors: error.errors });
+      }
+      console.error("Error transferring registration:", error);
+      res.status(500).json({ message: "Failed to transfer registration" });
     }
   });
   
-  // Event Registration routes
-  app.post(`${apiPrefix}/events/:id/register`, authenticateJWT, checkPermission("event:register"), async (req, res) => {
+  app.put(`${apiPrefix}/registrations/:id/confirm-attendance`, authenticateJWT, authorize("registration:update", resources.registration()), async (req, res) => {
     try {
-      const eventId = parseInt(req.params.id);
-      const userId = req.user.id;
-      
-      const registrationData = {
-        eventId,
-        userId,
-        ...req.body,
-      };
+      const registrationId = parseInt(req.params.id);
       
-      const registration = await storage.registerForEvent(registrationData);
+      const updatedRegistration = await storage.confirmAttendance(registrationId);
       
       // Log the activity
       await storage.logActivity(
         req.user.id,
-        "create",
-        { eventId, status: registration.status },
+        "update",
+        { attendanceConfirmed: true },
         "event_registration",
-        registration.id,
+        registrationId,
         req.ip,
         req.headers["user-agent"]
       );
       
-      // If registration status is approved, create notification for user
-      if (registration.status === "approved") {
-        const event = await storage.getEventById(eventId);
-        await storage.createNotification(
-          userId,
-          "Registration Approved",
-          `Your registration for ${event?.title} has been approved.`,
-          `/events/${eventId}`
-        );
-      }
-      
-      res.status(201).json(registration);
+      res.json(updatedRegistration);
     } catch (error) {
-      console.error("Error registering for event:", error);
-      res.status(500).json({ message: error instanceof Error ? error.message : "Failed to register for event" });
+      console.error("Error confirming attendance:", error);
+      res.status(500).json({ message: "Failed to confirm attendance" });
     }
   });
   
-  app.get(`${apiPrefix}/events/:id/registrations`, authenticateJWT, async (req, res) => {
+  // Participants show the signed QR ticket of an approved registration at the door
+  app.get(`${apiPrefix}/registrations/:id/ticket`, authenticateJWT, async (req, res) => {
     try {
-      const eventId = parseInt(req.params.id);
-      const page = parseInt(req.query.page as string) || 1;
-      const limit = parseInt(req.query.limit as string) || 10;
-      const search = (req.query.search as string) || "";
-      const status = (req.query.status as string) || "";
-      
-      // Check if user has permission or is the event creator
-      const event = await storage.getEventById(eventId);
-      if (!event) {
-        return res.status(404).json({ message: "Event not found" });
-      }
+      const registrationId = parseInt(req.params.id);
       
+      const registration = await storage.getRegistrationById(registrationId);
       if (
-        event.createdById !== req.user.id &&
-        !req.user.permissions.includes("event:approve") &&
-        !["super_admin", "ministry_manager", "province_manager"].includes(req.user.role)
+        !registration ||
+        (registration.userId !== req.user.id && !can(await getPolicySubject(req), "registration:update", registration))
       ) {
-        return res.status(403).json({ message: "Permission denied" });
+        return res.status(404).json({ message: "Registration not found" });
       }
       
-      const result = await storage.getEventRegistrations(eventId, page, limit, search, status);
-      res.json(result);
+      if (registration.status !== "approved") {
+        return res.status(409).json({ message: "Tickets are only issued for approved registrations" });
+      }
+      
+      const code = createTicketCode({ registrationId: registration.id, userId: registration.userId });
+      const qrCode = await QRCode.toDataURL(code, { margin: 1, width: 240 });
+      
+      res.json({
+        registrationId: registration.id,
+        code,
+        qrCode,
+        event: {
+          id: registration.event.id,
+          title: registration.event.title,
+          startDate: registration.event.startDate,
+          location: registration.event.location,
+        },
+      });
     } catch (error) {
-      console.error("Error getting event registrations:", error);
-      res.status(500).json({ message: "Failed to get event registrations" });
+      console.error("Error getting ticket:", error);
+      res.status(500).json({ message: "Failed to get ticket" });
     }
   });
   
-  app.put(`${apiPrefix}/registrations/:id/status`, authenticateJWT, checkPermission("event:approve"), async (req, res) => {
+  // Check-in desk: records a scanned or typed ticket against a session
+  app.post(`${apiPrefix}/events/:id/check-in`, authenticateJWT, authorize("event:check_in", resources.event()), async (req, res) => {
     try {
-      const registrationId = parseInt(req.params.id);
-      const { status, notes } = req.body;
+      const eventId = parseInt(req.params.id);
+      const { code, scheduleId, action } = checkInSchema.parse(req.body);
       
-      if (!["approved", "rejected"].includes(status)) {
-        return res.status(400).json({ message: "Invalid status" });
+      const registrationId = readTicketRegistrationId(code);
+      const registration = registrationId ? await storage.getRegistrationById(registrationId) : undefined;
+      if (!registration || !verifyTicketCode(code, { registrationId: registration.id, userId: registration.userId })) {
+        return res.status(400).json({ message: "Invalid ticket code" });
       }
       
-      const updatedRegistration = await storage.updateRegistrationStatus(
-        registrationId,
-        status as "approved" | "rejected",
-        notes
-      );
+      const record = await storage.recordAttendance(eventId, registration.id, scheduleId, action, req.user.id);
+      const attendance = await storage.getAttendanceSummary(registration.id);
       
       // Log the activity
       await storage.logActivity(
         req.user.id,
-        "update",
-        { status, notes },
+        action,
+        { eventId, scheduleId },
         "event_registration",
-        registrationId,
+        registration.id,
         req.ip,
         req.headers["user-agent"]
       );
       
-      // Create notification for user
-      const event = await storage.getEventById(updatedRegistration.eventId);
-      await storage.createNotification(
-        updatedRegistration.userId,
-        `Registration ${status === "approved" ? "Approved" : "Rejected"}`,
-        `Your registration for ${event?.title} has been ${status === "approved" ? "approved" : "rejected"}.`,
-        `/events/${updatedRegistration.eventId}`
-      );
-      
-      res.json(updatedRegistration);
+      res.json({
+        action,
+        record,
+        attendance,
+        participant: {
+          id: registration.user.id,
+          fullName: registration.user.fullName,
+          email: registration.user.email,
+          organization: registration.user.organization,
+          profileImage: registration.user.profileImage,
+        },
+      });
     } catch (error) {
-      console.error("Error updating registration status:", error);
-      res.status(500).json({ message: "Failed to update registration status" });
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Validation error", errors: error.errors });
+      }
+      if (error instanceof AttendanceError) {
+        return res.status(error.code === "not_found" ? 404 : 409).json({ message: error.message, code: error.code });
+      }
+      console.error("Error checking in:", error);
+      res.status(500).json({ message: "Failed to record attendance" });
     }
   });
   
-  app.put(`${apiPrefix}/registrations/:id/confirm-attendance`, authenticateJWT, checkPermission("event:approve"), async (req, res) => {
+  // Everything a check-in device needs to validate tickets while offline
+  app.get(`${apiPrefix}/events/:id/check-in/roster`, authenticateJWT, authorize("event:check_in", resources.event()), async (req, res) => {
     try {
-      const registrationId = parseInt(req.params.id);
+      const event: schema.Event = res.locals.resource;
       
-      const updatedRegistration = await storage.confirmAttendance(registrationId);
+      const { sessions, registrations } = await storage.getEventAttendance(event.id);
       
       // Log the activity
       await storage.logActivity(
         req.user.id,
-        "update",
-        { attendanceConfirmed: true },
-        "event_registration",
-        registrationId,
+        "download",
+        { export: "check_in_roster", count: registrations.length },
+        "event",
+        event.id,
         req.ip,
         req.headers["user-agent"]
       );
       
-      res.json(updatedRegistration);
+      res.json({
+        eventId: event.id,
+        title: event.title,
+        generatedAt: new Date(),
+        sessions,
+        registrations: registrations.map(registration => ({
+          id: registration.id,
+          ticketCode: createTicketCode({ registrationId: registration.id, userId: registration.user.id }),
+          user: registration.user,
+          attendanceRecords: registration.attendanceRecords,
+        })),
+      });
     } catch (error) {
-      console.error("Error confirming attendance:", error);
-      res.status(500).json({ message: "Failed to confirm attendance" });
+      console.error("Error getting check-in roster:", error);
+      res.status(500).json({ message: "Failed to get check-in roster" });
     }
   });
   
-  // Event Schedule routes
-  app.post(`${apiPrefix}/events/:id/schedules`, authenticateJWT, checkPermission("event:update"), async (req, res) => {
+  // Offline check-in devices upload their queued scans; each one is applied
+  // in the order it was scanned and reported back by its client id
+  app.post(`${apiPrefix}/events/:id/check-in/sync`, authenticateJWT, authorize("event:check_in", resources.event()), async (req, res) => {
     try {
       const eventId = parseInt(req.params.id);
+      const { scans } = checkInSyncSchema.parse(req.body);
+      const now = new Date();
       
-      // Check if event exists and user has permission
-      const event = await storage.getEventById(eventId);
-      if (!event) {
-        return res.status(404).json({ message: "Event not found" });
+      const results: {
+        clientId: string;
+        registrationId: number | null;
+        status: "applied" | "duplicate" | "rejected";
+        code?: string;
+        message?: string;
+      }[] = [];
+      
+      for (const scan of [...scans].sort((a, b) => a.scannedAt.getTime() - b.scannedAt.getTime())) {
+        const registrationId = readTicketRegistrationId(scan.code);
+        const registration = registrationId ? await storage.getRegistrationById(registrationId) : undefined;
+        
+        // Tickets of a transferred registration no longer admit their previous holder
+        if (!registration || !verifyTicketCode(scan.code, { registrationId: registration.id, userId: registration.userId })) {
+          results.push({ clientId: scan.clientId, registrationId: null, status: "rejected", message: "Invalid ticket code" });
+          continue;
+        }
+        
+        try {
+          // Device clocks running ahead cannot record attendance in the future
+          const scannedAt = scan.scannedAt > now ? now : scan.scannedAt;
+          await storage.recordAttendance(eventId, registration.id, scan.scheduleId, scan.action, req.user.id, scannedAt);
+          results.push({ clientId: scan.clientId, registrationId: registration.id, status: "applied" });
+        } catch (error) {
+          if (!(error instanceof AttendanceError)) throw error;
+          results.push({
+            clientId: scan.clientId,
+            registrationId: registration.id,
+            status: DUPLICATE_SCAN_CODES.includes(error.code) ? "duplicate" : "rejected",
+            code: error.code,
+            message: error.message,
+          });
+        }
       }
       
-      if (
-        event.createdById !== req.user.id &&
-        !["super_admin", "ministry_manager"].includes(req.user.role)
-      ) {
-        return res.status(403).json({ message: "Permission denied" });
+      const summary = {
+        applied: results.filter(result => result.status === "applied").length,
+        duplicate: results.filter(result => result.status === "duplicate").length,
+        rejected: results.filter(result => result.status === "rejected").length,
+      };
+      
+      // Log the activity
+      await storage.logActivity(
+        req.user.id,
+        "check_in",
+        { sync: true, ...summary },
+        "event",
+        eventId,
+        req.ip,
+        req.headers["user-agent"]
+      );
+      
+      res.json({ summary, results });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Validation error", errors: error.errors });
       }
+      console.error("Error syncing check-ins:", error);
+      res.status(500).json({ message: "Failed to sync check-ins" });
+    }
+  });
+  
+  app.get(`${apiPrefix}/events/:id/attendance`, authenticateJWT, authorize("event:check_in", resources.event()), async (req, res) => {
+    try {
+      const event: schema.Event = res.locals.resource;
+      
+      const attendance = await storage.getEventAttendance(event.id);
+      res.json({ ...attendance, minAttendancePercent: event.minAttendancePercent });
+    } catch (error) {
+      console.error("Error getting attendance:", error);
+      res.status(500).json({ message: "Failed to get attendance" });
+    }
+  });
+  
+  // Event Schedule routes
+  app.post(`${apiPrefix}/events/:id/schedules`, authenticateJWT, authorize("event:update", resources.event()), async (req, res) => {
+    try {
+      const eventId = parseInt(req.params.id);
       
       const scheduleData = {
         ...req.body,
+        cmeCredits: cmeCreditsSchema.optional().parse(req.body.cmeCredits),
         eventId,
       };
       
@@ -777,15 +3379,23 @@ export async function registerRoutes(app: Express): Promise<Server> {
       
       res.status(201).json(schedule);
     } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Validation error", errors: error.errors });
+      }
       console.error("Error adding event schedule:", error);
       res.status(500).json({ message: "Failed to add event schedule" });
     }
   });
   
-  app.put(`${apiPrefix}/schedules/:id`, authenticateJWT, checkPermission("event:update"), async (req, res) => {
+  app.put(`${apiPrefix}/schedules/:id`, authenticateJWT, authorize("event:update", resources.scheduleEvent()), async (req, res) => {
     try {
       const scheduleId = parseInt(req.params.id);
-      const scheduleData = req.body;
+      // Sessions stay with the event they were authorized against
+      const { id, eventId, ...fields } = req.body;
+      const scheduleData = {
+        ...fields,
+        cmeCredits: cmeCreditsSchema.optional().parse(req.body.cmeCredits),
+      };
       
       const updatedSchedule = await storage.updateEventSchedule(scheduleId, scheduleData);
       
@@ -802,12 +3412,15 @@ export async function registerRoutes(app: Express): Promise<Server> {
       
       res.json(updatedSchedule);
     } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Validation error", errors: error.errors });
+      }
       console.error("Error updating event schedule:", error);
       res.status(500).json({ message: "Failed to update event schedule" });
     }
   });
   
-  app.delete(`${apiPrefix}/schedules/:id`, authenticateJWT, checkPermission("event:update"), async (req, res) => {
+  app.delete(`${apiPrefix}/schedules/:id`, authenticateJWT, authorize("event:update", resources.scheduleEvent()), async (req, res) => {
     try {
       const scheduleId = parseInt(req.params.id);
       
@@ -832,26 +3445,16 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
   
   // Event Speakers routes
-  app.post(`${apiPrefix}/events/:id/speakers`, authenticateJWT, checkPermission("event:update"), async (req, res) => {
+  app.post(`${apiPrefix}/events/:id/speakers`, authenticateJWT, authorize("event:update", resources.event()), async (req, res) => {
     try {
       const eventId = parseInt(req.params.id);
+      const event: schema.Event = res.locals.resource;
       
-      // Check if event exists and user has permission
-      const event = await storage.getEventById(eventId);
-      if (!event) {
-        return res.status(404).json({ message: "Event not found" });
-      }
-      
-      if (
-        event.createdById !== req.user.id &&
-        !["super_admin", "ministry_manager"].includes(req.user.role)
-      ) {
-        return res.status(403).json({ message: "Permission denied" });
-      }
-      
+      // Speakers of a series occurrence are shared by the whole series
       const speakerData = {
         ...req.body,
         eventId,
+        seriesId: event.seriesId,
       };
       
       const speaker = await storage.addEventSpeaker(speakerData);
@@ -874,10 +3477,11 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
   
-  app.put(`${apiPrefix}/speakers/:id`, authenticateJWT, checkPermission("event:update"), async (req, res) => {
+  app.put(`${apiPrefix}/speakers/:id`, authenticateJWT, authorize("event:update", resources.speakerEvent()), async (req, res) => {
     try {
       const speakerId = parseInt(req.params.id);
-      const speakerData = req.body;
+      // Speakers stay with the event and series they were authorized against
+      const { id, eventId, seriesId, ...speakerData } = req.body;
       
       const updatedSpeaker = await storage.updateEventSpeaker(speakerId, speakerData);
       
@@ -899,7 +3503,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
   
-  app.delete(`${apiPrefix}/speakers/:id`, authenticateJWT, checkPermission("event:update"), async (req, res) => {
+  app.delete(`${apiPrefix}/speakers/:id`, authenticateJWT, authorize("event:update", resources.speakerEvent()), async (req, res) => {
     try {
       const speakerId = parseInt(req.params.id);
       
@@ -923,11 +3527,232 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
   
+  // Assessment routes
+  
+  // Organizers see every assessment of the event; participants see the published
+  // ones without the correct answers, with their own attempts
+  app.get(`${apiPrefix}/events/:id/assessments`, authenticateJWT, async (req, res) => {
+    try {
+      const eventId = parseInt(req.params.id);
+      const event = await storage.getEventById(eventId);
+      
+      if (!event || !isEventVisible(event, await getEventVisibility(req))) {
+        return res.status(404).json({ message: "Event not found" });
+      }
+      
+      const canManage = can(await getPolicySubject(req), "event:update", event);
+      const assessments = await storage.getEventAssessments(eventId, !canManage);
+      
+      const registration = await storage.getUserRegistration(eventId, req.user.id);
+      const responses = registration ? await storage.getRegistrationAssessmentResponses(registration.id) : [];
+      
+      res.json(assessments.map(assessment => ({
+        ...assessment,
+        questions: canManage ? assessment.questions : toParticipantQuestions(assessment.questions),
+        isOpen: isAssessmentOpen(assessment.kind, assessment.schedule?.date ?? event.startDate),
+        attempts: responses
+          .filter(response => response.assessmentId === assessment.id)
+          .map(({ answers, ...attempt }) => attempt),
+      })));
+    } catch (error) {
+      console.error("Error getting assessments:", error);
+      res.status(500).json({ message: "Failed to get assessments" });
+    }
+  });
+  
+  app.post(`${apiPrefix}/events/:id/assessments`, authenticateJWT, authorize("event:update", resources.event()), async (req, res) => {
+    try {
+      const event: schema.Event = res.locals.resource;
+      const assessmentData = schema.insertAssessmentSchema.parse(req.body);
+      
+      if (assessmentData.scheduleId) {
+        const schedule = await storage.getEventScheduleById(assessmentData.scheduleId);
+        if (schedule?.eventId !== event.id) {
+          return res.status(400).json({ message: "The session does not belong to this event" });
+        }
+      }
+      
+      const assessment = await storage.createAssessment({
+        ...assessmentData,
+        eventId: event.id,
+        createdById: req.user.id,
+      });
+      
+      // Log the activity
+      await storage.logActivity(
+        req.user.id,
+        "create",
+        { title: assessment.title, kind: assessment.kind },
+        "assessment",
+        assessment.id,
+        req.ip,
+        req.headers["user-agent"]
+      );
+      
+      res.status(201).json(assessment);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Validation error", errors: error.errors });
+      }
+      console.error("Error creating assessment:", error);
+      res.status(500).json({ message: "Failed to create assessment" });
+    }
+  });
+  
+  app.put(`${apiPrefix}/assessments/:id`, authenticateJWT, authorize("event:update", resources.assessmentEvent()), async (req, res) => {
+    try {
+      const assessmentId = parseInt(req.params.id);
+      const event: schema.Event = res.locals.resource;
+      const assessmentData = schema.insertAssessmentSchema.parse(req.body);
+      
+      if (assessmentData.scheduleId) {
+        const schedule = await storage.getEventScheduleById(assessmentData.scheduleId);
+        if (schedule?.eventId !== event.id) {
+          return res.status(400).json({ message: "The session does not belong to this event" });
+        }
+      }
+      
+      // Responses are scored and reported against the questions they answered
+      const existing = await storage.getAssessmentById(assessmentId);
+      if (
+        existing &&
+        JSON.stringify(existing.questions) !== JSON.stringify(assessmentData.questions) &&
+        await storage.countAssessmentResponses(assessmentId) > 0
+      ) {
+        return res.status(409).json({ message: "The questions cannot be changed once participants have answered" });
+      }
+      
+      const assessment = await storage.updateAssessment(assessmentId, assessmentData);
+      
+      // Log the activity
+      await storage.logActivity(
+        req.user.id,
+        "update",
+        { title: assessment.title, kind: assessment.kind },
+        "assessment",
+        assessmentId,
+        req.ip,
+        req.headers["user-agent"]
+      );
+      
+      res.json(assessment);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Validation error", errors: error.errors });
+      }
+      console.error("Error updating assessment:", error);
+      res.status(500).json({ message: "Failed to update assessment" });
+    }
+  });
+  
+  app.delete(`${apiPrefix}/assessments/:id`, authenticateJWT, authorize("event:update", resources.assessmentEvent()), async (req, res) => {
+    try {
+      const assessmentId = parseInt(req.params.id);
+      
+      const deletedAssessment = await storage.deleteAssessment(assessmentId);
+      
+      // Log the activity
+      await storage.logActivity(
+        req.user.id,
+        "delete",
+        { title: deletedAssessment.title, kind: deletedAssessment.kind },
+        "assessment",
+        assessmentId,
+        req.ip,
+        req.headers["user-agent"]
+      );
+      
+      res.json({ message: "Assessment deleted successfully" });
+    } catch (error) {
+      console.error("Error deleting assessment:", error);
+      res.status(500).json({ message: "Failed to delete assessment" });
+    }
+  });
+  
+  // Submits a participant's answers; quizzes are scored right away
+  app.post(`${apiPrefix}/assessments/:id/responses`, authenticateJWT, async (req, res) => {
+    try {
+      const assessmentId = parseInt(req.params.id);
+      const assessment = await storage.getAssessmentById(assessmentId);
+      
+      if (!assessment || !assessment.isPublished) {
+        return res.status(404).json({ message: "Assessment not found" });
+      }
+      
+      const registration = await storage.getUserRegistration(assessment.eventId, req.user.id);
+      if (!registration || registration.status !== "approved") {
+        return res.status(403).json({ message: "Only approved participants can take this assessment" });
+      }
+      
+      if (!isAssessmentOpen(assessment.kind, assessment.schedule?.date ?? assessment.event.startDate)) {
+        return res.status(409).json({ message: "This assessment is not open" });
+      }
+      
+      const previousAttempts = (await storage.getRegistrationAssessmentResponses(registration.id))
+        .filter(response => response.assessmentId === assessmentId);
+      if (assessment.maxAttempts !== null && previousAttempts.length >= assessment.maxAttempts) {
+        return res.status(409).json({ message: "No attempts left for this assessment" });
+      }
+      
+      const answers = buildAssessmentAnswersSchema(assessment.questions).parse(req.body.answers ?? {});
+      const score = scoreAssessment(assessment.kind, assessment.questions, answers);
+      
+      const response = await storage.createAssessmentResponse({
+        assessmentId,
+        registrationId: registration.id,
+        answers,
+        score: score?.score ?? null,
+        maxScore: score?.maxScore ?? null,
+        percent: score?.percent ?? null,
+        passed: score && assessment.passingScore !== null ? score.percent >= assessment.passingScore : null,
+      });
+      
+      // Log the activity
+      await storage.logActivity(
+        req.user.id,
+        "create",
+        { assessmentId, attempt: response.attempt, percent: response.percent, passed: response.passed },
+        "assessment_response",
+        response.id,
+        req.ip,
+        req.headers["user-agent"]
+      );
+      
+      res.status(201).json({
+        id: response.id,
+        attempt: response.attempt,
+        score: response.score,
+        maxScore: response.maxScore,
+        percent: response.percent,
+        passed: response.passed,
+        submittedAt: response.submittedAt,
+      });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Validation error", errors: error.errors });
+      }
+      console.error("Error submitting assessment response:", error);
+      res.status(500).json({ message: "Failed to submit assessment response" });
+    }
+  });
+  
+  app.get(`${apiPrefix}/events/:id/assessments/report`, authenticateJWT, authorize("event:update", resources.event()), async (req, res) => {
+    try {
+      const event: schema.Event = res.locals.resource;
+      
+      const report = await storage.getAssessmentReport(event.id);
+      res.json(report);
+    } catch (error) {
+      console.error("Error getting assessment report:", error);
+      res.status(500).json({ message: "Failed to get assessment report" });
+    }
+  });
+  
   // Event Documents routes
   app.post(
     `${apiPrefix}/events/:id/documents`,
     authenticateJWT,
-    checkPermission("media:upload"),
+    authorize("media:upload", resources.event()),
     upload.single("file"),
     async (req, res) => {
       try {
@@ -941,8 +3766,12 @@ export async function registerRoutes(app: Express): Promise<Server> {
         // Create file URL
         const fileUrl = `/uploads/${file.filename}`;
         
+        const event: schema.Event = res.locals.resource;
+        
+        // Documents of a series occurrence are shared by the whole series
         const documentData = {
           eventId,
+          seriesId: event.seriesId,
           name: req.body.name || file.originalname,
           description: req.body.description || "",
           fileUrl,
@@ -984,7 +3813,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
   
-  app.delete(`${apiPrefix}/documents/:id`, authenticateJWT, checkPermission("media:delete"), async (req, res) => {
+  app.delete(`${apiPrefix}/documents/:id`, authenticateJWT, checkPermission("media:delete"), authorize("event:update", resources.documentEvent()), async (req, res) => {
     try {
       const documentId = parseInt(req.params.id);
       
@@ -1027,28 +3856,50 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
   
   // Certificate routes
-  app.post(`${apiPrefix}/registrations/:id/certificate`, authenticateJWT, checkPermission("certificate:generate"), async (req, res) => {
+  app.post(`${apiPrefix}/registrations/:id/certificate`, authenticateJWT, authorize("certificate:generate", resources.registration()), async (req, res) => {
     try {
       const registrationId = parseInt(req.params.id);
+      const registration = res.locals.resource;
       
-      // Generate certificate number
-      const certificateNumber = `CERT-${Date.now()}-${registrationId}`;
+      // Participants must be approved, have attended enough of the event's sessions
+      // and have passed the assessments required for the certificate
+      const attendance = await storage.getAttendanceSummary(registrationId);
+      const assessments = await storage.getCertificateAssessmentResults(registration.eventId, [registrationId]);
+      const issues = checkCertificateRules(
+        {
+          status: registration.status,
+          attendancePercent: attendance?.percent ?? 0,
+          assessments: assessments.get(registrationId),
+        },
+        registration.event
+      );
+      if (issues.length > 0) {
+        return res.status(409).json({ message: issues[0].message, issues, attendance });
+      }
       
-      // Generate QR code data - URL to certificate verification page
-      const verificationUrl = `${req.protocol}://${req.get("host")}/certificates/verify/${certificateNumber}`;
-      const qrCode = await generateCertificate(verificationUrl);
+      // Reissuing a revoked certificate is recorded in its history with a reason;
+      // a series certificate kept on the same registration does not count
+      const eventCertificates = registration.certificates.filter((certificate: { seriesId: number | null }) => certificate.seriesId === null);
+      const reissuing = eventCertificates.length > 0 && eventCertificates.every((certificate: { isRevoked: boolean | null }) => certificate.isRevoked);
+      const reissueReason = reissuing ? certificateChangeReasonSchema.safeParse(req.body?.reason) : null;
+      if (reissueReason && !reissueReason.success) {
+        return res.status(400).json({ message: "A reason is required to reissue a revoked certificate" });
+      }
       
+      // Number and sign the certificate; its QR code links to the verification page
+      const signedCertificate = await createSignedCertificate(registration, `${req.protocol}://${req.get("host")}`);
       const certificate = await storage.generateCertificate(
         registrationId,
-        qrCode,
-        certificateNumber
+        signedCertificate,
+        req.user.id,
+        reissueReason?.data
       );
       
       // Log the activity
       await storage.logActivity(
         req.user.id,
         "generate_certificate",
-        { certificateNumber },
+        { certificateNumber: certificate.certificateNumber, version: certificate.version, reason: reissueReason?.data },
         "certificate",
         certificate.id,
         req.ip,
@@ -1062,6 +3913,39 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
   
+  // Issues certificates to everyone who meets the event's certificate rules
+  app.post(`${apiPrefix}/events/:id/certificates/issue`, authenticateJWT, authorize("certificate:issue", resources.event()), async (req, res) => {
+    try {
+      const eventId = parseInt(req.params.id);
+      const report = await issueEventCertificates(eventId, "manual", req.user.id);
+      
+      await storage.logActivity(
+        req.user.id,
+        "generate_certificate",
+        { bulk: true, summary: report.summary },
+        "event",
+        eventId,
+        req.ip,
+        req.headers["user-agent"]
+      );
+      
+      res.status(201).json(report);
+    } catch (error) {
+      console.error("Error issuing certificates:", error);
+      res.status(500).json({ message: "Failed to issue certificates" });
+    }
+  });
+  
+  app.get(`${apiPrefix}/events/:id/certificates/reports`, authenticateJWT, authorize("certificate:issue", resources.event()), async (req, res) => {
+    try {
+      const reports = await storage.getCertificateIssuanceReports(parseInt(req.params.id));
+      res.json(reports);
+    } catch (error) {
+      console.error("Error getting certificate issuance reports:", error);
+      res.status(500).json({ message: "Failed to get certificate issuance reports" });
+    }
+  });
+  
   app.get(`${apiPrefix}/certificates`, authenticateJWT, checkPermission("certificate:read"), async (req, res) => {
     try {
       const page = parseInt(req.query.page as string) || 1;
@@ -1071,10 +3955,11 @@ export async function registerRoutes(app: Express): Promise<Server> {
       const isRevoked = req.query.isRevoked === "true" ? true : 
                          req.query.isRevoked === "false" ? false : undefined;
       
+      const scope = await storage.getUserOrganizationScope(req.user.id);
       const result = await storage.getAllCertificates(page, limit, search, { 
         eventId, 
         isRevoked 
-      });
+      }, scope);
       
       res.json(result);
     } catch (error) {
@@ -1083,23 +3968,174 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
   
-  app.get(`${apiPrefix}/certificates/:id`, authenticateJWT, checkPermission("certificate:read"), async (req, res) => {
+  // Public keys certificates are signed with, for verifying them offline
+  app.get(`${apiPrefix}/certificates/keys`, async (req, res) => {
     try {
-      const certificateId = parseInt(req.params.id);
+      const keys = await storage.getCertificateSigningKeys();
+      const keySet: CertificateKeySet = { keys: keys.map(toCertificatePublicKey) };
+      
+      res.setHeader("Cache-Control", "public, max-age=3600");
+      res.json(keySet);
+    } catch (error) {
+      console.error("Error getting certificate signing keys:", error);
+      res.status(500).json({ message: "Failed to get certificate signing keys" });
+    }
+  });
+  
+  // Public list of revoked certificate numbers, for hospitals' HR systems to sync
+  app.get(`${apiPrefix}/certificates/revocations`, async (req, res) => {
+    try {
+      const { since } = revocationListQuerySchema.parse(req.query);
+      const revocations = await storage.getCertificateRevocations(since);
       
-      const certificate = await storage.getCertificateById(certificateId);
+      res.json({ generatedAt: new Date(), revocations });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Validation error", errors: error.errors });
+      }
+      console.error("Error getting certificate revocations:", error);
+      res.status(500).json({ message: "Failed to get certificate revocations" });
+    }
+  });
+  
+  app.get(`${apiPrefix}/certificates/revocations.csv`, async (req, res) => {
+    try {
+      const { since } = revocationListQuerySchema.parse(req.query);
+      const revocations = await storage.getCertificateRevocations(since);
       
-      if (!certificate) {
-        return res.status(404).json({ message: "Certificate not found" });
+      res.setHeader("Content-Type", "text/csv; charset=utf-8");
+      res.setHeader("Content-Disposition", `attachment; filename="certificate-revocations.csv"`);
+      res.send(toCsv(
+        ["Certificate Number", "Revoked At", "Reason"],
+        revocations.map(revocation => [revocation.certificateNumber, revocation.revokedAt, revocation.reason])
+      ));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Validation error", errors: error.errors });
       }
+      console.error("Error exporting certificate revocations:", error);
+      res.status(500).json({ message: "Failed to export certificate revocations" });
+    }
+  });
+  
+  app.get(`${apiPrefix}/certificates/revocations.atom`, async (req, res) => {
+    try {
+      const baseUrl = `${req.protocol}://${req.get("host")}`;
+      const revocations = await storage.getCertificateRevocations(undefined, REVOCATION_FEED_SIZE);
+      
+      res.setHeader("Content-Type", "application/atom+xml; charset=utf-8");
+      res.send(toAtomFeed({
+        id: `${baseUrl}${apiPrefix}/certificates/revocations.atom`,
+        title: "Revoked certificates",
+        link: `${baseUrl}${apiPrefix}/certificates/revocations.atom`,
+        updated: revocations[0]?.revokedAt ?? new Date(),
+        entries: revocations.map(revocation => ({
+          id: `urn:certificate-revocation:${encodeURIComponent(revocation.certificateNumber)}:${revocation.revokedAt.getTime()}`,
+          title: `Certificate ${revocation.certificateNumber} revoked`,
+          updated: revocation.revokedAt,
+          summary: revocation.reason,
+          link: certificateVerificationUrl(baseUrl, revocation.certificateNumber),
+        })),
+      }));
+    } catch (error) {
+      console.error("Error getting certificate revocation feed:", error);
+      res.status(500).json({ message: "Failed to get certificate revocation feed" });
+    }
+  });
+  
+  // Signs new certificates with a fresh key; certificates signed with the old one stay verifiable
+  app.post(`${apiPrefix}/certificates/keys/rotate`, authenticateJWT, checkPermission("certificate:keys"), async (req, res) => {
+    try {
+      const key = await storage.rotateCertificateSigningKey(generateCertificateSigningKey(), req.user.id);
+      
+      await storage.logActivity(
+        req.user.id,
+        "create",
+        { keyId: key.keyId },
+        "certificate_signing_key",
+        key.id,
+        req.ip,
+        req.headers["user-agent"]
+      );
       
-      res.json(certificate);
+      res.status(201).json(toCertificatePublicKey(key));
+    } catch (error) {
+      console.error("Error rotating certificate signing key:", error);
+      res.status(500).json({ message: "Failed to rotate certificate signing key" });
+    }
+  });
+  
+  app.get(`${apiPrefix}/certificates/:id`, authenticateJWT, authorize("certificate:read", resources.certificate()), async (req, res) => {
+    try {
+      res.json(res.locals.resource);
     } catch (error) {
       console.error("Error getting certificate:", error);
       res.status(500).json({ message: "Failed to get certificate" });
     }
   });
   
+  app.get(`${apiPrefix}/certificates/:id/pdf`, authenticateJWT, authorize("certificate:read", resources.certificate()), async (req, res) => {
+    try {
+      const certificate = res.locals.resource;
+      
+      if (certificate.isRevoked) {
+        return res.status(410).json({ message: "Certificate has been revoked" });
+      }
+      
+      const { event, user } = certificate.registration;
+      const language: CertificateLanguage = req.query.language
+        ? certificateLanguageSchema.parse(req.query.language)
+        : user.preferredLanguage ?? "en";
+      
+      // Reissuing the certificate or editing its template produces a new version
+      const template = await storage.getCertificateTemplateForEvent(event);
+      const version = [
+        new Date(certificate.updatedAt).getTime(),
+        template?.id ?? 0,
+        template ? new Date(template.updatedAt).getTime() : 0,
+      ].join("-");
+      
+      let pdf = await readCachedCertificatePdf(certificate.id, language, version);
+      if (!pdf) {
+        pdf = await renderCertificatePdf(
+          {
+            certificateNumber: certificate.certificateNumber,
+            qrCode: certificate.qrCode,
+            issuedDate: certificate.issuedDate,
+            verificationUrl: certificateVerificationUrl(`${req.protocol}://${req.get("host")}`, certificate.certificateNumber, certificate.signature),
+            cmeCredits: certificate.cmeCredits,
+            user: { ...user, fullName: certificate.holderName ?? user.fullName },
+            event: certificateSubject(certificate),
+          },
+          template,
+          language,
+          uploadDir
+        );
+        await writeCachedCertificatePdf(certificate.id, language, version, pdf);
+      }
+      
+      await storage.logActivity(
+        req.user.id,
+        "download",
+        { certificateNumber: certificate.certificateNumber, format: "pdf", language },
+        "certificate",
+        certificate.id,
+        req.ip,
+        req.headers["user-agent"]
+      );
+      
+      res.setHeader("Content-Type", "application/pdf");
+      res.setHeader("Content-Disposition", `attachment; filename="certificate-${certificate.certificateNumber}.pdf"`);
+      res.send(pdf);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Validation error", errors: error.errors });
+      }
+      console.error("Error rendering certificate PDF:", error);
+      res.status(500).json({ message: "Failed to render certificate" });
+    }
+  });
+  
   app.get(`${apiPrefix}/certificates/verify/:number`, async (req, res) => {
     try {
       const certificateNumber = req.params.number;
@@ -1107,6 +4143,18 @@ export async function registerRoutes(app: Express): Promise<Server> {
       const certificate = await storage.getCertificateByNumber(certificateNumber);
       
       if (!certificate) {
+        // Numbers replaced by a reissue are still known as revoked
+        const revocation = await storage.getCertificateRevocation(certificateNumber);
+        if (revocation) {
+          return res.status(200).json({
+            message: "Certificate has been revoked",
+            valid: false,
+            revoked: true,
+            revokedReason: revocation.reason,
+            revokedDate: revocation.createdAt,
+          });
+        }
+        
         return res.status(404).json({ 
           message: "Certificate not found",
           valid: false
@@ -1134,19 +4182,23 @@ export async function registerRoutes(app: Express): Promise<Server> {
         req.headers["user-agent"]
       );
       
+      const subject = certificateSubject(certificate);
+      
       res.json({
         message: "Certificate is valid",
         valid: true,
         certificate: {
           certificateNumber: certificate.certificateNumber,
           issuedDate: certificate.issuedDate,
+          // Lets a scanned token be matched against the current issue of the certificate
+          signature: certificate.signature,
           event: {
-            title: certificate.registration.event.title,
-            startDate: certificate.registration.event.startDate,
-            endDate: certificate.registration.event.endDate,
+            title: subject.title,
+            startDate: subject.startDate,
+            endDate: subject.endDate,
           },
           user: {
-            fullName: certificate.registration.user.fullName,
+            fullName: certificate.holderName ?? certificate.registration.user.fullName,
             organization: certificate.registration.user.organization,
             position: certificate.registration.user.position,
           },
@@ -1158,7 +4210,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
   
-  app.post(`${apiPrefix}/certificates/:id/revoke`, authenticateJWT, checkPermission("certificate:revoke"), async (req, res) => {
+  app.post(`${apiPrefix}/certificates/:id/revoke`, authenticateJWT, authorize("certificate:revoke", resources.certificate()), async (req, res) => {
     try {
       const certificateId = parseInt(req.params.id);
       const { reason } = req.body;
@@ -1167,12 +4219,22 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(400).json({ message: "Revocation reason is required" });
       }
       
+      if (res.locals.resource.isRevoked) {
+        return res.status(409).json({ message: "Certificate is already revoked" });
+      }
+      
       const revokedCertificate = await storage.revokeCertificate(
         certificateId,
         req.user.id,
         reason
       );
       
+      if (!revokedCertificate) {
+        return res.status(409).json({ message: "Certificate is already revoked" });
+      }
+      
+      await removeCachedCertificatePdfs(certificateId);
+      
       // Log the activity
       await storage.logActivity(
         req.user.id,
@@ -1191,6 +4253,226 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
   
+  // Corrects the holder's name, e.g. when it was misspelled; the certificate is re-signed under the same number
+  app.post(`${apiPrefix}/certificates/:id/amend`, authenticateJWT, authorize("certificate:amend", resources.certificate()), async (req, res) => {
+    try {
+      const certificate = res.locals.resource;
+      const { holderName, reason } = certificateAmendmentSchema.parse(req.body);
+      
+      if (certificate.isRevoked) {
+        return res.status(409).json({ message: "Revoked certificates cannot be amended" });
+      }
+      
+      const subject = certificateSubject(certificate);
+      const signedCertificate = await createSignedCertificate(
+        { user: certificate.registration.user, event: subject },
+        `${req.protocol}://${req.get("host")}`,
+        { certificateNumber: certificate.certificateNumber, issuedDate: certificate.issuedDate, holderName }
+      );
+      const amendedCertificate = await storage.amendCertificate(
+        certificate.id,
+        { holderName, signature: signedCertificate.signature, qrCode: signedCertificate.qrCode },
+        req.user.id,
+        reason
+      );
+      
+      await removeCachedCertificatePdfs(certificate.id);
+      
+      await storage.createNotification(
+        certificate.registration.userId,
+        "Certificate Updated",
+        `Your certificate for ${subject.title} has been corrected. Please download the updated copy.`,
+        `/certificates/${certificate.id}`
+      );
+      
+      await storage.logActivity(
+        req.user.id,
+        "update",
+        { certificateNumber: certificate.certificateNumber, version: amendedCertificate.version, holderName, reason },
+        "certificate",
+        certificate.id,
+        req.ip,
+        req.headers["user-agent"]
+      );
+      
+      res.json(amendedCertificate);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Validation error", errors: error.errors });
+      }
+      console.error("Error amending certificate:", error);
+      res.status(500).json({ message: "Failed to amend certificate" });
+    }
+  });
+  
+  app.get(`${apiPrefix}/certificates/:id/versions`, authenticateJWT, authorize("certificate:read", resources.certificate()), async (req, res) => {
+    try {
+      const versions = await storage.getCertificateVersions(parseInt(req.params.id));
+      res.json(versions);
+    } catch (error) {
+      console.error("Error getting certificate versions:", error);
+      res.status(500).json({ message: "Failed to get certificate versions" });
+    }
+  });
+  
+  // Certificate template routes
+  // Organizers list templates to pick one for their events
+  app.get(`${apiPrefix}/certificate-templates`, authenticateJWT, checkPermission("certificate:generate"), async (req, res) => {
+    try {
+      const templates = await storage.getCertificateTemplates();
+      res.json(templates);
+    } catch (error) {
+      console.error("Error getting certificate templates:", error);
+      res.status(500).json({ message: "Failed to get certificate templates" });
+    }
+  });
+  
+  app.get(`${apiPrefix}/certificate-templates/:id`, authenticateJWT, checkPermission("certificate:generate"), async (req, res) => {
+    try {
+      const template = await storage.getCertificateTemplateById(parseInt(req.params.id));
+      
+      if (!template) {
+        return res.status(404).json({ message: "Certificate template not found" });
+      }
+      
+      res.json(template);
+    } catch (error) {
+      console.error("Error getting certificate template:", error);
+      res.status(500).json({ message: "Failed to get certificate template" });
+    }
+  });
+  
+  app.post(`${apiPrefix}/certificate-templates`, authenticateJWT, checkPermission("certificate:template"), async (req, res) => {
+    try {
+      const templateData = schema.insertCertificateTemplateSchema.parse(req.body);
+      const template = await storage.createCertificateTemplate(templateData, req.user.id);
+      
+      await storage.logActivity(
+        req.user.id,
+        "create",
+        { name: template.name },
+        "certificate_template",
+        template.id,
+        req.ip,
+        req.headers["user-agent"]
+      );
+      
+      res.status(201).json(template);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Validation error", errors: error.errors });
+      }
+      console.error("Error creating certificate template:", error);
+      res.status(500).json({ message: "Failed to create certificate template" });
+    }
+  });
+  
+  app.put(`${apiPrefix}/certificate-templates/:id`, authenticateJWT, checkPermission("certificate:template"), async (req, res) => {
+    try {
+      const templateId = parseInt(req.params.id);
+      const templateData = schema.insertCertificateTemplateSchema.partial().parse(req.body);
+      
+      const template = await storage.updateCertificateTemplate(templateId, templateData);
+      if (!template) {
+        return res.status(404).json({ message: "Certificate template not found" });
+      }
+      
+      await storage.logActivity(
+        req.user.id,
+        "update",
+        { name: template.name },
+        "certificate_template",
+        template.id,
+        req.ip,
+        req.headers["user-agent"]
+      );
+      
+      res.json(template);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Validation error", errors: error.errors });
+      }
+      console.error("Error updating certificate template:", error);
+      res.status(500).json({ message: "Failed to update certificate template" });
+    }
+  });
+  
+  app.delete(`${apiPrefix}/certificate-templates/:id`, authenticateJWT, checkPermission("certificate:template"), async (req, res) => {
+    try {
+      const deletedTemplate = await storage.deleteCertificateTemplate(parseInt(req.params.id));
+      if (!deletedTemplate) {
+        return res.status(404).json({ message: "Certificate template not found" });
+      }
+      
+      await storage.logActivity(
+        req.user.id,
+        "delete",
+        { name: deletedTemplate.name },
+        "certificate_template",
+        deletedTemplate.id,
+        req.ip,
+        req.headers["user-agent"]
+      );
+      
+      res.json({ message: "Certificate template deleted successfully" });
+    } catch (error) {
+      console.error("Error deleting certificate template:", error);
+      res.status(500).json({ message: "Failed to delete certificate template" });
+    }
+  });
+  
+  // Backgrounds, logos and signatures placed on templates
+  app.post(
+    `${apiPrefix}/certificate-templates/images`,
+    authenticateJWT,
+    checkPermission("certificate:template"),
+    certificateImageUpload.single("file"),
+    async (req, res) => {
+      try {
+        if (!req.file) {
+          return res.status(400).json({ message: "No file uploaded" });
+        }
+        
+        res.status(201).json({ url: `/uploads/${req.file.filename}` });
+      } catch (error) {
+        console.error("Error uploading certificate image:", error);
+        res.status(500).json({ message: "Failed to upload image" });
+      }
+    }
+  );
+  
+  // Renders an unsaved design with sample details, for the template designer
+  app.post(`${apiPrefix}/certificate-templates/preview`, authenticateJWT, checkPermission("certificate:template"), async (req, res) => {
+    try {
+      const language = certificateLanguageSchema.parse(req.query.language ?? "en");
+      const design = schema.insertCertificateTemplateSchema
+        .pick({ pageSize: true, orientation: true, backgroundImage: true, layouts: true })
+        .parse(req.body);
+      
+      const verificationUrl = certificateVerificationUrl(`${req.protocol}://${req.get("host")}`, SAMPLE_CERTIFICATE.certificateNumber);
+      const pdf = await renderCertificatePdf(
+        { ...SAMPLE_CERTIFICATE, verificationUrl, qrCode: await generateCertificate(verificationUrl) },
+        {
+          pageSize: design.pageSize ?? "A4",
+          orientation: design.orientation ?? "landscape",
+          backgroundImage: design.backgroundImage ?? null,
+          layouts: design.layouts ?? {},
+        },
+        language,
+        uploadDir
+      );
+      
+      res.setHeader("Content-Type", "application/pdf");
+      res.send(pdf);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Validation error", errors: error.errors });
+      }
+      console.error("Error previewing certificate template:", error);
+      res.status(500).json({ message: "Failed to preview certificate template" });
+    }
+  });
+  
   app.get(`${apiPrefix}/user/certificates`, authenticateJWT, async (req, res) => {
     try {
       const page = parseInt(req.query.page as string) || 1;
@@ -1204,6 +4486,66 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
   
+  // CME credits: yearly totals against the role requirement, and the ledger
+  app.get(`${apiPrefix}/user/cme`, authenticateJWT, async (req, res) => {
+    try {
+      const { year } = cmeLedgerQuerySchema.parse(req.query);
+      
+      const [years, entries] = await Promise.all([
+        storage.getCmeYearlySummary(req.user.id),
+        storage.getCmeCreditEntries(req.user.id, year),
+      ]);
+      
+      res.json({ years, entries });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Validation error", errors: error.errors });
+      }
+      console.error("Error getting CME credits:", error);
+      res.status(500).json({ message: "Failed to get CME credits" });
+    }
+  });
+  
+  app.get(`${apiPrefix}/user/cme/transcript.csv`, authenticateJWT, async (req, res) => {
+    try {
+      const { year } = cmeLedgerQuerySchema.parse(req.query);
+      const entries = await storage.getCmeCreditEntries(req.user.id, year);
+      const total = roundCmeCredits(entries.reduce((sum, entry) => sum + entry.credits, 0));
+      
+      // Log the activity
+      await storage.logActivity(
+        req.user.id,
+        "download",
+        { export: "cme_transcript", year: year ?? null, count: entries.length },
+        "user",
+        req.user.id,
+        req.ip,
+        req.headers["user-agent"]
+      );
+      
+      res.setHeader("Content-Type", "text/csv; charset=utf-8");
+      res.setHeader("Content-Disposition", `attachment; filename="cme-transcript${year ? `-${year}` : ""}.csv"`);
+      res.send(toCsv(
+        ["Date", "Activity", "Certificate Number", "Credits"],
+        [
+          ...entries.map(entry => [
+            entry.earnedOn.toISOString().slice(0, 10),
+            entry.description,
+            entry.certificate?.certificateNumber ?? "",
+            entry.credits,
+          ]),
+          ["", "Total", "", total],
+        ]
+      ));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Validation error", errors: error.errors });
+      }
+      console.error("Error exporting CME transcript:", error);
+      res.status(500).json({ message: "Failed to export CME transcript" });
+    }
+  });
+  
   // Notification routes
   app.get(`${apiPrefix}/notifications`, authenticateJWT, async (req, res) => {
     try {
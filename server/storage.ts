@@ -1,8 +1,337 @@
 import { db } from "@db";
 import * as schema from "@shared/schema";
-import { eq, and, desc, sql, like, gte, lte, ne, isNull, isNotNull } from "drizzle-orm";
+import { eq, and, or, desc, sql, like, gte, lte, ne, isNull, isNotNull, inArray, notInArray, type SQL } from "drizzle-orm";
+import type { AnyPgColumn } from "drizzle-orm/pg-core";
 import { compare, genSalt, hash } from "bcrypt";
 import crypto from "crypto";
+import { generateRefreshToken, hashRefreshToken, SESSION_TTL_MS } from "./utils/session";
+import { generateRecoveryCodes, hashRecoveryCode, verifyTotp } from "./utils/totp";
+import { ACCOUNT_LOCKOUT_MS, MAX_ACCOUNT_FAILURES } from "./utils/loginThrottle";
+import {
+  EMAIL_VERIFICATION_REQUIRED,
+  INVITATION_TTL_MS,
+  UNVERIFIED_PERMISSIONS,
+  generateVerificationToken,
+  hashVerificationToken,
+} from "./utils/verification";
+import { PASSWORD_POLICY } from "./utils/passwordPolicy";
+import { hasEligibilityRules, type EligibilityIssue } from "@shared/eligibility";
+import { computeCmeCredits, roundCmeCredits, type CmeYearSummary } from "@shared/cmeCredits";
+import {
+  computeLearningGains,
+  computeSpeakerRatings,
+  summarizeAssessment,
+  type AssessmentReport,
+} from "@shared/assessments";
+import type { CertificateAssessmentResult } from "@shared/certificateRules";
+
+/**
+ * Organization ids a caller may see, or null when the caller is unrestricted
+ * (super admins). An empty array matches nothing.
+ */
+export type OrganizationScope = number[] | null;
+
+// Builds a filter restricting a column to the given scope
+function scopeCondition(column: AnyPgColumn, scope: OrganizationScope): SQL | undefined {
+  if (scope === null) return undefined;
+  if (scope.length === 0) return sql`false`;
+  return inArray(column, scope);
+}
+
+type Transaction = Parameters<Parameters<typeof db.transaction>[0]>[0];
+
+// What an event's eligibility rules are checked against
+interface EligibilityProfile {
+  id: number;
+  role: string;
+  position: string | null;
+  // The user's unit and every unit above it
+  organizationIds: number[];
+  hospitalId: number | null;
+}
+
+interface EligibilityCheckOptions {
+  // Pass the registration transaction so the hospital quota is counted while the event is locked
+  executor?: Transaction | typeof db;
+  // A registration being handed over, which does not count against the quota
+  replacingRegistrationId?: number;
+}
+
+// Thrown by registerForEvent when the user fails the event's eligibility rules
+export class RegistrationIneligibleError extends Error {
+  constructor(public issues: EligibilityIssue[]) {
+    super("You are not eligible to register for this event");
+  }
+}
+
+const formatRole = (role: string) => role.replace(/_/g, " ");
+
+export type AttendanceErrorCode =
+  | "not_found"
+  | "not_approved"
+  | "invalid_session"
+  | "already_checked_in"
+  | "already_checked_out"
+  | "not_checked_in";
+
+// Thrown by recordAttendance when a ticket cannot be checked in or out
+export class AttendanceError extends Error {
+  constructor(public code: AttendanceErrorCode, message: string) {
+    super(message);
+  }
+}
+
+export type RegistrationApprovalErrorCode = "event_full" | "waitlisted";
+
+const registrationApprovalMessages: Record<RegistrationApprovalErrorCode, string> = {
+  event_full: "The event has no free seats",
+  waitlisted: "Waitlisted registrations are approved by confirming a seat offer",
+};
+
+// Thrown by updateRegistrationStatus when an approval would take a seat the registration has no claim to
+export class RegistrationApprovalError extends Error {
+  constructor(public code: RegistrationApprovalErrorCode) {
+    super(registrationApprovalMessages[code]);
+  }
+}
+
+// Events without sessions are attended as a whole, through the attendance flag
+function computeAttendancePercent(sessionsAttended: number, sessionsTotal: number, attendanceConfirmed: boolean) {
+  if (sessionsTotal === 0) return attendanceConfirmed ? 100 : 0;
+  return Math.round((sessionsAttended / sessionsTotal) * 100);
+}
+
+// Serializes seat allocation for an event until the transaction ends
+async function lockEvent(tx: Transaction, eventId: number) {
+  await tx.execute(sql`SELECT ${schema.events.id} FROM ${schema.events} WHERE ${schema.events.id} = ${eventId} FOR UPDATE`);
+}
+
+// Seats taken by approved registrations and by waitlist offers awaiting confirmation
+async function countOccupiedSeats(tx: Transaction, eventId: number) {
+  const [result] = await tx
+    .select({ count: sql<number>`count(*)::int` })
+    .from(schema.eventRegistrations)
+    .where(and(
+      eq(schema.eventRegistrations.eventId, eventId),
+      or(
+        eq(schema.eventRegistrations.status, "approved"),
+        and(
+          eq(schema.eventRegistrations.status, "waitlisted"),
+          gte(schema.eventRegistrations.offerExpiresAt, new Date())
+        )
+      )
+    ));
+  
+  return result?.count ?? 0;
+}
+
+// Seats left under the event's capacity, or undefined when it has no limit
+async function countFreeSeats(tx: Transaction, eventId: number) {
+  const event = await tx.query.events.findFirst({
+    where: eq(schema.events.id, eventId),
+    columns: { capacity: true },
+  });
+  
+  return event?.capacity ? event.capacity - (await countOccupiedSeats(tx, eventId)) : undefined;
+}
+
+/**
+ * Why a registration cannot be approved with the seats left, or null when it can.
+ * Approved registrations and open waitlist offers already hold a seat; the rest of
+ * the waitlist gets seats in queue order, through promoteFromWaitlist.
+ */
+function checkApproval(
+  registration: { status: string; offerExpiresAt: Date | null },
+  freeSeats: number | undefined
+): RegistrationApprovalErrorCode | null {
+  if (registration.status === "approved") return null;
+  
+  if (registration.status === "waitlisted") {
+    return registration.offerExpiresAt && registration.offerExpiresAt >= new Date() ? null : "waitlisted";
+  }
+  
+  return freeSeats !== undefined && freeSeats <= 0 ? "event_full" : null;
+}
+
+// Rewrites waitlist positions from 1, optionally moving one entry to a new place
+async function renumberWaitlist(tx: Transaction, eventId: number, move?: { id: number; position: number }) {
+  const entries = await tx.query.eventRegistrations.findMany({
+    where: and(
+      eq(schema.eventRegistrations.eventId, eventId),
+      eq(schema.eventRegistrations.status, "waitlisted")
+    ),
+    columns: { id: true, waitlistPosition: true },
+    orderBy: [schema.eventRegistrations.waitlistPosition, schema.eventRegistrations.registrationDate],
+  });
+  
+  const ids = entries.map(entry => entry.id);
+  
+  if (move && ids.includes(move.id)) {
+    ids.splice(ids.indexOf(move.id), 1);
+    ids.splice(Math.min(Math.max(move.position - 1, 0), ids.length), 0, move.id);
+  }
+  
+  for (let index = 0; index < ids.length; index++) {
+    if (entries.find(entry => entry.id === ids[index])?.waitlistPosition !== index + 1) {
+      await tx
+        .update(schema.eventRegistrations)
+        .set({ waitlistPosition: index + 1 })
+        .where(eq(schema.eventRegistrations.id, ids[index]));
+    }
+  }
+}
+
+// Hands the speakers and documents a series shares over from occurrences about
+// to be deleted to the first occurrence that remains, so they are not deleted along
+async function releaseSeriesItems(tx: Transaction, eventIds: number[]) {
+  const deletedEvents = await tx.query.events.findMany({
+    where: and(inArray(schema.events.id, eventIds), isNotNull(schema.events.seriesId)),
+    columns: { seriesId: true },
+  });
+  
+  for (const seriesId of Array.from(new Set(deletedEvents.map(event => event.seriesId!)))) {
+    const remaining = await tx.query.events.findFirst({
+      where: and(eq(schema.events.seriesId, seriesId), notInArray(schema.events.id, eventIds)),
+      columns: { id: true },
+      orderBy: schema.events.startDate,
+    });
+    
+    if (!remaining) continue;
+    
+    await tx
+      .update(schema.eventSpeakers)
+      .set({ eventId: remaining.id })
+      .where(and(eq(schema.eventSpeakers.seriesId, seriesId), inArray(schema.eventSpeakers.eventId, eventIds)));
+    
+    await tx
+      .update(schema.eventDocuments)
+      .set({ eventId: remaining.id })
+      .where(and(eq(schema.eventDocuments.seriesId, seriesId), inArray(schema.eventDocuments.eventId, eventIds)));
+  }
+}
+
+// Appends a snapshot of a certificate to its history
+async function recordCertificateVersion(
+  tx: Transaction,
+  certificate: schema.Certificate,
+  change: typeof schema.certificateChangeEnum.enumValues[number],
+  changedById: number | null,
+  reason?: string | null
+) {
+  await tx.insert(schema.certificateVersions).values({
+    certificateId: certificate.id,
+    version: certificate.version,
+    change,
+    certificateNumber: certificate.certificateNumber,
+    holderName: certificate.holderName,
+    signature: certificate.signature,
+    issuedDate: certificate.issuedDate,
+    reason,
+    changedById,
+  });
+}
+
+// Fixes the CME credits of a newly issued certificate and adds them to the holder's ledger
+async function awardCmeCredits(tx: Transaction, certificate: schema.Certificate) {
+  const registration = await tx.query.eventRegistrations.findFirst({
+    where: eq(schema.eventRegistrations.id, certificate.registrationId),
+    columns: { userId: true },
+    with: {
+      event: {
+        columns: { id: true, title: true, endDate: true, cmeCredits: true },
+        with: {
+          eventSchedules: {
+            columns: { id: true, cmeCredits: true },
+          },
+        },
+      },
+      attendanceRecords: {
+        columns: { scheduleId: true },
+      },
+    },
+  });
+  
+  if (!registration) return certificate;
+  
+  const { event } = registration;
+  const credits = computeCmeCredits(
+    event.cmeCredits,
+    event.eventSchedules,
+    registration.attendanceRecords.map(record => record.scheduleId)
+  );
+  
+  const [awardedCertificate] = await tx
+    .update(schema.certificates)
+    .set({ cmeCredits: credits })
+    .where(eq(schema.certificates.id, certificate.id))
+    .returning();
+  
+  if (credits > 0) {
+    await tx.insert(schema.cmeCreditEntries).values({
+      userId: registration.userId,
+      certificateId: certificate.id,
+      eventId: event.id,
+      credits,
+      description: event.title,
+      earnedOn: event.endDate,
+    });
+  }
+  
+  return awardedCertificate;
+}
+
+// Takes a revoked certificate's credits back out of the ledger, in the year they were earned
+async function reverseCmeCredits(tx: Transaction, certificate: schema.Certificate, reason: string) {
+  if (!certificate.cmeCredits) return;
+  
+  const award = await tx.query.cmeCreditEntries.findFirst({
+    where: and(
+      eq(schema.cmeCreditEntries.certificateId, certificate.id),
+      sql`${schema.cmeCreditEntries.credits} > 0`
+    ),
+    orderBy: desc(schema.cmeCreditEntries.createdAt),
+  });
+  
+  if (!award) return;
+  
+  // Never reverse the same award twice, which would take the yearly total below what was earned
+  const [{ balance }] = await tx
+    .select({ balance: sql<number>`coalesce(sum(${schema.cmeCreditEntries.credits}), 0)::float` })
+    .from(schema.cmeCreditEntries)
+    .where(eq(schema.cmeCreditEntries.certificateId, certificate.id));
+  
+  if (balance <= 0) return;
+  
+  await tx.insert(schema.cmeCreditEntries).values({
+    userId: award.userId,
+    certificateId: certificate.id,
+    eventId: award.eventId,
+    credits: -certificate.cmeCredits,
+    description: reason,
+    earnedOn: award.earnedOn,
+  });
+}
+
+/**
+ * Authentication state resolved on every request, so role, permission and
+ * active-flag changes apply without waiting for the JWT to expire.
+ */
+export interface UserAuthState {
+  id: number;
+  email: string;
+  role: schema.User["role"];
+  active: boolean;
+  verified: boolean;
+  tokenVersion: number;
+  permissions: string[];
+  // Sessions that have not been revoked or expired
+  sessionIds: number[];
+}
+
+// Entries are dropped whenever a user's role, permissions, active flag or
+// token version change; the TTL only bounds staleness from direct DB edits
+const AUTH_STATE_TTL = 60 * 1000;
+const authStateCache = new Map<number, { state: UserAuthState; expiresAt: number }>();
 
 // User related storage functions
 export const storage = {
@@ -10,12 +339,16 @@ export const storage = {
   async createUser(userData: schema.NewUser) {
     const salt = await genSalt(10);
     const hashedPassword = await hash(userData.password, salt);
-    const verificationToken = crypto.randomBytes(32).toString("hex");
+    
+    // Without enforced verification the account is usable straight away
+    const verification = EMAIL_VERIFICATION_REQUIRED ? generateVerificationToken() : null;
     
     const [user] = await db.insert(schema.users).values({
       ...userData,
       password: hashedPassword,
-      verificationToken,
+      verified: !verification,
+      verificationToken: verification?.tokenHash,
+      verificationExpires: verification?.expiresAt,
     }).returning({
       id: schema.users.id,
       username: schema.users.username,
@@ -23,6 +356,7 @@ export const storage = {
       fullName: schema.users.fullName,
       role: schema.users.role,
       organization: schema.users.organization,
+      organizationId: schema.users.organizationId,
       position: schema.users.position,
       verified: schema.users.verified,
       preferredLanguage: schema.users.preferredLanguage,
@@ -31,19 +365,49 @@ export const storage = {
       createdAt: schema.users.createdAt,
     });
     
-    return { user, verificationToken };
+    return { user, verificationToken: verification?.token ?? null };
   },
   
   async verifyUser(token: string) {
     const [user] = await db
       .update(schema.users)
-      .set({ verified: true, verificationToken: null })
-      .where(eq(schema.users.verificationToken, token))
-      .returning();
+      .set({ verified: true, verificationToken: null, verificationExpires: null, updatedAt: new Date() })
+      .where(and(
+        eq(schema.users.verificationToken, hashVerificationToken(token)),
+        gte(schema.users.verificationExpires, new Date())
+      ))
+      .returning({ id: schema.users.id, email: schema.users.email });
+    
+    if (user) {
+      this.invalidateUserAuthState(user.id);
+    }
     
     return user;
   },
   
+  // Issues a fresh verification token, replacing any earlier one
+  async createVerificationToken(email: string) {
+    const user = await db.query.users.findFirst({
+      where: eq(schema.users.email, email),
+      columns: { id: true, email: true, verified: true },
+    });
+    
+    if (!user || user.verified) return null;
+    
+    const { token, tokenHash, expiresAt } = generateVerificationToken();
+    
+    await db
+      .update(schema.users)
+      .set({
+        verificationToken: tokenHash,
+        verificationExpires: expiresAt,
+        updatedAt: new Date(),
+      })
+      .where(eq(schema.users.id, user.id));
+    
+    return { user, token };
+  },
+  
   async authenticateUser(email: string, password: string) {
     const user = await db.query.users.findFirst({
       where: and(
@@ -64,10 +428,13 @@ export const storage = {
       fullName: user.fullName,
       role: user.role,
       organization: user.organization,
+      organizationId: user.organizationId,
       position: user.position,
       verified: user.verified,
       preferredLanguage: user.preferredLanguage,
       profileImage: user.profileImage,
+      tokenVersion: user.tokenVersion,
+      twoFactorEnabled: user.twoFactorEnabled,
     };
   },
   
@@ -77,8 +444,11 @@ export const storage = {
       columns: {
         password: false,
         verificationToken: false,
+        verificationExpires: false,
         passwordResetToken: false,
         passwordResetExpires: false,
+        twoFactorSecret: false,
+        calendarFeedToken: false,
       },
       with: {
         permissions: {
@@ -90,14 +460,45 @@ export const storage = {
     });
   },
   
+  // The signed-in user's own profile
+  async getUserProfile(id: number) {
+    return await db.query.users.findFirst({
+      where: eq(schema.users.id, id),
+      columns: {
+        id: true,
+        username: true,
+        email: true,
+        fullName: true,
+        role: true,
+        organization: true,
+        organizationId: true,
+        position: true,
+        verified: true,
+        preferredLanguage: true,
+        profileImage: true,
+        twoFactorEnabled: true,
+        passwordChangedAt: true,
+        createdAt: true,
+      },
+      with: {
+        organizationUnit: {
+          columns: { id: true, name: true },
+        },
+      },
+    });
+  },
+
   async getUserByUsername(username: string) {
     return await db.query.users.findFirst({
       where: eq(schema.users.username, username),
       columns: {
         password: false,
         verificationToken: false,
+        verificationExpires: false,
         passwordResetToken: false,
         passwordResetExpires: false,
+        twoFactorSecret: false,
+        calendarFeedToken: false,
       },
     });
   },
@@ -108,52 +509,60 @@ export const storage = {
       columns: {
         password: false,
         verificationToken: false,
+        verificationExpires: false,
         passwordResetToken: false,
         passwordResetExpires: false,
+        twoFactorSecret: false,
+        calendarFeedToken: false,
       },
     });
   },
   
-  async getAllUsers(page = 1, limit = 10, search = "") {
+  async getAllUsers(page = 1, limit = 10, search = "", scope: OrganizationScope = null) {
     const offset = (page - 1) * limit;
     
-    let query = db.select({
-      id: schema.users.id,
-      username: schema.users.username,
-      email: schema.users.email,
-      fullName: schema.users.fullName,
-      role: schema.users.role,
-      organization: schema.users.organization,
-      position: schema.users.position,
-      verified: schema.users.verified,
-      preferredLanguage: schema.users.preferredLanguage,
-      profileImage: schema.users.profileImage,
-      active: schema.users.active,
-      createdAt: schema.users.createdAt,
-    }).from(schema.users);
+    const whereConditions: SQL[] = [];
     
     if (search) {
-      query = query.where(
+      whereConditions.push(
         sql`(${schema.users.fullName} ILIKE ${`%${search}%`} OR 
              ${schema.users.email} ILIKE ${`%${search}%`} OR 
              ${schema.users.username} ILIKE ${`%${search}%`})`
       );
     }
     
+    const scopeFilter = scopeCondition(schema.users.organizationId, scope);
+    if (scopeFilter) {
+      whereConditions.push(scopeFilter);
+    }
+    
+    const where = whereConditions.length > 0 ? and(...whereConditions) : sql`1=1`;
+    
     const totalCountResult = await db
       .select({ count: sql<number>`count(*)` })
       .from(schema.users)
-      .where(
-        search
-          ? sql`(${schema.users.fullName} ILIKE ${`%${search}%`} OR 
-                 ${schema.users.email} ILIKE ${`%${search}%`} OR 
-                 ${schema.users.username} ILIKE ${`%${search}%`})`
-          : sql`1=1`
-      );
+      .where(where);
     
     const totalCount = totalCountResult[0]?.count || 0;
     
-    const users = await query
+    const users = await db.select({
+      id: schema.users.id,
+      username: schema.users.username,
+      email: schema.users.email,
+      fullName: schema.users.fullName,
+      role: schema.users.role,
+      organization: schema.users.organization,
+      organizationId: schema.users.organizationId,
+      position: schema.users.position,
+      verified: schema.users.verified,
+      preferredLanguage: schema.users.preferredLanguage,
+      profileImage: schema.users.profileImage,
+      active: schema.users.active,
+      lockedUntil: schema.users.lockedUntil,
+      createdAt: schema.users.createdAt,
+    })
+      .from(schema.users)
+      .where(where)
       .limit(limit)
       .offset(offset)
       .orderBy(desc(schema.users.createdAt));
@@ -170,9 +579,10 @@ export const storage = {
   },
   
   async updateUser(id: number, userData: Partial<schema.User>) {
+    // Password changes go through the history
     if (userData.password) {
-      const salt = await genSalt(10);
-      userData.password = await hash(userData.password, salt);
+      await this.changePassword(id, userData.password);
+      delete userData.password;
     }
     
     const [updatedUser] = await db
@@ -189,6 +599,7 @@ export const storage = {
         fullName: schema.users.fullName,
         role: schema.users.role,
         organization: schema.users.organization,
+        organizationId: schema.users.organizationId,
         position: schema.users.position,
         verified: schema.users.verified,
         preferredLanguage: schema.users.preferredLanguage,
@@ -196,6 +607,8 @@ export const storage = {
         active: schema.users.active,
       });
     
+    this.invalidateUserAuthState(id);
+    
     return updatedUser;
   },
   
@@ -226,30 +639,78 @@ export const storage = {
     return resetToken;
   },
   
-  async resetPassword(token: string, newPassword: string) {
+  /**
+   * Creates an account for someone an organizer invited. The password is
+   * random and unknown to anyone; the invitee sets their own through the
+   * password reset page with the returned token, which only reaches the
+   * invited address, so the account is created verified.
+   */
+  async inviteUser(userData: { email: string; fullName: string; position?: string | null }) {
+    const baseUsername = userData.email.split("@")[0].toLowerCase().replace(/[^a-z0-9._-]/g, "") || "user";
+    let username = baseUsername;
+    for (let suffix = 2; await this.getUserByUsername(username); suffix++) {
+      username = `${baseUsername}${suffix}`;
+    }
+    
+    const salt = await genSalt(10);
+    const hashedPassword = await hash(crypto.randomBytes(32).toString("hex"), salt);
+    const invitationToken = crypto.randomBytes(32).toString("hex");
+    
+    const [user] = await db.insert(schema.users).values({
+      username,
+      email: userData.email,
+      fullName: userData.fullName,
+      position: userData.position,
+      role: "participant_doctor",
+      password: hashedPassword,
+      verified: true,
+      passwordResetToken: crypto.createHash("sha256").update(invitationToken).digest("hex"),
+      passwordResetExpires: new Date(Date.now() + INVITATION_TTL_MS),
+    }).returning({
+      id: schema.users.id,
+      username: schema.users.username,
+      email: schema.users.email,
+      fullName: schema.users.fullName,
+      role: schema.users.role,
+    });
+    
+    return { user, invitationToken };
+  },
+  
+  async getPasswordResetUser(token: string) {
     const hashedToken = crypto
       .createHash("sha256")
       .update(token)
       .digest("hex");
     
-    const user = await db.query.users.findFirst({
+    return await db.query.users.findFirst({
       where: and(
         eq(schema.users.passwordResetToken, hashedToken),
         gte(schema.users.passwordResetExpires!, new Date())
       ),
+      columns: {
+        id: true,
+        username: true,
+        email: true,
+        fullName: true,
+      },
     });
+  },
+  
+  async resetPassword(token: string, newPassword: string) {
+    const user = await this.getPasswordResetUser(token);
     
     if (!user) return null;
     
-    const salt = await genSalt(10);
-    const hashedPassword = await hash(newPassword, salt);
+    await this.changePassword(user.id, newPassword);
     
     const [updatedUser] = await db
       .update(schema.users)
       .set({
-        password: hashedPassword,
         passwordResetToken: null,
         passwordResetExpires: null,
+        // Sign out every session that used the old password
+        tokenVersion: sql`${schema.users.tokenVersion} + 1`,
         updatedAt: new Date(),
       })
       .where(eq(schema.users.id, user.id))
@@ -258,9 +719,118 @@ export const storage = {
         email: schema.users.email,
       });
     
+    await this.revokeUserSessions(user.id, "password_reset");
+    
     return updatedUser;
   },
   
+  // Password policy functions
+  async verifyUserPassword(userId: number, password: string) {
+    const user = await db.query.users.findFirst({
+      where: eq(schema.users.id, userId),
+      columns: { password: true },
+    });
+    
+    return !!user && await compare(password, user.password);
+  },
+  
+  // Whether the password matches the current one or one of the recent ones in the history
+  async isPasswordReused(userId: number, password: string) {
+    if (PASSWORD_POLICY.historySize <= 0) return false;
+    
+    const [user, history] = await Promise.all([
+      db.query.users.findFirst({
+        where: eq(schema.users.id, userId),
+        columns: { password: true },
+      }),
+      db.query.passwordHistory.findMany({
+        where: eq(schema.passwordHistory.userId, userId),
+        orderBy: desc(schema.passwordHistory.createdAt),
+        limit: PASSWORD_POLICY.historySize - 1,
+      }),
+    ]);
+    
+    const hashes = [user?.password, ...history.map(entry => entry.passwordHash)];
+    
+    for (const passwordHash of hashes) {
+      if (passwordHash && await compare(password, passwordHash)) {
+        return true;
+      }
+    }
+    
+    return false;
+  },
+  
+  /**
+   * Sets a new password, moving the current one into the history. Callers
+   * validate the password against the policy first.
+   */
+  async changePassword(userId: number, newPassword: string) {
+    const salt = await genSalt(10);
+    const hashedPassword = await hash(newPassword, salt);
+    
+    return await db.transaction(async (tx) => {
+      const current = await tx.query.users.findFirst({
+        where: eq(schema.users.id, userId),
+        columns: { password: true },
+      });
+      
+      if (!current) return null;
+      
+      await tx.insert(schema.passwordHistory).values({
+        userId,
+        passwordHash: current.password,
+      });
+      
+      // Only the entries the reuse check can reach are kept
+      await tx
+        .delete(schema.passwordHistory)
+        .where(and(
+          eq(schema.passwordHistory.userId, userId),
+          sql`${schema.passwordHistory.id} NOT IN (
+            SELECT ${schema.passwordHistory.id} FROM ${schema.passwordHistory}
+            WHERE ${schema.passwordHistory.userId} = ${userId}
+            ORDER BY ${schema.passwordHistory.createdAt} DESC
+            LIMIT ${Math.max(PASSWORD_POLICY.historySize - 1, 0)}
+          )`
+        ));
+      
+      const [user] = await tx
+        .update(schema.users)
+        .set({
+          password: hashedPassword,
+          passwordChangedAt: new Date(),
+          updatedAt: new Date(),
+        })
+        .where(eq(schema.users.id, userId))
+        .returning({
+          id: schema.users.id,
+          email: schema.users.email,
+        });
+      
+      return user;
+    });
+  },
+  
+  // Whether the user's role forces a password change because the password is too old
+  async isPasswordExpired(userId: number) {
+    const user = await db.query.users.findFirst({
+      where: eq(schema.users.id, userId),
+      columns: { role: true, passwordChangedAt: true },
+    });
+    
+    if (!user) return false;
+    
+    const role = await db.query.roles.findFirst({
+      where: eq(schema.roles.name, user.role),
+      columns: { passwordMaxAgeDays: true },
+    });
+    if (!role?.passwordMaxAgeDays) return false;
+    
+    const maxAgeMs = role.passwordMaxAgeDays * 24 * 60 * 60 * 1000;
+    return user.passwordChangedAt.getTime() + maxAgeMs < Date.now();
+  },
+  
   // Permissions functions
   async getAllPermissions() {
     return await db.query.permissions.findMany({
@@ -268,52 +838,882 @@ export const storage = {
     });
   },
   
+  /**
+   * Resolves a user's effective permissions: the role template, plus granted
+   * overrides, minus denied overrides. Each entry records where it came from.
+   */
+  async getUserPermissionDetails(userId: number) {
+    const user = await db.query.users.findFirst({
+      where: eq(schema.users.id, userId),
+      columns: { id: true, role: true, verified: true },
+    });
+    
+    if (!user) return null;
+    
+    const [allPermissions, role, overrides] = await Promise.all([
+      this.getAllPermissions(),
+      db.query.roles.findFirst({
+        where: eq(schema.roles.name, user.role),
+        with: { permissions: true },
+      }),
+      db.query.userPermissions.findMany({
+        where: eq(schema.userPermissions.userId, userId),
+      }),
+    ]);
+    
+    const roleDefaults = new Set((role?.permissions || []).map(rp => rp.permissionId));
+    const overrideEffects = new Map(overrides.map(o => [o.permissionId, o.effect]));
+    
+    return {
+      userId: user.id,
+      role: user.role,
+      verified: user.verified,
+      permissions: allPermissions.map(permission => {
+        const inRole = roleDefaults.has(permission.id);
+        const override = overrideEffects.get(permission.id) ?? null;
+        
+        return {
+          ...permission,
+          inRole,
+          override,
+          granted: override ? override === "grant" : inRole,
+          source: override ? "override" as const : inRole ? "role" as const : null,
+        };
+      }),
+    };
+  },
+  
   async getUserPermissions(userId: number) {
-    const userPermissions = await db.query.userPermissions.findMany({
-      where: eq(schema.userPermissions.userId, userId),
-      with: {
-        permission: true,
-      },
+    const details = await this.getUserPermissionDetails(userId);
+    
+    // Accounts awaiting email confirmation keep only the unverified allowance
+    const restricted = EMAIL_VERIFICATION_REQUIRED && details?.verified === false;
+    
+    return (details?.permissions || [])
+      .filter(permission => permission.granted)
+      .filter(permission => !restricted || UNVERIFIED_PERMISSIONS.includes(permission.name))
+      .map(({ id, name, description, createdAt, updatedAt }) => ({ id, name, description, createdAt, updatedAt }));
+  },
+  
+  // Replaces the user's grant/deny overrides; overrides matching the role
+  // template are dropped so later template changes still apply
+  async updateUserPermissions(userId: number, overrides: schema.PermissionOverride[]) {
+    const user = await db.query.users.findFirst({
+      where: eq(schema.users.id, userId),
+      columns: { role: true },
+    });
+    
+    if (!user) return null;
+    
+    const role = await this.getRoleByName(user.role);
+    const roleDefaults = new Set((role?.permissions || []).map(p => p.id));
+    
+    const effectiveOverrides = overrides.filter(o =>
+      o.effect === "grant" ? !roleDefaults.has(o.permissionId) : roleDefaults.has(o.permissionId)
+    );
+    
+    await db.transaction(async (tx) => {
+      await tx
+        .delete(schema.userPermissions)
+        .where(eq(schema.userPermissions.userId, userId));
+      
+      if (effectiveOverrides.length > 0) {
+        await tx.insert(schema.userPermissions).values(
+          effectiveOverrides.map(({ permissionId, effect }) => ({
+            userId,
+            permissionId,
+            effect,
+          }))
+        );
+      }
     });
     
-    return userPermissions.map(up => up.permission);
+    this.invalidateUserAuthState(userId);
+    
+    return await this.getUserPermissionDetails(userId);
   },
   
-  async updateUserPermissions(userId: number, permissionIds: number[]) {
-    // Delete existing permissions
-    await db
-      .delete(schema.userPermissions)
-      .where(eq(schema.userPermissions.userId, userId));
+  // Auth state functions
+  async getUserAuthState(userId: number): Promise<UserAuthState | null> {
+    const cached = authStateCache.get(userId);
+    if (cached && cached.expiresAt > Date.now()) {
+      return cached.state;
+    }
     
-    // Insert new permissions
-    if (permissionIds.length > 0) {
-      await db.insert(schema.userPermissions).values(
-        permissionIds.map(permissionId => ({
-          userId,
-          permissionId,
-        }))
-      );
+    const user = await db.query.users.findFirst({
+      where: eq(schema.users.id, userId),
+      columns: {
+        id: true,
+        email: true,
+        role: true,
+        active: true,
+        verified: true,
+        tokenVersion: true,
+      },
+    });
+    
+    if (!user) {
+      authStateCache.delete(userId);
+      return null;
     }
     
-    return await this.getUserPermissions(userId);
+    const [permissions, sessions] = await Promise.all([
+      this.getUserPermissions(userId),
+      this.getUserSessions(userId),
+    ]);
+    const state = {
+      ...user,
+      permissions: permissions.map(p => p.name),
+      sessionIds: sessions.map(session => session.id),
+    };
+    
+    authStateCache.set(userId, { state, expiresAt: Date.now() + AUTH_STATE_TTL });
+    
+    return state;
   },
   
-  // Event functions
-  async createEvent(eventData: schema.NewEvent) {
-    const [event] = await db
-      .insert(schema.events)
-      .values(eventData)
-      .returning();
+  // Drops cached auth state for one user, or for everyone when no id is given
+  invalidateUserAuthState(userId?: number) {
+    if (userId === undefined) {
+      authStateCache.clear();
+    } else {
+      authStateCache.delete(userId);
+    }
+  },
+  
+  // Invalidates every token issued to the user, forcing them to log in again
+  async revokeUserTokens(userId: number) {
+    await this.revokeUserSessions(userId, "forced_logout");
     
-    return event;
+    const [user] = await db
+      .update(schema.users)
+      .set({
+        tokenVersion: sql`${schema.users.tokenVersion} + 1`,
+        updatedAt: new Date(),
+      })
+      .where(eq(schema.users.id, userId))
+      .returning({
+        id: schema.users.id,
+        tokenVersion: schema.users.tokenVersion,
+      });
+    
+    this.invalidateUserAuthState(userId);
+    
+    return user;
   },
   
-  async getEventById(id: number) {
-    return await db.query.events.findFirst({
-      where: eq(schema.events.id, id),
-      with: {
-        createdBy: {
-          columns: {
+  // Two-factor functions
+  async getTwoFactorStatus(userId: number) {
+    const user = await db.query.users.findFirst({
+      where: eq(schema.users.id, userId),
+      columns: { role: true, twoFactorEnabled: true },
+    });
+    
+    if (!user) return null;
+    
+    const [role, remaining] = await Promise.all([
+      db.query.roles.findFirst({
+        where: eq(schema.roles.name, user.role),
+        columns: { requireTwoFactor: true },
+      }),
+      db
+        .select({ count: sql<number>`count(*)` })
+        .from(schema.recoveryCodes)
+        .where(and(
+          eq(schema.recoveryCodes.userId, userId),
+          isNull(schema.recoveryCodes.usedAt)
+        )),
+    ]);
+    
+    return {
+      enabled: user.twoFactorEnabled,
+      required: role?.requireTwoFactor ?? false,
+      recoveryCodesRemaining: Number(remaining[0]?.count || 0),
+    };
+  },
+  
+  // Stores a new secret; it only takes effect once enableTwoFactor is called
+  async setTwoFactorSecret(userId: number, secret: string) {
+    await db
+      .update(schema.users)
+      .set({
+        twoFactorSecret: secret,
+        twoFactorLastStep: null,
+        updatedAt: new Date(),
+      })
+      .where(eq(schema.users.id, userId));
+  },
+  
+  async verifyTwoFactorCode(userId: number, code: string) {
+    const user = await db.query.users.findFirst({
+      where: eq(schema.users.id, userId),
+      columns: { twoFactorSecret: true, twoFactorLastStep: true },
+    });
+    
+    if (!user?.twoFactorSecret) return false;
+    
+    const step = verifyTotp(user.twoFactorSecret, code, user.twoFactorLastStep);
+    if (step === null) return false;
+    
+    // Remember the step so the same code cannot be replayed
+    await db
+      .update(schema.users)
+      .set({ twoFactorLastStep: step })
+      .where(eq(schema.users.id, userId));
+    
+    return true;
+  },
+  
+  // Turns on two-factor authentication and returns fresh recovery codes
+  async enableTwoFactor(userId: number) {
+    await db
+      .update(schema.users)
+      .set({
+        twoFactorEnabled: true,
+        updatedAt: new Date(),
+      })
+      .where(eq(schema.users.id, userId));
+    
+    return await this.regenerateRecoveryCodes(userId);
+  },
+  
+  async disableTwoFactor(userId: number) {
+    await db
+      .update(schema.users)
+      .set({
+        twoFactorEnabled: false,
+        twoFactorSecret: null,
+        twoFactorLastStep: null,
+        updatedAt: new Date(),
+      })
+      .where(eq(schema.users.id, userId));
+    
+    await db
+      .delete(schema.recoveryCodes)
+      .where(eq(schema.recoveryCodes.userId, userId));
+  },
+  
+  // Replaces all recovery codes; only hashes are stored
+  async regenerateRecoveryCodes(userId: number) {
+    const codes = generateRecoveryCodes();
+    
+    await db.transaction(async (tx) => {
+      await tx
+        .delete(schema.recoveryCodes)
+        .where(eq(schema.recoveryCodes.userId, userId));
+      
+      await tx.insert(schema.recoveryCodes).values(
+        codes.map(code => ({
+          userId,
+          codeHash: hashRecoveryCode(code),
+        }))
+      );
+    });
+    
+    return codes;
+  },
+  
+  async consumeRecoveryCode(userId: number, code: string) {
+    const [used] = await db
+      .update(schema.recoveryCodes)
+      .set({ usedAt: new Date() })
+      .where(and(
+        eq(schema.recoveryCodes.userId, userId),
+        eq(schema.recoveryCodes.codeHash, hashRecoveryCode(code)),
+        isNull(schema.recoveryCodes.usedAt)
+      ))
+      .returning();
+    
+    return !!used;
+  },
+  
+  // Calendar feed functions
+  async hasCalendarFeed(userId: number) {
+    const user = await db.query.users.findFirst({
+      where: eq(schema.users.id, userId),
+      columns: { calendarFeedToken: true },
+    });
+    
+    return !!user?.calendarFeedToken;
+  },
+  
+  // Issues a new feed token, replacing any earlier one; only its hash is stored
+  async createCalendarFeedToken(userId: number) {
+    const token = crypto.randomBytes(32).toString("hex");
+    
+    await db
+      .update(schema.users)
+      .set({
+        calendarFeedToken: crypto.createHash("sha256").update(token).digest("hex"),
+        updatedAt: new Date(),
+      })
+      .where(eq(schema.users.id, userId));
+    
+    return token;
+  },
+  
+  async revokeCalendarFeedToken(userId: number) {
+    await db
+      .update(schema.users)
+      .set({ calendarFeedToken: null, updatedAt: new Date() })
+      .where(eq(schema.users.id, userId));
+  },
+  
+  async getUserByCalendarFeedToken(token: string) {
+    return await db.query.users.findFirst({
+      where: and(
+        eq(schema.users.calendarFeedToken, crypto.createHash("sha256").update(token).digest("hex")),
+        eq(schema.users.active, true)
+      ),
+      columns: { id: true, fullName: true },
+    });
+  },
+  
+  // Login protection functions
+  async recordAuthAttempt(attempt: {
+    type: typeof schema.authAttemptTypeEnum.enumValues[number];
+    email?: string;
+    userId?: number;
+    ipAddress?: string;
+    successful: boolean;
+  }) {
+    await db.insert(schema.authAttempts).values(attempt);
+  },
+  
+  async countRecentAuthAttempts(
+    filter: {
+      types: typeof schema.authAttemptTypeEnum.enumValues[number][];
+      ipAddress?: string;
+      email?: string;
+      successful?: boolean;
+    },
+    since: Date
+  ) {
+    const conditions: SQL[] = [
+      inArray(schema.authAttempts.type, filter.types),
+      gte(schema.authAttempts.createdAt, since),
+    ];
+    
+    if (filter.ipAddress) {
+      conditions.push(eq(schema.authAttempts.ipAddress, filter.ipAddress));
+    }
+    
+    if (filter.email) {
+      conditions.push(eq(schema.authAttempts.email, filter.email));
+    }
+    
+    if (filter.successful !== undefined) {
+      conditions.push(eq(schema.authAttempts.successful, filter.successful));
+    }
+    
+    const [result] = await db
+      .select({ count: sql<number>`count(*)` })
+      .from(schema.authAttempts)
+      .where(and(...conditions));
+    
+    return Number(result?.count || 0);
+  },
+  
+  async getLoginLockState(email: string) {
+    const user = await db.query.users.findFirst({
+      where: eq(schema.users.email, email),
+      columns: {
+        id: true,
+        failedLoginAttempts: true,
+        lockedUntil: true,
+      },
+    });
+    
+    if (!user) return null;
+    
+    return {
+      userId: user.id,
+      failedLoginAttempts: user.failedLoginAttempts,
+      lockedUntil: user.lockedUntil && user.lockedUntil > new Date() ? user.lockedUntil : null,
+    };
+  },
+  
+  /**
+   * Counts a failed sign-in against the account and locks it once the
+   * threshold is reached. The counter restarts after a lockout.
+   */
+  async registerLoginFailure(userId: number) {
+    const [user] = await db
+      .update(schema.users)
+      .set({ failedLoginAttempts: sql`${schema.users.failedLoginAttempts} + 1` })
+      .where(eq(schema.users.id, userId))
+      .returning({ failedLoginAttempts: schema.users.failedLoginAttempts });
+    
+    if (!user) return null;
+    
+    if (user.failedLoginAttempts < MAX_ACCOUNT_FAILURES) {
+      return { failedLoginAttempts: user.failedLoginAttempts, lockedUntil: null };
+    }
+    
+    const lockedUntil = new Date(Date.now() + ACCOUNT_LOCKOUT_MS);
+    
+    await db
+      .update(schema.users)
+      .set({ failedLoginAttempts: 0, lockedUntil })
+      .where(eq(schema.users.id, userId));
+    
+    return { failedLoginAttempts: user.failedLoginAttempts, lockedUntil };
+  },
+  
+  async resetLoginFailures(userId: number) {
+    await db
+      .update(schema.users)
+      .set({ failedLoginAttempts: 0 })
+      .where(and(
+        eq(schema.users.id, userId),
+        ne(schema.users.failedLoginAttempts, 0)
+      ));
+  },
+  
+  async unlockUser(userId: number) {
+    const [user] = await db
+      .update(schema.users)
+      .set({ failedLoginAttempts: 0, lockedUntil: null })
+      .where(eq(schema.users.id, userId))
+      .returning({ id: schema.users.id, email: schema.users.email });
+    
+    return user || null;
+  },
+  
+  // Session functions
+  async createSession(
+    userId: number,
+    details: { device?: string; ipAddress?: string; userAgent?: string }
+  ) {
+    const { token, tokenHash } = generateRefreshToken();
+    
+    const [session] = await db
+      .insert(schema.sessions)
+      .values({
+        userId,
+        ...details,
+        expiresAt: new Date(Date.now() + SESSION_TTL_MS),
+      })
+      .returning();
+    
+    await db.insert(schema.refreshTokens).values({
+      sessionId: session.id,
+      tokenHash,
+    });
+    
+    this.invalidateUserAuthState(userId);
+    
+    return { session, refreshToken: token };
+  },
+  
+  /**
+   * Exchanges a refresh token for a new one. A token that was already
+   * exchanged is treated as stolen and its whole session is revoked.
+   */
+  async rotateRefreshToken(
+    refreshToken: string,
+    details: { ipAddress?: string; userAgent?: string }
+  ): Promise<
+    | { session: schema.Session; refreshToken: string; error?: undefined }
+    | { error: "invalid" | "expired" | "reused"; session?: schema.Session }
+  > {
+    const existing = await db.query.refreshTokens.findFirst({
+      where: eq(schema.refreshTokens.tokenHash, hashRefreshToken(refreshToken)),
+      with: {
+        session: true,
+      },
+    });
+    
+    if (!existing) return { error: "invalid" };
+    
+    const { session } = existing;
+    
+    if (session.revokedAt || session.expiresAt < new Date()) {
+      return { error: "expired", session };
+    }
+    
+    // Claim the token; losing the race means it was presented twice
+    const [claimed] = await db
+      .update(schema.refreshTokens)
+      .set({ usedAt: new Date() })
+      .where(and(
+        eq(schema.refreshTokens.id, existing.id),
+        isNull(schema.refreshTokens.usedAt)
+      ))
+      .returning();
+    
+    if (!claimed) {
+      await this.revokeSession(session.id, "refresh_token_reuse");
+      return { error: "reused", session };
+    }
+    
+    const { token, tokenHash } = generateRefreshToken();
+    await db.insert(schema.refreshTokens).values({
+      sessionId: session.id,
+      tokenHash,
+    });
+    
+    const [updatedSession] = await db
+      .update(schema.sessions)
+      .set({
+        ipAddress: details.ipAddress,
+        userAgent: details.userAgent,
+        lastUsedAt: new Date(),
+      })
+      .where(eq(schema.sessions.id, session.id))
+      .returning();
+    
+    return { session: updatedSession, refreshToken: token };
+  },
+  
+  async getSessionById(id: number) {
+    return await db.query.sessions.findFirst({
+      where: eq(schema.sessions.id, id),
+    });
+  },
+  
+  async getSessionByRefreshToken(refreshToken: string) {
+    const token = await db.query.refreshTokens.findFirst({
+      where: eq(schema.refreshTokens.tokenHash, hashRefreshToken(refreshToken)),
+      with: {
+        session: true,
+      },
+    });
+    
+    return token?.session;
+  },
+  
+  // Active sessions, most recently used first
+  async getUserSessions(userId: number) {
+    return await db.query.sessions.findMany({
+      where: and(
+        eq(schema.sessions.userId, userId),
+        isNull(schema.sessions.revokedAt),
+        gte(schema.sessions.expiresAt, new Date())
+      ),
+      orderBy: desc(schema.sessions.lastUsedAt),
+    });
+  },
+  
+  async revokeSession(id: number, reason: string) {
+    const [session] = await db
+      .update(schema.sessions)
+      .set({
+        revokedAt: new Date(),
+        revokedReason: reason,
+      })
+      .where(and(
+        eq(schema.sessions.id, id),
+        isNull(schema.sessions.revokedAt)
+      ))
+      .returning();
+    
+    if (session) {
+      this.invalidateUserAuthState(session.userId);
+    }
+    
+    return session;
+  },
+  
+  async revokeUserSessions(userId: number, reason: string, exceptSessionId?: number) {
+    const conditions = [
+      eq(schema.sessions.userId, userId),
+      isNull(schema.sessions.revokedAt),
+    ];
+    
+    if (exceptSessionId !== undefined) {
+      conditions.push(ne(schema.sessions.id, exceptSessionId));
+    }
+    
+    const revoked = await db
+      .update(schema.sessions)
+      .set({
+        revokedAt: new Date(),
+        revokedReason: reason,
+      })
+      .where(and(...conditions))
+      .returning({ id: schema.sessions.id });
+    
+    this.invalidateUserAuthState(userId);
+    
+    return revoked;
+  },
+  
+  // Role template functions
+  async getAllRoles() {
+    const roles = await db.query.roles.findMany({
+      orderBy: schema.roles.id,
+      with: {
+        permissions: {
+          with: {
+            permission: true,
+          },
+        },
+      },
+    });
+    
+    // Count users per role so the UI can show who a template change affects
+    const userCounts = await db
+      .select({ role: schema.users.role, count: sql<number>`count(*)` })
+      .from(schema.users)
+      .groupBy(schema.users.role);
+    
+    return roles.map(role => ({
+      ...role,
+      permissions: role.permissions.map(rp => rp.permission),
+      usersCount: Number(userCounts.find(c => c.role === role.name)?.count || 0),
+    }));
+  },
+  
+  async getRoleByName(name: schema.User["role"]) {
+    const role = await db.query.roles.findFirst({
+      where: eq(schema.roles.name, name),
+      with: {
+        permissions: {
+          with: {
+            permission: true,
+          },
+        },
+      },
+    });
+    
+    if (!role) return undefined;
+    
+    return {
+      ...role,
+      permissions: role.permissions.map(rp => rp.permission),
+    };
+  },
+  
+  async updateRole(
+    name: schema.User["role"],
+    roleData: Pick<Partial<schema.Role>, "description" | "requireTwoFactor" | "passwordMaxAgeDays" | "cmeAnnualRequirement">
+  ) {
+    const [role] = await db
+      .update(schema.roles)
+      .set({
+        ...roleData,
+        updatedAt: new Date(),
+      })
+      .where(eq(schema.roles.name, name))
+      .returning();
+    
+    return role;
+  },
+  
+  // Replaces a role template; every user with the role picks up the change
+  async updateRolePermissions(name: schema.User["role"], permissionIds: number[]) {
+    const role = await db.query.roles.findFirst({
+      where: eq(schema.roles.name, name),
+    });
+    
+    if (!role) return undefined;
+    
+    await db.transaction(async (tx) => {
+      await tx
+        .delete(schema.rolePermissions)
+        .where(eq(schema.rolePermissions.roleId, role.id));
+      
+      if (permissionIds.length > 0) {
+        await tx.insert(schema.rolePermissions).values(
+          permissionIds.map(permissionId => ({
+            roleId: role.id,
+            permissionId,
+          }))
+        );
+      }
+      
+      await tx
+        .update(schema.roles)
+        .set({ updatedAt: new Date() })
+        .where(eq(schema.roles.id, role.id));
+    });
+    
+    // Every user holding the role is affected
+    this.invalidateUserAuthState();
+    
+    return await this.getRoleByName(name);
+  },
+  
+  async assignRoleToUsers(name: schema.User["role"], userIds: number[]) {
+    if (userIds.length === 0) return [];
+    
+    userIds.forEach(userId => this.invalidateUserAuthState(userId));
+    
+    return await db
+      .update(schema.users)
+      .set({
+        role: name,
+        updatedAt: new Date(),
+      })
+      .where(inArray(schema.users.id, userIds))
+      .returning({
+        id: schema.users.id,
+        username: schema.users.username,
+        fullName: schema.users.fullName,
+        role: schema.users.role,
+      });
+  },
+  
+  // Organization functions
+  async createOrganization(organizationData: schema.NewOrganization) {
+    const [organization] = await db
+      .insert(schema.organizations)
+      .values(organizationData)
+      .returning();
+    
+    return organization;
+  },
+  
+  async getOrganizationById(id: number) {
+    return await db.query.organizations.findFirst({
+      where: eq(schema.organizations.id, id),
+      with: {
+        parent: true,
+        children: true,
+      },
+    });
+  },
+  
+  async getAllOrganizations(scope: OrganizationScope = null) {
+    const scopeFilter = scopeCondition(schema.organizations.id, scope);
+    
+    return await db.query.organizations.findMany({
+      where: scopeFilter,
+      orderBy: [schema.organizations.type, schema.organizations.name],
+    });
+  },
+  
+  async updateOrganization(id: number, organizationData: Partial<schema.Organization>) {
+    const [updatedOrganization] = await db
+      .update(schema.organizations)
+      .set({
+        ...organizationData,
+        updatedAt: new Date(),
+      })
+      .where(eq(schema.organizations.id, id))
+      .returning();
+    
+    return updatedOrganization;
+  },
+  
+  async deleteOrganization(id: number) {
+    const child = await db.query.organizations.findFirst({
+      where: eq(schema.organizations.parentId, id),
+    });
+    
+    if (child) {
+      throw new Error("Organization still has child units");
+    }
+    
+    const [deletedOrganization] = await db
+      .delete(schema.organizations)
+      .where(eq(schema.organizations.id, id))
+      .returning();
+    
+    return deletedOrganization;
+  },
+  
+  // Returns the organization and every unit below it
+  async getOrganizationSubtreeIds(organizationId: number): Promise<number[]> {
+    const result = await db.execute<{ id: number }>(sql`
+      WITH RECURSIVE subtree AS (
+        SELECT id FROM organizations WHERE id = ${organizationId}
+        UNION ALL
+        SELECT o.id FROM organizations o INNER JOIN subtree s ON o.parent_id = s.id
+      )
+      SELECT id FROM subtree
+    `);
+    
+    return result.rows.map(row => Number(row.id));
+  },
+  
+  // Returns the organization and every unit above it, up to the root
+  async getOrganizationAncestorIds(organizationId: number): Promise<number[]> {
+    const result = await db.execute<{ id: number }>(sql`
+      WITH RECURSIVE ancestors AS (
+        SELECT id, parent_id FROM organizations WHERE id = ${organizationId}
+        UNION ALL
+        SELECT o.id, o.parent_id FROM organizations o INNER JOIN ancestors a ON o.id = a.parent_id
+      )
+      SELECT id FROM ancestors
+    `);
+    
+    return result.rows.map(row => Number(row.id));
+  },
+  
+  async getRootOrganizationIds(): Promise<number[]> {
+    const roots = await db
+      .select({ id: schema.organizations.id })
+      .from(schema.organizations)
+      .where(isNull(schema.organizations.parentId));
+    
+    return roots.map(root => root.id);
+  },
+  
+  /**
+   * Resolves the organizations a user manages: their own unit and everything
+   * below it. Super admins are unrestricted.
+   */
+  async getUserOrganizationScope(userId: number): Promise<OrganizationScope> {
+    const user = await db.query.users.findFirst({
+      where: eq(schema.users.id, userId),
+      columns: {
+        role: true,
+        organizationId: true,
+      },
+    });
+    
+    if (!user) return [];
+    if (user.role === "super_admin") return null;
+    if (!user.organizationId) return [];
+    
+    return await this.getOrganizationSubtreeIds(user.organizationId);
+  },
+  
+  /**
+   * Resolves the organizations whose events a user may browse: their subtree
+   * plus the units above them, so a hospital doctor still sees national and
+   * provincial events. Anonymous visitors only see root-level events.
+   */
+  async getUserEventVisibilityScope(userId?: number): Promise<OrganizationScope> {
+    if (!userId) {
+      return await this.getRootOrganizationIds();
+    }
+    
+    const subtree = await this.getUserOrganizationScope(userId);
+    if (subtree === null) return null;
+    
+    const user = await db.query.users.findFirst({
+      where: eq(schema.users.id, userId),
+      columns: {
+        organizationId: true,
+      },
+    });
+    
+    const ancestors = user?.organizationId
+      ? await this.getOrganizationAncestorIds(user.organizationId)
+      : await this.getRootOrganizationIds();
+    
+    return Array.from(new Set([...subtree, ...ancestors]));
+  },
+  
+  // Event functions
+  async createEvent(eventData: schema.NewEvent) {
+    const [event] = await db
+      .insert(schema.events)
+      .values(eventData)
+      .returning();
+    
+    return event;
+  },
+  
+  async getEventById(id: number) {
+    const event = await db.query.events.findFirst({
+      where: eq(schema.events.id, id),
+      with: {
+        createdBy: {
+          columns: {
             id: true,
             fullName: true,
             email: true,
@@ -322,6 +1722,7 @@ export const storage = {
             profileImage: true,
           },
         },
+        organization: true,
         eventSchedules: {
           with: {
             speaker: true,
@@ -339,8 +1740,54 @@ export const storage = {
             },
           },
         },
+        series: {
+          with: {
+            events: {
+              columns: {
+                id: true,
+                title: true,
+                startDate: true,
+                endDate: true,
+                status: true,
+              },
+              orderBy: [schema.events.startDate, schema.events.id],
+            },
+          },
+        },
       },
     });
+    
+    if (!event?.seriesId) return event;
+    
+    // Speakers and documents shared by the series may have been added on another occurrence
+    const [sharedSpeakers, sharedDocuments] = await Promise.all([
+      db.query.eventSpeakers.findMany({
+        where: and(
+          eq(schema.eventSpeakers.seriesId, event.seriesId),
+          ne(schema.eventSpeakers.eventId, id)
+        ),
+      }),
+      db.query.eventDocuments.findMany({
+        where: and(
+          eq(schema.eventDocuments.seriesId, event.seriesId),
+          ne(schema.eventDocuments.eventId, id)
+        ),
+        with: {
+          uploadedBy: {
+            columns: {
+              id: true,
+              fullName: true,
+            },
+          },
+        },
+      }),
+    ]);
+    
+    return {
+      ...event,
+      eventSpeakers: [...event.eventSpeakers, ...sharedSpeakers],
+      eventDocuments: [...event.eventDocuments, ...sharedDocuments],
+    };
   },
   
   async getAllEvents(
@@ -354,15 +1801,18 @@ export const storage = {
       level?: string,
       startDate?: string,
       endDate?: string,
-    } = {}
+      // Hide drafts, e.g. from accounts awaiting email verification
+      publishedOnly?: boolean,
+    } = {},
+    scope: OrganizationScope = null
   ) {
     const offset = (page - 1) * limit;
     
-    let query = db.select().from(schema.events);
+    const whereConditions: SQL[] = [];
     
     // Apply search
     if (search) {
-      query = query.where(
+      whereConditions.push(
         sql`(${schema.events.title} ILIKE ${`%${search}%`} OR 
              ${schema.events.description} ILIKE ${`%${search}%`} OR 
              ${schema.events.location} ILIKE ${`%${search}%`})`
@@ -371,45 +1821,54 @@ export const storage = {
     
     // Apply filters
     if (filters.type && filters.type !== "all") {
-      query = query.where(eq(schema.events.eventType, filters.type as any));
+      whereConditions.push(eq(schema.events.eventType, filters.type as any));
     }
     
     if (filters.status && filters.status !== "all") {
-      query = query.where(eq(schema.events.status, filters.status as any));
+      whereConditions.push(eq(schema.events.status, filters.status as any));
+    }
+    
+    if (filters.publishedOnly) {
+      whereConditions.push(ne(schema.events.status, "draft"));
     }
     
     if (filters.location && filters.location !== "all") {
-      query = query.where(like(schema.events.location, `%${filters.location}%`));
+      whereConditions.push(like(schema.events.location, `%${filters.location}%`));
     }
     
     if (filters.level && filters.level !== "all") {
-      query = query.where(eq(schema.events.eventLevel, filters.level as any));
+      whereConditions.push(eq(schema.events.eventLevel, filters.level as any));
     }
     
     if (filters.startDate) {
-      query = query.where(gte(schema.events.startDate, new Date(filters.startDate)));
+      whereConditions.push(gte(schema.events.startDate, new Date(filters.startDate)));
     }
     
     if (filters.endDate) {
-      query = query.where(lte(schema.events.endDate, new Date(filters.endDate)));
+      whereConditions.push(lte(schema.events.endDate, new Date(filters.endDate)));
     }
     
+    // Events not yet linked to an organization stay visible to everyone
+    const scopeFilter = scopeCondition(schema.events.organizationId, scope);
+    if (scopeFilter) {
+      whereConditions.push(or(isNull(schema.events.organizationId), scopeFilter)!);
+    }
+    
+    const where = whereConditions.length > 0 ? and(...whereConditions) : sql`1=1`;
+    
     // Count total matching events
     const totalCountResult = await db
       .select({ count: sql<number>`count(*)` })
       .from(schema.events)
-      .where(
-        search
-          ? sql`(${schema.events.title} ILIKE ${`%${search}%`} OR 
-                 ${schema.events.description} ILIKE ${`%${search}%`} OR 
-                 ${schema.events.location} ILIKE ${`%${search}%`})`
-          : sql`1=1`
-      );
+      .where(where);
     
     const totalCount = totalCountResult[0]?.count || 0;
     
     // Get events with pagination and ordering
-    const events = await query
+    const events = await db
+      .select()
+      .from(schema.events)
+      .where(where)
       .limit(limit)
       .offset(offset)
       .orderBy(desc(schema.events.createdAt));
@@ -417,10 +1876,14 @@ export const storage = {
     // Get counts per event
     const eventsWithCounts = await Promise.all(
       events.map(async (event) => {
+        // Only approved registrations hold a seat
         const registrationsCount = await db
           .select({ count: sql<number>`count(*)` })
           .from(schema.eventRegistrations)
-          .where(eq(schema.eventRegistrations.eventId, event.id));
+          .where(and(
+            eq(schema.eventRegistrations.eventId, event.id),
+            eq(schema.eventRegistrations.status, "approved")
+          ));
         
         return {
           ...event,
@@ -453,66 +1916,561 @@ export const storage = {
     return updatedEvent;
   },
   
-  async deleteEvent(id: number) {
-    const [deletedEvent] = await db
-      .delete(schema.events)
-      .where(eq(schema.events.id, id))
-      .returning();
+  async deleteEvent(id: number) {
+    return await db.transaction(async (tx) => {
+      await releaseSeriesItems(tx, [id]);
+      
+      const [deletedEvent] = await tx
+        .delete(schema.events)
+        .where(eq(schema.events.id, id))
+        .returning();
+      
+      return deletedEvent;
+    });
+  },
+  
+  // Event series
+  
+  /**
+   * Turns an event into the first occurrence of a series and creates the
+   * others at the given start times, with their sessions. The event's
+   * speakers and documents become shared by the series.
+   */
+  async createEventSeries(
+    eventId: number,
+    seriesData: Pick<schema.EventSeries, "title" | "recurrenceRule" | "requiredOccurrences">,
+    occurrenceStarts: Date[],
+    createdById: number
+  ) {
+    return await db.transaction(async (tx) => {
+      const source = await tx.query.events.findFirst({
+        where: eq(schema.events.id, eventId),
+        with: {
+          eventSchedules: true,
+        },
+      });
+      
+      if (!source) {
+        throw new Error("Event not found");
+      }
+      
+      const [series] = await tx
+        .insert(schema.eventSeries)
+        .values({ ...seriesData, createdById })
+        .returning();
+      
+      await tx
+        .update(schema.events)
+        .set({ seriesId: series.id, updatedAt: new Date() })
+        .where(eq(schema.events.id, eventId));
+      
+      await tx
+        .update(schema.eventSpeakers)
+        .set({ seriesId: series.id })
+        .where(eq(schema.eventSpeakers.eventId, eventId));
+      
+      await tx
+        .update(schema.eventDocuments)
+        .set({ seriesId: series.id })
+        .where(eq(schema.eventDocuments.eventId, eventId));
+      
+      const { id, eventSchedules, createdAt, updatedAt, ...eventFields } = source;
+      const shift = (date: Date | null, offset: number) => date && new Date(date.getTime() + offset);
+      
+      for (const start of occurrenceStarts) {
+        const offset = start.getTime() - source.startDate.getTime();
+        if (offset === 0) continue;
+        
+        const [occurrence] = await tx
+          .insert(schema.events)
+          .values({
+            ...eventFields,
+            seriesId: series.id,
+            // Later occurrences have not taken place yet
+            status: source.status === "draft" ? "draft" : "upcoming",
+            startDate: start,
+            endDate: shift(source.endDate, offset)!,
+            registrationDeadline: shift(source.registrationDeadline, offset),
+            createdById,
+          })
+          .returning();
+        
+        if (eventSchedules.length > 0) {
+          await tx.insert(schema.eventSchedules).values(
+            eventSchedules.map(({ id, eventId, createdAt, updatedAt, ...schedule }) => ({
+              ...schedule,
+              eventId: occurrence.id,
+              date: shift(schedule.date, offset)!,
+            }))
+          );
+        }
+      }
+      
+      return series;
+    });
+  },
+  
+  async getEventSeriesById(id: number) {
+    return await db.query.eventSeries.findFirst({
+      where: eq(schema.eventSeries.id, id),
+      with: {
+        events: {
+          orderBy: [schema.events.startDate, schema.events.id],
+        },
+      },
+    });
+  },
+  
+  async updateEventSeries(id: number, seriesData: Partial<Pick<schema.EventSeries, "title" | "requiredOccurrences">>) {
+    const [updatedSeries] = await db
+      .update(schema.eventSeries)
+      .set({
+        ...seriesData,
+        updatedAt: new Date(),
+      })
+      .where(eq(schema.eventSeries.id, id))
+      .returning();
+    
+    return updatedSeries;
+  },
+  
+  /**
+   * Applies an edit of an occurrence to it and every later occurrence of its
+   * series. Dates move by as much as the edited occurrence's did; the status
+   * is only changed on the edited occurrence.
+   */
+  async updateFollowingOccurrences(event: schema.Event, eventData: Partial<schema.Event>) {
+    const {
+      id,
+      seriesId,
+      createdById,
+      createdAt,
+      updatedAt,
+      status,
+      startDate,
+      endDate,
+      registrationDeadline,
+      ...sharedData
+    } = eventData;
+    
+    const newStart = startDate ? new Date(startDate) : event.startDate;
+    const newEnd = endDate ? new Date(endDate) : event.endDate;
+    const startShift = newStart.getTime() - event.startDate.getTime();
+    const endShift = newEnd.getTime() - event.endDate.getTime();
+    
+    // How long before the start registrations close, once edited
+    const deadlineOffset = registrationDeadline === undefined
+      ? undefined
+      : registrationDeadline && new Date(registrationDeadline).getTime() - newStart.getTime();
+    
+    return await db.transaction(async (tx) => {
+      const occurrences = await tx.query.events.findMany({
+        where: and(
+          eq(schema.events.seriesId, event.seriesId!),
+          gte(schema.events.startDate, event.startDate)
+        ),
+      });
+      
+      const updated: schema.Event[] = [];
+      for (const occurrence of occurrences) {
+        const start = new Date(occurrence.startDate.getTime() + startShift);
+        const deadline = deadlineOffset === undefined
+          ? occurrence.registrationDeadline && new Date(occurrence.registrationDeadline.getTime() + startShift)
+          : deadlineOffset === null ? null : new Date(start.getTime() + deadlineOffset);
+        
+        const [updatedOccurrence] = await tx
+          .update(schema.events)
+          .set({
+            ...sharedData,
+            ...(occurrence.id === event.id && status !== undefined ? { status } : {}),
+            startDate: start,
+            endDate: new Date(occurrence.endDate.getTime() + endShift),
+            registrationDeadline: deadline,
+            updatedAt: new Date(),
+          })
+          .where(eq(schema.events.id, occurrence.id))
+          .returning();
+        
+        updated.push(updatedOccurrence);
+      }
+      
+      return updated;
+    });
+  },
+  
+  // Deletes an occurrence and every later one of its series
+  async deleteFollowingOccurrences(event: schema.Event) {
+    return await db.transaction(async (tx) => {
+      const occurrences = await tx.query.events.findMany({
+        where: and(
+          eq(schema.events.seriesId, event.seriesId!),
+          gte(schema.events.startDate, event.startDate)
+        ),
+        columns: { id: true },
+      });
+      const ids = occurrences.map(occurrence => occurrence.id);
+      
+      await releaseSeriesItems(tx, ids);
+      
+      return await tx
+        .delete(schema.events)
+        .where(inArray(schema.events.id, ids))
+        .returning();
+    });
+  },
+  
+  // Event Registration
+  async registerForEvent(registrationData: schema.NewEventRegistration) {
+    const event = await this.getEventById(registrationData.eventId);
+    
+    if (!event) {
+      throw new Error("Event not found");
+    }
+    
+    return await db.transaction(async (tx) => {
+      await lockEvent(tx, registrationData.eventId);
+      
+      // Checked under the lock so concurrent sign-ups cannot overrun a hospital quota
+      const issues = await this.checkRegistrationEligibility(registrationData.eventId, registrationData.userId, { executor: tx });
+      if (issues.length > 0) {
+        throw new RegistrationIneligibleError(issues);
+      }
+      
+      // Newcomers queue behind anyone already waiting, so a freed seat always
+      // goes to the head of the waitlist
+      const [waiting] = await tx
+        .select({ count: sql<number>`count(*)::int` })
+        .from(schema.eventRegistrations)
+        .where(and(
+          eq(schema.eventRegistrations.eventId, registrationData.eventId),
+          eq(schema.eventRegistrations.status, "waitlisted")
+        ));
+      
+      const isFull = !!event.capacity && (await countOccupiedSeats(tx, registrationData.eventId)) >= event.capacity;
+      
+      if (isFull || waiting.count > 0) {
+        const [registration] = await tx
+          .insert(schema.eventRegistrations)
+          .values({
+            ...registrationData,
+            status: "waitlisted",
+            waitlistPosition: waiting.count + 1,
+            registrationDate: new Date(),
+          })
+          .returning();
+        
+        return registration;
+      }
+      
+      // Set status based on autoApproveRegistrations
+      const status = event.autoApproveRegistrations ? "approved" : "pending";
+      
+      const [registration] = await tx
+        .insert(schema.eventRegistrations)
+        .values({
+          ...registrationData,
+          status,
+          registrationDate: new Date(),
+        })
+        .returning();
+      
+      return registration;
+    });
+  },
+  
+  // The caller's own registration for an event, with their place in the waitlist
+  async getUserRegistration(eventId: number, userId: number) {
+    return await db.query.eventRegistrations.findFirst({
+      where: and(
+        eq(schema.eventRegistrations.eventId, eventId),
+        eq(schema.eventRegistrations.userId, userId)
+      ),
+      orderBy: desc(schema.eventRegistrations.createdAt),
+    });
+  },
+  
+  // Events the user is approved for, with their sessions, for the user's calendar feed
+  async getUserCalendarEvents(userId: number) {
+    const registrations = await db.query.eventRegistrations.findMany({
+      where: and(
+        eq(schema.eventRegistrations.userId, userId),
+        eq(schema.eventRegistrations.status, "approved")
+      ),
+      columns: { id: true },
+      with: {
+        event: {
+          with: {
+            eventSchedules: {
+              with: {
+                speaker: {
+                  columns: { name: true },
+                },
+              },
+              orderBy: [schema.eventSchedules.date, schema.eventSchedules.startTime],
+            },
+          },
+        },
+      },
+    });
+  
+    return registrations.map(registration => registration.event);
+  },
+  
+  // Eligibility functions
+  
+  // Returns the nearest hospital at or above an organization
+  async getOrganizationHospitalId(organizationId: number): Promise<number | null> {
+    const result = await db.execute<{ id: number }>(sql`
+      WITH RECURSIVE ancestors AS (
+        SELECT id, parent_id, type, 0 AS depth FROM organizations WHERE id = ${organizationId}
+        UNION ALL
+        SELECT o.id, o.parent_id, o.type, a.depth + 1 FROM organizations o INNER JOIN ancestors a ON o.id = a.parent_id
+      )
+      SELECT id FROM ancestors WHERE type = 'hospital' ORDER BY depth LIMIT 1
+    `);
+    
+    return result.rows[0] ? Number(result.rows[0].id) : null;
+  },
+  
+  async getEligibilityProfile(userId: number): Promise<EligibilityProfile | null> {
+    const user = await db.query.users.findFirst({
+      where: eq(schema.users.id, userId),
+      columns: { id: true, role: true, position: true, organizationId: true },
+    });
+    
+    if (!user) return null;
+    
+    return {
+      id: user.id,
+      role: user.role,
+      position: user.position,
+      organizationIds: user.organizationId ? await this.getOrganizationAncestorIds(user.organizationId) : [],
+      hospitalId: user.organizationId ? await this.getOrganizationHospitalId(user.organizationId) : null,
+    };
+  },
+  
+  /**
+   * Evaluates an event's eligibility rules for a user
+   * @returns The rules the user fails, each with an explanation
+   */
+  async checkEventRules(
+    event: Pick<schema.Event, "id" | "eligibilityRules">,
+    profile: EligibilityProfile,
+    { executor = db, replacingRegistrationId }: EligibilityCheckOptions = {}
+  ): Promise<EligibilityIssue[]> {
+    const rules = event.eligibilityRules;
+    const issues: EligibilityIssue[] = [];
+    
+    if (!hasEligibilityRules(rules)) return issues;
+    
+    if (rules.roles?.length && !rules.roles.includes(profile.role)) {
+      issues.push({
+        rule: "role",
+        message: `Registration is limited to the following roles: ${rules.roles.map(formatRole).join(", ")}`,
+      });
+    }
+    
+    if (rules.organizationIds?.length && !rules.organizationIds.some(id => profile.organizationIds.includes(id))) {
+      const organizations = await db.query.organizations.findMany({
+        where: inArray(schema.organizations.id, rules.organizationIds),
+        columns: { name: true },
+      });
+      
+      issues.push({
+        rule: "organization",
+        message: `Registration is limited to members of: ${organizations.map(organization => organization.name).join(", ")}`,
+      });
+    }
+    
+    if (rules.positions?.length) {
+      const position = profile.position?.trim().toLowerCase();
+      if (!position || !rules.positions.some(allowed => allowed.toLowerCase() === position)) {
+        issues.push({
+          rule: "position",
+          message: `Registration is limited to the following specialties: ${rules.positions.join(", ")}`,
+        });
+      }
+    }
+    
+    if (rules.maxPerHospital !== undefined && profile.hospitalId !== null) {
+      const hospitalUnits = await this.getOrganizationSubtreeIds(profile.hospitalId);
+      
+      const conditions: SQL[] = [
+        eq(schema.eventRegistrations.eventId, event.id),
+        inArray(schema.eventRegistrations.status, ["pending", "approved", "waitlisted"]),
+        inArray(schema.users.organizationId, hospitalUnits),
+        ne(schema.users.id, profile.id),
+      ];
+      
+      if (replacingRegistrationId) {
+        conditions.push(ne(schema.eventRegistrations.id, replacingRegistrationId));
+      }
+      
+      const [taken] = await executor
+        .select({ count: sql<number>`count(*)::int` })
+        .from(schema.eventRegistrations)
+        .innerJoin(schema.users, eq(schema.eventRegistrations.userId, schema.users.id))
+        .where(and(...conditions));
+      
+      if (taken.count >= rules.maxPerHospital) {
+        issues.push({
+          rule: "hospital_quota",
+          message: `The hospital has reached its limit of ${rules.maxPerHospital} registrations for this event`,
+        });
+      }
+    }
     
-    return deletedEvent;
+    return issues;
   },
   
-  // Event Registration
-  async registerForEvent(registrationData: schema.NewEventRegistration) {
-    const event = await this.getEventById(registrationData.eventId);
+  /**
+   * Checks whether a user may hold a registration for an event: their
+   * account, any existing registration and the event's eligibility rules
+   * @returns The reasons the user is not eligible; empty when they are
+   */
+  async checkRegistrationEligibility(
+    eventId: number,
+    userId: number,
+    options: EligibilityCheckOptions = {}
+  ): Promise<EligibilityIssue[]> {
+    const issues: EligibilityIssue[] = [];
     
-    if (!event) {
-      throw new Error("Event not found");
+    const event = await db.query.events.findFirst({
+      where: eq(schema.events.id, eventId),
+      columns: { id: true, eligibilityRules: true },
+    });
+    
+    const user = await db.query.users.findFirst({
+      where: eq(schema.users.id, userId),
+      columns: { id: true, active: true, verified: true },
+    });
+    
+    if (!event || !user || !user.active) {
+      return [{ rule: "account", message: "The account is not active" }];
+    }
+    
+    if (!user.verified) {
+      issues.push({ rule: "account", message: "The account's email address has not been verified" });
     }
     
-    // Check if the user is already registered
-    const existingRegistration = await db.query.eventRegistrations.findFirst({
+    const permissions = await this.getUserPermissions(userId);
+    if (!permissions.some(permission => permission.name === "event:register")) {
+      issues.push({ rule: "account", message: "The account is not allowed to register for events" });
+    }
+    
+    // A cancelled registration does not prevent signing up again
+    const existingRegistration = await (options.executor ?? db).query.eventRegistrations.findFirst({
       where: and(
-        eq(schema.eventRegistrations.eventId, registrationData.eventId),
-        eq(schema.eventRegistrations.userId, registrationData.userId)
+        eq(schema.eventRegistrations.eventId, eventId),
+        eq(schema.eventRegistrations.userId, userId),
+        ne(schema.eventRegistrations.status, "cancelled")
       ),
+      columns: { id: true },
     });
     
     if (existingRegistration) {
-      throw new Error("User is already registered for this event");
+      issues.push({ rule: "registered", message: "Already registered for this event" });
     }
     
-    // Check if the event has reached capacity
-    const registrationsCount = await db
-      .select({ count: sql<number>`count(*)` })
-      .from(schema.eventRegistrations)
-      .where(
-        and(
-          eq(schema.eventRegistrations.eventId, registrationData.eventId),
-          eq(schema.eventRegistrations.status, "approved")
-        )
-      );
-    
-    if (
-      event.capacity &&
-      registrationsCount[0]?.count >= event.capacity
-    ) {
-      throw new Error("Event has reached maximum capacity");
+    const profile = await this.getEligibilityProfile(userId);
+    if (profile) {
+      issues.push(...await this.checkEventRules(event, profile, options));
     }
     
-    // Set status based on autoApproveRegistrations
-    const status = event.autoApproveRegistrations ? "approved" : "pending";
-    
-    const [registration] = await db
-      .insert(schema.eventRegistrations)
-      .values({
-        ...registrationData,
-        status,
-        registrationDate: new Date(),
-      })
-      .returning();
-    
-    return registration;
+    return issues;
+  },
+  
+  /**
+   * Cancels a registration, frees its seat or waitlist place and revokes any
+   * certificate issued for it
+   */
+  async cancelRegistration(id: number, cancelledById: number, reason?: string) {
+    return await db.transaction(async (tx) => {
+      const [cancelledRegistration] = await tx
+        .update(schema.eventRegistrations)
+        .set({
+          status: "cancelled",
+          cancelledAt: new Date(),
+          cancellationReason: reason,
+          waitlistPosition: null,
+          offerExpiresAt: null,
+          updatedAt: new Date(),
+        })
+        .where(eq(schema.eventRegistrations.id, id))
+        .returning();
+      
+      if (!cancelledRegistration) return null;
+      
+      await renumberWaitlist(tx, cancelledRegistration.eventId);
+      
+      const revokedCertificates = await tx
+        .update(schema.certificates)
+        .set({
+          isRevoked: true,
+          revokedReason: "Registration cancelled",
+          revokedDate: new Date(),
+          revokedById: cancelledById,
+          updatedAt: new Date(),
+        })
+        .where(and(
+          eq(schema.certificates.registrationId, id),
+          eq(schema.certificates.isRevoked, false)
+        ))
+        .returning();
+      
+      for (const certificate of revokedCertificates) {
+        await recordCertificateVersion(tx, certificate, "revoked", cancelledById, "Registration cancelled");
+        await reverseCmeCredits(tx, certificate, "Registration cancelled");
+      }
+      
+      return { registration: cancelledRegistration, revokedCertificates };
+    });
+  },
+  
+  // Moves a registration, with its status and seat, to another user
+  async transferRegistration(id: number, toUserId: number, transferredById: number, reason?: string) {
+    return await db.transaction(async (tx) => {
+      const registration = await tx.query.eventRegistrations.findFirst({
+        where: eq(schema.eventRegistrations.id, id),
+        columns: { id: true, userId: true },
+      });
+      
+      if (!registration) return null;
+      
+      await tx.insert(schema.registrationTransfers).values({
+        registrationId: id,
+        fromUserId: registration.userId,
+        toUserId,
+        transferredById,
+        reason,
+      });
+      
+      const [transferredRegistration] = await tx
+        .update(schema.eventRegistrations)
+        .set({
+          userId: toUserId,
+          updatedAt: new Date(),
+        })
+        .where(eq(schema.eventRegistrations.id, id))
+        .returning();
+      
+      return transferredRegistration;
+    });
+  },
+  
+  async getRegistrationTransfers(registrationId: number) {
+    return await db.query.registrationTransfers.findMany({
+      where: eq(schema.registrationTransfers.registrationId, registrationId),
+      with: {
+        fromUser: {
+          columns: { id: true, fullName: true, email: true },
+        },
+        toUser: {
+          columns: { id: true, fullName: true, email: true },
+        },
+      },
+      orderBy: desc(schema.registrationTransfers.createdAt),
+    });
   },
   
   async getEventRegistrations(
@@ -520,45 +2478,33 @@ export const storage = {
     page = 1,
     limit = 10,
     search = "",
-    status?: string
+    status?: string,
+    scope: OrganizationScope = null
   ) {
     const offset = (page - 1) * limit;
     
-    let query = db
-      .select({
-        id: schema.eventRegistrations.id,
-        status: schema.eventRegistrations.status,
-        registrationDate: schema.eventRegistrations.registrationDate,
-        attendanceConfirmed: schema.eventRegistrations.attendanceConfirmed,
-        notes: schema.eventRegistrations.notes,
-        user: {
-          id: schema.users.id,
-          fullName: schema.users.fullName,
-          email: schema.users.email,
-          organization: schema.users.organization,
-          position: schema.users.position,
-          profileImage: schema.users.profileImage,
-        },
-      })
-      .from(schema.eventRegistrations)
-      .innerJoin(
-        schema.users,
-        eq(schema.eventRegistrations.userId, schema.users.id)
-      )
-      .where(eq(schema.eventRegistrations.eventId, eventId));
+    const whereConditions: SQL[] = [eq(schema.eventRegistrations.eventId, eventId)];
     
     if (status && status !== "all") {
-      query = query.where(eq(schema.eventRegistrations.status, status as any));
+      whereConditions.push(eq(schema.eventRegistrations.status, status as any));
     }
     
     if (search) {
-      query = query.where(
+      whereConditions.push(
         sql`(${schema.users.fullName} ILIKE ${`%${search}%`} OR 
              ${schema.users.email} ILIKE ${`%${search}%`} OR 
              ${schema.users.organization} ILIKE ${`%${search}%`})`
       );
     }
     
+    // Restrict to registrants belonging to the caller's organizations
+    const scopeFilter = scopeCondition(schema.users.organizationId, scope);
+    if (scopeFilter) {
+      whereConditions.push(scopeFilter);
+    }
+    
+    const where = and(...whereConditions);
+    
     const totalCountResult = await db
       .select({ count: sql<number>`count(*)` })
       .from(schema.eventRegistrations)
@@ -566,23 +2512,34 @@ export const storage = {
         schema.users,
         eq(schema.eventRegistrations.userId, schema.users.id)
       )
-      .where(eq(schema.eventRegistrations.eventId, eventId))
-      .where(
-        status && status !== "all"
-          ? eq(schema.eventRegistrations.status, status as any)
-          : sql`1=1`
-      )
-      .where(
-        search
-          ? sql`(${schema.users.fullName} ILIKE ${`%${search}%`} OR 
-                 ${schema.users.email} ILIKE ${`%${search}%`} OR 
-                 ${schema.users.organization} ILIKE ${`%${search}%`})`
-          : sql`1=1`
-      );
+      .where(where);
     
     const totalCount = totalCountResult[0]?.count || 0;
     
-    const registrations = await query
+    const registrations = await db
+      .select({
+        id: schema.eventRegistrations.id,
+        status: schema.eventRegistrations.status,
+        registrationDate: schema.eventRegistrations.registrationDate,
+        attendanceConfirmed: schema.eventRegistrations.attendanceConfirmed,
+        notes: schema.eventRegistrations.notes,
+        answers: schema.eventRegistrations.answers,
+        user: {
+          id: schema.users.id,
+          fullName: schema.users.fullName,
+          email: schema.users.email,
+          organization: schema.users.organization,
+          organizationId: schema.users.organizationId,
+          position: schema.users.position,
+          profileImage: schema.users.profileImage,
+        },
+      })
+      .from(schema.eventRegistrations)
+      .innerJoin(
+        schema.users,
+        eq(schema.eventRegistrations.userId, schema.users.id)
+      )
+      .where(where)
       .limit(limit)
       .offset(offset)
       .orderBy(desc(schema.eventRegistrations.registrationDate));
@@ -614,12 +2571,351 @@ export const storage = {
     };
   },
   
-  async updateRegistrationStatus(id: number, status: 'approved' | 'rejected', notes?: string) {
+  // Every registration of an event with the registrant's details, for export
+  async getEventRegistrationsForExport(eventId: number, scope: OrganizationScope = null) {
+    const whereConditions: SQL[] = [eq(schema.eventRegistrations.eventId, eventId)];
+    
+    const scopeFilter = scopeCondition(schema.users.organizationId, scope);
+    if (scopeFilter) {
+      whereConditions.push(scopeFilter);
+    }
+    
+    return await db
+      .select({
+        id: schema.eventRegistrations.id,
+        status: schema.eventRegistrations.status,
+        registrationDate: schema.eventRegistrations.registrationDate,
+        attendanceConfirmed: schema.eventRegistrations.attendanceConfirmed,
+        notes: schema.eventRegistrations.notes,
+        answers: schema.eventRegistrations.answers,
+        user: {
+          fullName: schema.users.fullName,
+          email: schema.users.email,
+          organization: schema.users.organization,
+          position: schema.users.position,
+        },
+      })
+      .from(schema.eventRegistrations)
+      .innerJoin(
+        schema.users,
+        eq(schema.eventRegistrations.userId, schema.users.id)
+      )
+      .where(and(...whereConditions))
+      .orderBy(schema.eventRegistrations.registrationDate);
+  },
+  
+  async getRegistrationById(id: number) {
+    return await db.query.eventRegistrations.findFirst({
+      where: eq(schema.eventRegistrations.id, id),
+      with: {
+        event: true,
+        user: {
+          columns: {
+            id: true,
+            fullName: true,
+            email: true,
+            organization: true,
+            organizationId: true,
+            profileImage: true,
+          },
+        },
+        certificates: {
+          columns: {
+            id: true,
+            seriesId: true,
+            isRevoked: true,
+          },
+        },
+      },
+    });
+  },
+  
+  async updateRegistrationStatus(id: number, status: 'approved' | 'rejected', notes?: string) {
+    return await db.transaction(async (tx) => {
+      if (status === "approved") {
+        const target = await tx.query.eventRegistrations.findFirst({
+          where: eq(schema.eventRegistrations.id, id),
+          columns: { eventId: true },
+        });
+        
+        if (target) {
+          await lockEvent(tx, target.eventId);
+          
+          // Read again under the lock, so a seat offer cannot lapse or be taken meanwhile
+          const registration = await tx.query.eventRegistrations.findFirst({
+            where: eq(schema.eventRegistrations.id, id),
+            columns: { status: true, offerExpiresAt: true },
+          });
+          const issue = registration && checkApproval(registration, await countFreeSeats(tx, target.eventId));
+          
+          if (issue) {
+            throw new RegistrationApprovalError(issue);
+          }
+        }
+      }
+      
+      const [updatedRegistration] = await tx
+        .update(schema.eventRegistrations)
+        .set({
+          status,
+          notes,
+          waitlistPosition: null,
+          offerExpiresAt: null,
+          updatedAt: new Date(),
+        })
+        .where(eq(schema.eventRegistrations.id, id))
+        .returning();
+      
+      if (updatedRegistration) {
+        await renumberWaitlist(tx, updatedRegistration.eventId);
+      }
+      
+      return updatedRegistration;
+    });
+  },
+  
+  /**
+   * Approves or rejects several registrations of an event in one transaction.
+   * Registrations of other events and cancelled ones are skipped, as are
+   * approvals beyond the event's free seats and of waitlisted registrations
+   * without a seat offer.
+   * @param notes Reason used for registrations without one of their own
+   */
+  async updateRegistrationStatuses(
+    eventId: number,
+    status: 'approved' | 'rejected',
+    updates: { id: number; notes?: string }[],
+    notes?: string
+  ) {
+    return await db.transaction(async (tx) => {
+      await lockEvent(tx, eventId);
+      
+      const registrations = await tx.query.eventRegistrations.findMany({
+        where: and(
+          eq(schema.eventRegistrations.eventId, eventId),
+          inArray(schema.eventRegistrations.id, updates.map(update => update.id))
+        ),
+        columns: { id: true, status: true, offerExpiresAt: true },
+      });
+      
+      let freeSeats = status === "approved" ? await countFreeSeats(tx, eventId) : undefined;
+      const updated: schema.EventRegistration[] = [];
+      const skipped: { id: number; reason: string }[] = [];
+      
+      for (const update of updates) {
+        const registration = registrations.find(r => r.id === update.id);
+        
+        if (!registration) {
+          skipped.push({ id: update.id, reason: "Registration not found" });
+          continue;
+        }
+        
+        if (registration.status === "cancelled") {
+          skipped.push({ id: update.id, reason: "Cancelled registrations cannot be updated" });
+          continue;
+        }
+        
+        if (status === "approved") {
+          const issue = checkApproval(registration, freeSeats);
+          
+          if (issue) {
+            skipped.push({ id: update.id, reason: registrationApprovalMessages[issue] });
+            continue;
+          }
+          
+          // Approved registrations and seat offers already hold theirs
+          if (freeSeats !== undefined && !["approved", "waitlisted"].includes(registration.status)) {
+            freeSeats--;
+          }
+        }
+        
+        const [updatedRegistration] = await tx
+          .update(schema.eventRegistrations)
+          .set({
+            status,
+            notes: update.notes ?? notes,
+            waitlistPosition: null,
+            offerExpiresAt: null,
+            updatedAt: new Date(),
+          })
+          .where(eq(schema.eventRegistrations.id, update.id))
+          .returning();
+        
+        updated.push(updatedRegistration);
+      }
+      
+      await renumberWaitlist(tx, eventId);
+      
+      return { updated, skipped };
+    });
+  },
+  
+  // Waitlist functions
+  async getWaitlist(eventId: number) {
+    return await db.query.eventRegistrations.findMany({
+      where: and(
+        eq(schema.eventRegistrations.eventId, eventId),
+        eq(schema.eventRegistrations.status, "waitlisted")
+      ),
+      columns: {
+        id: true,
+        waitlistPosition: true,
+        offerExpiresAt: true,
+        registrationDate: true,
+      },
+      with: {
+        user: {
+          columns: {
+            id: true,
+            fullName: true,
+            email: true,
+            organization: true,
+            profileImage: true,
+          },
+        },
+      },
+      orderBy: schema.eventRegistrations.waitlistPosition,
+    });
+  },
+  
+  /**
+   * Offers free seats to the head of the waitlist. Each offer holds the seat
+   * for the event's confirmation window.
+   * @returns The registrations that received an offer
+   */
+  async promoteFromWaitlist(eventId: number) {
+    return await db.transaction(async (tx) => {
+      await lockEvent(tx, eventId);
+      
+      const event = await tx.query.events.findFirst({
+        where: eq(schema.events.id, eventId),
+        columns: { id: true, title: true, capacity: true, waitlistOfferHours: true },
+      });
+      
+      if (!event) return [];
+      
+      const freeSeats = event.capacity
+        ? event.capacity - (await countOccupiedSeats(tx, eventId))
+        : undefined;
+      
+      if (freeSeats !== undefined && freeSeats <= 0) return [];
+      
+      const candidates = await tx.query.eventRegistrations.findMany({
+        where: and(
+          eq(schema.eventRegistrations.eventId, eventId),
+          eq(schema.eventRegistrations.status, "waitlisted"),
+          isNull(schema.eventRegistrations.offerExpiresAt)
+        ),
+        columns: { id: true, userId: true, waitlistPosition: true },
+        with: {
+          user: {
+            columns: { id: true, fullName: true, email: true },
+          },
+        },
+        orderBy: schema.eventRegistrations.waitlistPosition,
+        limit: freeSeats,
+      });
+      
+      if (candidates.length === 0) return [];
+      
+      const offerExpiresAt = new Date(Date.now() + event.waitlistOfferHours * 60 * 60 * 1000);
+      
+      await tx
+        .update(schema.eventRegistrations)
+        .set({ offerExpiresAt, updatedAt: new Date() })
+        .where(inArray(schema.eventRegistrations.id, candidates.map(candidate => candidate.id)));
+      
+      return candidates.map(candidate => ({
+        ...candidate,
+        offerExpiresAt,
+        event: { id: event.id, title: event.title },
+      }));
+    });
+  },
+  
+  // Turns an unexpired waitlist offer into an approved registration
+  async confirmWaitlistOffer(id: number) {
+    return await db.transaction(async (tx) => {
+      const [confirmedRegistration] = await tx
+        .update(schema.eventRegistrations)
+        .set({
+          status: "approved",
+          waitlistPosition: null,
+          offerExpiresAt: null,
+          updatedAt: new Date(),
+        })
+        .where(and(
+          eq(schema.eventRegistrations.id, id),
+          eq(schema.eventRegistrations.status, "waitlisted"),
+          gte(schema.eventRegistrations.offerExpiresAt, new Date())
+        ))
+        .returning();
+      
+      if (confirmedRegistration) {
+        await renumberWaitlist(tx, confirmedRegistration.eventId);
+      }
+      
+      return confirmedRegistration;
+    });
+  },
+  
+  /**
+   * Drops waitlisted participants whose offer ran out without confirmation
+   * @returns The expired registrations, so their seats can be offered on
+   */
+  async expireWaitlistOffers() {
+    return await db.transaction(async (tx) => {
+      const expiredRegistrations = await tx
+        .update(schema.eventRegistrations)
+        .set({
+          status: "rejected",
+          notes: "Waitlist offer expired",
+          waitlistPosition: null,
+          offerExpiresAt: null,
+          updatedAt: new Date(),
+        })
+        .where(and(
+          eq(schema.eventRegistrations.status, "waitlisted"),
+          lte(schema.eventRegistrations.offerExpiresAt, new Date())
+        ))
+        .returning({
+          id: schema.eventRegistrations.id,
+          eventId: schema.eventRegistrations.eventId,
+          userId: schema.eventRegistrations.userId,
+        });
+      
+      const eventIds = Array.from(new Set(expiredRegistrations.map(registration => registration.eventId)));
+      for (const eventId of eventIds) {
+        await renumberWaitlist(tx, eventId);
+      }
+      
+      return expiredRegistrations;
+    });
+  },
+  
+  async moveWaitlistEntry(id: number, position: number) {
+    return await db.transaction(async (tx) => {
+      const registration = await tx.query.eventRegistrations.findFirst({
+        where: and(
+          eq(schema.eventRegistrations.id, id),
+          eq(schema.eventRegistrations.status, "waitlisted")
+        ),
+        columns: { id: true, eventId: true },
+      });
+      
+      if (!registration) return null;
+      
+      await renumberWaitlist(tx, registration.eventId, { id, position });
+      
+      return registration;
+    });
+  },
+  
+  async confirmAttendance(id: number) {
     const [updatedRegistration] = await db
       .update(schema.eventRegistrations)
       .set({
-        status,
-        notes,
+        attendanceConfirmed: true,
         updatedAt: new Date(),
       })
       .where(eq(schema.eventRegistrations.id, id))
@@ -628,17 +2924,183 @@ export const storage = {
     return updatedRegistration;
   },
   
-  async confirmAttendance(id: number) {
-    const [updatedRegistration] = await db
-      .update(schema.eventRegistrations)
-      .set({
-        attendanceConfirmed: true,
-        updatedAt: new Date(),
-      })
-      .where(eq(schema.eventRegistrations.id, id))
-      .returning();
+  // Attendance functions
+  
+  /**
+   * Checks a registration in to or out of a session. A record keeps the
+   * first check-in and the last check-out; checking in again after leaving
+   * reopens it. Scans synced from offline devices carry their own time, so
+   * one that predates the recorded state is reported as a duplicate.
+   * @param scheduleId The session, or null for events without a schedule
+   * @param at When the ticket was scanned
+   */
+  async recordAttendance(
+    eventId: number,
+    registrationId: number,
+    scheduleId: number | null,
+    action: "check_in" | "check_out",
+    staffId: number,
+    at = new Date()
+  ) {
+    return await db.transaction(async (tx) => {
+      const registration = await tx.query.eventRegistrations.findFirst({
+        where: eq(schema.eventRegistrations.id, registrationId),
+        columns: { id: true, eventId: true, status: true },
+      });
+      
+      if (!registration || registration.eventId !== eventId) {
+        throw new AttendanceError("not_found", "This ticket is not for this event");
+      }
+      
+      if (registration.status !== "approved") {
+        throw new AttendanceError("not_approved", `The registration is ${registration.status}, not approved`);
+      }
+      
+      const schedules = await tx.query.eventSchedules.findMany({
+        where: eq(schema.eventSchedules.eventId, eventId),
+        columns: { id: true },
+      });
+      
+      if (scheduleId === null ? schedules.length > 0 : !schedules.some(schedule => schedule.id === scheduleId)) {
+        throw new AttendanceError("invalid_session", "Choose one of the event's sessions");
+      }
+      
+      const recordCondition = and(
+        eq(schema.attendanceRecords.registrationId, registrationId),
+        scheduleId === null ? isNull(schema.attendanceRecords.scheduleId) : eq(schema.attendanceRecords.scheduleId, scheduleId)
+      );
+      
+      const existing = await tx.query.attendanceRecords.findFirst({ where: recordCondition });
+      
+      if (action === "check_out") {
+        if (!existing || at < existing.checkedInAt) {
+          throw new AttendanceError("not_checked_in", "The participant has not checked in to this session");
+        }
+        if (existing.checkedOutAt) {
+          throw new AttendanceError("already_checked_out", `Already checked out at ${existing.checkedOutAt.toISOString()}`);
+        }
+        
+        const [record] = await tx
+          .update(schema.attendanceRecords)
+          .set({ checkedOutAt: at, checkedOutById: staffId, updatedAt: new Date() })
+          .where(eq(schema.attendanceRecords.id, existing.id))
+          .returning();
+        
+        return record;
+      }
+      
+      let record: schema.AttendanceRecord | undefined;
+      
+      if (existing) {
+        if (!existing.checkedOutAt) {
+          throw new AttendanceError("already_checked_in", `Already checked in at ${existing.checkedInAt.toISOString()}`);
+        }
+        if (at <= existing.checkedOutAt) {
+          throw new AttendanceError("already_checked_in", `Already checked in and out at ${existing.checkedOutAt.toISOString()}`);
+        }
+        
+        [record] = await tx
+          .update(schema.attendanceRecords)
+          .set({ checkedOutAt: null, checkedOutById: null, updatedAt: new Date() })
+          .where(eq(schema.attendanceRecords.id, existing.id))
+          .returning();
+      } else {
+        // A simultaneous scan of the same ticket loses the race on the unique index
+        [record] = await tx
+          .insert(schema.attendanceRecords)
+          .values({ registrationId, scheduleId, checkedInAt: at, checkedInById: staffId })
+          .onConflictDoNothing()
+          .returning();
+        
+        if (!record) {
+          throw new AttendanceError("already_checked_in", "Already checked in");
+        }
+      }
+      
+      await tx
+        .update(schema.eventRegistrations)
+        .set({ attendanceConfirmed: true, updatedAt: new Date() })
+        .where(eq(schema.eventRegistrations.id, registrationId));
+      
+      return record;
+    });
+  },
+  
+  // Share of the event's sessions a registration has checked in to
+  async getAttendanceSummary(registrationId: number) {
+    const registration = await db.query.eventRegistrations.findFirst({
+      where: eq(schema.eventRegistrations.id, registrationId),
+      columns: { eventId: true, attendanceConfirmed: true },
+    });
     
-    return updatedRegistration;
+    if (!registration) return null;
+    
+    const [sessions] = await db
+      .select({ count: sql<number>`count(*)::int` })
+      .from(schema.eventSchedules)
+      .where(eq(schema.eventSchedules.eventId, registration.eventId));
+    
+    const [attended] = await db
+      .select({ count: sql<number>`count(*)::int` })
+      .from(schema.attendanceRecords)
+      .where(and(
+        eq(schema.attendanceRecords.registrationId, registrationId),
+        isNotNull(schema.attendanceRecords.scheduleId)
+      ));
+    
+    return {
+      sessionsTotal: sessions.count,
+      sessionsAttended: attended.count,
+      percent: computeAttendancePercent(attended.count, sessions.count, !!registration.attendanceConfirmed),
+    };
+  },
+  
+  // Approved registrations of an event with their check-ins, for the check-in desk
+  async getEventAttendance(eventId: number) {
+    const sessions = await db.query.eventSchedules.findMany({
+      where: eq(schema.eventSchedules.eventId, eventId),
+      columns: { id: true, title: true, date: true, startTime: true, endTime: true },
+      orderBy: [schema.eventSchedules.date, schema.eventSchedules.startTime],
+    });
+    
+    const registrations = await db.query.eventRegistrations.findMany({
+      where: and(
+        eq(schema.eventRegistrations.eventId, eventId),
+        eq(schema.eventRegistrations.status, "approved")
+      ),
+      columns: { id: true, attendanceConfirmed: true },
+      with: {
+        user: {
+          columns: {
+            id: true,
+            fullName: true,
+            email: true,
+            organization: true,
+            profileImage: true,
+          },
+        },
+        attendanceRecords: {
+          columns: {
+            scheduleId: true,
+            checkedInAt: true,
+            checkedOutAt: true,
+          },
+        },
+      },
+      orderBy: schema.eventRegistrations.registrationDate,
+    });
+    
+    return {
+      sessions,
+      registrations: registrations.map(registration => {
+        const sessionsAttended = registration.attendanceRecords.filter(record => record.scheduleId !== null).length;
+        return {
+          ...registration,
+          sessionsAttended,
+          attendancePercent: computeAttendancePercent(sessionsAttended, sessions.length, !!registration.attendanceConfirmed),
+        };
+      }),
+    };
   },
   
   // Event Schedule
@@ -651,6 +3113,15 @@ export const storage = {
     return schedule;
   },
   
+  async getEventScheduleById(id: number) {
+    return await db.query.eventSchedules.findFirst({
+      where: eq(schema.eventSchedules.id, id),
+      with: {
+        event: true,
+      },
+    });
+  },
+  
   async updateEventSchedule(id: number, scheduleData: Partial<schema.EventSchedule>) {
     const [updatedSchedule] = await db
       .update(schema.eventSchedules)
@@ -683,6 +3154,15 @@ export const storage = {
     return speaker;
   },
   
+  async getEventSpeakerById(id: number) {
+    return await db.query.eventSpeakers.findFirst({
+      where: eq(schema.eventSpeakers.id, id),
+      with: {
+        event: true,
+      },
+    });
+  },
+  
   async updateEventSpeaker(id: number, speakerData: Partial<schema.EventSpeaker>) {
     const [updatedSpeaker] = await db
       .update(schema.eventSpeakers)
@@ -705,6 +3185,188 @@ export const storage = {
     return deletedSpeaker;
   },
   
+  // Assessments
+  async getEventAssessments(eventId: number, publishedOnly = false) {
+    return await db.query.assessments.findMany({
+      where: and(
+        eq(schema.assessments.eventId, eventId),
+        publishedOnly ? eq(schema.assessments.isPublished, true) : undefined
+      ),
+      with: {
+        schedule: {
+          columns: { id: true, title: true, date: true },
+        },
+      },
+      orderBy: [schema.assessments.createdAt, schema.assessments.id],
+    });
+  },
+  
+  async getAssessmentById(id: number) {
+    return await db.query.assessments.findFirst({
+      where: eq(schema.assessments.id, id),
+      with: {
+        event: true,
+        schedule: true,
+      },
+    });
+  },
+  
+  async createAssessment(assessmentData: typeof schema.assessments.$inferInsert) {
+    const [assessment] = await db
+      .insert(schema.assessments)
+      .values(assessmentData)
+      .returning();
+    
+    return assessment;
+  },
+  
+  async updateAssessment(id: number, assessmentData: schema.NewAssessment) {
+    const [updatedAssessment] = await db
+      .update(schema.assessments)
+      .set({
+        ...assessmentData,
+        updatedAt: new Date(),
+      })
+      .where(eq(schema.assessments.id, id))
+      .returning();
+    
+    return updatedAssessment;
+  },
+  
+  async deleteAssessment(id: number) {
+    const [deletedAssessment] = await db
+      .delete(schema.assessments)
+      .where(eq(schema.assessments.id, id))
+      .returning();
+    
+    return deletedAssessment;
+  },
+  
+  async countAssessmentResponses(assessmentId: number) {
+    const [responses] = await db
+      .select({ count: sql<number>`count(*)::int` })
+      .from(schema.assessmentResponses)
+      .where(eq(schema.assessmentResponses.assessmentId, assessmentId));
+    
+    return responses.count;
+  },
+  
+  // A participant's attempts at an event's assessments, latest first
+  async getRegistrationAssessmentResponses(registrationId: number) {
+    return await db.query.assessmentResponses.findMany({
+      where: eq(schema.assessmentResponses.registrationId, registrationId),
+      orderBy: desc(schema.assessmentResponses.attempt),
+    });
+  },
+  
+  // Records an attempt, numbered after the participant's previous ones
+  async createAssessmentResponse(
+    response: Omit<typeof schema.assessmentResponses.$inferInsert, "attempt" | "submittedAt">
+  ) {
+    return await db.transaction(async (tx) => {
+      const [previous] = await tx
+        .select({ count: sql<number>`count(*)::int` })
+        .from(schema.assessmentResponses)
+        .where(and(
+          eq(schema.assessmentResponses.assessmentId, response.assessmentId),
+          eq(schema.assessmentResponses.registrationId, response.registrationId)
+        ));
+      
+      const [created] = await tx
+        .insert(schema.assessmentResponses)
+        .values({ ...response, attempt: previous.count + 1 })
+        .returning();
+      
+      return created;
+    });
+  },
+  
+  /**
+   * How each registration did on the published assessments of an event that
+   * are required for the certificate
+   */
+  async getCertificateAssessmentResults(eventId: number, registrationIds: number[]) {
+    const results = new Map<number, CertificateAssessmentResult[]>(
+      registrationIds.map(registrationId => [registrationId, []])
+    );
+    
+    const required = await db.query.assessments.findMany({
+      where: and(
+        eq(schema.assessments.eventId, eventId),
+        eq(schema.assessments.requiredForCertificate, true),
+        eq(schema.assessments.isPublished, true)
+      ),
+      columns: { id: true, title: true, kind: true },
+    });
+    
+    if (required.length === 0 || registrationIds.length === 0) return results;
+    
+    const responses = await db
+      .select({
+        assessmentId: schema.assessmentResponses.assessmentId,
+        registrationId: schema.assessmentResponses.registrationId,
+        passed: schema.assessmentResponses.passed,
+      })
+      .from(schema.assessmentResponses)
+      .where(and(
+        inArray(schema.assessmentResponses.assessmentId, required.map(assessment => assessment.id)),
+        inArray(schema.assessmentResponses.registrationId, registrationIds)
+      ));
+    
+    for (const registrationId of registrationIds) {
+      results.set(registrationId, required.map(assessment => {
+        const attempts = responses.filter(response =>
+          response.assessmentId === assessment.id && response.registrationId === registrationId
+        );
+        
+        return {
+          assessmentId: assessment.id,
+          title: assessment.title,
+          kind: assessment.kind,
+          // Surveys are passed by answering them; unscored quizzes record passed as null
+          status: attempts.length === 0
+            ? "missing"
+            : attempts.some(attempt => attempt.passed !== false) ? "passed" : "failed",
+        };
+      }));
+    }
+    
+    return results;
+  },
+  
+  // Aggregated results of an event's assessments, with pre/post learning gains and speaker ratings
+  async getAssessmentReport(eventId: number): Promise<AssessmentReport> {
+    const assessments = await db.query.assessments.findMany({
+      where: eq(schema.assessments.eventId, eventId),
+      with: {
+        schedule: {
+          columns: { id: true },
+          with: {
+            speaker: {
+              columns: { id: true, name: true },
+            },
+          },
+        },
+        responses: {
+          columns: { registrationId: true, attempt: true, answers: true, percent: true, passed: true },
+        },
+      },
+      orderBy: [schema.assessments.createdAt, schema.assessments.id],
+    });
+    
+    return {
+      assessments: assessments.map(assessment => summarizeAssessment(assessment, assessment.responses)),
+      learningGains: computeLearningGains(assessments),
+      speakerRatings: computeSpeakerRatings(assessments
+        .filter(assessment => assessment.kind === "survey")
+        .map(assessment => ({
+          questions: assessment.questions,
+          speaker: assessment.schedule?.speaker ?? null,
+          responses: assessment.responses,
+        }))),
+    };
+  },
+  
   // Event Documents
   async addEventDocument(documentData: schema.NewEventDocument) {
     const [document] = await db
@@ -715,9 +3377,13 @@ export const storage = {
     return document;
   },
   
+  // The event's documents and those shared by its series
   async getEventDocuments(eventId: number) {
     return await db.query.eventDocuments.findMany({
-      where: eq(schema.eventDocuments.eventId, eventId),
+      where: or(
+        eq(schema.eventDocuments.eventId, eventId),
+        sql`${schema.eventDocuments.seriesId} = (select ${schema.events.seriesId} from ${schema.events} where ${schema.events.id} = ${eventId})`
+      ),
       with: {
         uploadedBy: {
           columns: {
@@ -726,61 +3392,212 @@ export const storage = {
           },
         },
       },
-      orderBy: desc(schema.eventDocuments.createdAt),
-    });
-  },
-  
-  async deleteEventDocument(id: number) {
-    const [deletedDocument] = await db
-      .delete(schema.eventDocuments)
-      .where(eq(schema.eventDocuments.id, id))
-      .returning();
-    
-    return deletedDocument;
-  },
-  
-  // Certificates
-  async generateCertificate(registrationId: number, qrCode: string, certificateNumber: string) {
-    // Check if certificate already exists
-    const existingCertificate = await db.query.certificates.findFirst({
-      where: eq(schema.certificates.registrationId, registrationId),
+      orderBy: desc(schema.eventDocuments.createdAt),
+    });
+  },
+  
+  async getEventDocumentById(id: number) {
+    return await db.query.eventDocuments.findFirst({
+      where: eq(schema.eventDocuments.id, id),
+      with: {
+        event: true,
+      },
+    });
+  },
+  
+  async deleteEventDocument(id: number) {
+    const [deletedDocument] = await db
+      .delete(schema.eventDocuments)
+      .where(eq(schema.eventDocuments.id, id))
+      .returning();
+    
+    return deletedDocument;
+  },
+  
+  // Certificates
+  async generateCertificate(
+    registrationId: number,
+    certificateData: Pick<schema.Certificate, "certificateNumber" | "qrCode" | "signature" | "holderName" | "issuedDate">,
+    issuedById: number | null,
+    reissueReason?: string
+  ) {
+    return await db.transaction(async (tx) => {
+      // Check if certificate already exists; a series certificate kept on the registration is not it
+      const existingCertificate = await tx.query.certificates.findFirst({
+        where: and(
+          eq(schema.certificates.registrationId, registrationId),
+          isNull(schema.certificates.seriesId)
+        ),
+      });
+      
+      if (existingCertificate && !existingCertificate.isRevoked) {
+        return existingCertificate;
+      }
+      
+      if (existingCertificate) {
+        // A revoked certificate is reissued as a new version with a new number;
+        // the revoked one stays in the history and on the revocation list
+        const [reissuedCertificate] = await tx
+          .update(schema.certificates)
+          .set({
+            ...certificateData,
+            version: existingCertificate.version + 1,
+            isRevoked: false,
+            revokedReason: null,
+            revokedDate: null,
+            revokedById: null,
+            updatedAt: new Date(),
+          })
+          .where(eq(schema.certificates.id, existingCertificate.id))
+          .returning();
+        
+        await recordCertificateVersion(tx, reissuedCertificate, "reissued", issuedById, reissueReason);
+        return await awardCmeCredits(tx, reissuedCertificate);
+      }
+      
+      // Create new certificate
+      const [certificate] = await tx
+        .insert(schema.certificates)
+        .values({
+          registrationId,
+          ...certificateData,
+        })
+        .returning();
+      
+      await recordCertificateVersion(tx, certificate, "issued", issuedById);
+      return await awardCmeCredits(tx, certificate);
+    });
+  },
+  
+  /**
+   * Issues a participant's series certificate on the registration of the
+   * latest occurrence they qualified for. It carries no CME credits of its
+   * own, those come with the certificates of the occurrences.
+   */
+  async generateSeriesCertificate(
+    seriesId: number,
+    registrationId: number,
+    certificateData: Pick<schema.Certificate, "certificateNumber" | "qrCode" | "signature" | "holderName" | "issuedDate">,
+    issuedById: number | null,
+    reissueReason?: string
+  ) {
+    return await db.transaction(async (tx) => {
+      const registration = await tx.query.eventRegistrations.findFirst({
+        where: eq(schema.eventRegistrations.id, registrationId),
+        columns: { userId: true },
+      });
+      
+      if (!registration) {
+        throw new Error("Registration not found");
+      }
+      
+      const [existingCertificate] = await tx
+        .select({ certificate: schema.certificates })
+        .from(schema.certificates)
+        .innerJoin(
+          schema.eventRegistrations,
+          eq(schema.certificates.registrationId, schema.eventRegistrations.id)
+        )
+        .where(and(
+          eq(schema.certificates.seriesId, seriesId),
+          eq(schema.eventRegistrations.userId, registration.userId)
+        ))
+        .limit(1);
+      
+      if (existingCertificate && !existingCertificate.certificate.isRevoked) {
+        return existingCertificate.certificate;
+      }
+      
+      if (existingCertificate) {
+        const [reissuedCertificate] = await tx
+          .update(schema.certificates)
+          .set({
+            ...certificateData,
+            registrationId,
+            version: existingCertificate.certificate.version + 1,
+            isRevoked: false,
+            revokedReason: null,
+            revokedDate: null,
+            revokedById: null,
+            updatedAt: new Date(),
+          })
+          .where(eq(schema.certificates.id, existingCertificate.certificate.id))
+          .returning();
+        
+        await recordCertificateVersion(tx, reissuedCertificate, "reissued", issuedById, reissueReason);
+        return reissuedCertificate;
+      }
+      
+      const [certificate] = await tx
+        .insert(schema.certificates)
+        .values({
+          registrationId,
+          seriesId,
+          ...certificateData,
+        })
+        .returning();
+      
+      await recordCertificateVersion(tx, certificate, "issued", issuedById);
+      return certificate;
+    });
+  },
+  
+  // Series certificates issued so far, with the user they were issued to
+  async getSeriesCertificates(seriesId: number) {
+    return await db
+      .select({
+        id: schema.certificates.id,
+        certificateNumber: schema.certificates.certificateNumber,
+        isRevoked: schema.certificates.isRevoked,
+        userId: schema.eventRegistrations.userId,
+      })
+      .from(schema.certificates)
+      .innerJoin(
+        schema.eventRegistrations,
+        eq(schema.certificates.registrationId, schema.eventRegistrations.id)
+      )
+      .where(eq(schema.certificates.seriesId, seriesId));
+  },
+  
+  // Corrects a certificate in place, e.g. a misspelled name, keeping its number
+  async amendCertificate(
+    id: number,
+    changes: Pick<schema.Certificate, "holderName" | "signature" | "qrCode">,
+    amendedById: number,
+    reason: string
+  ) {
+    return await db.transaction(async (tx) => {
+      const [amendedCertificate] = await tx
+        .update(schema.certificates)
+        .set({
+          ...changes,
+          version: sql`${schema.certificates.version} + 1`,
+          updatedAt: new Date(),
+        })
+        .where(eq(schema.certificates.id, id))
+        .returning();
+      
+      if (amendedCertificate) {
+        await recordCertificateVersion(tx, amendedCertificate, "amended", amendedById, reason);
+      }
+      
+      return amendedCertificate;
+    });
+  },
+  
+  async getCertificateVersions(certificateId: number) {
+    return await db.query.certificateVersions.findMany({
+      where: eq(schema.certificateVersions.certificateId, certificateId),
+      with: {
+        changedBy: {
+          columns: {
+            id: true,
+            fullName: true,
+          },
+        },
+      },
+      orderBy: [desc(schema.certificateVersions.createdAt), desc(schema.certificateVersions.id)],
     });
-    
-    if (existingCertificate) {
-      if (existingCertificate.isRevoked) {
-        // If revoked, we can reissue by removing the revoked status
-        const [updatedCertificate] = await db
-          .update(schema.certificates)
-          .set({
-            isRevoked: false,
-            revokedReason: null,
-            revokedDate: null,
-            revokedById: null,
-            qrCode,
-            issuedDate: new Date(),
-            updatedAt: new Date(),
-          })
-          .where(eq(schema.certificates.id, existingCertificate.id))
-          .returning();
-        
-        return updatedCertificate;
-      }
-      
-      return existingCertificate;
-    }
-    
-    // Create new certificate
-    const [certificate] = await db
-      .insert(schema.certificates)
-      .values({
-        registrationId,
-        certificateNumber,
-        qrCode,
-        issuedDate: new Date(),
-      })
-      .returning();
-    
-    return certificate;
   },
   
   async getCertificateById(id: number) {
@@ -797,10 +3614,20 @@ export const storage = {
                 email: true,
                 organization: true,
                 position: true,
+                preferredLanguage: true,
               },
             },
           },
         },
+        series: {
+          with: {
+            // The dates the series certificate was signed with
+            events: {
+              columns: { startDate: true, endDate: true },
+              where: ne(schema.events.status, "cancelled"),
+            },
+          },
+        },
       },
     });
   },
@@ -823,6 +3650,15 @@ export const storage = {
             },
           },
         },
+        series: {
+          with: {
+            // The dates the series certificate was signed with
+            events: {
+              columns: { startDate: true, endDate: true },
+              where: ne(schema.events.status, "cancelled"),
+            },
+          },
+        },
       },
     });
   },
@@ -841,6 +3677,9 @@ export const storage = {
             event: true,
           },
         },
+        series: {
+          columns: { id: true, title: true },
+        },
       },
       limit,
       offset,
@@ -848,7 +3687,10 @@ export const storage = {
     });
     
     const totalCountResult = await db
-      .select({ count: sql<number>`count(*)` })
+      .select({
+        count: sql<number>`count(*)`,
+        cmeCredits: sql<number>`coalesce(sum(${schema.certificates.cmeCredits}), 0)`,
+      })
       .from(schema.certificates)
       .innerJoin(
         schema.eventRegistrations,
@@ -865,6 +3707,8 @@ export const storage = {
     
     return {
       certificates,
+      // Credits of all the user's valid certificates, not only this page
+      totalCmeCredits: roundCmeCredits(Number(totalCountResult[0]?.cmeCredits || 0)),
       pagination: {
         total: totalCount,
         page,
@@ -874,50 +3718,83 @@ export const storage = {
     };
   },
   
+  // CME ledger entries, newest first, optionally for one calendar year
+  async getCmeCreditEntries(userId: number, year?: number) {
+    return await db.query.cmeCreditEntries.findMany({
+      where: and(
+        eq(schema.cmeCreditEntries.userId, userId),
+        year !== undefined
+          ? sql`extract(year from ${schema.cmeCreditEntries.earnedOn}) = ${year}`
+          : undefined
+      ),
+      with: {
+        certificate: {
+          columns: {
+            id: true,
+            certificateNumber: true,
+          },
+        },
+      },
+      orderBy: [desc(schema.cmeCreditEntries.earnedOn), desc(schema.cmeCreditEntries.id)],
+    });
+  },
+  
+  /**
+   * Credits earned per calendar year, newest first, against the requirement of
+   * the user's role. The current year is always included.
+   */
+  async getCmeYearlySummary(userId: number): Promise<CmeYearSummary[]> {
+    const user = await db.query.users.findFirst({
+      where: eq(schema.users.id, userId),
+      columns: { role: true },
+    });
+    
+    const role = user && await db.query.roles.findFirst({
+      where: eq(schema.roles.name, user.role),
+      columns: { cmeAnnualRequirement: true },
+    });
+    const requirement = role?.cmeAnnualRequirement ?? null;
+    
+    const year = sql<number>`extract(year from ${schema.cmeCreditEntries.earnedOn})::int`;
+    const totals = await db
+      .select({
+        year,
+        credits: sql<number>`sum(${schema.cmeCreditEntries.credits})`,
+      })
+      .from(schema.cmeCreditEntries)
+      .where(eq(schema.cmeCreditEntries.userId, userId))
+      .groupBy(year)
+      .orderBy(desc(year));
+    
+    const currentYear = new Date().getFullYear();
+    const summary = totals.map(total => ({
+      year: Number(total.year),
+      credits: roundCmeCredits(Number(total.credits)),
+      requirement,
+    }));
+    
+    if (!summary.some(total => total.year === currentYear)) {
+      summary.push({ year: currentYear, credits: 0, requirement });
+    }
+    
+    return summary.sort((a, b) => b.year - a.year);
+  },
+  
+  
   async getAllCertificates(
     page = 1,
     limit = 10,
     search = "",
-    filter: { eventId?: number; isRevoked?: boolean } = {}
+    filter: { eventId?: number; isRevoked?: boolean } = {},
+    scope: OrganizationScope = null
   ) {
     const offset = (page - 1) * limit;
     
-    let query = db
-      .select({
-        id: schema.certificates.id,
-        certificateNumber: schema.certificates.certificateNumber,
-        issuedDate: schema.certificates.issuedDate,
-        isRevoked: schema.certificates.isRevoked,
-        revokedDate: schema.certificates.revokedDate,
-        revokedReason: schema.certificates.revokedReason,
-        event: {
-          id: schema.events.id,
-          title: schema.events.title,
-        },
-        user: {
-          id: schema.users.id,
-          fullName: schema.users.fullName,
-          email: schema.users.email,
-          organization: schema.users.organization,
-        },
-      })
-      .from(schema.certificates)
-      .innerJoin(
-        schema.eventRegistrations,
-        eq(schema.certificates.registrationId, schema.eventRegistrations.id)
-      )
-      .innerJoin(
-        schema.events,
-        eq(schema.eventRegistrations.eventId, schema.events.id)
-      )
-      .innerJoin(
-        schema.users,
-        eq(schema.eventRegistrations.userId, schema.users.id)
-      );
+    const whereConditions: SQL[] = [];
     
     // Apply search
     if (search) {
-      query = query.where(
+      whereConditions.push(
         sql`(${schema.users.fullName} ILIKE ${`%${search}%`} OR 
              ${schema.users.email} ILIKE ${`%${search}%`} OR 
              ${schema.events.title} ILIKE ${`%${search}%`} OR
@@ -927,13 +3804,21 @@ export const storage = {
     
     // Apply filters
     if (filter.eventId) {
-      query = query.where(eq(schema.events.id, filter.eventId));
+      whereConditions.push(eq(schema.events.id, filter.eventId));
     }
     
     if (filter.isRevoked !== undefined) {
-      query = query.where(eq(schema.certificates.isRevoked, filter.isRevoked));
+      whereConditions.push(eq(schema.certificates.isRevoked, filter.isRevoked));
+    }
+    
+    // Certificates are scoped by the organization that ran the event
+    const scopeFilter = scopeCondition(schema.events.organizationId, scope);
+    if (scopeFilter) {
+      whereConditions.push(scopeFilter);
     }
     
+    const where = whereConditions.length > 0 ? and(...whereConditions) : sql`1=1`;
+    
     const totalCountResult = await db
       .select({ count: sql<number>`count(*)` })
       .from(schema.certificates)
@@ -949,28 +3834,49 @@ export const storage = {
         schema.users,
         eq(schema.eventRegistrations.userId, schema.users.id)
       )
-      .where(
-        search
-          ? sql`(${schema.users.fullName} ILIKE ${`%${search}%`} OR 
-                 ${schema.users.email} ILIKE ${`%${search}%`} OR 
-                 ${schema.events.title} ILIKE ${`%${search}%`} OR
-                 ${schema.certificates.certificateNumber} ILIKE ${`%${search}%`})`
-          : sql`1=1`
-      )
-      .where(
-        filter.eventId
-          ? eq(schema.events.id, filter.eventId)
-          : sql`1=1`
-      )
-      .where(
-        filter.isRevoked !== undefined
-          ? eq(schema.certificates.isRevoked, filter.isRevoked)
-          : sql`1=1`
-      );
+      .where(where);
     
     const totalCount = totalCountResult[0]?.count || 0;
     
-    const certificates = await query
+    const certificates = await db
+      .select({
+        id: schema.certificates.id,
+        certificateNumber: schema.certificates.certificateNumber,
+        issuedDate: schema.certificates.issuedDate,
+        isRevoked: schema.certificates.isRevoked,
+        revokedDate: schema.certificates.revokedDate,
+        revokedReason: schema.certificates.revokedReason,
+        event: {
+          id: schema.events.id,
+          title: schema.events.title,
+        },
+        // Set on series certificates
+        seriesTitle: schema.eventSeries.title,
+        user: {
+          id: schema.users.id,
+          fullName: schema.users.fullName,
+          email: schema.users.email,
+          organization: schema.users.organization,
+        },
+      })
+      .from(schema.certificates)
+      .innerJoin(
+        schema.eventRegistrations,
+        eq(schema.certificates.registrationId, schema.eventRegistrations.id)
+      )
+      .innerJoin(
+        schema.events,
+        eq(schema.eventRegistrations.eventId, schema.events.id)
+      )
+      .innerJoin(
+        schema.users,
+        eq(schema.eventRegistrations.userId, schema.users.id)
+      )
+      .leftJoin(
+        schema.eventSeries,
+        eq(schema.certificates.seriesId, schema.eventSeries.id)
+      )
+      .where(where)
       .limit(limit)
       .offset(offset)
       .orderBy(desc(schema.certificates.issuedDate));
@@ -987,19 +3893,278 @@ export const storage = {
   },
   
   async revokeCertificate(id: number, revokedById: number, reason: string) {
-    const [revokedCertificate] = await db
-      .update(schema.certificates)
-      .set({
-        isRevoked: true,
-        revokedReason: reason,
-        revokedDate: new Date(),
-        revokedById,
-        updatedAt: new Date(),
+    return await db.transaction(async (tx) => {
+      const [revokedCertificate] = await tx
+        .update(schema.certificates)
+        .set({
+          isRevoked: true,
+          revokedReason: reason,
+          revokedDate: new Date(),
+          revokedById,
+          updatedAt: new Date(),
+        })
+        .where(and(
+          eq(schema.certificates.id, id),
+          eq(schema.certificates.isRevoked, false)
+        ))
+        .returning();
+      
+      // Only a certificate that was still valid gets a revoked snapshot, so the revocation list has one entry per revocation
+      if (revokedCertificate) {
+        await recordCertificateVersion(tx, revokedCertificate, "revoked", revokedById, reason);
+        await reverseCmeCredits(tx, revokedCertificate, reason);
+      }
+      
+      return revokedCertificate;
+    });
+  },
+  
+  /**
+   * Revoked certificate numbers, newest first, for the public revocation list
+   * @param since Only revocations from this date on, for incremental syncs
+   * @param limit At most this many entries
+   */
+  async getCertificateRevocations(since?: Date, limit?: number) {
+    const revocations = await db
+      .select({
+        certificateNumber: schema.certificateVersions.certificateNumber,
+        revokedAt: schema.certificateVersions.createdAt,
+        reason: schema.certificateVersions.reason,
+      })
+      .from(schema.certificateVersions)
+      .where(and(
+        eq(schema.certificateVersions.change, "revoked"),
+        since ? gte(schema.certificateVersions.createdAt, since) : undefined
+      ))
+      .orderBy(desc(schema.certificateVersions.createdAt));
+    
+    // Certificates revoked before the history was kept have no revoked snapshot
+    const unrecorded = await db
+      .select({
+        certificateNumber: schema.certificates.certificateNumber,
+        revokedAt: sql<Date>`coalesce(${schema.certificates.revokedDate}, ${schema.certificates.updatedAt})`,
+        reason: schema.certificates.revokedReason,
       })
-      .where(eq(schema.certificates.id, id))
+      .from(schema.certificates)
+      .where(and(
+        eq(schema.certificates.isRevoked, true),
+        since ? gte(schema.certificates.revokedDate, since) : undefined,
+        sql`NOT EXISTS (
+          SELECT 1 FROM ${schema.certificateVersions}
+          WHERE ${schema.certificateVersions.certificateId} = ${schema.certificates.id}
+            AND ${schema.certificateVersions.change} = 'revoked'
+        )`
+      ));
+    
+    return [...revocations, ...unrecorded.map(row => ({ ...row, revokedAt: new Date(row.revokedAt) }))]
+      .sort((a, b) => b.revokedAt.getTime() - a.revokedAt.getTime())
+      .slice(0, limit);
+  },
+  
+  // Latest revocation of a certificate number, which may since have been replaced by a reissue
+  async getCertificateRevocation(certificateNumber: string) {
+    return await db.query.certificateVersions.findFirst({
+      where: and(
+        eq(schema.certificateVersions.certificateNumber, certificateNumber),
+        eq(schema.certificateVersions.change, "revoked")
+      ),
+      orderBy: desc(schema.certificateVersions.createdAt),
+    });
+  },
+  
+  // Registrations of an event that bulk issuance considers, with their attendance, required assessments and certificate
+  async getCertificateCandidates(eventId: number) {
+    const [sessions] = await db
+      .select({ count: sql<number>`count(*)::int` })
+      .from(schema.eventSchedules)
+      .where(eq(schema.eventSchedules.eventId, eventId));
+    
+    const registrations = await db.query.eventRegistrations.findMany({
+      where: and(
+        eq(schema.eventRegistrations.eventId, eventId),
+        ne(schema.eventRegistrations.status, "cancelled")
+      ),
+      columns: { id: true, userId: true, status: true, attendanceConfirmed: true },
+      with: {
+        user: {
+          columns: {
+            id: true,
+            fullName: true,
+            email: true,
+          },
+        },
+        attendanceRecords: {
+          columns: { scheduleId: true },
+        },
+        certificates: {
+          columns: { id: true, certificateNumber: true, isRevoked: true },
+          where: isNull(schema.certificates.seriesId),
+        },
+      },
+      orderBy: schema.eventRegistrations.registrationDate,
+    });
+    
+    const assessments = await this.getCertificateAssessmentResults(
+      eventId,
+      registrations.map(registration => registration.id)
+    );
+    
+    return registrations.map(({ attendanceRecords, ...registration }) => ({
+      ...registration,
+      attendancePercent: computeAttendancePercent(
+        attendanceRecords.filter(record => record.scheduleId !== null).length,
+        sessions.count,
+        !!registration.attendanceConfirmed
+      ),
+      assessments: assessments.get(registration.id) ?? [],
+    }));
+  },
+  
+  async createCertificateIssuanceReport(report: typeof schema.certificateIssuanceReports.$inferInsert) {
+    const [created] = await db
+      .insert(schema.certificateIssuanceReports)
+      .values(report)
       .returning();
     
-    return revokedCertificate;
+    return created;
+  },
+  
+  // Bulk issuance runs of an event, latest first
+  async getCertificateIssuanceReports(eventId: number) {
+    return await db.query.certificateIssuanceReports.findMany({
+      where: eq(schema.certificateIssuanceReports.eventId, eventId),
+      with: {
+        triggeredBy: {
+          columns: {
+            id: true,
+            fullName: true,
+          },
+        },
+      },
+      orderBy: desc(schema.certificateIssuanceReports.createdAt),
+    });
+  },
+  
+  // Certificate templates
+  async getCertificateTemplates() {
+    return await db.query.certificateTemplates.findMany({
+      with: {
+        createdBy: {
+          columns: {
+            id: true,
+            fullName: true,
+          },
+        },
+      },
+      orderBy: [desc(schema.certificateTemplates.isDefault), schema.certificateTemplates.name],
+    });
+  },
+  
+  async getCertificateTemplateById(id: number) {
+    return await db.query.certificateTemplates.findFirst({
+      where: eq(schema.certificateTemplates.id, id),
+    });
+  },
+  
+  // The event's own template, else the one for its event type, else the default one
+  async getCertificateTemplateForEvent(event: Pick<schema.Event, "certificateTemplateId" | "eventType">) {
+    if (event.certificateTemplateId) {
+      const template = await this.getCertificateTemplateById(event.certificateTemplateId);
+      if (template) return template;
+    }
+    
+    const [template] = await db
+      .select()
+      .from(schema.certificateTemplates)
+      .where(or(
+        eq(schema.certificateTemplates.eventType, event.eventType),
+        eq(schema.certificateTemplates.isDefault, true)
+      ))
+      .orderBy(
+        sql`(${schema.certificateTemplates.eventType} IS NOT DISTINCT FROM ${event.eventType}) DESC`,
+        desc(schema.certificateTemplates.updatedAt)
+      )
+      .limit(1);
+    
+    return template ?? null;
+  },
+  
+  async createCertificateTemplate(templateData: schema.NewCertificateTemplate, createdById: number) {
+    return await db.transaction(async (tx) => {
+      // Only one template can be the default
+      if (templateData.isDefault) {
+        await tx.update(schema.certificateTemplates).set({ isDefault: false });
+      }
+      
+      const [template] = await tx
+        .insert(schema.certificateTemplates)
+        .values({ ...templateData, createdById })
+        .returning();
+      
+      return template;
+    });
+  },
+  
+  async updateCertificateTemplate(id: number, templateData: Partial<schema.NewCertificateTemplate>) {
+    return await db.transaction(async (tx) => {
+      if (templateData.isDefault) {
+        await tx
+          .update(schema.certificateTemplates)
+          .set({ isDefault: false })
+          .where(ne(schema.certificateTemplates.id, id));
+      }
+      
+      const [template] = await tx
+        .update(schema.certificateTemplates)
+        .set({ ...templateData, updatedAt: new Date() })
+        .where(eq(schema.certificateTemplates.id, id))
+        .returning();
+      
+      return template;
+    });
+  },
+  
+  async deleteCertificateTemplate(id: number) {
+    const [deletedTemplate] = await db
+      .delete(schema.certificateTemplates)
+      .where(eq(schema.certificateTemplates.id, id))
+      .returning();
+    
+    return deletedTemplate;
+  },
+  
+  // Certificate signing keys
+  async getCertificateSigningKeys() {
+    return await db.query.certificateSigningKeys.findMany({
+      orderBy: desc(schema.certificateSigningKeys.createdAt),
+    });
+  },
+  
+  async getActiveCertificateSigningKey() {
+    return await db.query.certificateSigningKeys.findFirst({
+      where: eq(schema.certificateSigningKeys.isActive, true),
+      orderBy: desc(schema.certificateSigningKeys.createdAt),
+    });
+  },
+  
+  // Stores a new signing key and retires the current one
+  async rotateCertificateSigningKey(
+    key: Pick<schema.CertificateSigningKey, "keyId" | "publicKey" | "privateKey">,
+    createdById: number | null
+  ) {
+    return await db.transaction(async (tx) => {
+      await tx
+        .update(schema.certificateSigningKeys)
+        .set({ isActive: false, retiredAt: new Date() })
+        .where(eq(schema.certificateSigningKeys.isActive, true));
+      
+      const [signingKey] = await tx
+        .insert(schema.certificateSigningKeys)
+        .values({ ...key, createdById })
+        .returning();
+      
+      return signingKey;
+    });
   },
   
   // Notifications
@@ -1017,6 +4182,15 @@ export const storage = {
     return notification;
   },
   
+  async createNotifications(notifications: { userId: number; title: string; message: string; link?: string }[]) {
+    if (notifications.length === 0) return [];
+    
+    return await db
+      .insert(schema.notifications)
+      .values(notifications)
+      .returning();
+  },
+  
   async getUserNotifications(userId: number) {
     return await db.query.notifications.findMany({
       where: eq(schema.notifications.userId, userId),
@@ -0,0 +1,52 @@
+export interface AtomEntry {
+  // Permanent, unique IRI of the entry
+  id: string;
+  title: string;
+  updated: Date;
+  summary?: string | null;
+  link?: string;
+}
+
+export interface AtomFeed {
+  id: string;
+  title: string;
+  // The feed's own URL
+  link: string;
+  updated: Date;
+  entries: AtomEntry[];
+}
+
+const escapeXml = (value: string) =>
+  value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&apos;");
+
+/**
+ * Serializes an Atom (RFC 4287) feed
+ */
+export function toAtomFeed(feed: AtomFeed): string {
+  const entries = feed.entries.map(entry => [
+    "  <entry>",
+    `    <id>${escapeXml(entry.id)}</id>`,
+    `    <title>${escapeXml(entry.title)}</title>`,
+    `    <updated>${entry.updated.toISOString()}</updated>`,
+    entry.link ? `    <link href="${escapeXml(entry.link)}"/>` : null,
+    entry.summary ? `    <summary>${escapeXml(entry.summary)}</summary>` : null,
+    "  </entry>",
+  ].filter(line => line !== null).join("\n"));
+
+  return [
+    '<?xml version="1.0" encoding="utf-8"?>',
+    '<feed xmlns="http://www.w3.org/2005/Atom">',
+    `  <id>${escapeXml(feed.id)}</id>`,
+    `  <title>${escapeXml(feed.title)}</title>`,
+    `  <link rel="self" href="${escapeXml(feed.link)}"/>`,
+    `  <updated>${feed.updated.toISOString()}</updated>`,
+    ...entries,
+    "</feed>",
+    "",
+  ].join("\n");
+}
@@ -0,0 +1,39 @@
+import sharp from "sharp";
+import path from "path";
+import fs from "fs";
+import { v4 as uuidv4 } from "uuid";
+
+export const AVATAR_SIZE = 256;
+export const MAX_AVATAR_BYTES = 5 * 1024 * 1024;
+export const AVATAR_MIME_TYPES = ["image/jpeg", "image/png", "image/gif", "image/webp"];
+
+/**
+ * Crops an uploaded image to a square avatar and replaces it with a WebP file
+ * @param filePath The uploaded image
+ * @returns The file name of the resized avatar, in the same directory
+ */
+export async function resizeAvatar(filePath: string): Promise<string> {
+  const filename = `${Date.now()}-${uuidv4()}.webp`;
+
+  try {
+    await sharp(filePath)
+      .rotate()
+      .resize(AVATAR_SIZE, AVATAR_SIZE, { fit: "cover" })
+      .webp({ quality: 85 })
+      .toFile(path.join(path.dirname(filePath), filename));
+  } finally {
+    fs.unlink(filePath, () => {});
+  }
+
+  return filename;
+}
+
+/**
+ * Deletes an avatar previously stored in the upload directory; external image
+ * URLs are left alone
+ */
+export function removeAvatar(uploadDir: string, profileImage: string | null) {
+  if (!profileImage?.startsWith("/uploads/")) return;
+
+  fs.unlink(path.join(uploadDir, path.basename(profileImage)), () => {});
+}
@@ -7,13 +7,14 @@ const nanoid = customAlphabet('1234567890ABCDEFGHIJKLMNOPQRSTUVWXYZ', 10);
 /**
  * Generates a QR code for a certificate
  * @param url The verification URL for the certificate
+ * @param errorCorrectionLevel Lower levels keep long, signed URLs readable when printed small
  * @returns A base64 encoded string of the QR code
  */
-export async function generateCertificate(url: string): Promise<string> {
+export async function generateCertificate(url: string, errorCorrectionLevel: 'L' | 'M' | 'Q' | 'H' = 'H'): Promise<string> {
   try {
     // Generate QR code as base64 string
     const qrCodeDataUrl = await QRCode.toDataURL(url, {
-      errorCorrectionLevel: 'H',
+      errorCorrectionLevel,
       margin: 1,
       width: 200,
       color: {
@@ -0,0 +1,239 @@
+import PDFDocument from "pdfkit";
+import path from "path";
+import fs from "fs";
+import {
+  DEFAULT_CERTIFICATE_LAYOUTS,
+  fillCertificatePlaceholders,
+  type CertificateLanguage,
+  type CertificateLayout,
+  type CertificatePlaceholder,
+} from "@shared/certificateTemplate";
+import type { CertificateTemplate } from "@shared/schema";
+
+// TrueType fonts used for certificate text. The built-in Helvetica covers
+// English and French; Arabic certificates need a font with Arabic glyphs,
+// e.g. Noto Naskh Arabic or DejaVu Sans.
+const CERTIFICATE_FONT = process.env.CERTIFICATE_FONT;
+const CERTIFICATE_BOLD_FONT = process.env.CERTIFICATE_BOLD_FONT || CERTIFICATE_FONT;
+
+// Rendered PDFs, kept until the certificate is revoked or reissued
+export const CERTIFICATE_CACHE_DIR = process.env.CERTIFICATE_CACHE_DIR || path.join(process.cwd(), "cache", "certificates");
+
+const ARABIC_CHARACTER = /[\u0600-\u06FF\u0750-\u077F\u08A0-\u08FF\uFB50-\uFDFF\uFE70-\uFEFC]/;
+const LTR_CHARACTER = /[A-Za-z0-9\u00C0-\u024F]/;
+
+export interface CertificatePdfContent {
+  certificateNumber: string;
+  qrCode: string;
+  issuedDate: Date;
+  verificationUrl: string;
+  cmeCredits: number;
+  user: {
+    fullName: string;
+    position: string | null;
+    organization: string | null;
+  };
+  event: {
+    title: string;
+    startDate: Date;
+    endDate: Date;
+  };
+}
+
+type TemplateDesign = Pick<CertificateTemplate, "pageSize" | "orientation" | "backgroundImage" | "layouts">;
+
+const formatDate = (date: Date, language: CertificateLanguage) =>
+  new Intl.DateTimeFormat(language, { dateStyle: "long" }).format(new Date(date));
+
+function placeholderValues(content: CertificatePdfContent, language: CertificateLanguage): Record<CertificatePlaceholder, string | null> {
+  const startDate = formatDate(content.event.startDate, language);
+  const endDate = formatDate(content.event.endDate, language);
+
+  return {
+    fullName: content.user.fullName,
+    position: content.user.position,
+    organization: content.user.organization,
+    eventTitle: content.event.title,
+    eventDates: startDate === endDate ? startDate : `${startDate} – ${endDate}`,
+    issuedDate: formatDate(content.issuedDate, language),
+    certificateNumber: content.certificateNumber,
+    verificationUrl: content.verificationUrl,
+    cmeCredits: content.cmeCredits ? new Intl.NumberFormat(language).format(content.cmeCredits) : null,
+  };
+}
+
+/**
+ * Splits a line of right-to-left text into runs in the order they appear
+ * from left to right. Arabic runs are reversed by the font shaper itself,
+ * while names, numbers and other left-to-right runs keep their order.
+ */
+function toVisualRuns(line: string): string[] {
+  const runs: { rtl: boolean; text: string }[] = [];
+
+  for (const char of Array.from(line)) {
+    const rtl = ARABIC_CHARACTER.test(char) ? true : LTR_CHARACTER.test(char) ? false : null;
+    const last = runs[runs.length - 1];
+
+    // Spaces and punctuation stay with the run they follow
+    if (last && (rtl === null || last.rtl === rtl)) {
+      last.text += char;
+    } else {
+      runs.push({ rtl: rtl ?? true, text: char });
+    }
+  }
+
+  return runs.map(run => run.text).reverse();
+}
+
+// Draws right-to-left text line by line; lines are broken on newlines only
+function drawRtlText(
+  doc: PDFKit.PDFDocument,
+  text: string,
+  x: number,
+  y: number,
+  width: number,
+  align: "left" | "center" | "right"
+) {
+  let top = y;
+
+  for (const line of text.split("\n")) {
+    const runs = toVisualRuns(line);
+    const lineWidth = runs.reduce((total, run) => total + doc.widthOfString(run), 0);
+    let left = align === "left" ? x : align === "center" ? x + (width - lineWidth) / 2 : x + width - lineWidth;
+
+    for (const run of runs) {
+      doc.text(run, left, top, { lineBreak: false });
+      left += doc.widthOfString(run);
+    }
+
+    top += doc.currentLineHeight(true);
+  }
+}
+
+function resolveUpload(uploadDir: string, src: string) {
+  const filePath = path.join(uploadDir, path.basename(src));
+  return fs.existsSync(filePath) ? filePath : null;
+}
+
+/**
+ * Renders a certificate as a PDF
+ * @param content The certificate, its holder and the event
+ * @param template The event's template, or null for the built-in design
+ * @param language Layout to use; templates without it fall back to the built-in one
+ * @param uploadDir Where background, logo and signature images are stored
+ */
+export async function renderCertificatePdf(
+  content: CertificatePdfContent,
+  template: TemplateDesign | null,
+  language: CertificateLanguage,
+  uploadDir: string
+): Promise<Buffer> {
+  // Arabic text cannot be drawn with the built-in fonts
+  if (language === "ar" && !CERTIFICATE_FONT) {
+    console.warn("CERTIFICATE_FONT is not set, rendering the certificate in English instead of Arabic");
+    language = "en";
+  }
+
+  const layout: CertificateLayout = template?.layouts[language] ?? DEFAULT_CERTIFICATE_LAYOUTS[language];
+  const values = placeholderValues(content, language);
+
+  const doc = new PDFDocument({
+    size: template?.pageSize ?? "A4",
+    layout: template?.orientation ?? "landscape",
+    margin: 0,
+    info: {
+      Title: `Certificate ${content.certificateNumber}`,
+      Subject: content.event.title,
+    },
+  });
+
+  const chunks: Buffer[] = [];
+  doc.on("data", (chunk: Buffer) => chunks.push(chunk));
+  const finished = new Promise<Buffer>((resolve, reject) => {
+    doc.on("end", () => resolve(Buffer.concat(chunks)));
+    doc.on("error", reject);
+  });
+
+  doc.registerFont("regular", CERTIFICATE_FONT || "Helvetica");
+  doc.registerFont("bold", CERTIFICATE_BOLD_FONT || "Helvetica-Bold");
+
+  const pageWidth = doc.page.width;
+  const pageHeight = doc.page.height;
+
+  const background = template?.backgroundImage && resolveUpload(uploadDir, template.backgroundImage);
+  if (background) {
+    doc.image(background, 0, 0, { width: pageWidth, height: pageHeight });
+  }
+
+  for (const element of layout.elements) {
+    const x = (element.x / 100) * pageWidth;
+    const y = (element.y / 100) * pageHeight;
+    const width = (element.width / 100) * pageWidth;
+
+    if (element.type === "text") {
+      const text = fillCertificatePlaceholders(element.text, values);
+      if (!text) continue;
+
+      doc.font(element.bold ? "bold" : "regular").fontSize(element.fontSize).fillColor(element.color);
+
+      if (language === "ar") {
+        drawRtlText(doc, text, x, y, width, element.align);
+      } else {
+        doc.text(text, x, y, { width, align: element.align });
+      }
+    } else if (element.type === "image") {
+      const image = resolveUpload(uploadDir, element.src);
+      if (image) {
+        doc.image(image, x, y, { width });
+      }
+    } else {
+      doc.image(content.qrCode, x, y, { width, height: width });
+    }
+  }
+
+  doc.end();
+  return finished;
+}
+
+// Cache files are named after the certificate and versioned by when it and its template last changed
+const cachePath = (certificateId: number, language: CertificateLanguage, version: string) =>
+  path.join(CERTIFICATE_CACHE_DIR, `${certificateId}-${language}-${version}.pdf`);
+
+export async function readCachedCertificatePdf(certificateId: number, language: CertificateLanguage, version: string) {
+  try {
+    return await fs.promises.readFile(cachePath(certificateId, language, version));
+  } catch (error) {
+    return null;
+  }
+}
+
+// Stores a rendered PDF and drops older versions of it
+export async function writeCachedCertificatePdf(
+  certificateId: number,
+  language: CertificateLanguage,
+  version: string,
+  pdf: Buffer
+) {
+  await removeCachedCertificatePdfs(certificateId, language);
+  await fs.promises.mkdir(CERTIFICATE_CACHE_DIR, { recursive: true });
+  await fs.promises.writeFile(cachePath(certificateId, language, version), pdf);
+}
+
+/**
+ * Deletes the cached PDFs of a certificate, e.g. once it is revoked
+ * @param language Only drop this language; all languages by default
+ */
+export async function removeCachedCertificatePdfs(certificateId: number, language?: CertificateLanguage) {
+  const prefix = language ? `${certificateId}-${language}-` : `${certificateId}-`;
+
+  let files: string[];
+  try {
+    files = await fs.promises.readdir(CERTIFICATE_CACHE_DIR);
+  } catch (error) {
+    return;
+  }
+
+  await Promise.all(files
+    .filter(file => file.startsWith(prefix))
+    .map(file => fs.promises.unlink(path.join(CERTIFICATE_CACHE_DIR, file)).catch(() => undefined)));
+}
@@ -0,0 +1,88 @@
+import crypto from "crypto";
+import { storage } from "../storage";
+import { generateCertificate, generateCertificateNumber } from "./certificate";
+import {
+  certificateVerificationUrl,
+  encodeCertificatePayload,
+  toBase64Url,
+  type CertificatePayload,
+  type CertificatePublicKey,
+} from "@shared/certificateSignature";
+import type { CertificateSigningKey } from "@shared/schema";
+
+export function generateCertificateSigningKey() {
+  const { publicKey, privateKey } = crypto.generateKeyPairSync("ec", { namedCurve: "P-256" });
+
+  return {
+    keyId: crypto.randomBytes(8).toString("hex"),
+    publicKey: publicKey.export({ format: "jwk" }),
+    privateKey: privateKey.export({ format: "pem", type: "pkcs8" }) as string,
+  };
+}
+
+export function toCertificatePublicKey(key: CertificateSigningKey): CertificatePublicKey {
+  return {
+    kid: key.keyId,
+    kty: "EC",
+    crv: "P-256",
+    x: key.publicKey.x!,
+    y: key.publicKey.y!,
+    alg: "ES256",
+    use: "sig",
+    createdAt: key.createdAt.toISOString(),
+    retiredAt: key.retiredAt?.toISOString() ?? null,
+  };
+}
+
+// The key new certificates are signed with; the first one is created on first use
+async function getSigningKey() {
+  return (await storage.getActiveCertificateSigningKey())
+    ?? (await storage.rotateCertificateSigningKey(generateCertificateSigningKey(), null));
+}
+
+/**
+ * Signs a certificate's details
+ * @returns The token for the certificate's QR code, see shared/certificateSignature.ts
+ */
+export async function signCertificatePayload(content: Omit<CertificatePayload, "v" | "kid">): Promise<string> {
+  const key = await getSigningKey();
+  const signedPart = encodeCertificatePayload({ v: 1, kid: key.keyId, ...content });
+  // WebCrypto expects raw r||s signatures rather than DER
+  const signature = crypto.sign("sha256", Buffer.from(signedPart), { key: key.privateKey, dsaEncoding: "ieee-p1363" });
+
+  return `${signedPart}.${toBase64Url(signature)}`;
+}
+
+const formatDay = (date: Date) => new Date(date).toISOString().slice(0, 10);
+
+/**
+ * Numbers and signs a certificate and renders its QR code
+ * @param registration The registration the certificate is issued for, with its user and event
+ * @param baseUrl Where the verification page is served
+ * @param existing Number, issue date and name to keep when re-signing an amended certificate
+ */
+export async function createSignedCertificate(
+  registration: {
+    user: { fullName: string };
+    event: { title: string; startDate: Date; endDate: Date };
+  },
+  baseUrl: string,
+  existing: { certificateNumber?: string; issuedDate?: Date; holderName?: string } = {}
+) {
+  const certificateNumber = existing.certificateNumber ?? generateCertificateNumber();
+  const issuedDate = existing.issuedDate ?? new Date();
+  const holderName = existing.holderName ?? registration.user.fullName;
+
+  const signature = await signCertificatePayload({
+    num: certificateNumber,
+    name: holderName,
+    event: registration.event.title,
+    start: formatDay(registration.event.startDate),
+    end: formatDay(registration.event.endDate),
+    issued: new Date(issuedDate).toISOString(),
+  });
+
+  const qrCode = await generateCertificate(certificateVerificationUrl(baseUrl, certificateNumber, signature), "M");
+
+  return { certificateNumber, issuedDate, holderName, signature, qrCode };
+}
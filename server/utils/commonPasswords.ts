@@ -0,0 +1,61 @@
+// Offline list of frequently used and leaked passwords, lowercased. Checked
+// as-is and with trailing digits and symbols stripped, so "Password123!" is
+// caught through "password".
+const LIST = `
+123456 password 12345678 qwerty 123456789 12345 1234 111111 1234567 dragon
+123123 baseball abc123 football monkey letmein 696969 shadow master 666666
+qwertyuiop 123321 mustang 1234567890 michael 654321 superman 1qaz2wsx 7777777
+121212 000000 qazwsx 123qwe killer trustno1 jordan jennifer zxcvbnm asdfgh
+hunter buster soccer harley batman andrew tigger sunshine iloveyou 2000
+charlie robert thomas hockey ranger daniel starwars klaster 112233 george
+computer michelle jessica pepper 1111 zxcvbn 555555 11111111 131313 freedom
+777777 pass maggie 159753 aaaaaa ginger princess joshua cheese amanda summer
+love ashley nicole chelsea biteme matthew access yankees 987654321 dallas
+austin thunder taylor matrix mobilemail mom monitor monitoring montana moon
+moscow william corvette hello martin heather secret merlin diamond 1234qwer
+gfhjkm hammer silver 222222 88888888 anthony justin test bailey q1w2e3r4t5
+patrick internet scooter orange 11111 golfer cookie richard samantha bigdog
+guitar jackson whatever mickey chicken sparky snoopy maverick phoenix camaro
+peanut morgan welcome falcon cowboy ferrari samsung andrea smokey steelers
+joseph mercedes dakota arsenal eagles melissa boomer booboo spider nascar
+monster tigers yellow xxxxxx 123123123 gateway marina diablo bulldog qwer1234
+compaq purple hardcore banana junior hannah 123654 porsche lakers iceman
+money cowboys 987654 london tennis 999999 ncc1701 coffee scooby 0000 miller
+boston q1w2e3r4 brandon yamaha chester mother forever johnny edward 333333
+oliver redsox player nikita knight fender barney midnight please brandy
+chicago badboy slayer rangers charles angel flower bigdaddy rabbit wizard
+bigdick jasper enter rachel chris steven winner adidas victoria natasha 1q2w3e4r
+jasmine winter prince panties marine ghbdtn fishing cocacola casper james
+232323 raiders 888888 marlboro gandalf asdfasdf crystal 87654321 12344321
+golden 8675309 startrek apple 2112 12345qwert admin admin123 administrator
+root toor changeme default guest user login passw0rd p@ssw0rd p@ssword
+password1 password12 password123 qwerty123 qwerty1 abc12345 abcd1234
+welcome1 welcome123 letmein1 iloveyou1 monkey1 dragon1 sunshine1 princess1
+football1 baseball1 shadow1 master1 superman1 batman1 trustno1 hello123
+test123 test1234 temp temp123 secret123 qazwsxedc 1qazxsw2 zaq12wsx
+zaq1zaq1 asdf1234 asdfghjkl zxcvbnm1 aa123456 a123456 123abc abc123456
+1q2w3e 1q2w3e4r5t 1qaz2wsx3edc 123qweasd qweasd qweasdzxc 147258369 159357
+741852963 789456123 123789 456789 102030 101010 202020 303030 010101
+121314 131415 147258 147852 258456 369369 456123 520520 5201314 112358
+2580 1212 1313 6969 7777 9999 0987654321 1029384756 hunter2 solo
+medical medicine doctor hospital nurse health healthcare clinic patient
+ministry sante santé medecin médecin hopital hôpital infirmier infirmiere
+docteur pharmacie pharmacy surgeon surgery cardio pediatrie physician
+medevents medevent events event conference congress seminar training
+algerie algeria maroc morocco tunisie tunisia france paris alger oran
+bismillah allah mohamed mohammed muhammad ahmed ali fatima yasmine amine
+azerty azertyuiop azerty123 azerty1 qwertz qwertz123 motdepasse soleil
+bonjour loulou chouchou doudou marseille nicolas julien camille amour
+jetaime chocolat princesse coucou doudou123 vacances famille maison
+spring autumn summer2023 summer2024 winter2023 winter2024 spring2024
+january february march april may june july august september october
+november december monday friday sunday weekend holiday
+football123 liverpool chelsea1 manchester barcelona realmadrid juventus
+pokemon minecraft fortnite roblox naruto pikachu starwars1 matrix1
+qwerty12 qwerty1234 1234abcd abcdef abcdefg abcdefgh 12qwaszx
+trustme letmein123 changeme123 welcome2024 password2024 password2023
+iloveyou2 lovely loveme lover friends family beautiful angel1 baby babygirl
+sweety sweetheart butterfly flowers rainbow unicorn tinkerbell
+`;
+
+export const COMMON_PASSWORDS = new Set(LIST.split(/\s+/).filter(Boolean));
@@ -0,0 +1,81 @@
+// Cells starting with these characters are read as formulas by spreadsheets
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+
+function escapeCell(value: unknown): string {
+  if (value === null || value === undefined) return "";
+
+  let cell = value instanceof Date ? value.toISOString() : String(value);
+
+  if (FORMULA_PREFIX.test(cell)) {
+    cell = `'${cell}`;
+  }
+
+  if (/[",\r\n]/.test(cell)) {
+    cell = `"${cell.replace(/"/g, '""')}"`;
+  }
+
+  return cell;
+}
+
+/**
+ * Serializes rows to CSV, with a byte order mark so spreadsheet applications
+ * detect UTF-8 (participant names are often in Arabic or French)
+ */
+export function toCsv(header: string[], rows: unknown[][]): string {
+  const lines = [header, ...rows].map(row => row.map(escapeCell).join(","));
+  return "\uFEFF" + lines.join("\r\n") + "\r\n";
+}
+
+/**
+ * Parses CSV text into rows of cells. Handles quoted cells with embedded
+ * commas, quotes and line breaks, CRLF line endings and a leading byte order
+ * mark; blank lines are dropped.
+ */
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = "";
+  let inQuotes = false;
+
+  const input = text.replace(/^\uFEFF/, "");
+
+  const endRow = () => {
+    row.push(cell);
+    if (row.some(value => value.trim() !== "")) {
+      rows.push(row);
+    }
+    row = [];
+    cell = "";
+  };
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+
+    if (inQuotes) {
+      if (char === '"' && input[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ",") {
+      row.push(cell);
+      cell = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && input[i + 1] === "\n") i++;
+      endRow();
+    } else {
+      cell += char;
+    }
+  }
+
+  if (cell !== "" || row.length > 0) {
+    endRow();
+  }
+
+  return rows;
+}
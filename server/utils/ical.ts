@@ -0,0 +1,93 @@
+export interface ICalEvent {
+  // Globally unique and stable, so calendar apps update the entry rather than adding another
+  uid: string;
+  title: string;
+  // A Date is written in UTC; a string is a floating local time as YYYYMMDDTHHMMSS
+  start: Date | string;
+  end: Date | string;
+  updated: Date;
+  description?: string | null;
+  location?: string | null;
+  url?: string;
+  cancelled?: boolean;
+}
+
+export interface ICalendar {
+  name: string;
+  events: ICalEvent[];
+  // How often subscribed calendar apps should fetch the feed again, in hours
+  refreshHours?: number;
+}
+
+// Text values escape backslashes, separators and newlines (RFC 5545 3.3.11)
+const escapeText = (value: string) =>
+  value
+    .replace(/\\/g, "\\\\")
+    .replace(/;/g, "\\;")
+    .replace(/,/g, "\\,")
+    .replace(/\r?\n/g, "\\n");
+
+const formatDateTime = (value: Date | string) =>
+  typeof value === "string" ? value : value.toISOString().replace(/[-:]/g, "").replace(/\.\d{3}/, "");
+
+// Lines longer than 75 octets continue on the next line after a space (RFC 5545 3.1)
+function foldLine(line: string): string {
+  const parts: string[] = [];
+  let current = "";
+  for (const char of Array.from(line)) {
+    const limit = parts.length === 0 ? 75 : 74;
+    if (Buffer.byteLength(current + char) > limit) {
+      parts.push(current);
+      current = "";
+    }
+    current += char;
+  }
+  parts.push(current);
+  return parts.join("\r\n ");
+}
+
+/**
+ * A local date and time of day as an iCalendar floating time, e.g. a session
+ * on the date of a schedule row at its "09:30" start time
+ */
+export function toFloatingTime(date: Date, time: string): string {
+  const [hours = "0", minutes = "0"] = time.split(":");
+  const pad = (value: number | string) => String(value).padStart(2, "0");
+  return `${date.getFullYear()}${pad(date.getMonth() + 1)}${pad(date.getDate())}T${pad(hours)}${pad(minutes)}00`;
+}
+
+/**
+ * Serializes an iCalendar (RFC 5545) file
+ */
+export function toICalendar(calendar: ICalendar): string {
+  const events = calendar.events.flatMap(event => [
+    "BEGIN:VEVENT",
+    `UID:${event.uid}`,
+    `DTSTAMP:${formatDateTime(event.updated)}`,
+    `LAST-MODIFIED:${formatDateTime(event.updated)}`,
+    `DTSTART:${formatDateTime(event.start)}`,
+    `DTEND:${formatDateTime(event.end)}`,
+    `SUMMARY:${escapeText(event.title)}`,
+    event.description ? `DESCRIPTION:${escapeText(event.description)}` : null,
+    event.location ? `LOCATION:${escapeText(event.location)}` : null,
+    event.url ? `URL:${event.url}` : null,
+    `STATUS:${event.cancelled ? "CANCELLED" : "CONFIRMED"}`,
+    "END:VEVENT",
+  ]);
+
+  return [
+    "BEGIN:VCALENDAR",
+    "VERSION:2.0",
+    "PRODID:-//MedEvents//Events//EN",
+    "CALSCALE:GREGORIAN",
+    "METHOD:PUBLISH",
+    `X-WR-CALNAME:${escapeText(calendar.name)}`,
+    calendar.refreshHours ? `REFRESH-INTERVAL;VALUE=DURATION:PT${calendar.refreshHours}H` : null,
+    calendar.refreshHours ? `X-PUBLISHED-TTL:PT${calendar.refreshHours}H` : null,
+    ...events,
+    "END:VCALENDAR",
+  ]
+    .filter((line): line is string => line !== null)
+    .map(foldLine)
+    .join("\r\n") + "\r\n";
+}
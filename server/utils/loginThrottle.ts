@@ -0,0 +1,26 @@
+// Brute-force protection settings, overridable through the environment
+export const MAX_ACCOUNT_FAILURES = parseInt(process.env.LOGIN_MAX_ACCOUNT_FAILURES || "5");
+export const ACCOUNT_LOCKOUT_MS = parseInt(process.env.LOGIN_LOCKOUT_MINUTES || "15") * 60 * 1000;
+export const MAX_IP_FAILURES = parseInt(process.env.LOGIN_MAX_IP_FAILURES || "20");
+export const IP_FAILURE_WINDOW_MS = 15 * 60 * 1000;
+
+export const MAX_PASSWORD_RESETS_PER_EMAIL = 3;
+export const MAX_PASSWORD_RESETS_PER_IP = 10;
+export const PASSWORD_RESET_WINDOW_MS = 60 * 60 * 1000;
+
+const BASE_DELAY_MS = 500;
+const MAX_DELAY_MS = 8000;
+
+/**
+ * Delay applied before answering a login attempt, doubling with each
+ * previous failure so repeated guessing slows down before the lockout hits
+ * @param failures Failed attempts so far for the account or IP
+ */
+export function getLoginDelayMs(failures: number): number {
+  if (failures <= 0) return 0;
+  return Math.min(BASE_DELAY_MS * 2 ** (failures - 1), MAX_DELAY_MS);
+}
+
+export function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
@@ -0,0 +1,43 @@
+import { checkPasswordRules, type PasswordPolicy, type PasswordViolation } from "@shared/passwordPolicy";
+import { COMMON_PASSWORDS } from "./commonPasswords";
+
+function envFlag(name: string, fallback: boolean): boolean {
+  const value = process.env[name];
+  return value === undefined ? fallback : value === "true";
+}
+
+// Deployment-wide password policy; per-role expiry lives on the roles table
+export const PASSWORD_POLICY: PasswordPolicy = {
+  minLength: parseInt(process.env.PASSWORD_MIN_LENGTH || "10"),
+  requireUppercase: envFlag("PASSWORD_REQUIRE_UPPERCASE", true),
+  requireLowercase: envFlag("PASSWORD_REQUIRE_LOWERCASE", true),
+  requireDigit: envFlag("PASSWORD_REQUIRE_DIGIT", true),
+  requireSymbol: envFlag("PASSWORD_REQUIRE_SYMBOL", false),
+  historySize: parseInt(process.env.PASSWORD_HISTORY_SIZE || "5"),
+};
+
+export function isCommonPassword(password: string): boolean {
+  const lowered = password.toLowerCase();
+  const base = lowered.replace(/[^a-z]+$/, "");
+
+  return COMMON_PASSWORDS.has(lowered) || (base.length >= 4 && COMMON_PASSWORDS.has(base));
+}
+
+/**
+ * Checks a new password against the policy and the common-password list.
+ * Reuse is checked separately against the user's password history.
+ * @param password The candidate password
+ * @param personalInfo Values the password must not contain
+ */
+export function validatePassword(
+  password: string,
+  personalInfo: (string | null | undefined)[] = []
+): PasswordViolation[] {
+  const violations = checkPasswordRules(password, PASSWORD_POLICY, personalInfo);
+
+  if (isCommonPassword(password)) {
+    violations.push("common_password");
+  }
+
+  return violations;
+}
@@ -0,0 +1,155 @@
+import { Request, Response } from "express";
+import jwt from "jsonwebtoken";
+import crypto from "crypto";
+
+export const ACCESS_TOKEN_TTL = "15m";
+export const SESSION_TTL_MS = 30 * 24 * 60 * 60 * 1000; // 30 days
+
+const REFRESH_COOKIE = "refreshToken";
+
+/**
+ * Signs a short-lived access token bound to a session
+ * @param user The authenticated user
+ * @param sessionId The session the token belongs to
+ * @returns The signed JWT
+ */
+export function signAccessToken(
+  user: { id: number; email: string; role: string; tokenVersion: number },
+  sessionId: number
+): string {
+  return jwt.sign(
+    {
+      id: user.id,
+      email: user.email,
+      role: user.role,
+      tokenVersion: user.tokenVersion,
+      sessionId,
+    },
+    process.env.JWT_SECRET || "your_jwt_secret",
+    { expiresIn: ACCESS_TOKEN_TTL }
+  );
+}
+
+type LoginChallengePurpose = "two_factor" | "password_change";
+
+function signLoginChallenge(userId: number, purpose: LoginChallengePurpose): string {
+  return jwt.sign(
+    { id: userId, purpose },
+    process.env.JWT_SECRET || "your_jwt_secret",
+    { expiresIn: "5m" }
+  );
+}
+
+function verifyLoginChallenge(token: string, purpose: LoginChallengePurpose): number | null {
+  try {
+    const decoded = jwt.verify(token, process.env.JWT_SECRET || "your_jwt_secret") as {
+      id: number;
+      purpose?: string;
+    };
+    return decoded.purpose === purpose ? decoded.id : null;
+  } catch (error) {
+    return null;
+  }
+}
+
+/**
+ * Signs the token that carries a password-verified login through the
+ * two-factor step. It has no session, so it is never accepted as an access token.
+ * @param userId The user who passed the password check
+ */
+export function signTwoFactorChallenge(userId: number): string {
+  return signLoginChallenge(userId, "two_factor");
+}
+
+/**
+ * Verifies a two-factor challenge token
+ * @returns The user id, or null when the token is invalid or expired
+ */
+export function verifyTwoFactorChallenge(token: string): number | null {
+  return verifyLoginChallenge(token, "two_factor");
+}
+
+/**
+ * Signs the token that lets a user whose password has expired set a new one
+ * before their session starts
+ * @param userId The user who passed every other login step
+ */
+export function signPasswordChangeChallenge(userId: number): string {
+  return signLoginChallenge(userId, "password_change");
+}
+
+export function verifyPasswordChangeChallenge(token: string): number | null {
+  return verifyLoginChallenge(token, "password_change");
+}
+
+/**
+ * Generates an opaque refresh token and the hash stored in the database
+ */
+export function generateRefreshToken() {
+  const token = crypto.randomBytes(48).toString("hex");
+  return { token, tokenHash: hashRefreshToken(token) };
+}
+
+export function hashRefreshToken(token: string): string {
+  return crypto.createHash("sha256").update(token).digest("hex");
+}
+
+export function setRefreshCookie(res: Response, token: string, expiresAt: Date) {
+  res.cookie(REFRESH_COOKIE, token, {
+    httpOnly: true,
+    secure: process.env.NODE_ENV === "production",
+    sameSite: "strict",
+    path: "/api/auth",
+    expires: expiresAt,
+  });
+}
+
+export function clearRefreshCookie(res: Response) {
+  res.clearCookie(REFRESH_COOKIE, {
+    httpOnly: true,
+    secure: process.env.NODE_ENV === "production",
+    sameSite: "strict",
+    path: "/api/auth",
+  });
+}
+
+export function readRefreshCookie(req: Request): string | undefined {
+  const header = req.headers.cookie;
+  if (!header) return undefined;
+
+  for (const part of header.split(";")) {
+    const [name, ...value] = part.trim().split("=");
+    if (name === REFRESH_COOKIE) {
+      return decodeURIComponent(value.join("="));
+    }
+  }
+
+  return undefined;
+}
+
+/**
+ * Builds a short device label (browser on OS) from a user agent
+ * @param userAgent The User-Agent header
+ * @returns A label such as "Chrome on Windows"
+ */
+export function describeDevice(userAgent?: string): string {
+  if (!userAgent) return "Unknown device";
+
+  const browser =
+    /Edg\//.test(userAgent) ? "Edge" :
+    /OPR\//.test(userAgent) ? "Opera" :
+    /Chrome\//.test(userAgent) ? "Chrome" :
+    /Firefox\//.test(userAgent) ? "Firefox" :
+    /Safari\//.test(userAgent) ? "Safari" :
+    "Unknown browser";
+
+  const os =
+    /Windows/.test(userAgent) ? "Windows" :
+    /Android/.test(userAgent) ? "Android" :
+    /iPhone|iPad/.test(userAgent) ? "iOS" :
+    /Mac OS X/.test(userAgent) ? "macOS" :
+    /Linux/.test(userAgent) ? "Linux" :
+    "Unknown OS";
+
+  return `${browser} on ${os}`;
+}
@@ -0,0 +1,51 @@
+import crypto from "crypto";
+
+// A separate secret lets every printed ticket be invalidated without signing anyone out
+const TICKET_SECRET = process.env.TICKET_SECRET || process.env.JWT_SECRET || "your_jwt_secret";
+
+const TICKET_CODE = /^MEV-(\d+)-([0-9A-F]{12})$/;
+
+// The registration a ticket admits, as held when it was issued
+export interface TicketHolder {
+  registrationId: number;
+  userId: number;
+}
+
+// Signed together with the holder, so a transferred registration voids the previous holder's ticket
+function signTicket({ registrationId, userId }: TicketHolder): string {
+  return crypto
+    .createHmac("sha256", TICKET_SECRET)
+    .update(`ticket:${registrationId}:${userId}`)
+    .digest("hex")
+    .slice(0, 12)
+    .toUpperCase();
+}
+
+/**
+ * The code encoded in a registration's QR ticket and printed under it, e.g.
+ * MEV-42-3F9A0C11B2D4; short enough to type when the camera cannot read it
+ */
+export function createTicketCode(holder: TicketHolder): string {
+  return `MEV-${holder.registrationId}-${signTicket(holder)}`;
+}
+
+/**
+ * Reads the registration a scanned or typed ticket code claims, ignoring case
+ * and whitespace; verifyTicketCode then checks it against the current holder
+ * @returns The registration id, or null when the code is malformed
+ */
+export function readTicketRegistrationId(code: string): number | null {
+  const match = TICKET_CODE.exec(code.replace(/\s+/g, "").toUpperCase());
+  return match ? parseInt(match[1]) : null;
+}
+
+// Whether the code was issued for the registration and the user now holding it
+export function verifyTicketCode(code: string, holder: TicketHolder): boolean {
+  const match = TICKET_CODE.exec(code.replace(/\s+/g, "").toUpperCase());
+  if (!match || parseInt(match[1]) !== holder.registrationId) return false;
+
+  const expected = Buffer.from(signTicket(holder));
+  const actual = Buffer.from(match[2]);
+
+  return crypto.timingSafeEqual(expected, actual);
+}
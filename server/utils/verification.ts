@@ -0,0 +1,31 @@
+import crypto from "crypto";
+
+// Deployments without working email can turn verification off; new accounts
+// are then verified on registration
+export const EMAIL_VERIFICATION_REQUIRED = process.env.REQUIRE_EMAIL_VERIFICATION !== "false";
+export const VERIFICATION_TOKEN_TTL_MS = parseInt(process.env.VERIFICATION_TOKEN_TTL_HOURS || "24") * 60 * 60 * 1000;
+
+// Accounts created by an invitation wait this long for the invitee to set a password
+export const INVITATION_TTL_MS = parseInt(process.env.INVITATION_TTL_DAYS || "7") * 24 * 60 * 60 * 1000;
+
+export const MAX_VERIFICATION_EMAILS_PER_EMAIL = 3;
+export const VERIFICATION_EMAIL_WINDOW_MS = 60 * 60 * 1000;
+
+// All an account may do until its email is confirmed: browse published events
+export const UNVERIFIED_PERMISSIONS = ["event:read"];
+
+/**
+ * Generates an email verification token; only its hash is stored
+ */
+export function generateVerificationToken() {
+  const token = crypto.randomBytes(32).toString("hex");
+  return {
+    token,
+    tokenHash: hashVerificationToken(token),
+    expiresAt: new Date(Date.now() + VERIFICATION_TOKEN_TTL_MS),
+  };
+}
+
+export function hashVerificationToken(token: string): string {
+  return crypto.createHash("sha256").update(token).digest("hex");
+}
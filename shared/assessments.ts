@@ -0,0 +1,443 @@
+/**
+ * Quizzes and evaluation surveys attached to an event or one of its sessions.
+ *
+ * Pre-tests and post-tests measure what participants learned: choice
+ * questions name their correct options and a response is scored in percent
+ * of the points available. Surveys collect ratings and comments, and rating
+ * questions can be marked as rating the speaker of the session. Organizers
+ * may require an assessment for the certificate, see shared/certificateRules.ts.
+ */
+import { z } from "zod";
+
+export const ASSESSMENT_KINDS = ["pre_test", "post_test", "survey"] as const;
+export type AssessmentKind = typeof ASSESSMENT_KINDS[number];
+
+// Kinds that are scored against correct answers
+export const QUIZ_KINDS: AssessmentKind[] = ["pre_test", "post_test"];
+
+export const ASSESSMENT_QUESTION_TYPES = ["single_choice", "multiple_choice", "rating", "text"] as const;
+export type AssessmentQuestionType = typeof ASSESSMENT_QUESTION_TYPES[number];
+
+export const CHOICE_QUESTION_TYPES: AssessmentQuestionType[] = ["single_choice", "multiple_choice"];
+
+// Rating questions are answered on a scale from 1 to this
+export const RATING_SCALE = 5;
+
+export const assessmentQuestionSchema = z.object({
+  // Stable key the answer is stored under
+  id: z.string().regex(/^[a-z][a-z0-9_]{0,49}$/, "Question keys use lowercase letters, digits and underscores"),
+  text: z.string().trim().min(1, "Question is required").max(500),
+  type: z.enum(ASSESSMENT_QUESTION_TYPES),
+  required: z.boolean().default(true),
+  options: z.array(z.string().trim().min(1).max(200)).optional(),
+  // Options a correct quiz answer consists of; all of them for multiple choice
+  correctOptions: z.array(z.string()).optional(),
+  points: z.number().int().min(1).max(100).default(1),
+  // The rating counts towards the speaker of the assessment's session
+  ratesSpeaker: z.boolean().optional(),
+})
+.refine(question => !CHOICE_QUESTION_TYPES.includes(question.type) || (question.options?.length ?? 0) > 1, {
+  message: "Choice questions need at least two options",
+  path: ["options"],
+})
+.refine(question => (question.correctOptions ?? []).every(option => question.options?.includes(option)), {
+  message: "Correct answers must be among the options",
+  path: ["correctOptions"],
+})
+.refine(question => question.type !== "single_choice" || (question.correctOptions?.length ?? 0) <= 1, {
+  message: "Single choice questions have one correct answer",
+  path: ["correctOptions"],
+})
+.refine(question => !question.ratesSpeaker || question.type === "rating", {
+  message: "Only rating questions can rate the speaker",
+  path: ["ratesSpeaker"],
+});
+
+export const assessmentQuestionsSchema = z.array(assessmentQuestionSchema)
+  .min(1, "Add at least one question")
+  .max(100)
+  .refine(questions => new Set(questions.map(question => question.id)).size === questions.length, {
+    message: "Question keys must be unique",
+  });
+
+export type AssessmentQuestion = z.infer<typeof assessmentQuestionSchema>;
+
+// Rules that depend on the kind of assessment, checked on top of the column schemas
+export function refineAssessment(
+  assessment: {
+    kind: AssessmentKind;
+    questions: AssessmentQuestion[];
+    passingScore?: number | null;
+    maxAttempts?: number | null;
+  },
+  context: z.RefinementCtx
+) {
+  if (QUIZ_KINDS.includes(assessment.kind)) {
+    assessment.questions.forEach((question, index) => {
+      if (CHOICE_QUESTION_TYPES.includes(question.type) && !question.correctOptions?.length) {
+        context.addIssue({
+          code: z.ZodIssueCode.custom,
+          message: "Quiz questions need a correct answer",
+          path: ["questions", index, "correctOptions"],
+        });
+      }
+      if (question.ratesSpeaker) {
+        context.addIssue({
+          code: z.ZodIssueCode.custom,
+          message: "Speakers are rated in surveys",
+          path: ["questions", index, "ratesSpeaker"],
+        });
+      }
+    });
+
+    if (!assessment.questions.some(question => CHOICE_QUESTION_TYPES.includes(question.type))) {
+      context.addIssue({
+        code: z.ZodIssueCode.custom,
+        message: "Quizzes need at least one choice question",
+        path: ["questions"],
+      });
+    }
+  } else {
+    if (assessment.passingScore !== null && assessment.passingScore !== undefined) {
+      context.addIssue({
+        code: z.ZodIssueCode.custom,
+        message: "Surveys have no passing score",
+        path: ["passingScore"],
+      });
+    }
+    // Left out, the column defaults to a single attempt
+    if (assessment.maxAttempts !== undefined && assessment.maxAttempts !== 1) {
+      context.addIssue({
+        code: z.ZodIssueCode.custom,
+        message: "Surveys are answered once",
+        path: ["maxAttempts"],
+      });
+    }
+  }
+}
+
+// Stored answers, keyed by question id
+export const assessmentAnswersSchema = z.record(
+  z.union([z.string(), z.number(), z.array(z.string())])
+);
+
+export type AssessmentAnswerValue = string | number | string[];
+export type AssessmentAnswers = z.infer<typeof assessmentAnswersSchema>;
+
+function answerSchema(question: AssessmentQuestion): z.ZodTypeAny {
+  switch (question.type) {
+    case "single_choice":
+      return z.enum(question.options as [string, ...string[]]);
+    case "multiple_choice": {
+      let schema = z.array(z.enum(question.options as [string, ...string[]]));
+      if (question.required) schema = schema.min(1, "An answer is required");
+      return schema;
+    }
+    case "rating":
+      return z.coerce.number().int().min(1).max(RATING_SCALE);
+    default: {
+      let schema = z.string().trim().max(2000);
+      if (question.required) schema = schema.min(1, "An answer is required");
+      return schema;
+    }
+  }
+}
+
+/**
+ * Builds the zod schema a response to an assessment must satisfy. Unknown
+ * keys are stripped and empty optional answers are dropped.
+ */
+export function buildAssessmentAnswersSchema(questions: AssessmentQuestion[]) {
+  const shape: Record<string, z.ZodTypeAny> = {};
+
+  for (const question of questions) {
+    const schema = answerSchema(question);
+    shape[question.id] = z.preprocess(
+      value => (value === "" || value === null ? undefined : value),
+      question.required ? schema : schema.optional()
+    );
+  }
+
+  return z.object(shape);
+}
+
+// Whether an answer picks exactly the correct options
+export function isCorrectAnswer(question: AssessmentQuestion, answer: AssessmentAnswerValue | undefined): boolean {
+  if (!question.correctOptions?.length || answer === undefined) return false;
+
+  const picked = Array.isArray(answer) ? answer : [String(answer)];
+  return picked.length === question.correctOptions.length &&
+    picked.every(option => question.correctOptions!.includes(option));
+}
+
+export interface AssessmentScore {
+  score: number;
+  maxScore: number;
+  percent: number;
+}
+
+/**
+ * Scores a response to a quiz: the points of every question answered
+ * correctly, in percent of the points of all scored questions
+ * @returns null for surveys, which are not scored
+ */
+export function scoreAssessment(
+  kind: AssessmentKind,
+  questions: AssessmentQuestion[],
+  answers: AssessmentAnswers
+): AssessmentScore | null {
+  if (!QUIZ_KINDS.includes(kind)) return null;
+
+  const scored = questions.filter(question => question.correctOptions?.length);
+  const maxScore = scored.reduce((total, question) => total + question.points, 0);
+  const score = scored
+    .filter(question => isCorrectAnswer(question, answers[question.id]))
+    .reduce((total, question) => total + question.points, 0);
+
+  return {
+    score,
+    maxScore,
+    percent: maxScore > 0 ? Math.round((score / maxScore) * 100) : 0,
+  };
+}
+
+// The questions as shown to participants, without the correct answers
+export const toParticipantQuestions = (questions: AssessmentQuestion[]) =>
+  questions.map(({ correctOptions, ...question }) => question);
+
+/**
+ * Whether an assessment can be taken. Pre-tests close at the end of the day
+ * the event or session starts, post-tests and surveys open on that day.
+ */
+export function isAssessmentOpen(kind: AssessmentKind, startsAt: Date | string, now = new Date()) {
+  const startOfDay = new Date(startsAt);
+  startOfDay.setHours(0, 0, 0, 0);
+  const endOfDay = new Date(startOfDay.getTime() + 24 * 60 * 60 * 1000);
+
+  return kind === "pre_test" ? now < endOfDay : now >= startOfDay;
+}
+
+// Reports
+
+export interface AssessmentQuestionSummary {
+  id: string;
+  text: string;
+  type: AssessmentQuestionType;
+  answered: number;
+  // Share of the answers that were correct, for scored questions
+  correctPercent: number | null;
+  // Mean answer to a rating question
+  averageRating: number | null;
+  // How often each option was picked, for choice questions
+  optionCounts: { option: string; count: number }[];
+  // Latest answers to a text question
+  comments: string[];
+}
+
+export interface AssessmentSummary {
+  assessmentId: number;
+  title: string;
+  kind: AssessmentKind;
+  scheduleId: number | null;
+  // Participants who answered, and their attempts in total
+  participants: number;
+  responses: number;
+  // Mean of each participant's best score, for quizzes
+  averagePercent: number | null;
+  // Share of the participants who passed, for quizzes with a passing score
+  passRate: number | null;
+  questions: AssessmentQuestionSummary[];
+}
+
+// Mean scores before and after, of the participants who took both tests
+export interface LearningGain {
+  scheduleId: number | null;
+  participants: number;
+  preAverage: number;
+  postAverage: number;
+}
+
+export interface SpeakerRating {
+  speakerId: number;
+  name: string;
+  ratings: number;
+  averageRating: number;
+}
+
+export interface AssessmentReport {
+  assessments: AssessmentSummary[];
+  learningGains: LearningGain[];
+  speakerRatings: SpeakerRating[];
+}
+
+interface ReportedResponse {
+  registrationId: number;
+  attempt: number;
+  answers: AssessmentAnswers;
+  percent: number | null;
+  passed: boolean | null;
+}
+
+// Number of free-text answers kept per question
+const REPORTED_COMMENTS = 50;
+
+const mean = (values: number[]) =>
+  values.length > 0 ? Math.round((values.reduce((total, value) => total + value, 0) / values.length) * 10) / 10 : null;
+
+// Each participant's latest attempt
+function latestResponses(responses: ReportedResponse[]) {
+  const latest = new Map<number, ReportedResponse>();
+  for (const response of responses) {
+    const current = latest.get(response.registrationId);
+    if (!current || response.attempt > current.attempt) latest.set(response.registrationId, response);
+  }
+  return Array.from(latest.values());
+}
+
+// Each participant's best score
+export function bestPercents(responses: ReportedResponse[]) {
+  const best = new Map<number, number>();
+  for (const response of responses) {
+    if (response.percent === null) continue;
+    best.set(response.registrationId, Math.max(best.get(response.registrationId) ?? 0, response.percent));
+  }
+  return best;
+}
+
+/**
+ * Aggregates the responses to an assessment: scores, pass rate and how each
+ * question was answered on the participants' latest attempts
+ */
+export function summarizeAssessment(
+  assessment: {
+    id: number;
+    title: string;
+    kind: AssessmentKind;
+    scheduleId: number | null;
+    questions: AssessmentQuestion[];
+    passingScore: number | null;
+  },
+  responses: ReportedResponse[]
+): AssessmentSummary {
+  const latest = latestResponses(responses);
+  const best = bestPercents(responses);
+  const passed = new Set(responses.filter(response => response.passed).map(response => response.registrationId));
+  const isQuiz = QUIZ_KINDS.includes(assessment.kind);
+
+  const questions = assessment.questions.map(question => {
+    const answers = latest
+      .map(response => response.answers[question.id])
+      .filter((answer): answer is AssessmentAnswerValue => answer !== undefined && answer !== "");
+
+    return {
+      id: question.id,
+      text: question.text,
+      type: question.type,
+      answered: answers.length,
+      correctPercent: question.correctOptions?.length && answers.length > 0
+        ? Math.round((answers.filter(answer => isCorrectAnswer(question, answer)).length / answers.length) * 100)
+        : null,
+      averageRating: question.type === "rating" ? mean(answers.map(Number)) : null,
+      optionCounts: (question.options ?? []).map(option => ({
+        option,
+        count: answers.filter(answer => Array.isArray(answer) ? answer.includes(option) : answer === option).length,
+      })),
+      comments: question.type === "text" ? answers.map(String).slice(-REPORTED_COMMENTS).reverse() : [],
+    };
+  });
+
+  return {
+    assessmentId: assessment.id,
+    title: assessment.title,
+    kind: assessment.kind,
+    scheduleId: assessment.scheduleId,
+    participants: latest.length,
+    responses: responses.length,
+    averagePercent: isQuiz ? mean(Array.from(best.values())) : null,
+    passRate: isQuiz && assessment.passingScore !== null && latest.length > 0
+      ? Math.round((passed.size / latest.length) * 100)
+      : null,
+    questions,
+  };
+}
+
+/**
+ * Compares the pre-test and post-test scores of each event or session, over
+ * the participants who took both: their first pre-test attempt against their
+ * best post-test attempt
+ */
+export function computeLearningGains(
+  assessments: { kind: AssessmentKind; scheduleId: number | null; responses: ReportedResponse[] }[]
+): LearningGain[] {
+  const scopes = Array.from(new Set(assessments.map(assessment => assessment.scheduleId)));
+  const gains: LearningGain[] = [];
+
+  for (const scheduleId of scopes) {
+    const pre = new Map<number, number[]>();
+    const post = new Map<number, number[]>();
+
+    for (const assessment of assessments.filter(assessment => assessment.scheduleId === scheduleId)) {
+      if (assessment.kind === "pre_test") {
+        for (const response of assessment.responses) {
+          if (response.attempt !== 1 || response.percent === null) continue;
+          pre.set(response.registrationId, [...(pre.get(response.registrationId) ?? []), response.percent]);
+        }
+      } else if (assessment.kind === "post_test") {
+        bestPercents(assessment.responses).forEach((percent, registrationId) => {
+          post.set(registrationId, [...(post.get(registrationId) ?? []), percent]);
+        });
+      }
+    }
+
+    const participants = Array.from(pre.keys()).filter(registrationId => post.has(registrationId));
+    if (participants.length === 0) continue;
+
+    gains.push({
+      scheduleId,
+      participants: participants.length,
+      preAverage: mean(participants.map(registrationId => mean(pre.get(registrationId)!)!))!,
+      postAverage: mean(participants.map(registrationId => mean(post.get(registrationId)!)!))!,
+    });
+  }
+
+  return gains;
+}
+
+/**
+ * Averages the speaker rating questions of session surveys per speaker, over
+ * the participants' latest responses
+ */
+export function computeSpeakerRatings(
+  assessments: {
+    questions: AssessmentQuestion[];
+    speaker: { id: number; name: string } | null;
+    responses: ReportedResponse[];
+  }[]
+): SpeakerRating[] {
+  const ratings = new Map<number, { name: string; values: number[] }>();
+
+  for (const { questions, speaker, responses } of assessments) {
+    if (!speaker) continue;
+
+    const ratingQuestions = questions.filter(question => question.ratesSpeaker);
+    const entry = ratings.get(speaker.id) ?? { name: speaker.name, values: [] };
+
+    for (const response of latestResponses(responses)) {
+      for (const question of ratingQuestions) {
+        const answer = Number(response.answers[question.id]);
+        if (answer >= 1 && answer <= RATING_SCALE) entry.values.push(answer);
+      }
+    }
+
+    if (entry.values.length > 0) ratings.set(speaker.id, entry);
+  }
+
+  return Array.from(ratings.entries())
+    .map(([speakerId, { name, values }]) => ({
+      speakerId,
+      name,
+      ratings: values.length,
+      averageRating: mean(values)!,
+    }))
+    .sort((a, b) => b.averageRating - a.averageRating);
+}
@@ -0,0 +1,100 @@
+/**
+ * Rules a registration must meet before a certificate is issued for it.
+ *
+ * They apply when a single certificate is generated and when certificates
+ * are issued in bulk after an event is completed. Every failed rule comes
+ * with an explanation, so the issuance report can tell organizers why a
+ * participant was skipped.
+ */
+
+export type CertificateRule = "approved" | "attendance" | "assessment" | "series";
+
+export interface CertificateRuleIssue {
+  rule: CertificateRule;
+  message: string;
+}
+
+// How a registration did on a quiz or survey required for the certificate
+export interface CertificateAssessmentResult {
+  assessmentId: number;
+  title: string;
+  kind: "pre_test" | "post_test" | "survey";
+  status: "missing" | "failed" | "passed";
+}
+
+export interface CertificateCandidate {
+  status: string;
+  attendancePercent: number;
+  assessments?: CertificateAssessmentResult[];
+}
+
+export function checkCertificateRules(
+  candidate: CertificateCandidate,
+  event: { minAttendancePercent: number }
+): CertificateRuleIssue[] {
+  const issues: CertificateRuleIssue[] = [];
+
+  if (candidate.status !== "approved") {
+    issues.push({
+      rule: "approved",
+      message: `Registration is ${candidate.status}; certificates are only issued for approved registrations`,
+    });
+  }
+
+  if (candidate.attendancePercent < event.minAttendancePercent) {
+    issues.push({
+      rule: "attendance",
+      message: `Attendance of ${candidate.attendancePercent}% is below the ${event.minAttendancePercent}% required for a certificate`,
+    });
+  }
+
+  for (const assessment of candidate.assessments ?? []) {
+    if (assessment.status === "missing") {
+      issues.push({
+        rule: "assessment",
+        message: assessment.kind === "survey"
+          ? `The survey "${assessment.title}" has not been completed`
+          : `The test "${assessment.title}" has not been taken`,
+      });
+    } else if (assessment.status === "failed") {
+      issues.push({
+        rule: "assessment",
+        message: `The passing score of the test "${assessment.title}" has not been reached`,
+      });
+    }
+  }
+
+  return issues;
+}
+
+/**
+ * Checks a participant against the series certificate: they must have met the
+ * certificate rules of enough occurrences of the series
+ */
+export function checkSeriesCertificateRule(
+  qualifiedOccurrences: number,
+  series: { requiredOccurrences: number; occurrences: number }
+): CertificateRuleIssue[] {
+  if (qualifiedOccurrences >= series.requiredOccurrences) return [];
+
+  return [{
+    rule: "series",
+    message: `Qualified for ${qualifiedOccurrences} of ${series.occurrences} occurrences; ${series.requiredOccurrences} are required for the series certificate`,
+  }];
+}
+
+export type CertificateIssuanceOutcome = "issued" | "already_issued" | "skipped" | "failed";
+
+// What bulk issuance did for one registration
+export interface CertificateIssuanceResult {
+  registrationId: number;
+  userId: number;
+  fullName: string;
+  email: string;
+  outcome: CertificateIssuanceOutcome;
+  certificateNumber?: string;
+  issues?: CertificateRuleIssue[];
+  message?: string;
+}
+
+export type CertificateIssuanceSummary = Record<CertificateIssuanceOutcome, number>;
@@ -0,0 +1,92 @@
+/**
+ * Signed certificate tokens, carried in the certificate's QR code.
+ *
+ * The server signs the holder, event and issue date with ECDSA P-256 and
+ * SHA-256. A token is base64url(payload JSON) "." base64url(signature), the
+ * signature covering the ASCII bytes of the first part, so anyone holding the
+ * public keys from /api/certificates/keys can check a certificate without
+ * asking the server. Retired keys stay published, which keeps certificates
+ * signed before a key rotation verifiable.
+ */
+import { z } from "zod";
+
+export const certificatePayloadSchema = z.object({
+  v: z.literal(1),
+  // Id of the signing key
+  kid: z.string(),
+  num: z.string(),
+  name: z.string(),
+  event: z.string(),
+  // Event dates as YYYY-MM-DD
+  start: z.string(),
+  end: z.string(),
+  issued: z.string(),
+});
+
+export type CertificatePayload = z.infer<typeof certificatePayloadSchema>;
+
+// A public key as a JWK, with when it was created and retired
+export interface CertificatePublicKey {
+  kid: string;
+  kty: "EC";
+  crv: "P-256";
+  x: string;
+  y: string;
+  alg: "ES256";
+  use: "sig";
+  createdAt: string;
+  retiredAt: string | null;
+}
+
+export interface CertificateKeySet {
+  keys: CertificatePublicKey[];
+}
+
+export function toBase64Url(bytes: Uint8Array): string {
+  let binary = "";
+  for (let i = 0; i < bytes.length; i++) {
+    binary += String.fromCharCode(bytes[i]);
+  }
+  return btoa(binary).replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "");
+}
+
+export function fromBase64Url(value: string): Uint8Array {
+  const binary = atob(value.replace(/-/g, "+").replace(/_/g, "/"));
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
+}
+
+// The signed part of a token
+export function encodeCertificatePayload(payload: CertificatePayload): string {
+  return toBase64Url(new TextEncoder().encode(JSON.stringify(payload)));
+}
+
+/**
+ * Splits a token into its payload and signature, without checking the signature
+ * @returns null when the token is malformed
+ */
+export function parseCertificateToken(token: string) {
+  const [signedPart, signature, ...rest] = token.trim().split(".");
+  if (!signedPart || !signature || rest.length > 0) return null;
+
+  try {
+    const json = new TextDecoder().decode(fromBase64Url(signedPart));
+    const payload = certificatePayloadSchema.safeParse(JSON.parse(json));
+    if (!payload.success) return null;
+
+    return {
+      payload: payload.data,
+      signedPart,
+      signature: fromBase64Url(signature),
+    };
+  } catch (error) {
+    return null;
+  }
+}
+
+// Verification page link; the token sits in the fragment, which browsers never send to the server
+export const certificateVerificationUrl = (baseUrl: string, certificateNumber: string, signature?: string | null) =>
+  `${baseUrl}/certificates/verify/${encodeURIComponent(certificateNumber)}${signature ? `#${signature}` : ""}`;
@@ -0,0 +1,131 @@
+/**
+ * Layouts of the PDF certificates rendered on the server.
+ *
+ * A template holds one layout per language. Each layout is a list of
+ * elements placed in percent of the page, so the same layout fits A4 and
+ * Letter. Text elements may contain placeholders such as {{fullName}}, which
+ * are filled in with the certificate's details when the PDF is rendered.
+ */
+import { z } from "zod";
+
+export const CERTIFICATE_LANGUAGES = ["en", "fr", "ar"] as const;
+export type CertificateLanguage = typeof CERTIFICATE_LANGUAGES[number];
+
+export const CERTIFICATE_PLACEHOLDERS = [
+  "fullName",
+  "position",
+  "organization",
+  "eventTitle",
+  "eventDates",
+  "issuedDate",
+  "certificateNumber",
+  "verificationUrl",
+  "cmeCredits",
+] as const;
+export type CertificatePlaceholder = typeof CERTIFICATE_PLACEHOLDERS[number];
+
+// Horizontal and vertical positions, in percent of the page
+const position = {
+  x: z.number().min(0).max(100),
+  y: z.number().min(0).max(100),
+};
+
+const colorSchema = z.string().regex(/^#[0-9a-fA-F]{6}$/, "Colors must be hex values such as #1f2937");
+
+export const certificateElementSchema = z.discriminatedUnion("type", [
+  z.object({
+    type: z.literal("text"),
+    ...position,
+    // Width of the text box; lines wrap inside it
+    width: z.number().min(1).max(100),
+    text: z.string().min(1).max(1000),
+    fontSize: z.number().min(4).max(96).default(14),
+    bold: z.boolean().default(false),
+    color: colorSchema.default("#1f2937"),
+    align: z.enum(["left", "center", "right"]).default("center"),
+  }),
+  // Logos and signatures, uploaded to /uploads
+  z.object({
+    type: z.literal("image"),
+    ...position,
+    width: z.number().min(1).max(100),
+    src: z.string().startsWith("/uploads/"),
+  }),
+  z.object({
+    type: z.literal("qrCode"),
+    ...position,
+    width: z.number().min(1).max(50),
+  }),
+]);
+
+export type CertificateElement = z.infer<typeof certificateElementSchema>;
+
+export const certificateLayoutSchema = z.object({
+  elements: z.array(certificateElementSchema).max(50),
+});
+
+export type CertificateLayout = z.infer<typeof certificateLayoutSchema>;
+
+export const certificateLayoutsSchema = z.object({
+  en: certificateLayoutSchema.optional(),
+  fr: certificateLayoutSchema.optional(),
+  ar: certificateLayoutSchema.optional(),
+});
+
+export type CertificateLayouts = z.infer<typeof certificateLayoutsSchema>;
+
+const defaultLayout = (
+  text: Record<"title" | "certify" | "participated" | "issued" | "number", string>,
+  align: "left" | "right"
+): CertificateLayout => {
+  // Arabic certificates mirror the footer, with the QR code on the right
+  const qrCodeX = align === "left" ? 8 : 80;
+  const footerX = align === "left" ? 22 : 34;
+  return {
+    elements: [
+      { type: "text", x: 10, y: 14, width: 80, text: text.title, fontSize: 32, bold: true, color: "#1e3a8a", align: "center" },
+      { type: "text", x: 10, y: 30, width: 80, text: text.certify, fontSize: 16, bold: false, color: "#4b5563", align: "center" },
+      { type: "text", x: 10, y: 38, width: 80, text: "{{fullName}}", fontSize: 30, bold: true, color: "#1f2937", align: "center" },
+      { type: "text", x: 10, y: 48, width: 80, text: "{{position}} {{organization}}", fontSize: 14, bold: false, color: "#4b5563", align: "center" },
+      { type: "text", x: 10, y: 55, width: 80, text: text.participated, fontSize: 16, bold: false, color: "#4b5563", align: "center" },
+      { type: "text", x: 10, y: 62, width: 80, text: "{{eventTitle}}", fontSize: 22, bold: true, color: "#1f2937", align: "center" },
+      { type: "text", x: 10, y: 71, width: 80, text: "{{eventDates}}", fontSize: 14, bold: false, color: "#4b5563", align: "center" },
+      { type: "qrCode", x: qrCodeX, y: 76, width: 12 },
+      { type: "text", x: footerX, y: 84, width: 44, text: `${text.number}: {{certificateNumber}}`, fontSize: 10, bold: false, color: "#6b7280", align },
+      { type: "text", x: footerX, y: 88, width: 44, text: `${text.issued} {{issuedDate}}`, fontSize: 10, bold: false, color: "#6b7280", align },
+    ],
+  };
+};
+
+// Used when an event has no template, and for languages a template leaves out
+export const DEFAULT_CERTIFICATE_LAYOUTS: Record<CertificateLanguage, CertificateLayout> = {
+  en: defaultLayout({
+    title: "Certificate of Participation",
+    certify: "This is to certify that",
+    participated: "has participated in",
+    issued: "Issued on",
+    number: "Certificate Number",
+  }, "left"),
+  fr: defaultLayout({
+    title: "Certificat de participation",
+    certify: "Nous certifions que",
+    participated: "a participé à",
+    issued: "Délivré le",
+    number: "Numéro du certificat",
+  }, "left"),
+  ar: defaultLayout({
+    title: "شهادة مشاركة",
+    certify: "نشهد بأن",
+    participated: "قد شارك في",
+    issued: "صدرت بتاريخ",
+    number: "رقم الشهادة",
+  }, "right"),
+};
+
+export function fillCertificatePlaceholders(text: string, values: Partial<Record<CertificatePlaceholder, string | null>>) {
+  return text
+    .replace(/\{\{\s*(\w+)\s*\}\}/g, (match, key: string) =>
+      (CERTIFICATE_PLACEHOLDERS as readonly string[]).includes(key) ? values[key as CertificatePlaceholder] ?? "" : match)
+    .replace(/[ \t]{2,}/g, " ")
+    .trim();
+}
@@ -0,0 +1,38 @@
+/**
+ * Continuing medical education (CME) credit hours.
+ *
+ * Organizers set the credits earned for completing an event and for attending
+ * each of its sessions. The total is fixed on a certificate when it is issued
+ * and written to the holder's ledger; revoking the certificate writes the
+ * matching negative entry, so the ledger is never rewritten.
+ */
+import { z } from "zod";
+
+// Credits are counted in quarter hours
+export const cmeCreditsSchema = z.number().min(0).max(500).multipleOf(0.25);
+
+export const roundCmeCredits = (credits: number) => Math.round(credits * 100) / 100;
+
+/**
+ * Credits a participant earns for an event: the event's own credits plus
+ * those of every session they attended
+ */
+export function computeCmeCredits(
+  eventCredits: number,
+  sessions: { id: number; cmeCredits: number }[],
+  attendedSessionIds: (number | null)[]
+): number {
+  return roundCmeCredits(
+    sessions
+      .filter(session => attendedSessionIds.includes(session.id))
+      .reduce((total, session) => total + session.cmeCredits, eventCredits)
+  );
+}
+
+// Credits earned in a calendar year against the holder's role requirement
+export interface CmeYearSummary {
+  year: number;
+  credits: number;
+  // null when the role has no yearly requirement
+  requirement: number | null;
+}
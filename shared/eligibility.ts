@@ -0,0 +1,44 @@
+/**
+ * Declarative rules restricting who may register for an event.
+ *
+ * Every rule is optional; an event without rules is open to anyone holding
+ * event:register. The server evaluates them when a registration is created
+ * or transferred and when listing events, and explains each failed rule.
+ */
+import { z } from "zod";
+
+export const eligibilityRulesSchema = z.object({
+  // Roles allowed to register, e.g. participant_doctor and lecturer_doctor
+  roles: z.array(z.string().min(1)).optional(),
+  // Registrants must belong to one of these units or a unit below them, e.g. a province
+  organizationIds: z.array(z.number().int().positive()).optional(),
+  // Allowed specialties, matched case-insensitively against the user's position
+  positions: z.array(z.string().trim().min(1).max(100)).optional(),
+  // Seats any single hospital may take, counting pending, approved and waitlisted registrations
+  maxPerHospital: z.number().int().positive().optional(),
+});
+
+export type EligibilityRules = z.infer<typeof eligibilityRulesSchema>;
+
+export type EligibilityRule =
+  | "account"
+  | "registered"
+  | "role"
+  | "organization"
+  | "position"
+  | "hospital_quota";
+
+// A rule the user fails, with an explanation they can act on
+export interface EligibilityIssue {
+  rule: EligibilityRule;
+  message: string;
+}
+
+export function hasEligibilityRules(rules: EligibilityRules | null | undefined) {
+  return !!rules && (
+    !!rules.roles?.length ||
+    !!rules.organizationIds?.length ||
+    !!rules.positions?.length ||
+    rules.maxPerHospital !== undefined
+  );
+}
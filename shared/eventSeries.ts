@@ -0,0 +1,245 @@
+/**
+ * Recurring event series, e.g. a monthly journal club.
+ *
+ * A series is generated from one event and a recurrence rule written as a
+ * subset of the iCalendar RRULE syntax (RFC 5545): FREQ of DAILY, WEEKLY or
+ * MONTHLY with INTERVAL, BYDAY, BYMONTHDAY and one of COUNT or UNTIL, e.g.
+ * "FREQ=MONTHLY;BYDAY=2TU;COUNT=10" for the second Tuesday of ten months.
+ * Each occurrence is an event of its own with its own registrations; the
+ * speakers and documents of the series are shared by all occurrences.
+ */
+import { z } from "zod";
+
+export const RECURRENCE_FREQUENCIES = ["DAILY", "WEEKLY", "MONTHLY"] as const;
+export type RecurrenceFrequency = typeof RECURRENCE_FREQUENCIES[number];
+
+// RRULE weekday codes, in the order of Date.getDay()
+export const WEEKDAYS = ["SU", "MO", "TU", "WE", "TH", "FR", "SA"] as const;
+export type Weekday = typeof WEEKDAYS[number];
+
+// Upper bound on the occurrences generated for a series
+export const MAX_SERIES_OCCURRENCES = 100;
+
+export interface RecurrenceRule {
+  frequency: RecurrenceFrequency;
+  interval: number;
+  // Weekdays of a weekly rule; with an ordinal, the nth weekday of the month (-1 for the last)
+  byDay?: { weekday: Weekday; ordinal?: number }[];
+  byMonthDay?: number;
+  count?: number;
+  // Last day an occurrence may fall on, as YYYY-MM-DD
+  until?: string;
+}
+
+const DAY_PATTERN = /^([+-]?[1-5])?(SU|MO|TU|WE|TH|FR|SA)$/;
+
+/**
+ * Reads an RRULE string, with or without the "RRULE:" prefix
+ * @throws Error naming the part of the rule that is not supported
+ */
+export function parseRecurrenceRule(value: string): RecurrenceRule {
+  const parts = new Map<string, string>();
+  for (const part of value.trim().replace(/^RRULE:/i, "").split(";").filter(Boolean)) {
+    const [key, partValue] = part.split("=");
+    if (!key || partValue === undefined) throw new Error(`Invalid rule part "${part}"`);
+    parts.set(key.toUpperCase(), partValue.toUpperCase());
+  }
+
+  const frequency = parts.get("FREQ") as RecurrenceFrequency | undefined;
+  if (!frequency || !RECURRENCE_FREQUENCIES.includes(frequency)) {
+    throw new Error("FREQ must be DAILY, WEEKLY or MONTHLY");
+  }
+
+  const rule: RecurrenceRule = { frequency, interval: 1 };
+
+  for (const [key, partValue] of Array.from(parts.entries())) {
+    switch (key) {
+      case "FREQ":
+        break;
+      case "INTERVAL":
+        rule.interval = Number(partValue);
+        if (!Number.isInteger(rule.interval) || rule.interval < 1 || rule.interval > 12) {
+          throw new Error("INTERVAL must be a whole number from 1 to 12");
+        }
+        break;
+      case "BYDAY":
+        rule.byDay = partValue.split(",").map(day => {
+          const match = DAY_PATTERN.exec(day);
+          if (!match) throw new Error(`Invalid BYDAY value "${day}"`);
+          return match[1] ? { weekday: match[2] as Weekday, ordinal: Number(match[1]) } : { weekday: match[2] as Weekday };
+        });
+        break;
+      case "BYMONTHDAY":
+        rule.byMonthDay = Number(partValue);
+        if (!Number.isInteger(rule.byMonthDay) || rule.byMonthDay < 1 || rule.byMonthDay > 31) {
+          throw new Error("BYMONTHDAY must be a day from 1 to 31");
+        }
+        break;
+      case "COUNT":
+        rule.count = Number(partValue);
+        if (!Number.isInteger(rule.count) || rule.count < 1 || rule.count > MAX_SERIES_OCCURRENCES) {
+          throw new Error(`COUNT must be from 1 to ${MAX_SERIES_OCCURRENCES}`);
+        }
+        break;
+      case "UNTIL": {
+        const match = /^(\d{4})(\d{2})(\d{2})/.exec(partValue);
+        if (!match) throw new Error("UNTIL must be a date such as 20261231");
+        rule.until = `${match[1]}-${match[2]}-${match[3]}`;
+        break;
+      }
+      default:
+        throw new Error(`${key} is not supported`);
+    }
+  }
+
+  if (rule.count === undefined && rule.until === undefined) {
+    throw new Error("The rule needs a COUNT or an UNTIL date");
+  }
+  if (rule.count !== undefined && rule.until !== undefined) {
+    throw new Error("COUNT and UNTIL cannot be combined");
+  }
+  if (rule.byMonthDay !== undefined && rule.frequency !== "MONTHLY") {
+    throw new Error("BYMONTHDAY only applies to monthly rules");
+  }
+  if (rule.byDay?.some(day => day.ordinal !== undefined) && rule.frequency !== "MONTHLY") {
+    throw new Error("Numbered weekdays only apply to monthly rules");
+  }
+  if (rule.byDay && rule.frequency === "DAILY") {
+    throw new Error("BYDAY does not apply to daily rules");
+  }
+
+  return rule;
+}
+
+// Writes a rule back as an RRULE string, without the "RRULE:" prefix
+export function formatRecurrenceRule(rule: RecurrenceRule): string {
+  const parts = [`FREQ=${rule.frequency}`];
+  if (rule.interval !== 1) parts.push(`INTERVAL=${rule.interval}`);
+  if (rule.byDay?.length) parts.push(`BYDAY=${rule.byDay.map(day => `${day.ordinal ?? ""}${day.weekday}`).join(",")}`);
+  if (rule.byMonthDay !== undefined) parts.push(`BYMONTHDAY=${rule.byMonthDay}`);
+  if (rule.count !== undefined) parts.push(`COUNT=${rule.count}`);
+  if (rule.until !== undefined) parts.push(`UNTIL=${rule.until.replace(/-/g, "")}`);
+  return parts.join(";");
+}
+
+// An RRULE string that parses, normalized
+export const recurrenceRuleSchema = z.string().trim().min(1).transform((value, context) => {
+  try {
+    return formatRecurrenceRule(parseRecurrenceRule(value));
+  } catch (error) {
+    context.addIssue({ code: z.ZodIssueCode.custom, message: (error as Error).message });
+    return z.NEVER;
+  }
+});
+
+const addDays = (date: Date, days: number) => {
+  const result = new Date(date);
+  result.setDate(result.getDate() + days);
+  return result;
+};
+
+// The day of a month an ordinal weekday falls on, e.g. the 2nd Tuesday; null when the month has none
+function nthWeekdayOfMonth(year: number, month: number, weekday: number, ordinal: number): number | null {
+  const daysInMonth = new Date(year, month + 1, 0).getDate();
+  const days: number[] = [];
+  for (let day = 1; day <= daysInMonth; day++) {
+    if (new Date(year, month, day).getDay() === weekday) days.push(day);
+  }
+  return (ordinal > 0 ? days[ordinal - 1] : days[days.length + ordinal]) ?? null;
+}
+
+// Candidate days of one period of the rule, in order
+function periodDates(rule: RecurrenceRule, start: Date, period: number): Date[] {
+  switch (rule.frequency) {
+    case "DAILY":
+      return [addDays(start, period * rule.interval)];
+    case "WEEKLY": {
+      // Weeks start on Monday, as with the RRULE default WKST=MO
+      const weekStart = addDays(start, -((start.getDay() + 6) % 7) + period * rule.interval * 7);
+      const weekdays = rule.byDay?.map(day => WEEKDAYS.indexOf(day.weekday)) ?? [start.getDay()];
+      return Array.from(new Set(weekdays))
+        .map(weekday => addDays(weekStart, (weekday + 6) % 7))
+        .sort((a, b) => a.getTime() - b.getTime());
+    }
+    case "MONTHLY": {
+      const monthStart = new Date(start);
+      monthStart.setDate(1);
+      monthStart.setMonth(start.getMonth() + period * rule.interval);
+      const year = monthStart.getFullYear();
+      const month = monthStart.getMonth();
+      const daysInMonth = new Date(year, month + 1, 0).getDate();
+
+      let days: number[];
+      if (rule.byDay?.length) {
+        days = rule.byDay.flatMap(day => {
+          const weekday = WEEKDAYS.indexOf(day.weekday);
+          if (day.ordinal !== undefined) {
+            const nth = nthWeekdayOfMonth(year, month, weekday, day.ordinal);
+            return nth === null ? [] : [nth];
+          }
+          return Array.from({ length: daysInMonth }, (_, index) => index + 1)
+            .filter(dayOfMonth => new Date(year, month, dayOfMonth).getDay() === weekday);
+        });
+      } else {
+        // Months without the day are skipped, e.g. the 31st
+        const dayOfMonth = rule.byMonthDay ?? start.getDate();
+        days = dayOfMonth <= daysInMonth ? [dayOfMonth] : [];
+      }
+
+      return Array.from(new Set(days))
+        .sort((a, b) => a - b)
+        .map(dayOfMonth => {
+          const date = new Date(monthStart);
+          date.setDate(dayOfMonth);
+          return date;
+        });
+    }
+  }
+}
+
+/**
+ * Start times of the occurrences of a series: the first event's start,
+ * then every later day the rule matches, at the same time of day
+ */
+export function expandRecurrence(rule: RecurrenceRule, start: Date): Date[] {
+  const first = new Date(start);
+  const limit = Math.min(rule.count ?? MAX_SERIES_OCCURRENCES, MAX_SERIES_OCCURRENCES);
+  const until = rule.until ? new Date(`${rule.until}T23:59:59.999`) : null;
+  const occurrences = [first];
+
+  // Enough periods to reach the limit even when most of them are skipped
+  for (let period = 0; occurrences.length < limit && period < limit * 12; period++) {
+    for (const date of periodDates(rule, first, period)) {
+      if (date <= first) continue;
+      if ((until && date > until) || occurrences.length >= limit) return occurrences;
+      occurrences.push(date);
+    }
+  }
+
+  return occurrences;
+}
+
+// Dates printed on a series certificate: from the first to the last occurrence
+export function seriesDateRange(occurrences: { startDate: Date | string; endDate: Date | string }[]) {
+  const starts = occurrences.map(occurrence => new Date(occurrence.startDate).getTime());
+  const ends = occurrences.map(occurrence => new Date(occurrence.endDate).getTime());
+
+  return {
+    startDate: new Date(Math.min(...starts)),
+    endDate: new Date(Math.max(...ends)),
+  };
+}
+
+/**
+ * What a certificate is issued for: the series of a series certificate,
+ * otherwise the event of its registration
+ */
+export function certificateSubject(certificate: {
+  registration: { event: { title: string; startDate: Date | string; endDate: Date | string } };
+  series?: { title: string; events: { startDate: Date | string; endDate: Date | string }[] } | null;
+}) {
+  const { registration: { event }, series } = certificate;
+  return series
+    ? { title: series.title, ...seriesDateRange(series.events) }
+    : { title: event.title, startDate: new Date(event.startDate), endDate: new Date(event.endDate) };
+}
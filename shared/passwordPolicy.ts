@@ -0,0 +1,79 @@
+/**
+ * Password rules shared by the API and the client.
+ *
+ * The server enforces the policy (plus the common-password list and the
+ * password history, which only it can check); the client uses the same rules
+ * to give feedback while a password is typed.
+ */
+
+export interface PasswordPolicy {
+  minLength: number;
+  requireUppercase: boolean;
+  requireLowercase: boolean;
+  requireDigit: boolean;
+  requireSymbol: boolean;
+  // Number of previous passwords that cannot be reused
+  historySize: number;
+}
+
+export type PasswordViolation =
+  | "too_short"
+  | "missing_uppercase"
+  | "missing_lowercase"
+  | "missing_digit"
+  | "missing_symbol"
+  | "contains_personal_info"
+  | "common_password"
+  | "reused_password";
+
+/**
+ * Checks a password against the policy's length and character class rules
+ * @param password The candidate password
+ * @param policy The policy to apply
+ * @param personalInfo Values the password must not contain, such as the username or email
+ * @returns The rules the password breaks; empty when it is acceptable
+ */
+export function checkPasswordRules(
+  password: string,
+  policy: PasswordPolicy,
+  personalInfo: (string | null | undefined)[] = []
+): PasswordViolation[] {
+  const violations: PasswordViolation[] = [];
+
+  if (password.length < policy.minLength) violations.push("too_short");
+  if (policy.requireUppercase && !/[A-Z]/.test(password)) violations.push("missing_uppercase");
+  if (policy.requireLowercase && !/[a-z]/.test(password)) violations.push("missing_lowercase");
+  if (policy.requireDigit && !/\d/.test(password)) violations.push("missing_digit");
+  if (policy.requireSymbol && !/[^A-Za-z0-9]/.test(password)) violations.push("missing_symbol");
+
+  const lowered = password.toLowerCase();
+  const containsPersonalInfo = personalInfo
+    .flatMap(value => (value || "").toLowerCase().split(/[\s@._-]+/))
+    .some(part => part.length >= 4 && lowered.includes(part));
+
+  if (containsPersonalInfo) violations.push("contains_personal_info");
+
+  return violations;
+}
+
+/**
+ * Rough strength estimate for feedback: 0 (very weak) to 4 (strong)
+ */
+export function getPasswordStrength(password: string): 0 | 1 | 2 | 3 | 4 {
+  if (!password) return 0;
+
+  const classes = [/[a-z]/, /[A-Z]/, /\d/, /[^A-Za-z0-9]/].filter(pattern => pattern.test(password)).length;
+  let score = 0;
+
+  if (password.length >= 8) score++;
+  if (password.length >= 12) score++;
+  if (classes >= 3) score++;
+  if (classes === 4 || password.length >= 16) score++;
+
+  // Repeated characters and simple sequences are easy to guess
+  if (/(.)\1{2,}/.test(password) || /(0123|1234|2345|3456|4567|5678|6789|abcd|qwer|asdf)/i.test(password)) {
+    score--;
+  }
+
+  return Math.max(0, Math.min(4, score)) as 0 | 1 | 2 | 3 | 4;
+}
@@ -0,0 +1,245 @@
+/**
+ * Attribute-based authorization rules shared by the API and the client.
+ *
+ * Every action names the permission a subject must hold and, for checks
+ * against a specific record, the conditions under which that record is
+ * reachable. Any matching condition grants access; super admins bypass the
+ * rules entirely.
+ */
+
+export interface PolicySubject {
+  id: number;
+  role: string;
+  permissions: string[];
+  // Organizations the subject manages; null means unrestricted
+  organizationScope?: number[] | null;
+}
+
+export interface EventResource {
+  createdById: number;
+  organizationId: number | null;
+}
+
+export interface RegistrationResource {
+  userId: number;
+  event: EventResource;
+  user?: { organizationId: number | null };
+}
+
+export interface CertificateResource {
+  registration: RegistrationResource;
+}
+
+export interface UserResource {
+  id: number;
+  organizationId: number | null;
+}
+
+export interface OrganizationResource {
+  id: number;
+}
+
+type Condition<R> = (subject: PolicySubject, resource: R) => boolean;
+
+interface PolicyRule<R> {
+  permission?: string;
+  allow: Condition<R>[];
+}
+
+/**
+ * Checks whether an organization falls inside a subject's scope. Records
+ * without an organization are only reachable by unrestricted subjects.
+ */
+export function isInScope(organizationId: number | null | undefined, scope: number[] | null | undefined) {
+  if (scope === null) return true;
+  if (!scope || organizationId === null || organizationId === undefined) return false;
+  return scope.includes(organizationId);
+}
+
+// Conditions
+
+const hasRole = (...roles: string[]): Condition<unknown> =>
+  (subject) => roles.includes(subject.role);
+
+const hasPermission = (permission: string): Condition<unknown> =>
+  (subject) => subject.permissions.includes(permission);
+
+const ownsEvent: Condition<EventResource> = (subject, event) =>
+  event.createdById === subject.id;
+
+const managesEventOrganization: Condition<Pick<EventResource, "organizationId">> = (subject, event) =>
+  isInScope(event.organizationId, subject.organizationScope);
+
+const eventManager: Condition<EventResource>[] = [
+  ownsEvent,
+  hasRole("ministry_manager"),
+  managesEventOrganization,
+];
+
+const forRegistrationEvent = (conditions: Condition<EventResource>[]): Condition<RegistrationResource>[] =>
+  conditions.map(condition => (subject, registration) => condition(subject, registration.event));
+
+// Managers of the registrant's organization, e.g. a hospital substituting one of its doctors
+const managesRegistrantOrganization: Condition<RegistrationResource> = (subject, registration) =>
+  isInScope(registration.user?.organizationId, subject.organizationScope);
+
+const forCertificateEvent = (conditions: Condition<EventResource>[]): Condition<CertificateResource>[] =>
+  conditions.map(condition => (subject, certificate) => condition(subject, certificate.registration.event));
+
+// Rules
+
+export const policies = {
+  "event:create": {
+    permission: "event:create",
+    allow: [
+      (subject, event) => event.organizationId === null || managesEventOrganization(subject, event),
+    ],
+  } as PolicyRule<Pick<EventResource, "organizationId">>,
+
+  "event:update": {
+    permission: "event:update",
+    allow: eventManager,
+  } as PolicyRule<EventResource>,
+
+  "event:delete": {
+    permission: "event:delete",
+    allow: eventManager,
+  } as PolicyRule<EventResource>,
+
+  "event:publish": {
+    permission: "event:publish",
+    allow: eventManager,
+  } as PolicyRule<EventResource>,
+
+  // Deciding on registrations is reserved to the organizing side of an event
+  "event:approve": {
+    permission: "event:approve",
+    allow: [ownsEvent, managesEventOrganization],
+  } as PolicyRule<EventResource>,
+
+  // Door staff scan tickets and record attendance for events they help run
+  "event:check_in": {
+    permission: "event:check_in",
+    allow: eventManager,
+  } as PolicyRule<EventResource>,
+
+  // Approvers elsewhere in the hierarchy may list registrations, but only see
+  // registrants from their own organizations
+  "registration:read": {
+    allow: [ownsEvent, managesEventOrganization, hasPermission("event:approve"), hasPermission("registration:transfer")],
+  } as PolicyRule<EventResource>,
+
+  "registration:update": {
+    permission: "event:approve",
+    allow: forRegistrationEvent([ownsEvent, managesEventOrganization]),
+  } as PolicyRule<RegistrationResource>,
+
+  "registration:cancel": {
+    allow: [
+      (subject, registration) => registration.userId === subject.id,
+      (subject, registration) =>
+        hasPermission("event:approve")(subject, registration) &&
+        forRegistrationEvent([ownsEvent, managesEventOrganization]).some(condition => condition(subject, registration)),
+      (subject, registration) =>
+        hasPermission("registration:transfer")(subject, registration) && managesRegistrantOrganization(subject, registration),
+    ],
+  } as PolicyRule<RegistrationResource>,
+
+  "registration:transfer": {
+    permission: "registration:transfer",
+    allow: [managesRegistrantOrganization, ...forRegistrationEvent([ownsEvent, managesEventOrganization])],
+  } as PolicyRule<RegistrationResource>,
+
+  "media:upload": {
+    permission: "media:upload",
+    allow: eventManager,
+  } as PolicyRule<EventResource>,
+
+  "certificate:generate": {
+    permission: "certificate:generate",
+    allow: forRegistrationEvent(eventManager),
+  } as PolicyRule<RegistrationResource>,
+
+  // Issuing certificates in bulk to everyone who qualifies for an event
+  "certificate:issue": {
+    permission: "certificate:generate",
+    allow: eventManager,
+  } as PolicyRule<EventResource>,
+
+  "certificate:read": {
+    permission: "certificate:read",
+    allow: [
+      (subject, certificate) => certificate.registration.userId === subject.id,
+      ...forCertificateEvent(eventManager),
+    ],
+  } as PolicyRule<CertificateResource>,
+
+  "certificate:revoke": {
+    permission: "certificate:revoke",
+    allow: forCertificateEvent(eventManager),
+  } as PolicyRule<CertificateResource>,
+
+  // Correcting the holder's name on an issued certificate
+  "certificate:amend": {
+    permission: "certificate:generate",
+    allow: forCertificateEvent(eventManager),
+  } as PolicyRule<CertificateResource>,
+
+  "user:read": {
+    allow: [
+      (subject, user) => user.id === subject.id,
+      (subject, user) => hasPermission("user:read")(subject, user) && isInScope(user.organizationId, subject.organizationScope),
+    ],
+  } as PolicyRule<UserResource>,
+
+  "user:update": {
+    allow: [
+      (subject, user) => user.id === subject.id,
+      (subject, user) => hasPermission("user:update")(subject, user) && isInScope(user.organizationId, subject.organizationScope),
+    ],
+  } as PolicyRule<UserResource>,
+
+  "organization:manage": {
+    permission: "organization:manage",
+    allow: [
+      (subject, organization) => isInScope(organization.id, subject.organizationScope),
+    ],
+  } as PolicyRule<OrganizationResource>,
+};
+
+export type PolicyAction = keyof typeof policies;
+
+type PolicyResource<A extends PolicyAction> =
+  (typeof policies)[A] extends PolicyRule<infer R> ? R : never;
+
+export function isPolicyAction(action: string): action is PolicyAction {
+  return Object.prototype.hasOwnProperty.call(policies, action);
+}
+
+/**
+ * Evaluates an action for a subject. Without a resource only the required
+ * permission (or the permission named like the action) is checked, which
+ * answers "can this user do this at all?".
+ */
+export function can<A extends PolicyAction>(
+  subject: PolicySubject | null | undefined,
+  action: A,
+  resource?: PolicyResource<A>
+): boolean {
+  if (!subject) return false;
+
+  // Super admins always have all permissions
+  if (subject.role === "super_admin") return true;
+
+  const rule = policies[action] as PolicyRule<PolicyResource<A>>;
+
+  if (resource === undefined) {
+    return subject.permissions.includes(rule.permission ?? action);
+  }
+
+  if (rule.permission && !subject.permissions.includes(rule.permission)) {
+    return false;
+  }
+
+  return rule.allow.some(condition => condition(subject, resource));
+}
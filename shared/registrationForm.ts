@@ -0,0 +1,142 @@
+/**
+ * Per-event registration questions shared by the API and the client.
+ *
+ * Organizers describe the questions as a list of fields stored on the event;
+ * the same definition drives the form participants fill in and the zod schema
+ * their answers are validated against on both sides.
+ */
+import { z } from "zod";
+
+export const REGISTRATION_FIELD_TYPES = [
+  "text",
+  "textarea",
+  "number",
+  "email",
+  "date",
+  "select",
+  "multiselect",
+  "checkbox",
+] as const;
+
+export type RegistrationFieldType = typeof REGISTRATION_FIELD_TYPES[number];
+
+// Types whose answer is picked from the field's options
+export const CHOICE_FIELD_TYPES: RegistrationFieldType[] = ["select", "multiselect"];
+
+export const registrationFieldSchema = z.object({
+  // Stable key the answer is stored under
+  id: z.string().regex(/^[a-z][a-z0-9_]{0,49}$/, "Field keys use lowercase letters, digits and underscores"),
+  label: z.string().trim().min(1, "Label is required").max(200),
+  type: z.enum(REGISTRATION_FIELD_TYPES),
+  required: z.boolean().default(false),
+  helpText: z.string().max(500).optional(),
+  options: z.array(z.string().trim().min(1).max(200)).optional(),
+  // Bounds of a number, or length bounds of a text answer
+  min: z.number().optional(),
+  max: z.number().optional(),
+  // Regular expression a text answer must match, e.g. a license number format
+  pattern: z.string().max(200).optional(),
+})
+.refine(field => !CHOICE_FIELD_TYPES.includes(field.type) || (field.options?.length ?? 0) > 0, {
+  message: "Choice fields need at least one option",
+  path: ["options"],
+})
+.refine(field => field.min === undefined || field.max === undefined || field.min <= field.max, {
+  message: "Minimum cannot be greater than maximum",
+  path: ["min"],
+})
+.refine(field => {
+  if (!field.pattern) return true;
+  try {
+    new RegExp(field.pattern);
+    return true;
+  } catch (error) {
+    return false;
+  }
+}, {
+  message: "Invalid pattern",
+  path: ["pattern"],
+});
+
+export const registrationFormSchema = z.array(registrationFieldSchema)
+  .max(50)
+  .refine(fields => new Set(fields.map(field => field.id)).size === fields.length, {
+    message: "Field keys must be unique",
+  });
+
+export type RegistrationField = z.infer<typeof registrationFieldSchema>;
+
+// Stored answers, whatever form they were given for
+export const registrationAnswersSchema = z.record(
+  z.union([z.string(), z.number(), z.boolean(), z.array(z.string())])
+);
+
+export type RegistrationAnswerValue = string | number | boolean | string[];
+export type RegistrationAnswers = z.infer<typeof registrationAnswersSchema>;
+
+function textAnswerSchema(field: RegistrationField) {
+  let schema = field.type === "email" ? z.string().trim().email() : z.string().trim();
+
+  if (field.min !== undefined) schema = schema.min(field.min);
+  if (field.max !== undefined) schema = schema.max(field.max);
+  if (field.pattern) schema = schema.regex(new RegExp(field.pattern), `${field.label} has an invalid format`);
+  if (field.required) schema = schema.min(1, `${field.label} is required`);
+
+  return schema;
+}
+
+function answerSchema(field: RegistrationField): z.ZodTypeAny {
+  switch (field.type) {
+    case "number": {
+      let schema = z.coerce.number();
+      if (field.min !== undefined) schema = schema.min(field.min);
+      if (field.max !== undefined) schema = schema.max(field.max);
+      return schema;
+    }
+    case "date":
+      return z.string().regex(/^\d{4}-\d{2}-\d{2}$/, `${field.label} must be a date`);
+    case "select":
+      return z.enum(field.options as [string, ...string[]]);
+    case "multiselect": {
+      let schema = z.array(z.enum(field.options as [string, ...string[]]));
+      if (field.required) schema = schema.min(1, `${field.label} is required`);
+      return schema;
+    }
+    case "checkbox":
+      // A required checkbox is a consent that has to be given
+      return field.required
+        ? z.literal(true, { errorMap: () => ({ message: `${field.label} is required` }) })
+        : z.boolean();
+    default:
+      return textAnswerSchema(field);
+  }
+}
+
+/**
+ * Builds the zod schema answers to an event's registration form must satisfy.
+ * Unknown keys are stripped and empty optional answers are dropped.
+ * @param fields The event's registration form
+ */
+export function buildRegistrationAnswersSchema(fields: RegistrationField[]) {
+  const shape: Record<string, z.ZodTypeAny> = {};
+
+  for (const field of fields) {
+    const schema = answerSchema(field);
+    shape[field.id] = z.preprocess(
+      value => (value === "" || value === null ? undefined : value),
+      field.required ? schema : schema.optional()
+    );
+  }
+
+  return z.object(shape);
+}
+
+/**
+ * Formats an answer for display or export
+ */
+export function formatRegistrationAnswer(value: RegistrationAnswerValue | undefined): string {
+  if (value === undefined || value === null) return "";
+  if (Array.isArray(value)) return value.join("; ");
+  if (typeof value === "boolean") return value ? "Yes" : "No";
+  return String(value);
+}
@@ -8,11 +8,33 @@ import {
   pgEnum,
   json,
   uniqueIndex,
+  index,
+  unique,
   varchar,
+  real,
+  type AnyPgColumn,
 } from "drizzle-orm/pg-core";
 import { createInsertSchema, createSelectSchema } from "drizzle-zod";
 import { z } from "zod";
 import { relations } from "drizzle-orm";
+import {
+  registrationAnswersSchema,
+  registrationFormSchema,
+  type RegistrationAnswers,
+  type RegistrationField,
+} from "./registrationForm";
+import { eligibilityRulesSchema, type EligibilityRules } from "./eligibility";
+import type { CertificateIssuanceResult, CertificateIssuanceSummary } from "./certificateRules";
+import { certificateLayoutsSchema, type CertificateLayouts } from "./certificateTemplate";
+import { cmeCreditsSchema } from "./cmeCredits";
+import {
+  ASSESSMENT_KINDS,
+  assessmentQuestionsSchema,
+  refineAssessment,
+  type AssessmentAnswers,
+  type AssessmentQuestion,
+} from "./assessments";
+import { MAX_SERIES_OCCURRENCES, recurrenceRuleSchema } from "./eventSeries";
 
 // ENUMS
 
@@ -50,12 +72,41 @@ export const eventStatusEnum = pgEnum("event_status", [
   "cancelled",
 ]);
 
+export const organizationTypeEnum = pgEnum("organization_type", [
+  "ministry",
+  "province",
+  "hospital",
+  "department",
+]);
+
+export const certificateChangeEnum = pgEnum("certificate_change", [
+  "issued",
+  "reissued",
+  "amended",
+  "revoked",
+]);
+
+export const certificateIssuanceTriggerEnum = pgEnum("certificate_issuance_trigger", [
+  "event_completed",
+  "manual",
+]);
+
+export const certificatePageSizeEnum = pgEnum("certificate_page_size", ["A4", "LETTER"]);
+
+export const certificateOrientationEnum = pgEnum("certificate_orientation", ["landscape", "portrait"]);
+
+export const assessmentKindEnum = pgEnum("assessment_kind", ASSESSMENT_KINDS);
+
+export const permissionEffectEnum = pgEnum("permission_effect", ["grant", "deny"]);
+
 export const languageEnum = pgEnum("language", ["en", "fr", "ar"]);
 
 export const registrationStatusEnum = pgEnum("registration_status", [
   "pending",
   "approved",
   "rejected",
+  "waitlisted",
+  "cancelled",
 ]);
 
 export const logActionEnum = pgEnum("log_action", [
@@ -70,10 +121,46 @@ export const logActionEnum = pgEnum("log_action", [
   "generate_certificate",
   "revoke_certificate",
   "verify_certificate",
+  "login_failed",
+  "account_locked",
+  "account_unlocked",
+  "cancel_registration",
+  "transfer_registration",
+  "check_in",
+  "check_out",
+]);
+
+export const authAttemptTypeEnum = pgEnum("auth_attempt_type", [
+  "login",
+  "two_factor",
+  "password_reset",
+  "verification_email",
 ]);
 
 // TABLES
 
+// Organizations (ministry → province → hospital → department)
+export const organizations = pgTable("organizations", {
+  id: serial("id").primaryKey(),
+  name: text("name").notNull(),
+  type: organizationTypeEnum("type").notNull(),
+  code: varchar("code", { length: 50 }).unique(),
+  parentId: integer("parent_id").references((): AnyPgColumn => organizations.id, { onDelete: "restrict" }),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
+export const organizationsRelations = relations(organizations, ({ one, many }) => ({
+  parent: one(organizations, {
+    fields: [organizations.parentId],
+    references: [organizations.id],
+    relationName: "organization_parent",
+  }),
+  children: many(organizations, { relationName: "organization_parent" }),
+  users: many(users),
+  events: many(events),
+}));
+
 // Users & Authentication
 export const users = pgTable(
   "users",
@@ -85,14 +172,29 @@ export const users = pgTable(
     fullName: text("full_name").notNull(),
     role: userRoleEnum("role").notNull().default("guest"),
     organization: text("organization"),
+    organizationId: integer("organization_id").references(() => organizations.id, { onDelete: "set null" }),
     position: text("position"),
     verified: boolean("verified").notNull().default(false),
+    // SHA-256 of the emailed token
     verificationToken: text("verification_token"),
+    verificationExpires: timestamp("verification_expires"),
     passwordResetToken: text("password_reset_token"),
     passwordResetExpires: timestamp("password_reset_expires"),
     preferredLanguage: languageEnum("preferred_language").default("en"),
     profileImage: text("profile_image"),
     active: boolean("active").notNull().default(true),
+    // Bumped to invalidate every token issued to the user
+    tokenVersion: integer("token_version").notNull().default(0),
+    passwordChangedAt: timestamp("password_changed_at").defaultNow().notNull(),
+    twoFactorEnabled: boolean("two_factor_enabled").notNull().default(false),
+    twoFactorSecret: text("two_factor_secret"),
+    // Time step of the last accepted code, to reject replays
+    twoFactorLastStep: integer("two_factor_last_step"),
+    // Consecutive failed sign-ins; reset by a successful login or an unlock
+    failedLoginAttempts: integer("failed_login_attempts").notNull().default(0),
+    lockedUntil: timestamp("locked_until"),
+    // SHA-256 of the token in the user's calendar feed URL; null when they have no feed
+    calendarFeedToken: text("calendar_feed_token").unique(),
     createdAt: timestamp("created_at").defaultNow().notNull(),
     updatedAt: timestamp("updated_at").defaultNow().notNull(),
   },
@@ -103,10 +205,19 @@ export const users = pgTable(
   }
 );
 
-export const usersRelations = relations(users, ({ many }) => ({
+export const usersRelations = relations(users, ({ one, many }) => ({
+  organizationUnit: one(organizations, {
+    fields: [users.organizationId],
+    references: [organizations.id],
+  }),
   permissions: many(userPermissions),
+  sessions: many(sessions),
+  recoveryCodes: many(recoveryCodes),
+  authAttempts: many(authAttempts),
+  passwordHistory: many(passwordHistory),
   eventRegistrations: many(eventRegistrations),
   certificates: many(certificates),
+  cmeCreditEntries: many(cmeCreditEntries),
   activityLogs: many(activityLogs),
 }));
 
@@ -120,20 +231,79 @@ export const permissions = pgTable("permissions", {
 
 export const permissionsRelations = relations(permissions, ({ many }) => ({
   userPermissions: many(userPermissions),
+  rolePermissions: many(rolePermissions),
 }));
 
-export const userPermissions = pgTable("user_permissions", {
+// Role templates hold the default permission set for each user role
+export const roles = pgTable("roles", {
   id: serial("id").primaryKey(),
-  userId: integer("user_id")
-    .notNull()
-    .references(() => users.id, { onDelete: "cascade" }),
-  permissionId: integer("permission_id")
-    .notNull()
-    .references(() => permissions.id, { onDelete: "cascade" }),
+  name: userRoleEnum("name").notNull().unique(),
+  description: text("description"),
+  requireTwoFactor: boolean("require_two_factor").notNull().default(false),
+  // Passwords older than this must be changed at the next login; null never expires
+  passwordMaxAgeDays: integer("password_max_age_days"),
+  // CME credits members must earn each calendar year; null has no requirement
+  cmeAnnualRequirement: real("cme_annual_requirement"),
   createdAt: timestamp("created_at").defaultNow().notNull(),
   updatedAt: timestamp("updated_at").defaultNow().notNull(),
 });
 
+export const rolesRelations = relations(roles, ({ many }) => ({
+  permissions: many(rolePermissions),
+}));
+
+export const rolePermissions = pgTable(
+  "role_permissions",
+  {
+    id: serial("id").primaryKey(),
+    roleId: integer("role_id")
+      .notNull()
+      .references(() => roles.id, { onDelete: "cascade" }),
+    permissionId: integer("permission_id")
+      .notNull()
+      .references(() => permissions.id, { onDelete: "cascade" }),
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+  },
+  (table) => {
+    return {
+      rolePermissionIdx: uniqueIndex("role_permission_idx").on(table.roleId, table.permissionId),
+    };
+  }
+);
+
+export const rolePermissionsRelations = relations(rolePermissions, ({ one }) => ({
+  role: one(roles, {
+    fields: [rolePermissions.roleId],
+    references: [roles.id],
+  }),
+  permission: one(permissions, {
+    fields: [rolePermissions.permissionId],
+    references: [permissions.id],
+  }),
+}));
+
+// Per-user overrides on top of the role template
+export const userPermissions = pgTable(
+  "user_permissions",
+  {
+    id: serial("id").primaryKey(),
+    userId: integer("user_id")
+      .notNull()
+      .references(() => users.id, { onDelete: "cascade" }),
+    permissionId: integer("permission_id")
+      .notNull()
+      .references(() => permissions.id, { onDelete: "cascade" }),
+    effect: permissionEffectEnum("effect").notNull().default("grant"),
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+    updatedAt: timestamp("updated_at").defaultNow().notNull(),
+  },
+  (table) => {
+    return {
+      userPermissionIdx: uniqueIndex("user_permission_idx").on(table.userId, table.permissionId),
+    };
+  }
+);
+
 export const userPermissionsRelations = relations(userPermissions, ({ one }) => ({
   user: one(users, {
     fields: [userPermissions.userId],
@@ -145,7 +315,130 @@ export const userPermissionsRelations = relations(userPermissions, ({ one }) =>
   }),
 }));
 
+// One-time recovery codes for two-factor authentication
+export const recoveryCodes = pgTable("recovery_codes", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id")
+    .notNull()
+    .references(() => users.id, { onDelete: "cascade" }),
+  codeHash: text("code_hash").notNull(),
+  usedAt: timestamp("used_at"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+export const recoveryCodesRelations = relations(recoveryCodes, ({ one }) => ({
+  user: one(users, {
+    fields: [recoveryCodes.userId],
+    references: [users.id],
+  }),
+}));
+
+// Sessions: one per login. Refresh tokens rotate within a session, so a
+// session is also the family used for refresh-token reuse detection.
+export const sessions = pgTable("sessions", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id")
+    .notNull()
+    .references(() => users.id, { onDelete: "cascade" }),
+  device: text("device"),
+  ipAddress: text("ip_address"),
+  userAgent: text("user_agent"),
+  expiresAt: timestamp("expires_at").notNull(),
+  lastUsedAt: timestamp("last_used_at").defaultNow().notNull(),
+  revokedAt: timestamp("revoked_at"),
+  revokedReason: text("revoked_reason"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+export const sessionsRelations = relations(sessions, ({ one, many }) => ({
+  user: one(users, {
+    fields: [sessions.userId],
+    references: [users.id],
+  }),
+  refreshTokens: many(refreshTokens),
+}));
+
+export const refreshTokens = pgTable("refresh_tokens", {
+  id: serial("id").primaryKey(),
+  sessionId: integer("session_id")
+    .notNull()
+    .references(() => sessions.id, { onDelete: "cascade" }),
+  tokenHash: text("token_hash").notNull().unique(),
+  // Set when the token is exchanged; presenting it again means it leaked
+  usedAt: timestamp("used_at"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+export const refreshTokensRelations = relations(refreshTokens, ({ one }) => ({
+  session: one(sessions, {
+    fields: [refreshTokens.sessionId],
+    references: [sessions.id],
+  }),
+}));
+
+// Previous password hashes, checked to prevent reuse
+export const passwordHistory = pgTable("password_history", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id")
+    .notNull()
+    .references(() => users.id, { onDelete: "cascade" }),
+  passwordHash: text("password_hash").notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+export const passwordHistoryRelations = relations(passwordHistory, ({ one }) => ({
+  user: one(users, {
+    fields: [passwordHistory.userId],
+    references: [users.id],
+  }),
+}));
+
+// Sign-in and password reset attempts, counted per account and per IP
+export const authAttempts = pgTable("auth_attempts", {
+  id: serial("id").primaryKey(),
+  type: authAttemptTypeEnum("type").notNull(),
+  email: text("email"),
+  userId: integer("user_id").references(() => users.id, { onDelete: "cascade" }),
+  ipAddress: text("ip_address"),
+  successful: boolean("successful").notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+export const authAttemptsRelations = relations(authAttempts, ({ one }) => ({
+  user: one(users, {
+    fields: [authAttempts.userId],
+    references: [users.id],
+  }),
+}));
+
 // Events
+// Recurring events, see shared/eventSeries.ts. Each occurrence is an event of
+// its own; speakers and documents linked to the series are shared by all of them.
+export const eventSeries = pgTable("event_series", {
+  id: serial("id").primaryKey(),
+  title: text("title").notNull(),
+  // RRULE the occurrences were generated from
+  recurrenceRule: text("recurrence_rule").notNull(),
+  // Occurrences a participant must qualify for to earn the series certificate; null when none is issued
+  requiredOccurrences: integer("required_occurrences"),
+  createdById: integer("created_by_id")
+    .notNull()
+    .references(() => users.id),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
+export const eventSeriesRelations = relations(eventSeries, ({ one, many }) => ({
+  createdBy: one(users, {
+    fields: [eventSeries.createdById],
+    references: [users.id],
+  }),
+  events: many(events),
+  eventSpeakers: many(eventSpeakers),
+  eventDocuments: many(eventDocuments),
+  certificates: many(certificates),
+}));
+
 export const events = pgTable("events", {
   id: serial("id").primaryKey(),
   title: text("title").notNull(),
@@ -163,6 +456,25 @@ export const events = pgTable("events", {
   status: eventStatusEnum("status").notNull().default("draft"),
   coverImage: text("cover_image"),
   autoApproveRegistrations: boolean("auto_approve_registrations").default(false),
+  // How long a participant promoted from the waitlist has to confirm the freed seat
+  waitlistOfferHours: integer("waitlist_offer_hours").notNull().default(48),
+  // Participants can cancel their own registration until this many hours before the start
+  cancellationCutoffHours: integer("cancellation_cutoff_hours").notNull().default(24),
+  // Questions participants answer when registering, see shared/registrationForm.ts
+  registrationForm: json("registration_form").$type<RegistrationField[]>().notNull().default([]),
+  // Who may register, see shared/eligibility.ts
+  eligibilityRules: json("eligibility_rules").$type<EligibilityRules>().notNull().default({}),
+  // Share of the sessions a participant must attend to earn a certificate
+  minAttendancePercent: integer("min_attendance_percent").notNull().default(80),
+  // Issue certificates to everyone who qualifies once the event is marked completed
+  autoIssueCertificates: boolean("auto_issue_certificates").notNull().default(true),
+  // Overrides the template assigned to the event type, see certificateTemplates
+  certificateTemplateId: integer("certificate_template_id").references((): AnyPgColumn => certificateTemplates.id, { onDelete: "set null" }),
+  // CME credits for completing the event, on top of those of the sessions attended
+  cmeCredits: real("cme_credits").notNull().default(0),
+  // Set on the occurrences of a recurring series
+  seriesId: integer("series_id").references(() => eventSeries.id, { onDelete: "set null" }),
+  organizationId: integer("organization_id").references(() => organizations.id, { onDelete: "set null" }),
   createdById: integer("created_by_id")
     .notNull()
     .references(() => users.id),
@@ -175,10 +487,24 @@ export const eventsRelations = relations(events, ({ one, many }) => ({
     fields: [events.createdById],
     references: [users.id],
   }),
+  organization: one(organizations, {
+    fields: [events.organizationId],
+    references: [organizations.id],
+  }),
+  certificateTemplate: one(certificateTemplates, {
+    fields: [events.certificateTemplateId],
+    references: [certificateTemplates.id],
+  }),
+  series: one(eventSeries, {
+    fields: [events.seriesId],
+    references: [eventSeries.id],
+  }),
   eventSchedules: many(eventSchedules),
   eventRegistrations: many(eventRegistrations),
   eventDocuments: many(eventDocuments),
   eventSpeakers: many(eventSpeakers),
+  certificateIssuanceReports: many(certificateIssuanceReports),
+  assessments: many(assessments),
 }));
 
 export const eventSchedules = pgTable("event_schedules", {
@@ -193,6 +519,8 @@ export const eventSchedules = pgTable("event_schedules", {
   startTime: text("start_time").notNull(),
   endTime: text("end_time").notNull(),
   location: text("location"),
+  // CME credits for attending the session
+  cmeCredits: real("cme_credits").notNull().default(0),
   createdAt: timestamp("created_at").defaultNow().notNull(),
   updatedAt: timestamp("updated_at").defaultNow().notNull(),
 });
@@ -218,6 +546,8 @@ export const eventSpeakers = pgTable("event_speakers", {
   organization: text("organization"),
   bio: text("bio"),
   photo: text("photo"),
+  // Shared with every occurrence of the series
+  seriesId: integer("series_id").references(() => eventSeries.id, { onDelete: "set null" }),
   createdAt: timestamp("created_at").defaultNow().notNull(),
   updatedAt: timestamp("updated_at").defaultNow().notNull(),
 });
@@ -227,6 +557,10 @@ export const eventSpeakersRelations = relations(eventSpeakers, ({ one, many }) =
     fields: [eventSpeakers.eventId],
     references: [events.id],
   }),
+  series: one(eventSeries, {
+    fields: [eventSpeakers.seriesId],
+    references: [eventSeries.id],
+  }),
   schedules: many(eventSchedules),
 }));
 
@@ -242,6 +576,14 @@ export const eventRegistrations = pgTable("event_registrations", {
   registrationDate: timestamp("registration_date").defaultNow().notNull(),
   attendanceConfirmed: boolean("attendance_confirmed").default(false),
   notes: text("notes"),
+  // Answers to the event's registration form, keyed by field id
+  answers: json("answers").$type<RegistrationAnswers>(),
+  // Queue order while waitlisted, 1 being next in line
+  waitlistPosition: integer("waitlist_position"),
+  // Set while a freed seat is held for a waitlisted participant to confirm
+  offerExpiresAt: timestamp("offer_expires_at"),
+  cancelledAt: timestamp("cancelled_at"),
+  cancellationReason: text("cancellation_reason"),
   createdAt: timestamp("created_at").defaultNow().notNull(),
   updatedAt: timestamp("updated_at").defaultNow().notNull(),
 });
@@ -256,6 +598,80 @@ export const eventRegistrationsRelations = relations(eventRegistrations, ({ one,
     references: [users.id],
   }),
   certificates: many(certificates),
+  transfers: many(registrationTransfers),
+  attendanceRecords: many(attendanceRecords),
+  assessmentResponses: many(assessmentResponses),
+}));
+
+// Presence of a registration at one session, recorded by scanning its ticket.
+// Events without a schedule are attended as a whole, with no session.
+export const attendanceRecords = pgTable(
+  "attendance_records",
+  {
+    id: serial("id").primaryKey(),
+    registrationId: integer("registration_id")
+      .notNull()
+      .references(() => eventRegistrations.id, { onDelete: "cascade" }),
+    scheduleId: integer("schedule_id").references(() => eventSchedules.id, { onDelete: "cascade" }),
+    checkedInAt: timestamp("checked_in_at").notNull(),
+    checkedInById: integer("checked_in_by_id").references(() => users.id),
+    checkedOutAt: timestamp("checked_out_at"),
+    checkedOutById: integer("checked_out_by_id").references(() => users.id),
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+    updatedAt: timestamp("updated_at").defaultNow().notNull(),
+  },
+  (table) => {
+    return {
+      registrationScheduleIdx: unique("attendance_registration_schedule_idx")
+        .on(table.registrationId, table.scheduleId)
+        .nullsNotDistinct(),
+    };
+  }
+);
+
+export const attendanceRecordsRelations = relations(attendanceRecords, ({ one }) => ({
+  registration: one(eventRegistrations, {
+    fields: [attendanceRecords.registrationId],
+    references: [eventRegistrations.id],
+  }),
+  schedule: one(eventSchedules, {
+    fields: [attendanceRecords.scheduleId],
+    references: [eventSchedules.id],
+  }),
+}));
+
+// Substitutions of one participant for another, kept as an audit trail
+export const registrationTransfers = pgTable("registration_transfers", {
+  id: serial("id").primaryKey(),
+  registrationId: integer("registration_id")
+    .notNull()
+    .references(() => eventRegistrations.id, { onDelete: "cascade" }),
+  fromUserId: integer("from_user_id")
+    .notNull()
+    .references(() => users.id),
+  toUserId: integer("to_user_id")
+    .notNull()
+    .references(() => users.id),
+  transferredById: integer("transferred_by_id")
+    .notNull()
+    .references(() => users.id),
+  reason: text("reason"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+export const registrationTransfersRelations = relations(registrationTransfers, ({ one }) => ({
+  registration: one(eventRegistrations, {
+    fields: [registrationTransfers.registrationId],
+    references: [eventRegistrations.id],
+  }),
+  fromUser: one(users, {
+    fields: [registrationTransfers.fromUserId],
+    references: [users.id],
+  }),
+  toUser: one(users, {
+    fields: [registrationTransfers.toUserId],
+    references: [users.id],
+  }),
 }));
 
 // Document Library
@@ -269,6 +685,8 @@ export const eventDocuments = pgTable("event_documents", {
   fileUrl: text("file_url").notNull(),
   fileType: text("file_type").notNull(),
   fileSize: integer("file_size").notNull(),
+  // Shared with every occurrence of the series
+  seriesId: integer("series_id").references(() => eventSeries.id, { onDelete: "set null" }),
   uploadedById: integer("uploaded_by_id")
     .notNull()
     .references(() => users.id),
@@ -281,6 +699,10 @@ export const eventDocumentsRelations = relations(eventDocuments, ({ one }) => ({
     fields: [eventDocuments.eventId],
     references: [events.id],
   }),
+  series: one(eventSeries, {
+    fields: [eventDocuments.seriesId],
+    references: [eventSeries.id],
+  }),
   uploadedBy: one(users, {
     fields: [eventDocuments.uploadedById],
     references: [users.id],
@@ -295,6 +717,17 @@ export const certificates = pgTable("certificates", {
     .references(() => eventRegistrations.id, { onDelete: "cascade" }),
   certificateNumber: varchar("certificate_number", { length: 50 }).notNull().unique(),
   qrCode: text("qr_code").notNull(),
+  // Token encoded in the QR code, see shared/certificateSignature.ts; null for certificates issued before signing
+  signature: text("signature"),
+  // Name printed on the certificate, which may differ from the profile after a correction; null for older certificates
+  holderName: text("holder_name"),
+  // Bumped on every reissue or amendment, see certificateVersions
+  version: integer("version").notNull().default(1),
+  // CME credits awarded with the certificate, see shared/cmeCredits.ts
+  cmeCredits: real("cme_credits").notNull().default(0),
+  // Set on a series certificate, which covers the occurrences attended and is
+  // kept on the registration of the latest of them
+  seriesId: integer("series_id").references(() => eventSeries.id),
   issuedDate: timestamp("issued_date").defaultNow().notNull(),
   isRevoked: boolean("is_revoked").default(false),
   revokedReason: text("revoked_reason"),
@@ -304,17 +737,251 @@ export const certificates = pgTable("certificates", {
   updatedAt: timestamp("updated_at").defaultNow().notNull(),
 });
 
-export const certificatesRelations = relations(certificates, ({ one }) => ({
+export const certificatesRelations = relations(certificates, ({ one, many }) => ({
   registration: one(eventRegistrations, {
     fields: [certificates.registrationId],
     references: [eventRegistrations.id],
   }),
+  series: one(eventSeries, {
+    fields: [certificates.seriesId],
+    references: [eventSeries.id],
+  }),
+  versions: many(certificateVersions),
+  cmeCreditEntries: many(cmeCreditEntries),
   revokedBy: one(users, {
     fields: [certificates.revokedById],
     references: [users.id],
   }),
 }));
 
+// Append-only history of a certificate: a snapshot is recorded whenever it is
+// issued, reissued, amended or revoked. Revoked snapshots feed the public
+// revocation list, so numbers replaced by a reissue stay listed.
+export const certificateVersions = pgTable(
+  "certificate_versions",
+  {
+    id: serial("id").primaryKey(),
+    certificateId: integer("certificate_id")
+      .notNull()
+      .references(() => certificates.id, { onDelete: "cascade" }),
+    version: integer("version").notNull(),
+    change: certificateChangeEnum("change").notNull(),
+    certificateNumber: varchar("certificate_number", { length: 50 }).notNull(),
+    holderName: text("holder_name"),
+    signature: text("signature"),
+    issuedDate: timestamp("issued_date").notNull(),
+    reason: text("reason"),
+    changedById: integer("changed_by_id").references(() => users.id, { onDelete: "set null" }),
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+  },
+  (table) => {
+    return {
+      certificateNumberIdx: index("certificate_versions_certificate_number_idx").on(table.certificateNumber),
+      changeCreatedAtIdx: index("certificate_versions_change_created_at_idx").on(table.change, table.createdAt),
+    };
+  }
+);
+
+export const certificateVersionsRelations = relations(certificateVersions, ({ one }) => ({
+  certificate: one(certificates, {
+    fields: [certificateVersions.certificateId],
+    references: [certificates.id],
+  }),
+  changedBy: one(users, {
+    fields: [certificateVersions.changedById],
+    references: [users.id],
+  }),
+}));
+
+// CME credit ledger. Issuing a certificate adds its credits and revoking it adds
+// the opposite amount; entries are never updated. Credits count towards the year
+// of earnedOn, the end of the event.
+export const cmeCreditEntries = pgTable(
+  "cme_credit_entries",
+  {
+    id: serial("id").primaryKey(),
+    userId: integer("user_id")
+      .notNull()
+      .references(() => users.id, { onDelete: "cascade" }),
+    certificateId: integer("certificate_id").references(() => certificates.id, { onDelete: "set null" }),
+    eventId: integer("event_id").references(() => events.id, { onDelete: "set null" }),
+    credits: real("credits").notNull(),
+    description: text("description").notNull(),
+    earnedOn: timestamp("earned_on").notNull(),
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+  },
+  (table) => {
+    return {
+      userEarnedOnIdx: index("cme_credit_entries_user_earned_on_idx").on(table.userId, table.earnedOn),
+    };
+  }
+);
+
+export const cmeCreditEntriesRelations = relations(cmeCreditEntries, ({ one }) => ({
+  user: one(users, {
+    fields: [cmeCreditEntries.userId],
+    references: [users.id],
+  }),
+  certificate: one(certificates, {
+    fields: [cmeCreditEntries.certificateId],
+    references: [certificates.id],
+  }),
+  event: one(events, {
+    fields: [cmeCreditEntries.eventId],
+    references: [events.id],
+  }),
+}));
+
+// Key pairs certificates are signed with. Only the newest active key signs;
+// retired keys are kept so certificates they signed can still be verified.
+export const certificateSigningKeys = pgTable("certificate_signing_keys", {
+  id: serial("id").primaryKey(),
+  keyId: varchar("key_id", { length: 32 }).notNull().unique(),
+  // Public key as a JWK
+  publicKey: json("public_key").$type<JsonWebKey>().notNull(),
+  // PKCS#8 PEM
+  privateKey: text("private_key").notNull(),
+  isActive: boolean("is_active").notNull().default(true),
+  createdById: integer("created_by_id").references(() => users.id, { onDelete: "set null" }),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  retiredAt: timestamp("retired_at"),
+});
+
+export const certificateSigningKeysRelations = relations(certificateSigningKeys, ({ one }) => ({
+  createdBy: one(users, {
+    fields: [certificateSigningKeys.createdById],
+    references: [users.id],
+  }),
+}));
+
+// PDF certificate designs, see shared/certificateTemplate.ts. An event uses
+// its own template, else the one for its event type, else the default one.
+export const certificateTemplates = pgTable("certificate_templates", {
+  id: serial("id").primaryKey(),
+  name: text("name").notNull(),
+  eventType: eventTypeEnum("event_type"),
+  isDefault: boolean("is_default").notNull().default(false),
+  pageSize: certificatePageSizeEnum("page_size").notNull().default("A4"),
+  orientation: certificateOrientationEnum("orientation").notNull().default("landscape"),
+  backgroundImage: text("background_image"),
+  layouts: json("layouts").$type<CertificateLayouts>().notNull().default({}),
+  createdById: integer("created_by_id").references(() => users.id, { onDelete: "set null" }),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
+export const certificateTemplatesRelations = relations(certificateTemplates, ({ one, many }) => ({
+  createdBy: one(users, {
+    fields: [certificateTemplates.createdById],
+    references: [users.id],
+  }),
+  events: many(events),
+}));
+
+// Outcome of each bulk certificate issuance run, kept for the organizers
+export const certificateIssuanceReports = pgTable("certificate_issuance_reports", {
+  id: serial("id").primaryKey(),
+  eventId: integer("event_id")
+    .notNull()
+    .references(() => events.id, { onDelete: "cascade" }),
+  trigger: certificateIssuanceTriggerEnum("trigger").notNull(),
+  triggeredById: integer("triggered_by_id").references(() => users.id, { onDelete: "set null" }),
+  summary: json("summary").$type<CertificateIssuanceSummary>().notNull(),
+  results: json("results").$type<CertificateIssuanceResult[]>().notNull().default([]),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+export const certificateIssuanceReportsRelations = relations(certificateIssuanceReports, ({ one }) => ({
+  event: one(events, {
+    fields: [certificateIssuanceReports.eventId],
+    references: [events.id],
+  }),
+  triggeredBy: one(users, {
+    fields: [certificateIssuanceReports.triggeredById],
+    references: [users.id],
+  }),
+}));
+
+// Pre-tests, post-tests and evaluation surveys, see shared/assessments.ts
+export const assessments = pgTable("assessments", {
+  id: serial("id").primaryKey(),
+  eventId: integer("event_id")
+    .notNull()
+    .references(() => events.id, { onDelete: "cascade" }),
+  // The session the assessment is about; null for the event as a whole
+  scheduleId: integer("schedule_id").references(() => eventSchedules.id, { onDelete: "cascade" }),
+  kind: assessmentKindEnum("kind").notNull(),
+  title: text("title").notNull(),
+  description: text("description"),
+  questions: json("questions").$type<AssessmentQuestion[]>().notNull(),
+  // Percent a quiz response must reach to pass; null for surveys and unscored pre-tests
+  passingScore: integer("passing_score"),
+  // Passing it, or answering a survey, is a condition for the certificate
+  requiredForCertificate: boolean("required_for_certificate").notNull().default(false),
+  // null allows unlimited attempts
+  maxAttempts: integer("max_attempts").default(1),
+  // Participants only see published assessments
+  isPublished: boolean("is_published").notNull().default(false),
+  createdById: integer("created_by_id").references(() => users.id, { onDelete: "set null" }),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
+export const assessmentsRelations = relations(assessments, ({ one, many }) => ({
+  event: one(events, {
+    fields: [assessments.eventId],
+    references: [events.id],
+  }),
+  schedule: one(eventSchedules, {
+    fields: [assessments.scheduleId],
+    references: [eventSchedules.id],
+  }),
+  createdBy: one(users, {
+    fields: [assessments.createdById],
+    references: [users.id],
+  }),
+  responses: many(assessmentResponses),
+}));
+
+// One attempt at an assessment by a registered participant
+export const assessmentResponses = pgTable(
+  "assessment_responses",
+  {
+    id: serial("id").primaryKey(),
+    assessmentId: integer("assessment_id")
+      .notNull()
+      .references(() => assessments.id, { onDelete: "cascade" }),
+    registrationId: integer("registration_id")
+      .notNull()
+      .references(() => eventRegistrations.id, { onDelete: "cascade" }),
+    attempt: integer("attempt").notNull().default(1),
+    answers: json("answers").$type<AssessmentAnswers>().notNull(),
+    // Scores of quiz responses; null for surveys
+    score: integer("score"),
+    maxScore: integer("max_score"),
+    percent: integer("percent"),
+    passed: boolean("passed"),
+    submittedAt: timestamp("submitted_at").defaultNow().notNull(),
+  },
+  (table) => {
+    return {
+      assessmentRegistrationAttemptIdx: uniqueIndex("assessment_responses_assessment_registration_attempt_idx")
+        .on(table.assessmentId, table.registrationId, table.attempt),
+    };
+  }
+);
+
+export const assessmentResponsesRelations = relations(assessmentResponses, ({ one }) => ({
+  assessment: one(assessments, {
+    fields: [assessmentResponses.assessmentId],
+    references: [assessments.id],
+  }),
+  registration: one(eventRegistrations, {
+    fields: [assessmentResponses.registrationId],
+    references: [eventRegistrations.id],
+  }),
+}));
+
 // Notifications
 export const notifications = pgTable("notifications", {
   id: serial("id").primaryKey(),
@@ -359,6 +1026,22 @@ export const activityLogsRelations = relations(activityLogs, ({ one }) => ({
 
 // SCHEMAS
 
+// Organizations
+export const insertOrganizationSchema = createInsertSchema(organizations, {
+  name: (schema) => schema.min(2, "Name must be at least 2 characters"),
+})
+.omit({ 
+  id: true, 
+  createdAt: true, 
+  updatedAt: true 
+});
+
+// Permission overrides
+export const permissionOverrideSchema = z.object({
+  permissionId: z.number().int().positive(),
+  effect: z.enum(permissionEffectEnum.enumValues),
+});
+
 // Users & Authentication
 export const insertUserSchema = createInsertSchema(users, {
   username: (schema) => schema.min(3, "Username must be at least 3 characters"),
@@ -370,51 +1053,123 @@ export const insertUserSchema = createInsertSchema(users, {
   id: true, 
   verified: true, 
   verificationToken: true, 
+  verificationExpires: true,
   passwordResetToken: true, 
   passwordResetExpires: true,
   active: true,
+  tokenVersion: true,
+  passwordChangedAt: true,
+  twoFactorEnabled: true,
+  twoFactorSecret: true,
+  twoFactorLastStep: true,
+  failedLoginAttempts: true,
+  lockedUntil: true,
+  calendarFeedToken: true,
   createdAt: true,
   updatedAt: true 
 });
 
+// Self-registration; role and organization decide what a user may see, so only managers set them
+export const registerUserSchema = insertUserSchema.omit({
+  role: true,
+  organizationId: true,
+});
+
 export const loginSchema = z.object({
   email: z.string().email("Please enter a valid email"),
   password: z.string().min(1, "Password is required"),
 });
 
-export const updateUserSchema = createInsertSchema(users)
-.omit({ 
-  id: true, 
+// Fields managers may change on a user; tokens, two-factor and lockout state
+// only change through their own flows
+export const updateUserSchema = createInsertSchema(users, {
+  username: (schema) => schema.min(3, "Username must be at least 3 characters"),
+  email: (schema) => schema.email("Must provide a valid email"),
+  fullName: (schema) => schema.min(2, "Full name must be at least 2 characters"),
+})
+.pick({
+  username: true,
+  email: true,
   password: true,
-  createdAt: true,
-  updatedAt: true 
-});
+  fullName: true,
+  role: true,
+  organization: true,
+  organizationId: true,
+  position: true,
+  preferredLanguage: true,
+  profileImage: true,
+  verified: true,
+  active: true,
+})
+.partial();
+
+// Fields users may change on their own profile
+export const updateProfileSchema = createInsertSchema(users, {
+  fullName: (schema) => schema.min(2, "Full name must be at least 2 characters"),
+})
+.pick({
+  fullName: true,
+  organization: true,
+  position: true,
+  preferredLanguage: true,
+})
+.partial();
 
 // Events
 export const insertEventSchema = createInsertSchema(events, {
   title: (schema) => schema.min(5, "Title must be at least 5 characters"),
   description: (schema) => schema.min(10, "Description must be at least 10 characters"),
+  registrationForm: () => registrationFormSchema,
+  eligibilityRules: () => eligibilityRulesSchema,
+  minAttendancePercent: (schema) => schema.min(0).max(100),
+  cmeCredits: () => cmeCreditsSchema,
 })
 .omit({ 
   id: true, 
+  seriesId: true,
   createdAt: true, 
   updatedAt: true 
 });
 
-export const updateEventSchema = createInsertSchema(events)
+export const updateEventSchema = createInsertSchema(events, {
+  registrationForm: () => registrationFormSchema,
+  eligibilityRules: () => eligibilityRulesSchema,
+  minAttendancePercent: (schema) => schema.min(0).max(100),
+  cmeCredits: () => cmeCreditsSchema,
+})
 .omit({ 
   id: true,
+  seriesId: true,
   createdById: true,
   createdAt: true,
   updatedAt: true 
 });
 
+// Event series
+export const insertEventSeriesSchema = createInsertSchema(eventSeries, {
+  title: (schema) => schema.trim().min(5, "Title must be at least 5 characters"),
+  recurrenceRule: () => recurrenceRuleSchema,
+  requiredOccurrences: (schema) => schema.min(1).max(MAX_SERIES_OCCURRENCES),
+})
+.omit({
+  id: true,
+  createdById: true,
+  createdAt: true,
+  updatedAt: true
+});
+
 // Event Registration
-export const insertEventRegistrationSchema = createInsertSchema(eventRegistrations)
+export const insertEventRegistrationSchema = createInsertSchema(eventRegistrations, {
+  answers: () => registrationAnswersSchema,
+})
 .omit({ 
   id: true, 
   registrationDate: true,
   attendanceConfirmed: true,
+  waitlistPosition: true,
+  offerExpiresAt: true,
+  cancelledAt: true,
+  cancellationReason: true,
   createdAt: true, 
   updatedAt: true 
 });
@@ -422,6 +1177,7 @@ export const insertEventRegistrationSchema = createInsertSchema(eventRegistratio
 // Event Schedule
 export const insertEventScheduleSchema = createInsertSchema(eventSchedules, {
   title: (schema) => schema.min(3, "Title must be at least 3 characters"),
+  cmeCredits: () => cmeCreditsSchema,
 })
 .omit({ 
   id: true, 
@@ -456,6 +1212,11 @@ export const insertCertificateSchema = createInsertSchema(certificates)
   id: true, 
   certificateNumber: true,
   qrCode: true,
+  signature: true,
+  holderName: true,
+  version: true,
+  cmeCredits: true,
+  seriesId: true,
   issuedDate: true,
   isRevoked: true,
   revokedReason: true,
@@ -465,13 +1226,50 @@ export const insertCertificateSchema = createInsertSchema(certificates)
   updatedAt: true 
 });
 
+export const insertCertificateTemplateSchema = createInsertSchema(certificateTemplates, {
+  name: (schema) => schema.trim().min(2).max(200),
+  layouts: () => certificateLayoutsSchema,
+  backgroundImage: (schema) => schema.startsWith("/uploads/"),
+})
+.omit({
+  id: true,
+  createdById: true,
+  createdAt: true,
+  updatedAt: true
+});
+
+// Assessments
+export const insertAssessmentSchema = createInsertSchema(assessments, {
+  title: (schema) => schema.trim().min(3, "Title must be at least 3 characters").max(200),
+  questions: () => assessmentQuestionsSchema,
+  passingScore: (schema) => schema.min(0).max(100),
+  maxAttempts: (schema) => schema.min(1).max(20),
+})
+.omit({
+  id: true,
+  eventId: true,
+  createdById: true,
+  createdAt: true,
+  updatedAt: true
+})
+.superRefine(refineAssessment);
+
 // Types
+export type Organization = typeof organizations.$inferSelect;
+export type NewOrganization = z.infer<typeof insertOrganizationSchema>;
 export type User = typeof users.$inferSelect;
+export type Permission = typeof permissions.$inferSelect;
+export type Role = typeof roles.$inferSelect;
+export type Session = typeof sessions.$inferSelect;
+export type PermissionOverride = z.infer<typeof permissionOverrideSchema>;
 export type NewUser = z.infer<typeof insertUserSchema>;
+export type UpdateProfile = z.infer<typeof updateProfileSchema>;
+export type EventSeries = typeof eventSeries.$inferSelect;
 export type Event = typeof events.$inferSelect;
 export type NewEvent = z.infer<typeof insertEventSchema>;
 export type EventRegistration = typeof eventRegistrations.$inferSelect;
 export type NewEventRegistration = z.infer<typeof insertEventRegistrationSchema>;
+export type RegistrationTransfer = typeof registrationTransfers.$inferSelect;
 export type EventSchedule = typeof eventSchedules.$inferSelect;
 export type NewEventSchedule = z.infer<typeof insertEventScheduleSchema>;
 export type EventSpeaker = typeof eventSpeakers.$inferSelect;
@@ -480,5 +1278,15 @@ export type EventDocument = typeof eventDocuments.$inferSelect;
 export type NewEventDocument = z.infer<typeof insertEventDocumentSchema>;
 export type Certificate = typeof certificates.$inferSelect;
 export type NewCertificate = z.infer<typeof insertCertificateSchema>;
+export type AttendanceRecord = typeof attendanceRecords.$inferSelect;
+export type CertificateIssuanceReport = typeof certificateIssuanceReports.$inferSelect;
+export type CertificateTemplate = typeof certificateTemplates.$inferSelect;
+export type CertificateVersion = typeof certificateVersions.$inferSelect;
+export type CertificateSigningKey = typeof certificateSigningKeys.$inferSelect;
+export type CmeCreditEntry = typeof cmeCreditEntries.$inferSelect;
+export type Assessment = typeof assessments.$inferSelect;
+export type NewAssessment = z.infer<typeof insertAssessmentSchema>;
+export type AssessmentResponse = typeof assessmentResponses.$inferSelect;
+export type NewCertificateTemplate = z.infer<typeof insertCertificateTemplateSchema>;
 export type Notification = typeof notifications.$inferSelect;
 export type ActivityLog = typeof activityLogs.$inferSelect;